@@ -0,0 +1,37 @@
+import type { CodegenConfig } from '@graphql-codegen/cli';
+
+// Boulevard operations → typed documents. The Client and Admin APIs are
+// separate schemas, so each gets its own output.
+const plugins = ['typescript-operations', 'typed-document-node'];
+
+const pluginConfig = {
+  documentMode: 'string',
+  useTypeImports: true,
+  avoidOptionals: { field: true, inputValue: false, object: true },
+  scalars: {
+    Date: 'string',
+    DateTime: 'string',
+    Money: 'number',
+    QueryString: 'string',
+  },
+};
+
+const config: CodegenConfig = {
+  overwrite: true,
+  generates: {
+    'src/blvd/generated/client.ts': {
+      schema: 'src/blvd/schema/client.graphql',
+      documents: ['src/blvd/operations/*.graphql'],
+      plugins,
+      config: pluginConfig,
+    },
+    'src/blvd/generated/admin.ts': {
+      schema: 'src/blvd/schema/admin.graphql',
+      documents: ['src/blvd/operations/admin/*.graphql'],
+      plugins,
+      config: pluginConfig,
+    },
+  },
+};
+
+export default config;
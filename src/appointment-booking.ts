@@ -1,526 +1,104 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { z } from "zod";
-import fetch from "cross-fetch";
-import * as crypto from "crypto";
-// let envLoaded = false;
-// try {
-//   const dotenv = await import('dotenv');
-//   dotenv.config();
-//   envLoaded = true;
-// } catch {
-//   // console.log("dotenv not available; using Claude-provided environment");
-// }
-if (!process.env.URL_CLIENT ||
-    !process.env.URL_ADMIN ||
-    !process.env.BLVD_API_KEY ||
-    !process.env.BLVD_BUSINESS_ID ||
-    !process.env.BLVD_API_SECRET) {
-    const dotenv = await import('dotenv');
-    dotenv.config();
-}
-const { URL_CLIENT, URL_ADMIN, BLVD_API_KEY, BLVD_BUSINESS_ID, BLVD_API_SECRET } = process.env;
-// const BLVD_API = "https://dashboard.boulevard.io/api/2020-01/c869f2d0-d72f-4466-9da8-1a14398ed1af/client"; // example endpoint; confirm for your app
-// const { BLVD_API_KEY, BLVD_BUSINESS_ID } = process.env;
-// const URL_CLIENT = "https://dashboard.boulevard.io/api/2020-01/c869f2d0-d72f-4466-9da8-1a14398ed1af/client";
-// const URL_ADMIN = "https://dashboard.boulevard.io/api/2020-01/admin";
-// const { BLVD_API_KEY, BLVD_BUSINESS_ID, BLVD_API_SECRET } = {"BLVD_API_KEY": 'd6764d76-d884-4ab5-87c1-90befe969ef4', "BLVD_BUSINESS_ID":'c869f2d0-d72f-4466-9da8-1a14398ed1af', 'BLVD_API_SECRET':"uyjdGShwGICFKbr8TtXiyM8B++nigR+i1XFJi6b1FT8="};
-// const USER_AGENT = "blvd-enterprise-app/1.0";
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { z } from 'zod';
+import fetch from 'cross-fetch';
+import {
+  AddCartGuestDocument,
+  AddServiceToCartDocument,
+  AppointmentRescheduleTimesDocument,
+  AvailableServicesDocument,
+  BoulevardClient,
+  BoulevardNotFoundError,
+  BoulevardValidationError,
+  CancelAppointmentDocument,
+  CartBookableDatesDocument,
+  CartBookableStaffVariantsDocument,
+  CartBookableTimesDocument,
+  CartItemAddonsDocument,
+  CartItemStaffVariantsDocument,
+  CartLocationDocument,
+  CartSummaryDocument,
+  LocationsDocument,
+  MyAppointmentsDocument,
+  RemoveCartGuestDocument,
+  RemoveCartSelectedItemDocument,
+  RescheduleAppointmentDocument,
+  ReserveCartBookableItemsDocument,
+  UpdateCartSelectedBookableItemDocument,
+  addDays,
+  dayLabel,
+  isValidEmail,
+  loadBoulevardConfig,
+  localSlotTime,
+  normalizeEmail,
+  normalizePhone,
+  parseTimeOfDay,
+  resolveDatePhrase,
+  todayIn,
+  weekdayOf,
+  withToolErrors,
+  type AppointmentDetailsFragment,
+} from './blvd/index.js';
+
+const blvd = new BoulevardClient(await loadBoulevardConfig());
+
 // Create server instance
 const server = new McpServer({
-    name: "blvd-enterprise",
-    version: "1.0.0",
-    capabilities: {
-        resources: {},
-        tools: {},
-    },
+  name: 'blvd-enterprise',
+  version: '1.0.0',
+  capabilities: {
+    resources: {},
+    tools: {},
+  },
 });
 
-var rangeLower :string = '' ;
-var rangeUpper :string = '';
-
-async function generate_guest_auth_header(api_key) {
-    const payload = `${api_key}:`;
-    const http_basic_credentials = Buffer.from(payload, "utf8").toString("base64");
-    return http_basic_credentials;
-}
-async function generate_admin_auth_header() {
-    const prefix = "blvd-admin-v1";
-    const timestamp = Math.floor(Date.now() / 1000);
-    const payload = `${prefix}${BLVD_BUSINESS_ID}${timestamp}`;
-    if (!BLVD_API_SECRET)
-        throw new Error("Missing required env: BLVD_API_SECRET");
-    if (!BLVD_API_KEY)
-        throw new Error("Missing required env: BLVD_API_KEY");
-    if (!BLVD_BUSINESS_ID)
-        throw new Error("Missing required env: BLVD_BUSINESS_ID");
-    let raw_key;
-    try {
-        raw_key = Buffer.from(BLVD_API_SECRET, "base64");
-    }
-    catch {
-        throw new Error("BLVD_API_SECRET must be a base64-encoded string");
-    }
-    const signature = crypto
-        .createHmac("sha256", raw_key)
-        .update(payload, "utf8")
-        .digest("base64");
-    const token = `${signature}${payload}`;
-    const http_basic_payload = `${BLVD_API_KEY}:${token}`;
-    const http_basic_credentials = Buffer.from(http_basic_payload, "utf8").toString("base64");
-    return http_basic_credentials;
-}
-
-async function generateAuthHeader(clientId) {
-  const prefix = 'blvd-client-v1';
-  const timestamp = Math.floor(Date.now() / 1000);
-  const payload = `${prefix}${BLVD_BUSINESS_ID}${clientId}${timestamp}`;
-
-  if (!BLVD_API_SECRET)
-    throw new Error("Missing required env: BLVD_API_SECRET");
-  if (!BLVD_API_KEY)
-    throw new Error("Missing required env: BLVD_API_KEY");
-  if (!BLVD_BUSINESS_ID)
-    throw new Error("Missing required env: BLVD_BUSINESS_ID");
-  
-  let raw_key = Buffer.from(BLVD_API_SECRET, "base64");
-
-  const signature = crypto
-        .createHmac("sha256", raw_key)
-        .update(payload, "utf8")
-        .digest("base64");
-    const token = `${signature}${payload}`;
-
-    const http_basic_payload = `${BLVD_API_KEY}:${token}`;
-    const http_basic_credentials = Buffer.from(http_basic_payload, "utf8").toString("base64");
-
-    console.error("http_basic_credentials  >> ",http_basic_credentials)
-    return http_basic_credentials;
-}
-
-async function gql(query, requestType, variables, timeoutMs = 8000) {
-    let API = '';
-    let authenticationHeader = '';
-    if (requestType == 'CLIENT') {
-        if (!URL_CLIENT)
-            throw new Error("Missing required env: URL_CLIENT");
-        if (!BLVD_API_KEY)
-            throw new Error("Missing required env: BLVD_API_KEY");
-        API = URL_CLIENT!;
-        authenticationHeader = await generate_guest_auth_header(BLVD_API_KEY);
-    
-        console.log(authenticationHeader);
-    
-      }
-    else if (requestType == 'ADMIN') {
-        if (!URL_ADMIN)
-            throw new Error("Missing required env: URL_ADMIN");
-        API = URL_ADMIN;
-        authenticationHeader = await generate_admin_auth_header();
-
-        console.log(authenticationHeader);
-        
-    }
-    else if (requestType === "CLIENT_AUTH") {
-      API = URL_CLIENT!;
-      console.error("CLIENT_AUTH  >> ",variables);
-      if (!variables?.clientId) {
-          throw new Error("clientId required for CLIENT_AUTH request");
-      }
+server.tool(
+  'getLocations',
+  'Get available locations for the business',
+  withToolErrors('getLocations', async () => {
+    const data = await blvd.request(
+      LocationsDocument,
+      'CLIENT',
+      {},
+      { timeoutMs: 7000 },
+    );
+    const locations =
+      data?.locations?.edges?.map((e) => ({
+        id: e?.node?.id,
+        name: e?.node?.name || e?.node?.businessName,
+        city: e?.node?.address?.city,
+        timeZone: e?.node?.tz,
+      })) ?? [];
+
+    console.error('[MCP SERVER] has returned locations:', locations);
+
+    return { content: [{ type: 'text', text: JSON.stringify({ locations }) }] };
+  }),
+);
 
-      // Generate the SAME header format you use in Angular
-      authenticationHeader = await generateAuthHeader(
-          variables.clientId
-      );
-  }
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), timeoutMs);
-    const res = await fetch(API, {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Basic ${authenticationHeader}`,
-        },
-        body: JSON.stringify({ query, variables }),
-        signal: controller.signal,
+server.tool(
+  'availableServices',
+  'Get available services',
+  {
+    cartId: z.string().describe('cart id'),
+  },
+  withToolErrors('availableServices', async ({ cartId }) => {
+    const data = await blvd.request(AvailableServicesDocument, 'CLIENT', {
+      id: cartId,
     });
-    clearTimeout(timeout);
-    const json = await res.json();
-    if (json.errors?.length)
-        throw new Error(JSON.stringify(json.errors));
-    return json.data;
-}
-
-// 🧠 Simple fuzzy matcher utility
-function fuzzyMatch(userInput, services) {
-  const normalize = (str) => str.toLowerCase().replace(/[^a-z0-9]/g, '');
-  const input = normalize(userInput);
-
-  // Score based on substring & similarity
-  let bestMatch = null;
-  let highestScore = 0;
-
-  for (const svc of services) {
-    const name = normalize(svc.name);
-    let score = 0;
-
-    if (name.includes(input)) score += 2;
-    if (input.includes(name)) score += 2;
-
-    // Character overlap similarity
-    const overlap = [...new Set(input)].filter((c) => name.includes(c)).length;
-    score += overlap / Math.max(name.length, input.length);
-
-    if (score > highestScore) {
-      highestScore = score;
-      bestMatch = svc;
-    }
-  }
-
-  return highestScore >= 1.5 ? bestMatch : null;
-}
-
-
-const GQL_LOCATIONS = /* GraphQL */ `{
-  locations(first:20){
-    edges{
-      node{
-          id
-          businessName
-          contactEmail
-          externalId
-          allowOnlineBooking
-          name
-          address{
-              city
-              country
-              line1
-              line2
-              province
-              state
-              zip
-          }
-    }
-  }
-}}`;
-const CREATE_CART = `mutation createCart($input:CreateCartInput!){
-      createCart(input:$input){
-          cart{
-            id
-          }
-      }
-  }`;
-const AVAILABLE_SERVICES = `query serviceList($id:ID!){
-    cart(id:$id){
-        availableCategories{
-            id
-            name
-            availableItems{
-                id
-                name
-                description
-                listPrice
-            }
-        }
-    }
-}`;
-
-const ADD_SERVICE_TO_CART = `
-  mutation addCartSelectedBookableItem($input: AddCartSelectedBookableItemInput!) {
-    addCartSelectedBookableItem(input: $input) {
-      cart {
-        id
-        selectedItems {
-          id
-          addons {
-            id
-            name
-            listPrice
-            description
-          }
-          item {
-            name
-            ... on CartAvailableBookableItem {
-              optionGroups {
-                name
-              }
-            }
-          }
-        }
-      }
-    }
-  }
-
-`;
-
-
-
-const CART_BOOKABLE_DATES = `query cartBookableDates($id:ID!, $searchRangeLower:Date, $searchRangeUpper:Date){
-      cartBookableDates(id:$id, searchRangeLower:$searchRangeLower, searchRangeUpper:$searchRangeUpper){
-          date
-      }
-    }
-`;
-const CART_BOOKABLE_TIMES = `query cartBookableTimes($id:ID!, $searchDate:Date!){
-      cartBookableTimes(id:$id  searchDate:$searchDate){
-        id
-        score
-        startTime
-      }
-    }
-`;
-const RESERVE_CART_BOOKABLE_ITEMS = `mutation reserveCartBookableItems($input:AddCartSelectedBookableItemInput!){
-    reserveCartBookableItems(input:$input){
-    cart{
-        id
-        expiresAt
-        summary{
-        deposit
-        depositAmount
-        discountAmount
-        gratuityAmount
-        paymentMethodRequired
-        roundingAmount
-        subtotal
-        taxAmount
-        total
-        }
-        bookingQuestions{
-        id
-        key
-        label
-        required
-        }
-        clientInformation{
-        email
-        firstName
-        lastName
-        phoneNumber
-        externalId
-        }
-        location{
-        id
-        name
-        businessName
-        }
-    }
-    }
-}`;
-
-
-
-
-const GET_CART_SUMMARY = `
-query cart($id: ID!) {
-  cart(id: $id) {
-    id
-    expiresAt
-    selectedItems {
-      id
-      ... on CartBookableItem {
-        item {
-          id
-          name
-        }
-        selectedStaffVariant {
-          id
-          duration
-          price
-          staff {
-            displayName
-          }
-        }
-      }
-    }
-    summary {
-          deposit
-          depositAmount
-          discountAmount
-          gratuityAmount
-          paymentMethodRequired
-          roundingAmount
-          subtotal
-          taxAmount
-          total
-        }
-    location {
-      name
-      businessName
-    }
-    clientInformation {
-      firstName
-      lastName
-      email
-      phoneNumber
-    }
-  }
-}
-`;
-
-
-const SET_CLIENT_ON_CART = `mutation updateCart($input:UpdateCartInput!){
-      updateCart(input:$input){
-        cart{
-          id
-          clientMessage
-          expiresAt
-          summary{
-            deposit
-            depositAmount
-            discountAmount
-            gratuityAmount
-            paymentMethodRequired
-            roundingAmount
-            subtotal
-            taxAmount
-            total
-          }
-          bookingQuestions{
-            id
-            key
-            label
-            required
-          }
-          clientInformation{
-            email
-            firstName
-            lastName
-            phoneNumber
-            externalId
-          }
-          location{
-            id
-            name
-            businessName
-          }
-        }
-      }
-    }`;
-const APPLY_PROMOTION_CODE = `mutation addCartOffer($input:AddCartOfferInput!){
-      addCartOffer(input:$input){
-        offer{
-          applied
-          code
-          id
-          name
-        }
-        cart{
-          id
-          completedAt
-          expiresAt
-          summary{
-            deposit
-            depositAmount
-            discountAmount
-            gratuityAmount
-            paymentMethodRequired
-            roundingAmount
-            subtotal
-            taxAmount
-            total
-          }
-          bookingQuestions{
-            id
-            key
-            label
-            required
-          }
-          clientInformation{
-            email
-            firstName
-            lastName
-            phoneNumber
-            externalId
-          }
-          location{
-            id
-            name
-            businessName
-          }
-        }
-      }
-    }`;
-
-   
-  const GET_MY_APPOINTMENTS = `
-    query {
-      myAppointments(first: 20) {
-        edges {
-          node {
-            id
-            startAt
-            endAt
-            cancelled
-            client {
-              id
-              email
-              firstName
-              lastName
-            }
-            location {
-              name
-              address {
-                city
-              }
-            }
-            appointmentServices {
-              startAt
-              endAt
-              price
-              serviceId
-              service {
-                name
-                id
-                description
-                category {
-                  name
-                }
-              }
-              staff {
-                firstName
-                lastName  
-                role {
-                  name
-                }
-              }
-            
-             
-            }
-          }
-        }
-      }
+    if (!data.cart) {
+      return {
+        content: [{ type: 'text', text: 'Cart not found or expired.' }],
+      };
     }
-    `;
-
-server.tool("getLocations", "Get available locations for the business", async () => {
-  const data = await gql(GQL_LOCATIONS, 'CLIENT', { businessId: BLVD_BUSINESS_ID }, 7000);
-  const locations = data?.locations?.edges?.map(e => ({
-    id: e?.node?.id,
-    name: e?.node?.name || e?.node?.businessName,
-    city: e?.node?.address?.city,
-  })) ?? [];
-  
-  
-  console.error("[MCP SERVER] has returned locations:", locations);
-
-  return { content: [{ type: "text", text: JSON.stringify({ locations }) }] };
-});
-    
-
-
-server.tool("availableServices", "Get available services", {
-    cartId: z.string().describe("cart id"),
-}, async ({ cartId }) => {
-  
-    const data = await gql(AVAILABLE_SERVICES, 'CLIENT', { id: cartId });
 
     //const excluded = ["gift cards", "memberships", "packages","products"];
 
-    const excludeList = ["gift cards", "memberships", "packages", "products"];
+    const excludeList = ['gift cards', 'memberships', 'packages', 'products'];
 
-const filteredCategories = data.cart.availableCategories.filter(cat =>
-  !excludeList.includes(cat?.name?.toLowerCase())
-);
+    const filteredCategories = data.cart.availableCategories.filter(
+      (cat) => !excludeList.includes(cat?.name?.toLowerCase()),
+    );
 
     // const filteredCategories = data.cart.availableCategories.find(c => {
     //   const name = c?.name?.toLowerCase() || "";
@@ -528,81 +106,74 @@ const filteredCategories = data.cart.availableCategories.filter(cat =>
     // });
 
     // console.error("rrrrrrrrr >> ",JSON.stringify(data));
-    
+
     // console.error("filteredCategories  >> ",JSON.stringify(filteredCategories));
-    
-  
-    // console.error("available services:", JSON.stringify(data, null, 2));  // const locations = data?.locations?.edges ?? [];
-    return { content: [{ type: "text", text: JSON.stringify(filteredCategories) }] };
-});
 
+    // console.error("available services:", JSON.stringify(data, null, 2));  // const locations = data?.locations?.edges ?? [];
+    return {
+      content: [{ type: 'text', text: JSON.stringify(filteredCategories) }],
+    };
+  }),
+);
 
-server.tool("createAppointmentCart", "Create a cart scoped to a business/location for appointment booking", {
-    locationId: z.string().describe("location id"),
-}, async ({ locationId }) => {
-    const data = await gql(CREATE_CART, 'CLIENT', { input: { locationId: locationId } });
+server.tool(
+  'createAppointmentCart',
+  'Create a cart scoped to a business/location for appointment booking',
+  {
+    locationId: z.string().describe('location id'),
+  },
+  withToolErrors('createAppointmentCart', async ({ locationId }) => {
+    const data = await blvd.createCart(locationId);
     // const locations = data?.locations?.edges ?? [];
-   
+
     console.error(data);
     console.error(locationId);
-   
-    return { content: [{ type: "text", text: JSON.stringify(data) }] };
-});
-
-
 
-server.tool("addServiceToCart", "Add a service to an existing cart", {
-  cartId: z.string().describe("existing cart id"),
-  serviceId: z.string().optional().describe("existing service id"),
-  serviceName: z.string().optional().describe("service name (e.g. 'Classic and Hydra Facial')"),
-}, async ({ cartId, serviceId, serviceName }) => {
-
- 
-  const data = await gql(ADD_SERVICE_TO_CART, 'CLIENT', {
-    input: { id: cartId, itemId: serviceId }
-  });
+    return { content: [{ type: 'text', text: JSON.stringify(data) }] };
+  }),
+);
 
-  console.error(`🧾 return data: ${JSON.stringify(data)}`);
+server.tool(
+  'addServiceToCart',
+  'Add a service to an existing cart. Call once per service; a cart can hold several, for the customer and their guests.',
+  {
+    cartId: z.string().describe('existing cart id'),
+    serviceId: z.string().optional().describe('existing service id'),
+    serviceName: z
+      .string()
+      .optional()
+      .describe("service name (e.g. 'Classic and Hydra Facial')"),
+    guestId: z
+      .string()
+      .optional()
+      .describe(
+        'guest id from addCartGuest when the service is for a guest; leave empty for the customer',
+      ),
+  },
+  withToolErrors('addServiceToCart', async ({ cartId, serviceId, guestId }) => {
+    const data = await blvd.request(AddServiceToCartDocument, 'CLIENT', {
+      input: { id: cartId, itemId: serviceId, itemGuestId: guestId },
+    });
 
-  return { content: [{ type: "text", text: JSON.stringify(data) }] };
-});
+    console.error(`🧾 return data: ${JSON.stringify(data)}`);
 
+    return { content: [{ type: 'text', text: JSON.stringify(data) }] };
+  }),
+);
 
 server.tool(
-  "removeItemInCart",
-  "Remove an item from an existing cart",
+  'removeItemInCart',
+  'Remove an item from an existing cart',
   {
-    cartId: z.string().describe("existing cart id"),
-    itemId: z.string().describe("item id to remove")
+    cartId: z.string().describe('existing cart id'),
+    itemId: z.string().describe('item id to remove'),
   },
-  async ({ cartId, itemId }) => {
-    
-    const REMOVE_ITEM_FROM_CART = `
-      mutation removeCartSelectedItem($input: RemoveCartSelectedItemInput!) {
-        removeCartSelectedItem(input: $input) {
-          cart {
-            id
-            selectedItems {
-                id
-                 item {
-                    name
-                }
-            }
-                 summary {
-                     subtotal
-                    taxAmount
-                    total
-
-  }}
-      }
-      }
-    `;
-
-    const data = await gql(REMOVE_ITEM_FROM_CART, 'CLIENT', {
+  withToolErrors('removeItemInCart', async ({ cartId, itemId }) => {
+    const data = await blvd.request(RemoveCartSelectedItemDocument, 'CLIENT', {
       input: {
         id: cartId,
-        itemId: itemId
-      }
+        itemId: itemId,
+      },
     });
 
     console.error(`🗑️ removed item return data: ${JSON.stringify(data)}`);
@@ -610,394 +181,862 @@ server.tool(
     return {
       content: [
         {
-          type: "text",
-          text: JSON.stringify(data)
-        }
-      ]
+          type: 'text',
+          text: JSON.stringify(data),
+        },
+      ],
     };
-  }
+  }),
 );
 
-
-
-
 server.tool(
-  "resolveDateRange",
-  "Convert natural-language date into YYYY-MM-DD and return 7-day bookable range",
+  'addCartGuest',
+  'Add a guest (someone booking with the customer, e.g. a friend) to the cart. Then add their services with addServiceToCart and the returned guest id.',
   {
-    inputText: z.string().describe("User natural date input")
+    cartId: z.string().describe('existing cart id'),
+    firstName: z.string().describe("guest's first name"),
+    lastName: z.string().optional().describe("guest's last name"),
+    email: z.string().optional().describe("guest's email"),
+    phoneNumber: z.string().optional().describe("guest's phone number"),
   },
-  async ({ inputText }) => {
-
-    const today = new Date();
-    const text = inputText.toLowerCase().trim();
-    let resolved: Date | null = null;
-
-    const MONTHS = [
-      "jan","feb","mar","apr","may","jun",
-      "jul","aug","sep","oct","nov","dec"
-    ];
-
-    // Format date → YYYY-MM-DD (local safe)
-    const toISO = (date: Date) => {
-      const y = date.getFullYear();
-      const m = String(date.getMonth() + 1).padStart(2, "0");
-      const d = String(date.getDate()).padStart(2, "0");
-      return `${y}-${m}-${d}`;
-    };
-
-    // Upcoming weekday (Mon=1..Sun=0)
-    const getUpcomingWeekday = (targetIndex: number) => {
-      const todayIndex = today.getDay();
-      let diff = targetIndex - todayIndex;
-      if (diff <= 0) diff += 7;
-      const next = new Date(today);
-      next.setDate(today.getDate() + diff);
-      return next;
-    };
-
-    // ------------------- 1. NATURAL LANGUAGE -------------------
-    const naturalMap: Record<string, number> = {
-      "today": 0,
-      "tomorrow": 1,
-      "day after tomorrow": 2
-    };
+  withToolErrors(
+    'addCartGuest',
+    async ({ cartId, firstName, lastName, email, phoneNumber }) => {
+      const data = await blvd.request(AddCartGuestDocument, 'CLIENT', {
+        input: { id: cartId, firstName, lastName, email, phoneNumber },
+      });
+      return { content: [{ type: 'text', text: JSON.stringify(data) }] };
+    },
+  ),
+);
 
-    if (naturalMap[text] !== undefined) {
-      resolved = new Date(today);
-      resolved.setDate(today.getDate() + naturalMap[text]);
+server.tool(
+  'removeCartGuest',
+  'Remove a guest and the services booked for them from the cart',
+  {
+    cartId: z.string().describe('existing cart id'),
+    guestId: z.string().describe('guest id'),
+  },
+  withToolErrors('removeCartGuest', async ({ cartId, guestId }) => {
+    const { cart } = await blvd.request(CartSummaryDocument, 'CLIENT', {
+      id: cartId,
+    });
+    if (!cart) throw new BoulevardNotFoundError(`Cart not found: ${cartId}`);
+    if (!cart.guests.some((g) => g.id === guestId)) {
+      throw new BoulevardNotFoundError(`Guest not in cart: ${guestId}`);
     }
 
-    // Upcoming weekdays
-    if (!resolved) {
-      const weekdays: Record<string, number> = {
-        "sunday": 0,
-        "monday": 1,
-        "tuesday": 2,
-        "wednesday": 3,
-        "thursday": 4,
-        "friday": 5,
-        "saturday": 6
-      };
-
-      for (const key in weekdays) {
-        if (text.includes(key)) {
-          resolved = getUpcomingWeekday(weekdays[key]);
-          break;
-        }
+    for (const selected of cart.selectedItems) {
+      if ('guestId' in selected && selected.guestId === guestId) {
+        await blvd.request(RemoveCartSelectedItemDocument, 'CLIENT', {
+          input: { id: cartId, itemId: selected.id },
+        });
       }
     }
+    const data = await blvd.request(RemoveCartGuestDocument, 'CLIENT', {
+      input: { id: cartId, guestId },
+    });
+    return { content: [{ type: 'text', text: JSON.stringify(data) }] };
+  }),
+);
 
-    // ------------------- 2A. “10 Dec”, “10 December 2025” -------------------
-    if (!resolved) {
-      const r1 = /(\d{1,2})\s*([a-zA-Z]+)\s*(\d{4})?/;
-      const m = text.match(r1);
-      if (m) {
-        const day = parseInt(m[1], 10);
-        const monthName = m[2].substring(0, 3).toLowerCase();
-        const yearProvided = m[3] ? parseInt(m[3], 10) : null;
-
-        const monthIndex = MONTHS.indexOf(monthName);
-        if (monthIndex >= 0) {
-          const year = yearProvided ?? today.getFullYear();
-          resolved = new Date(year, monthIndex, day);
-
-          if (!yearProvided && resolved < today) {
-            resolved = new Date(year + 1, monthIndex, day);
-          }
-        }
-      }
+// The cart service `itemId` names, with the add-ons it offers: its options
+// (chosen on the item) and add-on services (booked alongside it, for the
+// same guest, as selected items of their own)
+async function serviceAddons(cartId: string, itemId: string) {
+  const { cart } = await blvd.request(CartItemAddonsDocument, 'CLIENT', {
+    id: cartId,
+  });
+  if (!cart) throw new BoulevardNotFoundError(`Cart not found: ${cartId}`);
+
+  const selected = cart.selectedItems.find((s) => s.id === itemId);
+  if (!selected || !('item' in selected)) throw serviceNotInCart(itemId);
+
+  // Add-on service id → the selected item that books it
+  const bookedAddons = new Map<string, string>();
+  for (const other of cart.selectedItems) {
+    if (
+      'item' in other &&
+      other.id !== itemId &&
+      other.guestId === selected.guestId
+    ) {
+      bookedAddons.set(other.item.id, other.id);
     }
+  }
 
-    // ------------------- 2B. “Dec 10”, “December 10 2025” -------------------
-    if (!resolved) {
-      const r2 = /([a-zA-Z]+)\s*(\d{1,2})\s*(\d{4})?/;
-      const m = text.match(r2);
-      if (m) {
-        const monthName = m[1].substring(0, 3).toLowerCase();
-        const day = parseInt(m[2], 10);
-        const yearProvided = m[3] ? parseInt(m[3], 10) : null;
-
-        const monthIndex = MONTHS.indexOf(monthName);
-        if (monthIndex >= 0) {
-          const year = yearProvided ?? today.getFullYear();
-          resolved = new Date(year, monthIndex, day);
-
-          if (!yearProvided && resolved < today) {
-            resolved = new Date(year + 1, monthIndex, day);
-          }
-        }
-      }
-    }
+  const selectedOptionIds = selected.selectedOptions.map((o) => o.id);
+  const options = selected.item.optionGroups.flatMap((group) =>
+    group.options.map((option) => ({
+      addonId: option.id,
+      kind: 'option' as const,
+      name: option.name,
+      group: group.name,
+      description: option.description,
+      price: option.priceDelta,
+      durationDelta: option.durationDelta,
+      selected: selectedOptionIds.includes(option.id),
+    })),
+  );
+  const services = selected.addons.map((addon) => ({
+    addonId: addon.id,
+    kind: 'service' as const,
+    name: addon.name,
+    description: addon.description,
+    price: addon.listPrice,
+    selected: bookedAddons.has(addon.id),
+  }));
+  return {
+    service: selected,
+    addons: [...options, ...services],
+    selectedOptionIds,
+    bookedAddons,
+  };
+}
 
-    // ------------------- 3. Numeric formats (10/12, 10-12-2025) -------------------
-    if (!resolved) {
-      const r3 = /^(\d{1,2})[\/\-](\d{1,2})([\/\-](\d{4}))?$/;
-      const m = text.match(r3);
-      if (m) {
-        const day = parseInt(m[1], 10);
-        const month = parseInt(m[2], 10) - 1;
-        const yearProvided = m[4] ? parseInt(m[4], 10) : null;
-
-        let year = yearProvided ?? today.getFullYear();
-        resolved = new Date(year, month, day);
-
-        if (!yearProvided && resolved < today) {
-          resolved = new Date(year + 1, month, day);
-        }
-      }
-    }
+server.tool(
+  'listServiceAddons',
+  'Add-ons a service in the cart offers, with their price and whether they are already chosen',
+  {
+    cartId: z.string().describe('existing cart id'),
+    itemId: z
+      .string()
+      .describe(
+        'selected item id in the cart (from addServiceToCart or getCartSummary)',
+      ),
+  },
+  withToolErrors('listServiceAddons', async ({ cartId, itemId }) => {
+    const { service, addons } = await serviceAddons(cartId, itemId);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            itemId,
+            serviceName: service.item.name,
+            addons,
+          }),
+        },
+      ],
+    };
+  }),
+);
 
-    // ------------------- 4. Fallback JS Date -------------------
-    if (!resolved) {
-      const parsed = new Date(inputText);
-      if (!isNaN(parsed.getTime())) {
-        resolved = parsed;
-      }
+server.tool(
+  'addAddonToItem',
+  'Add an add-on from listServiceAddons to a service in the cart',
+  {
+    cartId: z.string().describe('existing cart id'),
+    itemId: z.string().describe('selected item id of the service in the cart'),
+    addonId: z.string().describe('addonId from listServiceAddons'),
+  },
+  withToolErrors('addAddonToItem', async ({ cartId, itemId, addonId }) => {
+    const { service, addons, selectedOptionIds } = await serviceAddons(
+      cartId,
+      itemId,
+    );
+    const addon = addons.find((a) => a.addonId === addonId);
+    if (!addon) {
+      throw new BoulevardValidationError(
+        `${service.item.name} has no add-on ${addonId}; pick one from listServiceAddons`,
+      );
     }
-
-    // ------------------- 5. ERROR -------------------
-    if (!resolved) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({ error: "Unable to understand date" })
-          }
-        ]
-      };
+    if (addon.kind === 'service' && addon.selected) {
+      throw new BoulevardValidationError(
+        `${addon.name} is already booked with ${service.item.name}`,
+      );
     }
 
-    // ------------------- 6. CREATE 15-DAY RANGE -------------------
-    const resolvedDate = toISO(resolved);
-    const lower = resolvedDate;
-
-    const upperDate = new Date(resolved);
-    upperDate.setDate(upperDate.getDate() + 7);
-    const upper = toISO(upperDate);
+    let cart;
+    if (addon.kind === 'option') {
+      const data = await blvd.request(
+        UpdateCartSelectedBookableItemDocument,
+        'CLIENT',
+        {
+          input: {
+            id: cartId,
+            itemId,
+            itemOptionIds: [...new Set([...selectedOptionIds, addonId])],
+          },
+        },
+      );
+      cart = data.updateCartSelectedBookableItem.cart;
+    } else {
+      // Booked for whoever the service is for
+      const data = await blvd.request(AddServiceToCartDocument, 'CLIENT', {
+        input: { id: cartId, itemId: addonId, itemGuestId: service.guestId },
+      });
+      cart = data.addCartSelectedBookableItem.cart;
+    }
 
+    const { addonId: id, kind, name, price } = addon;
     return {
       content: [
         {
-          type: "text",
+          type: 'text',
           text: JSON.stringify({
-            resolvedDate,
-            rangeLower: lower,
-            rangeUpper: upper
-          })
-        }
-      ]
+            addon: { addonId: id, kind, name, price },
+            cart,
+          }),
+        },
+      ],
     };
-  }
+  }),
 );
 
+server.tool(
+  'removeAddonFromItem',
+  'Take an add-on off a service in the cart',
+  {
+    cartId: z.string().describe('existing cart id'),
+    itemId: z.string().describe('selected item id of the service in the cart'),
+    addonId: z.string().describe('addonId from listServiceAddons'),
+  },
+  withToolErrors('removeAddonFromItem', async ({ cartId, itemId, addonId }) => {
+    const { service, addons, selectedOptionIds, bookedAddons } =
+      await serviceAddons(cartId, itemId);
+    const addon = addons.find((a) => a.addonId === addonId);
+    if (!addon?.selected) {
+      throw new BoulevardNotFoundError(
+        `${service.item.name} has no add-on ${addonId} to remove`,
+      );
+    }
 
-server.tool("cartBookableDates", "First 7 bookable dates for the cart", {
-    cartId: z.string().describe("existing cart id"),
-}, async ({ cartId }) => {
-    
-  // const today = new Date();
-  // const searchRangeLower = today.toISOString().split("T")[0]; 
-  console.error("searchRangeLowerII  >> ",rangeLower);
-  console.error("searchRangeUpper  >> ",rangeUpper);
- 
-
-  // const next15 = new Date();
-  // next15.setDate(today.getDate() + 7);
-
-  // const searchRangeUpper = next15.toISOString().split("T")[0];
-
-
-  const data = await gql(CART_BOOKABLE_DATES, 'CLIENT', {
-        "id": cartId,
-        "searchRangeLower": rangeLower,
-        "searchRangeUpper": rangeUpper,
-
-
-
-    });
-    
-    console.error("searchRangeLower  >> ",rangeLower);
-    console.error("searchRangeUpper  >> ",rangeUpper);
-    // Expecting data.cartBookableDates to be an array of {date: string}
-    const dates = (data?.cartBookableDates || []).map(d => d.date).slice(0, 5);
-    console.error(data);
-    
-    return { content: [{ type: "text", text: JSON.stringify(dates) }] };
-});
+    let cart;
+    if (addon.kind === 'option') {
+      const data = await blvd.request(
+        UpdateCartSelectedBookableItemDocument,
+        'CLIENT',
+        {
+          input: {
+            id: cartId,
+            itemId,
+            itemOptionIds: selectedOptionIds.filter((id) => id !== addonId),
+          },
+        },
+      );
+      cart = data.updateCartSelectedBookableItem.cart;
+    } else {
+      // The selected item booking this add-on for the service's guest
+      const data = await blvd.request(
+        RemoveCartSelectedItemDocument,
+        'CLIENT',
+        {
+          input: { id: cartId, itemId: bookedAddons.get(addonId)! },
+        },
+      );
+      cart = data.removeCartSelectedItem.cart;
+    }
 
-server.tool("cartBookableTimes", "First 7 available times for the cart and date as array of slot objects", {
-    cartId: z.string().describe("existing cart id"),
-    searchDate: z.string().describe("search date in format YYYY-MM-DD"),
-}, async ({ cartId, searchDate }) => {
-    const data = await gql(CART_BOOKABLE_TIMES, 'CLIENT', {
-        "id": cartId,
-        "searchDate": searchDate,
-    });
-    // Return the full slot objects with id and startTime
-    const slots = (data?.cartBookableTimes || []).slice(0, 15);
-    return { content: [{ type: "text", text: JSON.stringify(slots) }] };
-});
-server.tool("reserveCartBookableItems", "set and reserve bookable time for cart", {
-    cartId: z.string().describe("existing cart id"),
-    bookableTimeId: z.string().describe("bookable time id"),
-}, async ({ cartId, bookableTimeId }) => {
-    const data = await gql(RESERVE_CART_BOOKABLE_ITEMS, 'CLIENT', { input: {
-            "id": cartId,
-            "bookableTimeId": bookableTimeId
-        } });
-    // const locations = data?.locations?.edges ?? [];
-    return { content: [{ type: "text", text: JSON.stringify(data) }] };
-});
+    const { addonId: id, kind, name, price } = addon;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            addon: { addonId: id, kind, name, price },
+            cart,
+          }),
+        },
+      ],
+    };
+  }),
+);
 
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
 
+// Dates and times are read in the time zone of the cart's location
+async function cartTimeZone(cartId: string): Promise<string> {
+  const { cart } = await blvd.request(CartLocationDocument, 'CLIENT', {
+    id: cartId,
+  });
+  if (!cart) throw new BoulevardNotFoundError(`Cart not found: ${cartId}`);
+  if (!cart.location)
+    throw new BoulevardValidationError(`Cart has no location: ${cartId}`);
+  return cart.location.tz;
+}
 
 server.tool(
-  "getCartSummary",
+  'resolveDateRange',
+  'Convert natural-language dates ("tomorrow at 3", "next weekend", "the 3rd", "after 5pm Thursday", "between Monday and Wednesday") into YYYY-MM-DD at the cart\'s location, with the range to search for bookable dates and the time or time-of-day window asked for, if any',
   {
-    cartId: z.string().describe("Existing cart ID"),
+    inputText: z.string().describe('User natural date input'),
+    cartId: z
+      .string()
+      .describe(
+        'existing cart id; relative dates count from today at its location',
+      ),
   },
-  async ({ cartId }) => {
-    console.log("🧾 MCP → getCartSummary called with:", cartId);
-
-    const data = await gql(GET_CART_SUMMARY, "CLIENT", { id: cartId });
-    const cart = data?.cart;
+  withToolErrors('resolveDateRange', async ({ inputText, cartId }) => {
+    const timeZone = await cartTimeZone(cartId);
+    const resolved = resolveDatePhrase(inputText, todayIn(timeZone));
 
-    if (!cart) {
+    if (!resolved) {
       return {
         content: [
           {
-            type: "text",
-            text: "Cart not found or expired.",
+            type: 'text',
+            text: JSON.stringify({ error: 'Unable to understand date' }),
           },
         ],
       };
     }
 
-    // ✅ Simply return the backend response as-is
     return {
       content: [
         {
-          type: "text",
-          text: JSON.stringify(cart),
+          type: 'text',
+          text: JSON.stringify({ ...resolved, timeZone }),
         },
       ],
     };
-  }
+  }),
 );
 
-
-
-
-function formatAmount(value?: number | null): string {
-  if (!value) return "0.00";
-  return (value / 100).toFixed(2);
-}
-
-
-
+// Bookable dates are searched this many days ahead by default, and at most
+const DEFAULT_DATES_DAYS = 7;
+const MAX_DATES_DAYS = 31;
 
 server.tool(
-  "updateCartSelectedBookableItem",
-  "Update a cart's selected bookable item details (guest, options, staff variant).",
+  'cartBookableDates',
+  `First 5 bookable dates for the cart from searchRangeLower to searchRangeUpper at its location (pass the range from resolveDateRange). Defaults to the next ${DEFAULT_DATES_DAYS} days; the range may span at most ${MAX_DATES_DAYS} days.`,
   {
-    cartId: z.string().describe("Cart ID"),
-    itemId: z.string().describe("Service Item ID"),
-    itemStaffVariantId: z.string().optional().describe("Staff variant ID (optional)"),
-    itemGuestId: z.string().optional().describe("Guest ID (optional)"),
-    itemOptionIds: z.array(z.string()).optional().describe("List of selected option IDs (optional)"),
-    clientId: z.string().optional().describe("Client ID (optional)"),
+    cartId: z.string().describe('existing cart id'),
+    searchRangeLower: isoDate
+      .optional()
+      .describe(
+        'first date to search, YYYY-MM-DD (default today at the location)',
+      ),
+    searchRangeUpper: isoDate
+      .optional()
+      .describe(
+        `last date to search, YYYY-MM-DD (default ${DEFAULT_DATES_DAYS} days after searchRangeLower)`,
+      ),
   },
-  async ({ cartId, itemId, itemStaffVariantId, itemGuestId, itemOptionIds, clientId }) => {
-    try {
-      const mutation = `
-        mutation updateCartSelectedBookableItem($input: AddCartSelectedBookableItemInput!) {
-          updateCartSelectedBookableItem(input: $input) {
-            cart {
-              id
-              expiresAt
-              selectedItems {
-                id
-                price
-                ...on CartBookableItem {
-                  selectedOptions {
-                    id
-                    name
-                    priceDelta
-                    groupId
-                    durationDelta
-                    description
-                  }
-                }
-                addons {
-                  id
-                  name
-                  description
-                  disabled
-                  disabledDescription
-                  listPrice
-                  listPriceRange {
-                    min
-                    max
-                    variable
-                  }
-                  ...on CartAvailableBookableItem {
-                    optionGroups {
-                      id
-                      name
-                      description
-                      options {
-                        id
-                        name
-                        description
-                        durationDelta
-                        priceDelta
-                      }
-                    }
-                  }
-                }
-                item {
-                  id
-                  name
-                  description
-                  disabled
-                  disabledDescription
-                }
-              }
-              summary {
-                deposit
-                depositAmount
-                discountAmount
-                gratuityAmount
-                paymentMethodRequired
-                roundingAmount
-                subtotal
-                taxAmount
-                total
-              }
-              bookingQuestions {
-                id
-                key
-                label
-                required
-              }
-              clientInformation {
-                email
-                firstName
-                lastName
-                phoneNumber
-                externalId
-              }
-              location {
-                id
-                name
-                businessName
-              }
-            }
-          }
+  withToolErrors(
+    'cartBookableDates',
+    async ({ cartId, searchRangeLower, searchRangeUpper }) => {
+      const tz = await cartTimeZone(cartId);
+      const today = todayIn(tz);
+      // Nothing before today can be booked
+      const lower =
+        searchRangeLower && searchRangeLower > today ? searchRangeLower : today;
+      const upper = searchRangeUpper ?? addDays(lower, DEFAULT_DATES_DAYS);
+      if (upper < lower || upper > addDays(lower, MAX_DATES_DAYS)) {
+        throw new BoulevardValidationError(
+          `searchRangeUpper must be from ${lower} to ${addDays(lower, MAX_DATES_DAYS)}`,
+        );
+      }
+
+      const data = await blvd.request(CartBookableDatesDocument, 'CLIENT', {
+        id: cartId,
+        searchRangeLower: lower,
+        searchRangeUpper: upper,
+        tz,
+      });
+      const dates = (data?.cartBookableDates || [])
+        .map((d) => d.date)
+        .slice(0, 5);
+      return { content: [{ type: 'text', text: JSON.stringify(dates) }] };
+    },
+  ),
+);
+
+const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
+// Filters cartBookableTimes and findNextAvailableSlots share
+const slotFilters = {
+  earliest: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .optional()
+    .describe('earliest local start time, HH:mm'),
+  latest: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .optional()
+    .describe('latest local start time, HH:mm'),
+  daysOfWeek: z
+    .array(z.enum(WEEKDAYS))
+    .optional()
+    .describe('only these days of the week'),
+  staffId: z
+    .string()
+    .optional()
+    .describe(
+      'only times this staff member (staffId from listServiceStaff) is free for the service they would do; the result has incomplete: true when it stopped checking early',
+    ),
+  itemId: z
+    .string()
+    .optional()
+    .describe(
+      'with staffId: selected item id of that service; needed only when they do more than one in the cart',
+    ),
+};
+
+interface SlotFilters {
+  earliest?: string;
+  latest?: string;
+  daysOfWeek?: (typeof WEEKDAYS)[number][];
+  staffId?: string;
+  itemId?: string;
+}
+
+type BookableSlot = {
+  id: string;
+  score: number;
+  startTime: string;
+  time: string;
+  label: string;
+};
+
+interface BookableDay {
+  date: string;
+  label: string;
+  slots: BookableSlot[];
+}
+
+// Most "who is free then" lookups one search makes, one per candidate time
+const MAX_STAFF_LOOKUPS = 40;
+
+// The cart service `staffId` would do: `itemId`, or the only one they offer
+async function staffItemId(
+  cartId: string,
+  staffId: string,
+  itemId?: string,
+): Promise<string> {
+  const { cart } = await blvd.request(CartItemStaffVariantsDocument, 'CLIENT', {
+    id: cartId,
+  });
+  if (!cart) throw new BoulevardNotFoundError(`Cart not found: ${cartId}`);
+
+  const offered = cart.selectedItems.filter(
+    (s) =>
+      'item' in s && s.item.staffVariants.some((v) => v.staff.id === staffId),
+  );
+  if (itemId) {
+    // The model may name the service rather than the item
+    const named = offered.find(
+      (s) => s.id === itemId || ('item' in s && s.item.id === itemId),
+    );
+    if (!named) {
+      throw new BoulevardValidationError(
+        `Staff ${staffId} does not do cart item ${itemId}`,
+      );
+    }
+    return named.id;
+  }
+  if (offered.length !== 1) {
+    throw new BoulevardValidationError(
+      offered.length
+        ? `Staff ${staffId} does several services in the cart; pass the itemId of the one they would do`
+        : `No service in the cart is done by staff ${staffId}`,
+    );
+  }
+  return offered[0].id;
+}
+
+async function staffFreeAt(
+  cartId: string,
+  itemId: string,
+  staffId: string,
+  bookableTimeId: string,
+) {
+  const { cartBookableStaffVariants } = await blvd.request(
+    CartBookableStaffVariantsDocument,
+    'CLIENT',
+    {
+      id: cartId,
+      itemId,
+      bookableTimeId,
+    },
+  );
+  return cartBookableStaffVariants.some((v) => v.staff.id === staffId);
+}
+
+/**
+ * Bookable times on `dates` that pass `filters`, the first `limit` of them
+ * grouped by day at the location. Days without a matching time are left out.
+ *
+ * With `staffId`, each time left after the other filters costs a lookup.
+ * They are asked for as many at once as there are times still wanted, and
+ * after `MAX_STAFF_LOOKUPS` the search stops short with `incomplete: true`.
+ */
+async function bookableSlotsByDay(
+  cartId: string,
+  tz: string,
+  dates: string[],
+  filters: SlotFilters,
+  limit: number,
+) {
+  const { earliest, latest, daysOfWeek, staffId } = filters;
+  const itemId = staffId
+    ? await staffItemId(cartId, staffId, filters.itemId)
+    : undefined;
+  const days: BookableDay[] = [];
+  let found = 0;
+  let lookupsLeft = MAX_STAFF_LOOKUPS;
+  let incomplete = false;
+
+  for (const date of dates) {
+    if (found >= limit || incomplete) break;
+    if (daysOfWeek && !daysOfWeek.includes(WEEKDAYS[weekdayOf(date)])) continue;
+
+    const data = await blvd.request(CartBookableTimesDocument, 'CLIENT', {
+      id: cartId,
+      searchDate: date,
+      tz,
+    });
+    let candidates: BookableSlot[] = data.cartBookableTimes
+      .map((slot) => {
+        const { time, label } = localSlotTime(slot.startTime, tz);
+        return {
+          id: slot.id,
+          score: slot.score,
+          startTime: slot.startTime,
+          time,
+          label,
+        };
+      })
+      .filter(
+        ({ time }) =>
+          !(earliest && time < earliest) && !(latest && time > latest),
+      );
+
+    if (staffId && itemId) {
+      const free: BookableSlot[] = [];
+      while (candidates.length && found + free.length < limit) {
+        if (!lookupsLeft) {
+          incomplete = true;
+          break;
         }
-      `;
+        const batch = candidates.splice(
+          0,
+          Math.min(limit - found - free.length, lookupsLeft),
+        );
+        lookupsLeft -= batch.length;
+        const isFree = await Promise.all(
+          batch.map((slot) => staffFreeAt(cartId, itemId, staffId, slot.id)),
+        );
+        free.push(...batch.filter((_, i) => isFree[i]));
+      }
+      candidates = free;
+    }
 
+    const slots = candidates.slice(0, limit - found);
+    found += slots.length;
+    if (slots.length) days.push({ date, label: dayLabel(date), slots });
+  }
+
+  return { timeZone: tz, days, ...(incomplete ? { incomplete } : {}) };
+}
+
+// Longest stretch cartBookableTimes reads day by day
+const MAX_TIMES_DAYS = 14;
+
+server.tool(
+  'cartBookableTimes',
+  'Available times for the cart on a date (or each date through throughDate), grouped by day, each with the local time at the location and a label to show. Only times when the staff chosen with selectStaff are free, and that pass the filters given (e.g. the timeWindow from resolveDateRange as earliest/latest).',
+  {
+    cartId: z.string().describe('existing cart id'),
+    searchDate: isoDate.describe(
+      "search date in format YYYY-MM-DD, at the cart's location",
+    ),
+    throughDate: isoDate
+      .optional()
+      .describe(
+        `last date to search, YYYY-MM-DD; at most ${MAX_TIMES_DAYS} days in all`,
+      ),
+    ...slotFilters,
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(50)
+      .optional()
+      .describe('most times to return (default 15)'),
+  },
+  withToolErrors(
+    'cartBookableTimes',
+    async ({ cartId, searchDate, throughDate, limit, ...filters }) => {
+      const lastDate = throughDate ?? searchDate;
+      const dates: string[] = [];
+      for (
+        let date = searchDate;
+        date <= lastDate && dates.length <= MAX_TIMES_DAYS;
+        date = addDays(date, 1)
+      ) {
+        dates.push(date);
+      }
+      if (!dates.length || dates.length > MAX_TIMES_DAYS) {
+        throw new BoulevardValidationError(
+          `throughDate must not be before searchDate, and cover at most ${MAX_TIMES_DAYS} days`,
+        );
+      }
+
+      const tz = await cartTimeZone(cartId);
+      const slots = await bookableSlotsByDay(
+        cartId,
+        tz,
+        dates,
+        filters,
+        limit ?? 15,
+      );
+      return { content: [{ type: 'text', text: JSON.stringify(slots) }] };
+    },
+  ),
+);
+
+server.tool(
+  'findNextAvailableSlots',
+  'The nearest bookable times for the cart that pass the filters, scanning bookable dates from fromDate (default today at the location), grouped by day. Use it for "when is the next opening" or "any morning next week".',
+  {
+    cartId: z.string().describe('existing cart id'),
+    fromDate: isoDate
+      .optional()
+      .describe("first date to look at, YYYY-MM-DD at the cart's location"),
+    withinDays: z
+      .number()
+      .int()
+      .min(1)
+      .max(90)
+      .optional()
+      .describe('how many days ahead to look (default 30)'),
+    ...slotFilters,
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(20)
+      .optional()
+      .describe('how many times to return (default 5)'),
+  },
+  withToolErrors(
+    'findNextAvailableSlots',
+    async ({ cartId, fromDate, withinDays, limit, ...filters }) => {
+      const tz = await cartTimeZone(cartId);
+      const rangeLower = fromDate ?? todayIn(tz);
+      const { cartBookableDates } = await blvd.request(
+        CartBookableDatesDocument,
+        'CLIENT',
+        {
+          id: cartId,
+          searchRangeLower: rangeLower,
+          searchRangeUpper: addDays(rangeLower, withinDays ?? 30),
+          tz,
+        },
+      );
+
+      const dates = cartBookableDates.map((d) => d.date);
+      const slots = await bookableSlotsByDay(
+        cartId,
+        tz,
+        dates,
+        filters,
+        limit ?? 5,
+      );
+      return { content: [{ type: 'text', text: JSON.stringify(slots) }] };
+    },
+  ),
+);
+
+// Longest stretch of dates a client can wait for
+const MAX_WAITLIST_DAYS = 60;
+
+// Checks and describes the waitlist entry; the chat backend stores it and
+// watches for openings
+
+server.tool(
+  'joinWaitlist',
+  'Put the customer on the waitlist for a service in the cart when no date or time suits them. They are contacted when a bookable time opens between dateFrom and dateTo (and within earliest/latest, if given). Needs an email or a phone number to reach them.',
+  {
+    cartId: z.string().describe('Cart ID'),
+    itemId: z
+      .string()
+      .describe(
+        'Selected item ID of the service to wait for (from addServiceToCart or getCartSummary)',
+      ),
+    dateFrom: isoDate
+      .optional()
+      .describe(
+        'first acceptable date, YYYY-MM-DD (default today at the location)',
+      ),
+    dateTo: isoDate
+      .optional()
+      .describe(
+        `last acceptable date, YYYY-MM-DD (default a week after dateFrom; at most ${MAX_WAITLIST_DAYS} days)`,
+      ),
+    earliest: slotFilters.earliest,
+    latest: slotFilters.latest,
+    name: z.string().optional().describe("customer's name"),
+    email: z.string().optional().describe("customer's email"),
+    phone: z.string().optional().describe("customer's mobile number"),
+  },
+  withToolErrors(
+    'joinWaitlist',
+    async ({
+      cartId,
+      itemId,
+      dateFrom,
+      dateTo,
+      earliest,
+      latest,
+      name,
+      email,
+      phone,
+    }) => {
+      const { cart } = await blvd.request(CartLocationDocument, 'CLIENT', {
+        id: cartId,
+      });
+      if (!cart) throw new BoulevardNotFoundError(`Cart not found: ${cartId}`);
+      if (!cart.location)
+        throw new BoulevardValidationError(`Cart has no location: ${cartId}`);
+      const service = await serviceInCart(cartId, itemId);
+
+      const today = todayIn(cart.location.tz);
+      const from = dateFrom && dateFrom > today ? dateFrom : today;
+      const to = dateTo ?? addDays(from, 7);
+      if (to < from || to > addDays(from, MAX_WAITLIST_DAYS)) {
+        throw new BoulevardValidationError(
+          `dateTo must be from ${from} to ${addDays(from, MAX_WAITLIST_DAYS)}`,
+        );
+      }
+
+      if (email && !isValidEmail(email)) {
+        throw new BoulevardValidationError(
+          `Not a valid email address: ${email}`,
+        );
+      }
+      const mobile = phone ? normalizePhone(phone) : null;
+      if (phone && !mobile) {
+        throw new BoulevardValidationError(
+          `Not a valid phone number: ${phone}`,
+        );
+      }
+      if (!email && !mobile) {
+        throw new BoulevardValidationError(
+          'Ask for an email or a phone number to reach the customer',
+        );
+      }
+
+      const waitlist = {
+        locationId: cart.location.id,
+        locationName: cart.location.name,
+        timeZone: cart.location.tz,
+        serviceId: service.id,
+        serviceName: service.name,
+        dateFrom: from,
+        dateTo: to,
+        ...(earliest || latest ? { timeWindow: { earliest, latest } } : {}),
+        contact: {
+          ...(name ? { name } : {}),
+          ...(email ? { email: normalizeEmail(email) } : {}),
+          ...(mobile ? { phone: mobile } : {}),
+        },
+      };
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ waitlist }) }],
+      };
+    },
+  ),
+);
+
+server.tool(
+  'reserveCartBookableItems',
+  'set and reserve bookable time for cart',
+  {
+    cartId: z.string().describe('existing cart id'),
+    bookableTimeId: z.string().describe('bookable time id'),
+  },
+  withToolErrors(
+    'reserveCartBookableItems',
+    async ({ cartId, bookableTimeId }) => {
+      const data = await blvd.request(
+        ReserveCartBookableItemsDocument,
+        'CLIENT',
+        {
+          input: {
+            id: cartId,
+            bookableTimeId: bookableTimeId,
+          },
+        },
+      );
+      // const locations = data?.locations?.edges ?? [];
+      return { content: [{ type: 'text', text: JSON.stringify(data) }] };
+    },
+  ),
+);
+
+server.tool(
+  'getCartSummary',
+  'The cart as it stands: every service with the guest it is for and its staff, the guests, the client and the totals',
+  {
+    cartId: z.string().describe('Existing cart ID'),
+  },
+  withToolErrors('getCartSummary', async ({ cartId }) => {
+    console.log('🧾 MCP → getCartSummary called with:', cartId);
+
+    const data = await blvd.request(CartSummaryDocument, 'CLIENT', {
+      id: cartId,
+    });
+    const cart = data?.cart;
+
+    if (!cart) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Cart not found or expired.',
+          },
+        ],
+      };
+    }
+
+    // ✅ Simply return the backend response as-is
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(cart),
+        },
+      ],
+    };
+  }),
+);
+
+server.tool(
+  'updateCartSelectedBookableItem',
+  'Update one selected item in the cart (guest, options, staff variant). With several services, call it once per item to give each its own staff.',
+  {
+    cartId: z.string().describe('Cart ID'),
+    itemId: z.string().describe('Service Item ID'),
+    itemStaffVariantId: z
+      .string()
+      .optional()
+      .describe('Staff variant ID (optional)'),
+    itemGuestId: z.string().optional().describe('Guest ID (optional)'),
+    itemOptionIds: z
+      .array(z.string())
+      .optional()
+      .describe('List of selected option IDs (optional)'),
+    clientId: z.string().optional().describe('Client ID (optional)'),
+  },
+  withToolErrors(
+    'updateCartSelectedBookableItem',
+    async ({
+      cartId,
+      itemId,
+      itemStaffVariantId,
+      itemGuestId,
+      itemOptionIds,
+    }) => {
       const variables = {
         input: {
           id: cartId,
@@ -1009,631 +1048,643 @@ server.tool(
       };
 
       // 🧠 Call your GraphQL helper (gql or fetchRequest)
-      const data = await gql(mutation, "CLIENT", variables);
+      const data = await blvd.request(
+        UpdateCartSelectedBookableItemDocument,
+        'CLIENT',
+        variables,
+      );
 
-      console.log("🧩 [updateCartSelectedBookableItem] success:", data);
+      console.log('🧩 [updateCartSelectedBookableItem] success:', data);
 
       return {
         content: [
           {
-            type: "text",
-            text: JSON.stringify(data?.updateCartSelectedBookableItem ?? {}, null, 2),
+            type: 'text',
+            text: JSON.stringify(
+              data?.updateCartSelectedBookableItem ?? {},
+              null,
+              2,
+            ),
           },
         ],
       };
-    } catch (error: any) {
-      console.error("❌ [updateCartSelectedBookableItem] failed:", error);
+    },
+  ),
+);
+
+server.tool(
+  'cartBookableStaffVariants',
+  'Staff free at one bookable time for a service in the cart. To list staff regardless of time, use listServiceStaff.',
+  {
+    cartId: z.string().describe('Cart ID'),
+    itemId: z
+      .string()
+      .describe(
+        'Selected item ID in the cart (from addServiceToCart or getCartSummary)',
+      ),
+    bookableTimeId: z.string().describe('Selected bookable time ID'),
+  },
+  withToolErrors(
+    'cartBookableStaffVariants',
+    async ({ cartId, itemId, bookableTimeId }) => {
+      const result = await blvd.request(
+        CartBookableStaffVariantsDocument,
+        'CLIENT',
+        {
+          id: cartId,
+          itemId,
+          bookableTimeId,
+        },
+      );
+
       return {
         content: [
           {
-            type: "text",
-            text: JSON.stringify({
-              error: true,
-              message: error?.message || "Unknown error",
-            }),
+            type: 'text',
+            text: JSON.stringify(result.cartBookableStaffVariants, null, 2),
           },
         ],
       };
-    }
-  }
+    },
+  ),
 );
 
+function serviceNotInCart(itemId: string) {
+  return new BoulevardValidationError(
+    `No service in the cart has item id ${itemId}; use an itemId from addServiceToCart or getCartSummary`,
+  );
+}
 
+// Boulevard books whoever is free when an item has no staff variant
+const ANY_AVAILABLE_STAFF = {
+  staffVariantId: null,
+  staffId: null,
+  name: 'Any available',
+};
+
+// The cart service `itemId` names, with everyone who can perform it
+async function serviceInCart(cartId: string, itemId: string) {
+  const { cart } = await blvd.request(CartItemStaffVariantsDocument, 'CLIENT', {
+    id: cartId,
+  });
+  if (!cart) throw new BoulevardNotFoundError(`Cart not found: ${cartId}`);
 
+  const selected = cart.selectedItems.find((s) => s.id === itemId);
+  if (!selected || !('item' in selected)) throw serviceNotInCart(itemId);
+  return selected.item;
+}
+
+type StaffVariant = Awaited<
+  ReturnType<typeof serviceInCart>
+>['staffVariants'][number];
+
+function staffOption(variant: StaffVariant) {
+  const { staff } = variant;
+  return {
+    staffVariantId: variant.id,
+    staffId: staff.id,
+    name:
+      staff.displayName ||
+      [staff.firstName, staff.lastName].filter(Boolean).join(' '),
+    price: variant.price,
+    duration: variant.duration,
+  };
+}
 
-// server.tool(
-//   "cartBookableStaffVariants",
-//   "Fetch available estheticians (staff) for a selected service time.",
-//   {
-//     id: z.string().describe("Cart ID"),
-//     itemId: z.string().describe("existing Selected item ID"),
-//     bookableTimeId: z.string().describe("Selected bookable time ID"),
-//   },
-//   async ({ id, itemId, bookableTimeId }) => {
-//     const query = `
-//       query CartBookableStaffVariants($id: ID!, $itemId: ID!, $bookableTimeId: ID!) {
-//         cartBookableStaffVariants(id: $id, itemId: $itemId, bookableTimeId: $bookableTimeId) {
-//           id
-//           duration
-//           price
-//           staff {
-//             id
-//             displayName
-//             firstName
-//             lastName
-//             bio
-//             role { id name }
-//           }
-//         }
-//       }
-//     `;
-
-//     const variables = { id, itemId, bookableTimeId };
-
-//     console.error("id", id);
-//     console.error("itemId", itemId);
-//     console.error("bookableTimeId", bookableTimeId);
-
-
-//     try {
-//       console.error("🧠 [MCP SERVER] Fetching staff variants with:", variables);
-
-//       const result = await gql(query, "CLIENT", variables);
-
-//       console.error("✅ [MCP SERVER] Staff variants fetched successfully.");
-//       console.error("📦 [MCP SERVER] Raw result:", JSON.stringify(result, null, 2));
-
-//       console.error(" result", result);
-
-
-//       const staffVariants = result?.cartBookableStaffVariants ?? [];
-
-//       return {
-//         content: [
-//           {
-//             type: "text",
-//             text: JSON.stringify(staffVariants, null, 2),
-//           },
-//         ],
-//       };
-//     } catch (error: any) {
-//       console.error("❌ [MCP SERVER] cartBookableStaffVariants failed!");
-//       console.error("Error message:", error?.message || error);
-//       console.error("Stack trace:", error?.stack || "No stack trace available");
-
-//       // Return error as MCP content so client side can also log it
-//       return {
-//         content: [
-//           {
-//             type: "text",
-//             text: JSON.stringify({
-//               error: true,
-//               message: error?.message || "Unknown error occurred while fetching staff variants",
-//             }),
-//           },
-//         ],
-//       };
-//     }
-//   }
-// );
 server.tool(
-  "cartBookableStaffVariants",
-  "Fetch available estheticians (staff) for a selected service time.",
+  'listServiceStaff',
+  'Staff who can perform a service in the cart, whatever the time. The first option, "Any available", books whoever is free.',
   {
-    cartId: z.string().describe("Cart ID"), // ✅ clear and correct
+    cartId: z.string().describe('Cart ID'),
     itemId: z
       .string()
-      .optional()
-      .describe("Selected item ID *in the cart* (optional, will use static fallback if missing)"),
-    bookableTimeId: z.string().describe("Selected bookable time ID"),
+      .describe(
+        'Selected item ID in the cart (from addServiceToCart or getCartSummary)',
+      ),
   },
-  async ({ cartId, itemId, bookableTimeId }) => {
-    // ✅ Use static fallback for itemId (for testing)
-    const staticItemId = "urn:blvd:Service:935fabc9-a3bb-47a4-81ff-0bc48b4d0cce";
-    const effectiveItemId = itemId || staticItemId;
-
-    const query = `
-      query CartBookableStaffVariants($id: ID!, $itemId: ID!, $bookableTimeId: ID!) {
-        cartBookableStaffVariants(id: $id, itemId: $itemId, bookableTimeId: $bookableTimeId) {
-          id
-          staff {
-            id
-            displayName
-          }
-        }
-      }
-    `;
-
-    const variables = {
-      id: cartId,                // ✅ map cartId → id (GraphQL variable)
-      itemId: effectiveItemId,   // ✅ use provided or static
-      bookableTimeId,
+  withToolErrors('listServiceStaff', async ({ cartId, itemId }) => {
+    const service = await serviceInCart(cartId, itemId);
+    const staff = [
+      ANY_AVAILABLE_STAFF,
+      ...service.staffVariants.map(staffOption),
+    ];
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ itemId, serviceName: service.name, staff }),
+        },
+      ],
     };
+  }),
+);
 
-    console.error("🧠 [MCP SERVER] Fetching staff variants with:", variables);
+server.tool(
+  'selectStaff',
+  'Choose who performs a service in the cart. Leave staffVariantId out for any available staff. cartBookableTimes then only offers times the chosen staff member is free.',
+  {
+    cartId: z.string().describe('Cart ID'),
+    itemId: z
+      .string()
+      .describe(
+        'Selected item ID in the cart (from addServiceToCart or getCartSummary)',
+      ),
+    staffVariantId: z
+      .string()
+      .optional()
+      .describe('staffVariantId from listServiceStaff; omit for any available'),
+  },
+  withToolErrors('selectStaff', async ({ cartId, itemId, staffVariantId }) => {
+    const service = await serviceInCart(cartId, itemId);
+    const variant = staffVariantId
+      ? service.staffVariants.find((v) => v.id === staffVariantId)
+      : undefined;
+    if (staffVariantId && !variant) {
+      throw new BoulevardValidationError(
+        `${service.name} has no staff variant ${staffVariantId}; pick one from listServiceStaff`,
+      );
+    }
 
-    try {
-      const result = await gql(query, "CLIENT", variables);
+    const data = await blvd.request(
+      UpdateCartSelectedBookableItemDocument,
+      'CLIENT',
+      {
+        input: { id: cartId, itemId, itemStaffVariantId: variant?.id ?? null },
+      },
+    );
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            selectedStaff: variant ? staffOption(variant) : ANY_AVAILABLE_STAFF,
+            cart: data.updateCartSelectedBookableItem.cart,
+          }),
+        },
+      ],
+    };
+  }),
+);
 
-      console.error("✅ [MCP SERVER] Staff variants fetched successfully.");
-      console.error("📦 [MCP SERVER] Raw result:", JSON.stringify(result, null, 2));
+server.tool(
+  'checkAvailability',
+  'Check availability for a given service and date/time',
+  {
+    cartId: z.string().describe('existing cart id'),
+    serviceId: z.string().describe('service id'),
+    date: z.string().optional().describe('date in format YYYY-MM-DD'),
+    time: z
+      .string()
+      .optional()
+      .describe('time in format HH:MM or 12-hour format with AM/PM'),
+  },
+  withToolErrors(
+    'checkAvailability',
+    async ({ cartId, serviceId, date, time }) => {
+      console.log(`[checkAvailability] checking`, {
+        cartId,
+        serviceId,
+        date,
+        time,
+      });
+
+      // First, check if service is already in cart or add it
+      if (serviceId) {
+        try {
+          await blvd.request(
+            AddServiceToCartDocument,
+            'CLIENT',
+            {
+              input: {
+                id: cartId,
+                itemId: serviceId,
+              },
+            },
+            { timeoutMs: 7000 },
+          );
+        } catch (err) {
+          // Service might already be in cart, continue
+          console.log('Service might already be in cart:', err);
+        }
+      }
 
-      const staffVariants = result?.cartBookableStaffVariants ?? [];
+      const tz = await cartTimeZone(cartId);
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(staffVariants, null, 2),
-          },
-        ],
-      };
-    } catch (error: any) {
-      console.error("❌ [MCP SERVER] cartBookableStaffVariants failed!");
-      console.error("Error message:", error?.message || error);
-      console.error("Stack trace:", error?.stack || "No stack trace available");
+      if (!date) {
+        // Bookable dates for the next 30 days at the location
+        const rangeLower = todayIn(tz);
+        const rangeUpper = addDays(rangeLower, 30);
 
-      return {
-        content: [
+        const availableDates = await blvd.request(
+          CartBookableDatesDocument,
+          'CLIENT',
           {
-            type: "text",
-            text: JSON.stringify({
-              error: true,
-              message:
-                error?.message ||
-                "Unknown error occurred while fetching staff variants",
-            }),
+            id: cartId,
+            searchRangeLower: rangeLower,
+            searchRangeUpper: rangeUpper,
+            tz,
           },
-        ],
-      };
-    }
-  }
-);
-
+          { timeoutMs: 7000 },
+        );
 
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `📅 **Available dates for the next 30 days:**\n\n${JSON.stringify(availableDates?.cartBookableDates || [], null, 2)}`,
+            },
+          ],
+        };
+      }
 
+      // Check available times for the specified date
+      const availableTimes = await blvd.request(
+        CartBookableTimesDocument,
+        'CLIENT',
+        {
+          id: cartId,
+          searchDate: date,
+          tz,
+        },
+        { timeoutMs: 7000 },
+      );
+      const times = (availableTimes?.cartBookableTimes || []).map((t) => ({
+        id: t.id,
+        ...localSlotTime(t.startTime, tz),
+      }));
 
+      if (!time) {
+        // Return all available times for the date
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `🕐 **Available times for ${date}:**\n\n${JSON.stringify(times, null, 2)}`,
+            },
+          ],
+        };
+      }
 
+      // Check if the specific time is available, in the location's local time
+      const requestedTime = parseTimeOfDay(time);
+      const slot = times.find((t) => t.time === requestedTime);
 
+      if (slot) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ **Slot available: ${slot.label}!** Proceeding with booking...`,
+            },
+          ],
+        };
+      } else {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `❌ Slot not available on ${date} at ${time}. Here are the available times for that date:\n\n${JSON.stringify(
+                times.map((t) => t.label),
+                null,
+                2,
+              )}`,
+            },
+          ],
+        };
+      }
+    },
+  ),
+);
 
+server.tool(
+  'setClientOnCart',
+  'Attach client info to the cart before checkout',
+  {
+    cartId: z.string().describe('existing cart id'),
+    firstName: z.string().describe('User first name'),
+    lastName: z.string().describe('User last name'),
+    email: z.string().describe('User email'),
+    phoneNumber: z.string().describe('user phone number'),
+  },
+  withToolErrors(
+    'setClientOnCart',
+    async ({ cartId, firstName, lastName, email, phoneNumber }) => {
+      const data = await blvd.setClientOnCart(cartId, {
+        firstName,
+        lastName,
+        email,
+        phoneNumber,
+      });
+
+      return { content: [{ type: 'text', text: JSON.stringify(data) }] };
+    },
+  ),
+);
 
-server.tool("checkAvailability", "Check availability for a given service and date/time", {
-  cartId: z.string().describe("existing cart id"),
-  serviceId: z.string().describe("service id"),
-  date: z.string().optional().describe("date in format YYYY-MM-DD"),
-  time: z.string().optional().describe("time in format HH:MM or 12-hour format with AM/PM"),
-}, async ({ cartId, serviceId, date, time }) => {
-  console.log(`[checkAvailability] checking`, { cartId, serviceId, date, time });
-  
-  try {
-    // First, check if service is already in cart or add it
-    if (serviceId) {
-      try {
-        await gql(ADD_SERVICE_TO_CART, 'CLIENT', {
-          input: {
-            id: cartId,
-            itemId: serviceId
-          }
-        }, 7000);
-      } catch (err) {
-        // Service might already be in cart, continue
-        console.log('Service might already be in cart:', err);
-      }
-    }
-    
-    if (!date) {
-      // Get available dates for the next 30 days
-      const today = new Date();
-      const rangeLower = today.toISOString().split('T')[0];
-      const rangeUpper = new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-
-      console.log("searchRangeLower check >> ",rangeLower);
-      console.log("rangeUpper check >> ",rangeUpper);
-      
-      const availableDates = await gql(CART_BOOKABLE_DATES, 'CLIENT', {
-        id: cartId,
-        searchRangeLower: rangeLower,
-        searchRangeUpper: rangeUpper
-      }, 7000);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `📅 **Available dates for the next 30 days:**\n\n${JSON.stringify(availableDates?.cartBookableDates || [], null, 2)}`
-          }
-        ]
-      };
-    }
-    
-    const searchDate = new Date(date + 'T00:00:00Z').toISOString();
-    
-    // Check available times for the specified date
-    const availableTimes = await gql(CART_BOOKABLE_TIMES, 'CLIENT', {
-      id: cartId,
-      searchDate: searchDate
-    }, 7000);
-    
-    if (!time) {
-      // Return all available times for the date
-      return {
-        content: [
-          {
-            type: "text",
-            text: `🕐 **Available times for ${date}:**\n\n${JSON.stringify(availableTimes?.cartBookableTimes || [], null, 2)}`
-          }
-        ]
+server.tool(
+  'applyPromotionCode',
+  'Apply a promo/discount code to the cart (optional)',
+  {
+    cartId: z.string().describe('existing cart id'),
+    offerCode: z.string().describe('promotion code'),
+  },
+  withToolErrors('applyPromotionCode', async ({ cartId, offerCode }) => {
+    const data = await blvd.applyPromotionCode(cartId, offerCode);
+    // const locations = data?.locations?.edges ?? [];
+    return { content: [{ type: 'text', text: JSON.stringify(data) }] };
+  }),
+);
+server.tool(
+  'tokenizeCard',
+  'Tokenize a credit card via Boulevard Vault sandbox (https://vault-sandbox.joinblvd.com/cards/tokenize)',
+  {
+    name: z.string().describe('Cardholder full name'),
+    number: z.string().describe('Card number (PAN)'),
+    cvv: z.string().describe('Card CVV/CVC'),
+    exp_month: z.number().describe('Expiry month (1–12)'),
+    exp_year: z.number().describe('Expiry year (2-digit or 4-digit)'),
+    address_postal_code: z.string().describe('Billing postal / ZIP code'),
+  },
+  withToolErrors(
+    'tokenizeCard',
+    async ({ name, number, cvv, exp_month, exp_year, address_postal_code }) => {
+      // Convert 2-digit year to 4-digit if needed
+      if (exp_year < 100) exp_year = 2000 + exp_year;
+      const payload = {
+        card: {
+          name,
+          number,
+          cvv,
+          exp_month,
+          exp_year,
+          address_postal_code,
+        },
       };
-    }
-    
-    // Check if the specific time is available
-    const times = availableTimes?.cartBookableTimes || [];
-    const requestedTime = time.toLowerCase().trim();
-    
-    // Simple matching logic - look for similar times
-    const isAvailable = times.some(t => {
-      const bellTime = t.startTime?.toLowerCase() || '';
-      return bellTime.includes(requestedTime) || requestedTime.includes(bellTime.split(':')[0]);
-    });
-    
-    if (isAvailable) {
+      const response = await fetch(
+        'https://vault-sandbox.joinblvd.com/cards/tokenize',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/plain, */*',
+            'User-Agent': 'blvd-enterprise-app/1.0',
+          },
+          body: JSON.stringify(payload),
+        },
+      );
+      const json = await response.json();
+      // Return exactly what Vault returns
       return {
         content: [
           {
-            type: "text",
-            text: `✅ **Slot available on ${date} at ${time}!** Proceeding with booking...`
-          }
-        ]
+            type: 'text',
+            text: JSON.stringify(json, null, 2),
+          },
+        ],
       };
-    } else {
+    },
+  ),
+);
+server.tool(
+  'addCartCardPaymentMethod',
+  'Attach a tokenized payment method (card) to an existing Boulevard cart',
+  {
+    cartId: z.string().describe('existing cart id'),
+    token: z.string().describe('Card token returned from tokenizeCard tool'),
+    select: z
+      .boolean()
+      .default(true)
+      .describe('Whether to set this card as selected payment method'),
+  },
+  withToolErrors(
+    'addCartCardPaymentMethod',
+    async ({ cartId, token, select }) => {
+      const data = await blvd.addCardPaymentMethod(cartId, token, select);
       return {
         content: [
           {
-            type: "text",
-            text: `❌ Slot not available on ${date} at ${time}. Here are the available times for that date:\n\n${JSON.stringify(times.map(t => t.startTime), null, 2)}`
-          }
-        ]
+            type: 'text',
+            text: JSON.stringify(data, null, 2),
+          },
+        ],
       };
-    }
-    
-  } catch (err) {
+    },
+  ),
+);
+
+server.tool(
+  'checkoutCart',
+  'Perform final checkout for a Boulevard cart',
+  {
+    cartId: z
+      .string()
+      .describe(
+        'existing cart id (e.g., urn:blvd:Cart:23f5903a-3476-478a-8096-da405bf11d53)',
+      ),
+  },
+  withToolErrors('checkoutCart', async ({ cartId }) => {
+    const data = await blvd.checkoutCart(cartId);
     return {
       content: [
         {
-          type: "text",
-          text: `Error checking availability: ${err.message}\n\nDetails: ${JSON.stringify(err, null, 2)}`
-        }
-      ]
+          type: 'text',
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
     };
-  }
-});
-
-
-
+  }),
+);
 
-// ✅ Email sanitizer + validator
-function normalizeEmail(raw: string): string {
-  return raw
-    ?.trim()
-    .replace(/\u200B/g, "")       // remove zero-width spaces
-    .normalize("NFKC")
-    .toLowerCase();
+// Appointment tools run as the identified client (CLIENT_AUTH). `clientId`
+// is filled in by the chat service, never taken from the customer.
+
+const clientIdArg = z
+  .string()
+  .describe(
+    'Boulevard client id of the identified customer (filled in by the chat service)',
+  );
+
+function appointmentView(appointment: AppointmentDetailsFragment) {
+  return {
+    id: appointment.id,
+    startAt: appointment.startAt,
+    endAt: appointment.endAt,
+    cancelled: appointment.cancelled,
+    location: { name: appointment.location.name, tz: appointment.location.tz },
+    services: appointment.appointmentServices.map((s) => ({
+      name: s.service.name,
+      staff:
+        s.staff?.displayName ||
+        [s.staff?.firstName, s.staff?.lastName].filter(Boolean).join(' ') ||
+        null,
+      startAt: s.startAt,
+      price: s.price,
+    })),
+  };
 }
 
-function isValidEmail(raw: string): boolean {
-  if (!raw) return false;
-
-  const email = normalizeEmail(raw);
-
-  // ✔ Modern TLD-safe regex for Blvd
-  const emailRegex = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/;
-
-  return emailRegex.test(email);
+async function myAppointments(clientId: string) {
+  const data = await blvd.request(
+    MyAppointmentsDocument,
+    'CLIENT_AUTH',
+    {},
+    { clientId },
+  );
+  return data.myAppointments.edges.map((e) => e.node);
 }
 
-server.tool("setClientOnCart", "Attach client info to the cart before checkout", {
-  cartId: z.string().describe("existing cart id"),
-  firstName: z.string().describe("User first name"),
-  lastName: z.string().describe("User last name"),
-  email: z.string().describe("User email"),
-  phoneNumber: z.string().describe("user phone number")
-}, async ({ cartId, firstName, lastName, email, phoneNumber }) => {
-  
-  // Normalize the email
-  const cleanedEmail = normalizeEmail(email);
-
-  
-  // Safe to send to Boulevard
-  const data = await gql(SET_CLIENT_ON_CART, "CLIENT", {
-      input: {
-          id: cartId,
-          clientInformation: {
-              firstName,
-              lastName,
-              email: cleanedEmail,
-              phoneNumber
-          }
-      }
-  });
+// Also checks the appointment belongs to the client
+async function findMyAppointment(clientId: string, appointmentId: string) {
+  const appointment = (await myAppointments(clientId)).find(
+    (a) => a.id === appointmentId,
+  );
+  if (!appointment)
+    throw new BoulevardNotFoundError(`Appointment not found: ${appointmentId}`);
+  return appointment;
+}
 
-  return { content: [{ type: "text", text: JSON.stringify(data) }] };
-});
+server.tool(
+  'listMyAppointments',
+  "List the identified customer's appointments, soonest first",
+  {
+    clientId: clientIdArg,
+    includePast: z
+      .boolean()
+      .optional()
+      .describe('also return past and cancelled appointments'),
+  },
+  withToolErrors('listMyAppointments', async ({ clientId, includePast }) => {
+    const now = Date.now();
+    const appointments = (await myAppointments(clientId))
+      .filter((a) => includePast || (!a.cancelled && Date.parse(a.endAt) > now))
+      .sort((a, b) => Date.parse(a.startAt) - Date.parse(b.startAt))
+      .map(appointmentView);
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ appointments }) }],
+    };
+  }),
+);
 
+server.tool(
+  'rescheduleAppointment',
+  'Move an appointment to another time. Without bookableTimeId, returns the available times on `date`; call again with the chosen bookableTimeId to move it.',
+  {
+    clientId: clientIdArg,
+    appointmentId: z.string().describe('id from listMyAppointments'),
+    date: z.string().describe('new date in format YYYY-MM-DD'),
+    bookableTimeId: z
+      .string()
+      .optional()
+      .describe('bookableTimeId of the chosen time'),
+  },
+  withToolErrors(
+    'rescheduleAppointment',
+    async ({ clientId, appointmentId, date, bookableTimeId }) => {
+      const appointment = await findMyAppointment(clientId, appointmentId);
+      if (appointment.cancelled) {
+        throw new BoulevardValidationError(
+          'A cancelled appointment cannot be rescheduled',
+        );
+      }
 
-server.tool("applyPromotionCode", "Apply a promo/discount code to the cart (optional)", {
-    cartId: z.string().describe("existing cart id"),
-    offerCode: z.string().describe("promotion code")
-}, async ({ cartId, offerCode }) => {
-    const data = await gql(APPLY_PROMOTION_CODE, 'CLIENT', { input: {
-            "id": cartId,
-            "offerCode": offerCode
-        } });
-    // const locations = data?.locations?.edges ?? [];
-    return { content: [{ type: "text", text: JSON.stringify(data) }] };
-});
-server.tool("tokenizeCard", "Tokenize a credit card via Boulevard Vault sandbox (https://vault-sandbox.joinblvd.com/cards/tokenize)", {
-    name: z.string().describe("Cardholder full name"),
-    number: z.string().describe("Card number (PAN)"),
-    cvv: z.string().describe("Card CVV/CVC"),
-    exp_month: z.number().describe("Expiry month (1–12)"),
-    exp_year: z.number().describe("Expiry year (2-digit or 4-digit)"),
-    address_postal_code: z.string().describe("Billing postal / ZIP code"),
-}, async ({ name, number, cvv, exp_month, exp_year, address_postal_code }) => {
-    try {
-        // Convert 2-digit year to 4-digit if needed
-        if (exp_year < 100)
-            exp_year = 2000 + exp_year;
-        const payload = {
-            card: {
-                name,
-                number,
-                cvv,
-                exp_month,
-                exp_year,
-                address_postal_code,
-            },
-        };
-        const response = await fetch("https://vault-sandbox.joinblvd.com/cards/tokenize", {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                "Accept": "application/json, text/plain, */*",
-                "User-Agent": "blvd-enterprise-app/1.0",
-            },
-            body: JSON.stringify(payload),
-        });
-        const json = await response.json();
-        // Return exactly what Vault returns
-        return {
-            content: [
-                {
-                    type: "text",
-                    text: JSON.stringify(json, null, 2),
-                },
-            ],
-        };
-    }
-    catch (err) {
+      if (!bookableTimeId) {
+        const data = await blvd.request(
+          AppointmentRescheduleTimesDocument,
+          'CLIENT_AUTH',
+          {
+            input: { appointmentId, date, tz: appointment.location.tz },
+          },
+          { clientId },
+        );
+        const times = data.appointmentRescheduleAvailableTimes.availableTimes;
         return {
-            content: [
-                {
-                    type: "text",
-                    text: JSON.stringify({ success: false, error: String(err) }, null, 2),
-                },
-            ],
-        };
-    }
-});
-const ADD_CART_CARD_PAYMENT_METHOD = `
-mutation addCartCardPaymentMethod($input: AddCartCardPaymentMethodInput!) {
-  addCartCardPaymentMethod(input: $input) {
-    cart {
-      id
-      expiresAt
-      availablePaymentMethods {
-        id
-        name
-        ... on CartItemCardPaymentMethod {
-          cardBrand
-          cardExpMonth
-          cardExpYear
-          cardHolder
-          cardIsDefault
-          cardLast4
-          id
-          name
-          __typename
-        }
-        ... on CartItemVoucherPaymentMethod {
-          availableCount
-          expiresOn
-          id
-          name
-          __typename
-        }
-        __typename
-      }
-      summary {
-        deposit
-        depositAmount
-        discountAmount
-        gratuityAmount
-        paymentMethodRequired
-        roundingAmount
-        subtotal
-        taxAmount
-        total
-        __typename
-      }
-      clientInformation {
-        email
-        firstName
-        lastName
-        phoneNumber
-        externalId
-        __typename
-      }
-      __typename
-    }
-    __typename
-  }
-}
-`;
-server.tool("addCartCardPaymentMethod", "Attach a tokenized payment method (card) to an existing Boulevard cart", {
-    cartId: z.string().describe("existing cart id"),
-    token: z.string().describe("Card token returned from tokenizeCard tool"),
-    select: z.boolean().default(true).describe("Whether to set this card as selected payment method"),
-}, async ({ cartId, token, select }) => {
-    try {
-        const variables = {
-            input: {
-                id: cartId,
-                token: token,
-                select: select,
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                status: 'CHOOSE_TIME',
+                appointmentId,
+                date,
+                times,
+              }),
             },
+          ],
         };
-        const data = await gql(ADD_CART_CARD_PAYMENT_METHOD, "CLIENT", variables);
-        return {
-            content: [
-                {
-                    type: "text",
-                    text: JSON.stringify(data, null, 2),
-                },
-            ],
-        };
-    }
-    catch (err) {
-        return {
-            content: [
-                {
-                    type: "text",
-                    text: JSON.stringify({ success: false, error: String(err) }, null, 2),
-                },
-            ],
-        };
-    }
-});
-const CHECKOUT_CART = `
-mutation checkoutCart($id: ID!) {
-  checkoutCart(input: { id: $id }) {
-    appointments {
-      appointmentId
-      clientId
-    }
-    cart {
-      id
-      selectedItems {
-        id
-        price
-        item {
-          id
-          name
-        }
-        __typename
-      }
-      summary {
-        deposit
-        depositAmount
-        discountAmount
-        gratuityAmount
-        paymentMethodRequired
-        roundingAmount
-        subtotal
-        taxAmount
-        total
-        __typename
-      }
-      clientInformation {
-        email
-        firstName
-        lastName
-        phoneNumber
-        externalId
-        __typename
-      }
-      location {
-        id
-        name
-        tz
-        __typename
       }
-      __typename
-    }
-    __typename
-  }
-}
-`;
-
-server.tool("checkoutCart", "Perform final checkout for a Boulevard cart", {
-    cartId: z.string().describe("existing cart id (e.g., urn:blvd:Cart:23f5903a-3476-478a-8096-da405bf11d53)"),
-}, async ({ cartId }) => {
-    try {
-        const data = await gql(CHECKOUT_CART, "CLIENT", { id: cartId });
-        return {
-            content: [
-                {
-                    type: "text",
-                    text: JSON.stringify(data, null, 2),
-                },
-            ],
-        };
-    }
-    catch (err) {
-        return {
-            content: [
-                {
-                    type: "text",
-                    text: JSON.stringify({ success: false, error: String(err) }, null, 2),
-                },
-            ],
-        };
-    }
-});
-
-
 
-
-
-server.tool(
-  "getMyAppointment", {
-    clientId: '041e6ce0-9055-4fdc-bea8-20fe41a5dfb6',
-  }, async ({ clientId }) => {
-
-    const data = await gql(GET_MY_APPOINTMENTS, "CLIENT_AUTH",{clientId:"041e6ce0-9055-4fdc-bea8-20fe41a5dfb6"});
-    console.error("myAppointments  >> ",data?.myAppointments);
-    const myAppointments = data?.myAppointments;
-
-
-    if (!myAppointments) {
+      const data = await blvd.request(
+        RescheduleAppointmentDocument,
+        'CLIENT_AUTH',
+        {
+          input: { appointmentId, bookableTimeId, sendNotification: true },
+        },
+        { clientId },
+      );
+      const rescheduled = appointmentView(
+        data.appointmentReschedule.appointment,
+      );
       return {
         content: [
           {
-            type: "text",
-            text: "myAppointments not found.",
+            type: 'text',
+            text: JSON.stringify({
+              status: 'RESCHEDULED',
+              appointment: rescheduled,
+            }),
           },
         ],
       };
-    }
+    },
+  ),
+);
 
-    // ✅ Simply return the backend response as-is
-    return {
-      content: [
+server.tool(
+  'cancelAppointment',
+  "Cancel one of the identified customer's appointments",
+  {
+    clientId: clientIdArg,
+    appointmentId: z.string().describe('id from listMyAppointments'),
+    notes: z
+      .string()
+      .optional()
+      .describe('why the customer is cancelling, in their words'),
+  },
+  withToolErrors(
+    'cancelAppointment',
+    async ({ clientId, appointmentId, notes }) => {
+      await findMyAppointment(clientId, appointmentId);
+      const data = await blvd.request(
+        CancelAppointmentDocument,
+        'CLIENT_AUTH',
         {
-          type: "text",
-          text: JSON.stringify(myAppointments),
+          input: { id: appointmentId, reason: 'CLIENT_CANCEL', notes },
         },
-      ],
-    };
-  }
+        { clientId },
+      );
+      const cancelled = appointmentView(data.cancelAppointment.appointment);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              status: 'CANCELLED',
+              appointment: cancelled,
+            }),
+          },
+        ],
+      };
+    },
+  ),
 );
 
-
 async function main() {
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.error("BLVD ENTERPRISE Appointment Booking MCP Server running on stdio");
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error(
+    'BLVD ENTERPRISE Appointment Booking MCP Server running on stdio',
+  );
 }
 main().catch((error) => {
-    console.error("Fatal error in main():", error);
-    process.exit(1);
+  console.error('Fatal error in main():', error);
+  process.exit(1);
 });
@@ -0,0 +1,52 @@
+// src/blvd/boulevard-auth.ts
+import * as crypto from 'crypto';
+import type { BoulevardConfig } from './boulevard-config.js';
+
+function basic(credentials: string): string {
+  return Buffer.from(credentials, 'utf8').toString('base64');
+}
+
+function requireSigningKeys(config: BoulevardConfig) {
+  const { apiKey, apiSecret, businessId } = config;
+  if (!apiSecret) throw new Error('Missing required env: BLVD_API_SECRET');
+  if (!apiKey) throw new Error('Missing required env: BLVD_API_KEY');
+  if (!businessId) throw new Error('Missing required env: BLVD_BUSINESS_ID');
+  return { apiKey, apiSecret, businessId };
+}
+
+// HMAC-signed token as described in Boulevard's authentication guide
+function signedCredentials(
+  config: BoulevardConfig,
+  prefix: string,
+  subject = '',
+): string {
+  const { apiKey, apiSecret, businessId } = requireSigningKeys(config);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const payload = `${prefix}${businessId}${subject}${timestamp}`;
+
+  const signature = crypto
+    .createHmac('sha256', Buffer.from(apiSecret, 'base64'))
+    .update(payload, 'utf8')
+    .digest('base64');
+
+  return basic(`${apiKey}:${signature}${payload}`);
+}
+
+/** Anonymous Client API access: the API key with an empty password. */
+export function guestAuthHeader(config: BoulevardConfig): string {
+  if (!config.apiKey) throw new Error('Missing required env: BLVD_API_KEY');
+  return basic(`${config.apiKey}:`);
+}
+
+/** Admin API access for the business. */
+export function adminAuthHeader(config: BoulevardConfig): string {
+  return signedCredentials(config, 'blvd-admin-v1');
+}
+
+/** Client API access on behalf of one Boulevard client. */
+export function clientAuthHeader(
+  config: BoulevardConfig,
+  clientId: string,
+): string {
+  return signedCredentials(config, 'blvd-client-v1', clientId);
+}
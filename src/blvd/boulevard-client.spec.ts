@@ -0,0 +1,212 @@
+import { BoulevardClient } from './boulevard-client.js';
+import { BoulevardConfig } from './boulevard-config.js';
+import {
+  BoulevardAuthError,
+  BoulevardError,
+  BoulevardNotFoundError,
+  BoulevardRateLimitError,
+  BoulevardTimeoutError,
+} from './boulevard-errors.js';
+import { MembershipPlansDocument } from './generated/admin.js';
+import {
+  CartSummaryDocument,
+  MyAppointmentsDocument,
+} from './generated/client.js';
+
+const config: BoulevardConfig = {
+  clientUrl: 'https://blvd.test/client',
+  adminUrl: 'https://blvd.test/admin',
+  apiKey: 'key',
+  apiSecret: Buffer.from('secret').toString('base64'),
+  businessId: 'biz',
+};
+
+const response = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: new Headers(),
+  json: () => Promise.resolve(body),
+});
+
+const respond = (body: unknown) => jest.fn().mockResolvedValue(response(body));
+
+const noDelay = { retryBaseDelayMs: 0 };
+
+const credentials = (fetchImpl: jest.Mock) => {
+  const header = fetchImpl.mock.calls[0][1].headers.Authorization;
+  return Buffer.from(header.replace('Basic ', ''), 'base64').toString('utf8');
+};
+
+describe('BoulevardClient', () => {
+  it('sends guest requests to the Client API with the bare API key', async () => {
+    const fetchImpl = respond({ data: { cart: { id: 'c1' } } });
+    const blvd = new BoulevardClient(config, fetchImpl);
+
+    const data = await blvd.request(CartSummaryDocument, 'CLIENT', {
+      id: 'c1',
+    });
+
+    expect(data).toEqual({ cart: { id: 'c1' } });
+    expect(fetchImpl.mock.calls[0][0]).toBe(config.clientUrl);
+    expect(JSON.parse(fetchImpl.mock.calls[0][1].body)).toEqual({
+      query: CartSummaryDocument.toString(),
+      variables: { id: 'c1' },
+    });
+    expect(credentials(fetchImpl)).toBe('key:');
+  });
+
+  it('signs Admin API requests for the business', async () => {
+    const fetchImpl = respond({ data: {} });
+    const blvd = new BoulevardClient(config, fetchImpl);
+
+    await blvd.request(MembershipPlansDocument, 'ADMIN', {});
+
+    expect(fetchImpl.mock.calls[0][0]).toBe(config.adminUrl);
+    expect(credentials(fetchImpl)).toMatch(/^key:.+blvd-admin-v1biz\d+$/);
+  });
+
+  it('signs client requests for the given client id', async () => {
+    const fetchImpl = respond({ data: {} });
+    const blvd = new BoulevardClient(config, fetchImpl);
+
+    await expect(
+      blvd.request(MyAppointmentsDocument, 'CLIENT_AUTH', {}),
+    ).rejects.toThrow('clientId required');
+    await blvd.request(
+      MyAppointmentsDocument,
+      'CLIENT_AUTH',
+      {},
+      { clientId: 'cl-1' },
+    );
+
+    expect(credentials(fetchImpl)).toMatch(/blvd-client-v1bizcl-1\d+$/);
+  });
+
+  it('throws the GraphQL errors', async () => {
+    const blvd = new BoulevardClient(
+      config,
+      respond({ data: null, errors: [{ message: 'Cart not found' }] }),
+    );
+
+    const error = await blvd.checkoutCart('nope').catch((e) => e);
+    expect(error).toBeInstanceOf(BoulevardNotFoundError);
+    expect(error.message).toBe('Cart not found');
+  });
+
+  it('classifies HTTP failures', async () => {
+    const fetchImpl = jest
+      .fn()
+      .mockResolvedValueOnce(
+        response({ errors: [{ message: 'Bad signature' }] }, 401),
+      )
+      .mockResolvedValueOnce({
+        ...response({}, 429),
+        headers: new Headers({ 'Retry-After': '2' }),
+      });
+    const blvd = new BoulevardClient(config, fetchImpl, noDelay);
+
+    await expect(blvd.checkoutCart('c1')).rejects.toEqual(
+      expect.objectContaining({
+        constructor: BoulevardAuthError,
+        message: 'Bad signature',
+        status: 401,
+      }),
+    );
+    await expect(blvd.checkoutCart('c1')).rejects.toEqual(
+      expect.objectContaining({
+        constructor: BoulevardRateLimitError,
+        retryAfterMs: 2000,
+        retryable: true,
+      }),
+    );
+  });
+
+  it('retries queries that fail transiently', async () => {
+    const fetchImpl = jest
+      .fn()
+      .mockResolvedValueOnce(response({}, 502))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(response({ data: { cart: { id: 'c1' } } }));
+    const blvd = new BoulevardClient(config, fetchImpl, noDelay);
+
+    const data = await blvd.request(CartSummaryDocument, 'CLIENT', {
+      id: 'c1',
+    });
+
+    expect(data).toEqual({ cart: { id: 'c1' } });
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up on queries after the configured retries', async () => {
+    const fetchImpl = jest.fn().mockResolvedValue(response({}, 503));
+    const blvd = new BoulevardClient(config, fetchImpl, {
+      ...noDelay,
+      retries: 1,
+    });
+
+    await expect(
+      blvd.request(CartSummaryDocument, 'CLIENT', { id: 'c1' }),
+    ).rejects.toBeInstanceOf(BoulevardError);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry mutations or non-retryable errors', async () => {
+    const fetchImpl = jest.fn().mockResolvedValue(response({}, 503));
+    const blvd = new BoulevardClient(config, fetchImpl, noDelay);
+
+    await expect(blvd.checkoutCart('c1')).rejects.toBeInstanceOf(
+      BoulevardError,
+    );
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+
+    fetchImpl.mockClear().mockResolvedValue(response({}, 404));
+    await expect(
+      blvd.request(CartSummaryDocument, 'CLIENT', { id: 'c1' }),
+    ).rejects.toBeInstanceOf(BoulevardNotFoundError);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('turns an aborted request into a timeout', async () => {
+    const fetchImpl = jest.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) =>
+          init.signal!.addEventListener('abort', () =>
+            reject(new Error('The operation was aborted')),
+          ),
+        ),
+    );
+    const blvd = new BoulevardClient(config, fetchImpl as any, noDelay);
+
+    await expect(
+      blvd.request(
+        CartSummaryDocument,
+        'CLIENT',
+        { id: 'c1' },
+        { timeoutMs: 5, retries: 0 },
+      ),
+    ).rejects.toBeInstanceOf(BoulevardTimeoutError);
+  });
+
+  it('normalizes the email before attaching the client to the cart', async () => {
+    const fetchImpl = respond({ data: { updateCart: { cart: { id: 'c1' } } } });
+    const blvd = new BoulevardClient(config, fetchImpl);
+
+    await blvd.setClientOnCart('c1', {
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: '  Jane@Example.COM\u200B',
+      phoneNumber: '+15555550100',
+    });
+
+    const { variables } = JSON.parse(fetchImpl.mock.calls[0][1].body);
+    expect(variables.input).toEqual({
+      id: 'c1',
+      clientInformation: {
+        firstName: 'Jane',
+        lastName: 'Doe',
+        email: 'jane@example.com',
+        phoneNumber: '+15555550100',
+      },
+    });
+  });
+});
@@ -0,0 +1,224 @@
+// src/blvd/boulevard-client.ts
+import type { DocumentTypeDecoration } from '@graphql-typed-document-node/core';
+import fetch from 'cross-fetch';
+import {
+  adminAuthHeader,
+  clientAuthHeader,
+  guestAuthHeader,
+} from './boulevard-auth.js';
+import type { BoulevardConfig } from './boulevard-config.js';
+import {
+  BoulevardError,
+  BoulevardRateLimitError,
+  BoulevardTimeoutError,
+  errorFromGraphQL,
+  errorFromResponse,
+} from './boulevard-errors.js';
+import {
+  AddCartCardPaymentMethodDocument,
+  ApplyPromotionCodeDocument,
+  CheckoutCartDocument,
+  CreateCartDocument,
+  SetClientOnCartDocument,
+  type CartClientInformationInput,
+} from './generated/client.js';
+import { normalizeEmail } from './email.js';
+
+/**
+ * Which endpoint and credentials a request uses: the Client API as a guest,
+ * the Admin API, or the Client API on behalf of a signed-in client.
+ */
+export type BoulevardApi = 'CLIENT' | 'ADMIN' | 'CLIENT_AUTH';
+
+// Generated documents are the query text itself (`TypedDocumentString`)
+type BoulevardDocument<TResult, TVariables> = DocumentTypeDecoration<
+  TResult,
+  TVariables
+> & { toString(): string };
+
+export interface BoulevardRequestOptions {
+  // Required for CLIENT_AUTH
+  clientId?: string;
+  timeoutMs?: number;
+  // Defaults to `retries` for queries and 0 for mutations
+  retries?: number;
+}
+
+export interface BoulevardClientOptions {
+  retries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 300;
+const DEFAULT_RETRY_MAX_DELAY_MS = 5000;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Boulevard GraphQL client shared by the MCP servers.
+ *
+ * `request()` runs any generated document (see `src/blvd/operations`) and
+ * types its variables and result; the cart operations every flow needs
+ * (create, client details, promo code, payment, checkout) are methods so the
+ * servers no longer carry their own copies.
+ *
+ * Failures are thrown as `BoulevardError`s. Queries that fail with a
+ * retryable error (timeout, rate limit, 5xx, network) are retried with
+ * exponential backoff; mutations are sent once, since Boulevard may have
+ * applied them before the response was lost.
+ */
+export class BoulevardClient {
+  constructor(
+    private readonly config: BoulevardConfig,
+    private readonly fetchImpl: typeof fetch = fetch,
+    private readonly options: BoulevardClientOptions = {},
+  ) {}
+
+  get businessId(): string | undefined {
+    return this.config.businessId;
+  }
+
+  get locationId(): string | undefined {
+    return this.config.locationId;
+  }
+
+  async request<TResult, TVariables>(
+    document: BoulevardDocument<TResult, TVariables>,
+    api: BoulevardApi,
+    variables: TVariables,
+    options: BoulevardRequestOptions = {},
+  ): Promise<TResult> {
+    const query = document.toString();
+    const retries =
+      options.retries ??
+      (isQuery(query) ? (this.options.retries ?? DEFAULT_RETRIES) : 0);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<TResult>(query, api, variables, options);
+      } catch (err) {
+        if (!(err instanceof BoulevardError) || !err.retryable) throw err;
+        if (attempt >= retries) throw err;
+        await sleep(this.retryDelay(attempt, err));
+      }
+    }
+  }
+
+  createCart(locationId: string | undefined) {
+    return this.request(CreateCartDocument, 'CLIENT', {
+      input: { locationId },
+    });
+  }
+
+  setClientOnCart(cartId: string, client: CartClientInformationInput) {
+    const email = client.email && normalizeEmail(client.email);
+    return this.request(SetClientOnCartDocument, 'CLIENT', {
+      input: { id: cartId, clientInformation: { ...client, email } },
+    });
+  }
+
+  applyPromotionCode(cartId: string, offerCode: string) {
+    return this.request(ApplyPromotionCodeDocument, 'CLIENT', {
+      input: { id: cartId, offerCode },
+    });
+  }
+
+  addCardPaymentMethod(cartId: string, token: string, select = true) {
+    return this.request(AddCartCardPaymentMethodDocument, 'CLIENT', {
+      input: { id: cartId, token, select },
+    });
+  }
+
+  checkoutCart(cartId: string) {
+    return this.request(CheckoutCartDocument, 'CLIENT', { id: cartId });
+  }
+
+  private async send<TResult>(
+    query: string,
+    api: BoulevardApi,
+    variables: unknown,
+    options: BoulevardRequestOptions,
+  ): Promise<TResult> {
+    const { url, authorization } = this.endpoint(api, options.clientId);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const res = await this.fetchImpl(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Basic ${authorization}`,
+        },
+        body: JSON.stringify({ query, variables }),
+        signal: controller.signal,
+      });
+      const json = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        throw errorFromResponse(
+          res.status,
+          json?.errors?.[0]?.message ?? `Boulevard responded ${res.status}`,
+          res.headers?.get('Retry-After'),
+        );
+      }
+      if (json?.errors?.length) throw errorFromGraphQL(json.errors);
+      if (!json) throw new BoulevardError('Boulevard returned no JSON body');
+      return json.data;
+    } catch (err) {
+      if (err instanceof BoulevardError) throw err;
+      if (controller.signal.aborted) {
+        throw new BoulevardTimeoutError(
+          `Boulevard did not respond within ${timeoutMs}ms`,
+          { cause: err },
+        );
+      }
+      // Connection refused/reset, DNS failures and the like
+      throw new BoulevardError(`Boulevard request failed: ${String(err)}`, {
+        cause: err,
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private retryDelay(attempt: number, err: BoulevardError) {
+    const base = this.options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    const max = this.options.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+    if (err instanceof BoulevardRateLimitError && err.retryAfterMs) {
+      return Math.min(err.retryAfterMs, max);
+    }
+    const delay = Math.min(base * 2 ** attempt, max);
+    // Full jitter, so concurrent conversations don't retry in lockstep
+    return Math.random() * delay;
+  }
+
+  private endpoint(api: BoulevardApi, clientId?: string) {
+    const { clientUrl, adminUrl } = this.config;
+
+    if (api === 'ADMIN') {
+      if (!adminUrl) throw new Error('Missing required env: URL_ADMIN');
+      return { url: adminUrl, authorization: adminAuthHeader(this.config) };
+    }
+
+    if (!clientUrl) throw new Error('Missing required env: URL_CLIENT');
+    if (api === 'CLIENT_AUTH') {
+      if (!clientId) {
+        throw new Error('clientId required for CLIENT_AUTH request');
+      }
+      return {
+        url: clientUrl,
+        authorization: clientAuthHeader(this.config, clientId),
+      };
+    }
+    return { url: clientUrl, authorization: guestAuthHeader(this.config) };
+  }
+}
+
+function isQuery(document: string) {
+  return /^\s*query\b/.test(document);
+}
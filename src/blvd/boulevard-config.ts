@@ -0,0 +1,41 @@
+// src/blvd/boulevard-config.ts
+
+export interface BoulevardConfig {
+  clientUrl?: string;
+  adminUrl?: string;
+  apiKey?: string;
+  apiSecret?: string;
+  businessId?: string;
+  // Default location for carts that are not tied to a user's choice
+  locationId?: string;
+}
+
+const REQUIRED_ENV = [
+  'URL_CLIENT',
+  'URL_ADMIN',
+  'BLVD_API_KEY',
+  'BLVD_BUSINESS_ID',
+  'BLVD_API_SECRET',
+];
+
+/**
+ * Reads the Boulevard settings from the environment. When any of them is
+ * missing (e.g. the server was started by hand rather than by the chat
+ * backend) the `.env` file is loaded first.
+ */
+export async function loadBoulevardConfig(): Promise<BoulevardConfig> {
+  if (REQUIRED_ENV.some((name) => !process.env[name])) {
+    const dotenv = await import('dotenv');
+    dotenv.config();
+  }
+
+  const env = process.env;
+  return {
+    clientUrl: env.URL_CLIENT,
+    adminUrl: env.URL_ADMIN,
+    apiKey: env.BLVD_API_KEY,
+    apiSecret: env.BLVD_API_SECRET,
+    businessId: env.BLVD_BUSINESS_ID,
+    locationId: env.LOCATION_ID,
+  };
+}
@@ -0,0 +1,120 @@
+// src/blvd/boulevard-errors.ts
+
+export type BoulevardErrorCode =
+  | 'AUTH'
+  | 'VALIDATION'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'UPSTREAM';
+
+export interface BoulevardErrorOptions {
+  status?: number;
+  cause?: unknown;
+}
+
+/**
+ * A failed Boulevard request. `code` says what went wrong and `retryable`
+ * whether the same request may succeed if sent again.
+ */
+export class BoulevardError extends Error {
+  readonly code: BoulevardErrorCode = 'UPSTREAM';
+  readonly retryable: boolean = true;
+  readonly status?: number;
+
+  constructor(message: string, options: BoulevardErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+  }
+}
+
+export class BoulevardAuthError extends BoulevardError {
+  readonly code = 'AUTH';
+  readonly retryable = false;
+}
+
+export class BoulevardValidationError extends BoulevardError {
+  readonly code = 'VALIDATION';
+  readonly retryable = false;
+}
+
+export class BoulevardNotFoundError extends BoulevardError {
+  readonly code = 'NOT_FOUND';
+  readonly retryable = false;
+}
+
+export class BoulevardRateLimitError extends BoulevardError {
+  readonly code = 'RATE_LIMITED';
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: BoulevardErrorOptions & { retryAfterMs?: number } = {},
+  ) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class BoulevardTimeoutError extends BoulevardError {
+  readonly code = 'TIMEOUT';
+}
+
+interface GraphQLErrorEntry {
+  message?: string;
+  extensions?: { code?: string };
+}
+
+/** Maps a non-2xx response onto the matching error. */
+export function errorFromResponse(
+  status: number,
+  message: string,
+  retryAfter?: string | null,
+): BoulevardError {
+  if (status === 401 || status === 403) {
+    return new BoulevardAuthError(message, { status });
+  }
+  if (status === 404) return new BoulevardNotFoundError(message, { status });
+  if (status === 408) return new BoulevardTimeoutError(message, { status });
+  if (status === 429) {
+    const seconds = Number(retryAfter);
+    return new BoulevardRateLimitError(message, {
+      status,
+      retryAfterMs: Number.isFinite(seconds) ? seconds * 1000 : undefined,
+    });
+  }
+  if (status >= 400 && status < 500) {
+    return new BoulevardValidationError(message, { status });
+  }
+  return new BoulevardError(message, { status });
+}
+
+/**
+ * Maps the `errors` of a GraphQL response onto the matching error. Boulevard
+ * sets `extensions.code` on some of them; the rest are told apart by message.
+ */
+export function errorFromGraphQL(errors: GraphQLErrorEntry[]): BoulevardError {
+  const message = errors.map((e) => e.message).join('; ');
+  const codes = errors.map((e) => e.extensions?.code?.toUpperCase() ?? '');
+
+  if (
+    codes.some((c) => c === 'UNAUTHENTICATED' || c === 'FORBIDDEN') ||
+    /unauthori[sz]ed|not authenticated|forbidden/i.test(message)
+  ) {
+    return new BoulevardAuthError(message);
+  }
+  if (
+    codes.some((c) => c === 'RATE_LIMITED' || c === 'THROTTLED') ||
+    /rate limit|throttl/i.test(message)
+  ) {
+    return new BoulevardRateLimitError(message);
+  }
+  if (codes.includes('NOT_FOUND') || /not found/i.test(message)) {
+    return new BoulevardNotFoundError(message);
+  }
+  if (codes.includes('INTERNAL_SERVER_ERROR')) {
+    return new BoulevardError(message);
+  }
+  return new BoulevardValidationError(message);
+}
@@ -0,0 +1,89 @@
+import { parseTimeOfDay, resolveDatePhrase } from './date-phrase.js';
+
+describe('date phrases', () => {
+  // A Monday
+  const today = '2026-10-19';
+  const resolve = (input: string) => resolveDatePhrase(input, today);
+
+  it('resolves relative days from today at the location', () => {
+    expect(resolve('today')?.resolvedDate).toBe('2026-10-19');
+    expect(resolve('Tomorrow')?.resolvedDate).toBe('2026-10-20');
+    expect(resolve('the day after tomorrow')?.resolvedDate).toBe('2026-10-21');
+    expect(resolve('thursday')?.resolvedDate).toBe('2026-10-22');
+    expect(resolve('in two weeks')?.resolvedDate).toBe('2026-11-02');
+    expect(resolve('next week')?.resolvedDate).toBe('2026-10-26');
+  });
+
+  it('searches the week from the resolved day unless a range is named', () => {
+    expect(resolve('6 nov')).toEqual({
+      resolvedDate: '2026-11-06',
+      rangeLower: '2026-11-06',
+      rangeUpper: '2026-11-13',
+    });
+    expect(resolve('next weekend')).toMatchObject({
+      rangeLower: '2026-10-31',
+      rangeUpper: '2026-11-01',
+    });
+    expect(resolve('between Monday and Wednesday')).toMatchObject({
+      rangeLower: '2026-10-19',
+      rangeUpper: '2026-10-21',
+    });
+    expect(resolve('thursday to saturday')).toMatchObject({
+      rangeLower: '2026-10-22',
+      rangeUpper: '2026-10-24',
+    });
+  });
+
+  it('reads calendar dates, rolling past ones into next year', () => {
+    expect(resolve('2026-11-06')?.resolvedDate).toBe('2026-11-06');
+    expect(resolve('March 3')?.resolvedDate).toBe('2027-03-03');
+    // Month first
+    expect(resolve('11/12')?.resolvedDate).toBe('2026-11-12');
+    expect(resolve('10/12')?.resolvedDate).toBe('2027-10-12');
+    // The next such day of the month
+    expect(resolve('the 25th')?.resolvedDate).toBe('2026-10-25');
+    expect(resolve('on the 3rd')?.resolvedDate).toBe('2026-11-03');
+    expect(resolve('the 3rd of december')?.resolvedDate).toBe('2026-12-03');
+    expect(resolve('whenever')).toBeNull();
+  });
+
+  it('reads a time of day or the window it has to fall in', () => {
+    expect(resolve('tomorrow at 3')).toEqual({
+      resolvedDate: '2026-10-20',
+      rangeLower: '2026-10-20',
+      rangeUpper: '2026-10-27',
+      time: '15:00',
+    });
+    expect(resolve('friday 10:30am')?.time).toBe('10:30');
+    expect(resolve('after 5pm Thursday')).toMatchObject({
+      resolvedDate: '2026-10-22',
+      timeWindow: { earliest: '17:00' },
+    });
+    expect(resolve('before noon on friday')?.timeWindow).toEqual({
+      latest: '12:00',
+    });
+    expect(resolve('3pm to 5pm tomorrow')?.timeWindow).toEqual({
+      earliest: '15:00',
+      latest: '17:00',
+    });
+    expect(resolve('tomorrow morning')?.timeWindow).toEqual({
+      latest: '12:00',
+    });
+    expect(resolve('friday afternoon')?.timeWindow).toEqual({
+      earliest: '12:00',
+      latest: '17:00',
+    });
+    expect(resolve('after 5pm Thursday')?.time).toBeUndefined();
+  });
+
+  it('parses times of day', () => {
+    expect(parseTimeOfDay('3pm')).toBe('15:00');
+    expect(parseTimeOfDay('3:30 pm')).toBe('15:30');
+    expect(parseTimeOfDay('12am')).toBe('00:00');
+    expect(parseTimeOfDay('15:00')).toBe('15:00');
+    expect(parseTimeOfDay('noon')).toBe('12:00');
+    expect(parseTimeOfDay('at 9')).toBe('09:00');
+    expect(parseTimeOfDay('at 3')).toBe('15:00');
+    expect(parseTimeOfDay('soon')).toBeNull();
+  });
+});
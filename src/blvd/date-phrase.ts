@@ -0,0 +1,146 @@
+// src/blvd/date-phrase.ts
+import * as chrono from 'chrono-node';
+import type { ParsedComponents } from 'chrono-node';
+import { addDays, calendarDate } from './local-time.js';
+
+/** Wall-clock bounds (`HH:mm`, inclusive) at the location, either may be open. */
+export interface TimeWindow {
+  earliest?: string;
+  latest?: string;
+}
+
+export interface ResolvedDatePhrase {
+  // YYYY-MM-DD at the location
+  resolvedDate: string;
+  // Dates to search for bookable dates: the range asked for, or the week
+  // starting on `resolvedDate`
+  rangeLower: string;
+  rangeUpper: string;
+  // HH:mm when the phrase names a time ("tomorrow at 3")
+  time?: string;
+  // When the phrase only bounds the time ("after 5pm", "friday morning")
+  timeWindow?: TimeWindow;
+}
+
+// "the 3rd": the next such day of the month
+const parser = chrono.casual.clone();
+parser.parsers.push({
+  pattern: () => /\bthe\s+(\d{1,2})(?:st|nd|rd|th)\b/i,
+  extract: (context, match) => {
+    const day = Number(match[1]);
+    const ref = context.reference.instant;
+    let year = ref.getFullYear();
+    let month = ref.getMonth() + 1;
+    if (day < ref.getDate()) {
+      month = (month % 12) + 1;
+      if (month === 1) year += 1;
+    }
+    return calendarDate(year, month, day) ? { day, month, year } : null;
+  },
+});
+
+const DAY_PARTS: [RegExp, TimeWindow][] = [
+  [/\bmorning\b/, { latest: '12:00' }],
+  [/\bafternoon\b/, { earliest: '12:00', latest: '17:00' }],
+  [/\b(evening|tonight)\b/, { earliest: '17:00' }],
+];
+
+const BOUNDED_TIME =
+  /\b(after|from|before|by|until|till)\s+(noon|\d{1,2}(?::\d{2})?\s*(?:am|pm)?)/;
+
+// Noon on `today`, in the server's own zone: chrono reads and fills in
+// calendar fields from it, so the server's offset never shows up
+function reference(today: string): Date {
+  const [year, month, day] = today.split('-').map(Number);
+  return new Date(year, month - 1, day, 12);
+}
+
+function dateOf(components: ParsedComponents): string | null {
+  return calendarDate(
+    components.get('year')!,
+    components.get('month')!,
+    components.get('day')!,
+  );
+}
+
+function timeOf(components: ParsedComponents): string | undefined {
+  if (!components.isCertain('hour')) return undefined;
+  let hour = components.get('hour')!;
+  if (!components.isCertain('meridiem') && hour >= 1 && hour <= 7) {
+    // "at 3" is in the afternoon, when the spa is open
+    hour += 12;
+  }
+  const minute = components.get('minute') ?? 0;
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/**
+ * The time of day a message names: "3pm", "3:30 pm", "15:00", "noon" or
+ * "at 3" (an hour from 1 to 7 without am/pm is taken as afternoon).
+ */
+export function parseTimeOfDay(text: string): string | null {
+  for (const result of parser.parse(text, new Date(2000, 0, 1, 0))) {
+    const time = timeOf(result.start);
+    if (time) return time;
+  }
+  return null;
+}
+
+/**
+ * Reads the day (and time, if any) out of what the user typed, counting
+ * from `today` at the location: "tomorrow at 3", "next weekend", "in two
+ * weeks", "the 3rd", "after 5pm Thursday", "between Monday and Wednesday".
+ * Returns null when no date can be found.
+ */
+export function resolveDatePhrase(
+  input: string,
+  today: string,
+): ResolvedDatePhrase | null {
+  const text = input.toLowerCase();
+  const results = parser.parse(text, reference(today), { forwardDate: true });
+  if (!results.length) return null;
+
+  const [first] = results;
+  const resolvedDate = dateOf(first.start);
+  if (!resolvedDate) return null;
+
+  // The last day named: "monday to wednesday", "between monday and wednesday"
+  const lastDay = results
+    .flatMap((r) => [dateOf(r.start), r.end && dateOf(r.end)])
+    .reduce<string>(
+      (last, date) => (date && date > last ? date : last),
+      resolvedDate,
+    );
+  const rangeUpper =
+    lastDay > resolvedDate
+      ? lastDay
+      : /\bweekend\b/.test(text)
+        ? addDays(resolvedDate, 1)
+        : addDays(resolvedDate, 7);
+
+  let time = timeOf(first.start);
+  let timeWindow: TimeWindow | undefined;
+
+  const bounded = BOUNDED_TIME.exec(text);
+  const boundTime = bounded && parseTimeOfDay(`at ${bounded[2]}`);
+  if (bounded && boundTime) {
+    timeWindow = ['before', 'by', 'until', 'till'].includes(bounded[1])
+      ? { latest: boundTime }
+      : { earliest: boundTime };
+    time = undefined;
+  } else if (time && first.end && timeOf(first.end)) {
+    // "3pm to 5pm tomorrow"
+    timeWindow = { earliest: time, latest: timeOf(first.end) };
+    time = undefined;
+  } else if (!time) {
+    timeWindow = DAY_PARTS.find(([part]) => part.test(text))?.[1];
+  }
+
+  return {
+    resolvedDate,
+    rangeLower: resolvedDate,
+    rangeUpper,
+    ...(time ? { time } : {}),
+    ...(timeWindow ? { timeWindow } : {}),
+  };
+}
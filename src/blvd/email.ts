@@ -0,0 +1,17 @@
+// src/blvd/email.ts
+
+/** Cleans up an address typed into chat before it is sent to Boulevard. */
+export function normalizeEmail(raw: string): string {
+  return raw
+    ?.trim()
+    .replace(/\u200B/g, '') // zero-width spaces
+    .normalize('NFKC')
+    .toLowerCase();
+}
+
+export function isValidEmail(raw: string): boolean {
+  if (!raw) return false;
+  return /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/.test(
+    normalizeEmail(raw),
+  );
+}
@@ -0,0 +1,70 @@
+/** Internal type. DO NOT USE DIRECTLY. */
+type Exact<T extends { [key: string]: unknown }> = { [K in keyof T]: T[K] };
+/** Internal type. DO NOT USE DIRECTLY. */
+export type Incremental<T> = T | { [P in keyof T]?: P extends ' $fragmentName' | '__typename' ? T[P] : never };
+import type { DocumentTypeDecoration } from '@graphql-typed-document-node/core';
+export type FindClientsQueryVariables = Exact<{
+  query: string;
+}>;
+
+
+export type FindClientsQuery = { clients: { edges: Array<{ node: { id: string, firstName: string | null, lastName: string | null, email: string | null, mobilePhone: string | null } }> } };
+
+export type MembershipPlansQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MembershipPlansQuery = { membershipPlans: { edges: Array<{ node: { id: string, name: string, active: boolean, unitPrice: number, description: string | null, category: { id: string, name: string } | null } }> } };
+
+export class TypedDocumentString<TResult, TVariables>
+  extends String
+  implements DocumentTypeDecoration<TResult, TVariables>
+{
+  __apiType?: NonNullable<DocumentTypeDecoration<TResult, TVariables>['__apiType']>;
+  private value: string;
+  public __meta__?: Record<string, any> | undefined;
+
+  constructor(value: string, __meta__?: Record<string, any> | undefined) {
+    super(value);
+    this.value = value;
+    this.__meta__ = __meta__;
+  }
+
+  override toString(): string & DocumentTypeDecoration<TResult, TVariables> {
+    return this.value;
+  }
+}
+
+export const FindClientsDocument = new TypedDocumentString(`
+    query FindClients($query: QueryString!) {
+  clients(first: 2, query: $query) {
+    edges {
+      node {
+        id
+        firstName
+        lastName
+        email
+        mobilePhone
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<FindClientsQuery, FindClientsQueryVariables>;
+export const MembershipPlansDocument = new TypedDocumentString(`
+    query MembershipPlans {
+  membershipPlans(first: 1000) {
+    edges {
+      node {
+        id
+        name
+        active
+        unitPrice
+        description
+        category {
+          id
+          name
+        }
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<MembershipPlansQuery, MembershipPlansQueryVariables>;
\ No newline at end of file
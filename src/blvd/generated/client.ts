@@ -0,0 +1,1718 @@
+/** Internal type. DO NOT USE DIRECTLY. */
+type Exact<T extends { [key: string]: unknown }> = { [K in keyof T]: T[K] };
+/** Internal type. DO NOT USE DIRECTLY. */
+export type Incremental<T> = T | { [P in keyof T]?: P extends ' $fragmentName' | '__typename' ? T[P] : never };
+import type { DocumentTypeDecoration } from '@graphql-typed-document-node/core';
+export type AddCartCardPaymentMethodInput = {
+  id: string | number;
+  select?: boolean | null | undefined;
+  token: string;
+};
+
+export type AddCartOfferInput = {
+  id: string | number;
+  offerCode: string;
+};
+
+export type AddCartSelectedBookableItemInput = {
+  bookableTimeId?: string | number | null | undefined;
+  id: string | number;
+  itemGuestId?: string | number | null | undefined;
+  itemId?: string | number | null | undefined;
+  itemOptionIds?: Array<string | number> | null | undefined;
+  itemStaffVariantId?: string | number | null | undefined;
+};
+
+export type AddCartSelectedGiftCardItemInput = {
+  id: string | number;
+  itemId: string | number;
+  itemPrice?: number | null | undefined;
+};
+
+export type AddCartSelectedPurchasableItemInput = {
+  id: string | number;
+  itemId: string | number;
+};
+
+export type AppointmentRescheduleAvailableTimesInput = {
+  appointmentId: string | number;
+  date: string;
+  tz?: string | null | undefined;
+};
+
+export type AppointmentRescheduleInput = {
+  appointmentId: string | number;
+  bookableTimeId: string | number;
+  sendNotification?: boolean | null | undefined;
+};
+
+export type CancelAppointmentInput = {
+  id: string | number;
+  notes?: string | null | undefined;
+  reason?: CancelAppointmentReason | null | undefined;
+};
+
+export type CancelAppointmentReason =
+  | 'CLIENT_CANCEL'
+  | 'CLIENT_LATE_CANCEL'
+  | 'MISTAKE'
+  | 'STAFF_CANCEL';
+
+export type CartClientInformationInput = {
+  email?: string | null | undefined;
+  externalId?: string | null | undefined;
+  firstName?: string | null | undefined;
+  lastName?: string | null | undefined;
+  phoneNumber?: string | null | undefined;
+};
+
+export type CreateCartGuestInput = {
+  email?: string | null | undefined;
+  firstName?: string | null | undefined;
+  id: string | number;
+  lastName?: string | null | undefined;
+  phoneNumber?: string | null | undefined;
+};
+
+export type CreateCartInput = {
+  locationId?: string | number | null | undefined;
+};
+
+export type DeleteCartGuestInput = {
+  guestId: string | number;
+  id: string | number;
+};
+
+export type RemoveCartSelectedItemInput = {
+  id: string | number;
+  itemId: string | number;
+};
+
+export type UpdateCartGiftCardItemEmailFulfillmentInput = {
+  deliveryDate?: string | null | undefined;
+  id: string | number;
+  itemId: string | number;
+  itemPrice?: string | null | undefined;
+  messageFromSender?: string | null | undefined;
+  recipientEmail: string;
+  recipientName?: string | null | undefined;
+  senderName?: string | null | undefined;
+};
+
+export type UpdateCartInput = {
+  clientInformation?: CartClientInformationInput | null | undefined;
+  id: string | number;
+};
+
+export type AppointmentDetailsFragment = { id: string, startAt: string, endAt: string, cancelled: boolean, client: { id: string, email: string | null, firstName: string | null, lastName: string | null }, location: { id: string, name: string, tz: string, address: { city: string | null } | null }, appointmentServices: Array<{ startAt: string, endAt: string, price: number, serviceId: string, service: { name: string, id: string, description: string | null, category: { name: string } | null }, staff: { id: string, displayName: string | null, firstName: string | null, lastName: string | null, role: { name: string } | null } | null }> };
+
+export type MyAppointmentsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MyAppointmentsQuery = { myAppointments: { edges: Array<{ node: { id: string, startAt: string, endAt: string, cancelled: boolean, client: { id: string, email: string | null, firstName: string | null, lastName: string | null }, location: { id: string, name: string, tz: string, address: { city: string | null } | null }, appointmentServices: Array<{ startAt: string, endAt: string, price: number, serviceId: string, service: { name: string, id: string, description: string | null, category: { name: string } | null }, staff: { id: string, displayName: string | null, firstName: string | null, lastName: string | null, role: { name: string } | null } | null }> } }> } };
+
+export type AppointmentRescheduleTimesQueryVariables = Exact<{
+  input: AppointmentRescheduleAvailableTimesInput;
+}>;
+
+
+export type AppointmentRescheduleTimesQuery = { appointmentRescheduleAvailableTimes: { availableTimes: Array<{ bookableTimeId: string, startTime: string }> } };
+
+export type RescheduleAppointmentMutationVariables = Exact<{
+  input: AppointmentRescheduleInput;
+}>;
+
+
+export type RescheduleAppointmentMutation = { appointmentReschedule: { appointment: { id: string, startAt: string, endAt: string, cancelled: boolean, client: { id: string, email: string | null, firstName: string | null, lastName: string | null }, location: { id: string, name: string, tz: string, address: { city: string | null } | null }, appointmentServices: Array<{ startAt: string, endAt: string, price: number, serviceId: string, service: { name: string, id: string, description: string | null, category: { name: string } | null }, staff: { id: string, displayName: string | null, firstName: string | null, lastName: string | null, role: { name: string } | null } | null }> } } };
+
+export type CancelAppointmentMutationVariables = Exact<{
+  input: CancelAppointmentInput;
+}>;
+
+
+export type CancelAppointmentMutation = { cancelAppointment: { appointment: { id: string, startAt: string, endAt: string, cancelled: boolean, client: { id: string, email: string | null, firstName: string | null, lastName: string | null }, location: { id: string, name: string, tz: string, address: { city: string | null } | null }, appointmentServices: Array<{ startAt: string, endAt: string, price: number, serviceId: string, service: { name: string, id: string, description: string | null, category: { name: string } | null }, staff: { id: string, displayName: string | null, firstName: string | null, lastName: string | null, role: { name: string } | null } | null }> } } };
+
+export type CartBookingsFragment = { id: string, guests: Array<{ id: string, label: string | null, number: number, firstName: string | null, lastName: string | null }>, selectedItems: Array<
+    | { guestId: string | null, id: string, price: number, selectedOptions: Array<{ id: string, name: string, priceDelta: number }>, selectedStaffVariant: { id: string, staff: { id: string, displayName: string | null } } | null, item: { id: string, name: string }, addons: Array<{ id: string }> }
+    | { id: string, price: number, item: { id: string, name: string }, addons: Array<{ id: string }> }
+    | { id: string, price: number, item: { id: string, name: string }, addons: Array<{ id: string }> }
+  > };
+
+export type AddServiceToCartMutationVariables = Exact<{
+  input: AddCartSelectedBookableItemInput;
+}>;
+
+
+export type AddServiceToCartMutation = { addCartSelectedBookableItem: { cart: { id: string, selectedItems: Array<
+        | { guestId: string | null, id: string, price: number, selectedOptions: Array<{ id: string, name: string, priceDelta: number }>, selectedStaffVariant: { id: string, staff: { id: string, displayName: string | null } } | null, addons: Array<{ id: string, name: string, listPrice: number, description: string | null }>, item: { name: string, id: string, optionGroups: Array<{ name: string }> } }
+        | { id: string, price: number, addons: Array<{ id: string, name: string, listPrice: number, description: string | null }>, item: { name: string, id: string } }
+        | { id: string, price: number, addons: Array<{ id: string, name: string, listPrice: number, description: string | null }>, item: { name: string, id: string } }
+      >, guests: Array<{ id: string, label: string | null, number: number, firstName: string | null, lastName: string | null }> } } };
+
+export type AddCartGuestMutationVariables = Exact<{
+  input: CreateCartGuestInput;
+}>;
+
+
+export type AddCartGuestMutation = { createCartGuest: { guest: { id: string, label: string | null, number: number, firstName: string | null, lastName: string | null }, cart: { id: string, guests: Array<{ id: string, label: string | null, number: number, firstName: string | null, lastName: string | null }>, selectedItems: Array<
+        | { guestId: string | null, id: string, price: number, selectedOptions: Array<{ id: string, name: string, priceDelta: number }>, selectedStaffVariant: { id: string, staff: { id: string, displayName: string | null } } | null, item: { id: string, name: string }, addons: Array<{ id: string }> }
+        | { id: string, price: number, item: { id: string, name: string }, addons: Array<{ id: string }> }
+        | { id: string, price: number, item: { id: string, name: string }, addons: Array<{ id: string }> }
+      > } } };
+
+export type RemoveCartGuestMutationVariables = Exact<{
+  input: DeleteCartGuestInput;
+}>;
+
+
+export type RemoveCartGuestMutation = { deleteCartGuest: { cart: { id: string, guests: Array<{ id: string, label: string | null, number: number, firstName: string | null, lastName: string | null }>, selectedItems: Array<
+        | { guestId: string | null, id: string, price: number, selectedOptions: Array<{ id: string, name: string, priceDelta: number }>, selectedStaffVariant: { id: string, staff: { id: string, displayName: string | null } } | null, item: { id: string, name: string }, addons: Array<{ id: string }> }
+        | { id: string, price: number, item: { id: string, name: string }, addons: Array<{ id: string }> }
+        | { id: string, price: number, item: { id: string, name: string }, addons: Array<{ id: string }> }
+      > } } };
+
+export type CartBookableDatesQueryVariables = Exact<{
+  id: string | number;
+  searchRangeLower?: string | null | undefined;
+  searchRangeUpper?: string | null | undefined;
+  tz?: string | null | undefined;
+}>;
+
+
+export type CartBookableDatesQuery = { cartBookableDates: Array<{ date: string }> };
+
+export type CartLocationQueryVariables = Exact<{
+  id: string | number;
+}>;
+
+
+export type CartLocationQuery = { cart: { id: string, location: { id: string, name: string, tz: string } | null } | null };
+
+export type CartBookableTimesQueryVariables = Exact<{
+  id: string | number;
+  searchDate: string;
+  tz?: string | null | undefined;
+}>;
+
+
+export type CartBookableTimesQuery = { cartBookableTimes: Array<{ id: string, score: number, startTime: string }> };
+
+export type ReserveCartBookableItemsMutationVariables = Exact<{
+  input: AddCartSelectedBookableItemInput;
+}>;
+
+
+export type ReserveCartBookableItemsMutation = { reserveCartBookableItems: { cart: { id: string, expiresAt: string | null, summary: { deposit: string | null, depositAmount: number, discountAmount: number, gratuityAmount: number, paymentMethodRequired: boolean, roundingAmount: number, subtotal: number, taxAmount: number, total: number }, bookingQuestions: Array<{ id: string, key: string, label: string, required: boolean }>, clientInformation: { email: string | null, firstName: string | null, lastName: string | null, phoneNumber: string | null, externalId: string | null } | null, location: { id: string, name: string, businessName: string | null } | null } } };
+
+export type CartBookableStaffVariantsQueryVariables = Exact<{
+  id: string | number;
+  itemId: string | number;
+  bookableTimeId: string | number;
+}>;
+
+
+export type CartBookableStaffVariantsQuery = { cartBookableStaffVariants: Array<{ id: string, staff: { id: string, displayName: string | null } }> };
+
+export type CartItemAddonsQueryVariables = Exact<{
+  id: string | number;
+}>;
+
+
+export type CartItemAddonsQuery = { cart: { id: string, selectedItems: Array<
+      | { guestId: string | null, id: string, selectedOptions: Array<{ id: string }>, addons: Array<{ id: string, name: string, description: string | null, listPrice: number }>, item: { id: string, name: string, optionGroups: Array<{ id: string, name: string, options: Array<{ id: string, name: string, description: string | null, durationDelta: number, priceDelta: number }> }> } }
+      | { id: string }
+      | { id: string }
+    > } | null };
+
+export type CartItemStaffVariantsQueryVariables = Exact<{
+  id: string | number;
+}>;
+
+
+export type CartItemStaffVariantsQuery = { cart: { id: string, selectedItems: Array<
+      | { id: string, item: { id: string, name: string, staffVariants: Array<{ id: string, duration: number, price: number, staff: { id: string, displayName: string | null, firstName: string | null, lastName: string | null } }> } }
+      | { id: string }
+      | { id: string }
+    > } | null };
+
+export type UpdateCartSelectedBookableItemMutationVariables = Exact<{
+  input: AddCartSelectedBookableItemInput;
+}>;
+
+
+export type UpdateCartSelectedBookableItemMutation = { updateCartSelectedBookableItem: { cart: { expiresAt: string | null, id: string, selectedItems: Array<
+        | { guestId: string | null, id: string, price: number, selectedOptions: Array<{ id: string, name: string, priceDelta: number, groupId: string, durationDelta: number, description: string | null }>, selectedStaffVariant: { id: string, staff: { id: string, displayName: string | null } } | null, addons: Array<{ id: string, name: string, description: string | null, disabled: boolean, disabledDescription: string | null, listPrice: number, optionGroups: Array<{ id: string, name: string, description: string | null, options: Array<{ id: string, name: string, description: string | null, durationDelta: number, priceDelta: number }> }>, listPriceRange: { min: number, max: number, variable: boolean } }>, item: { id: string, name: string, description: string | null, disabled: boolean, disabledDescription: string | null } }
+        | { id: string, price: number, addons: Array<{ id: string, name: string, description: string | null, disabled: boolean, disabledDescription: string | null, listPrice: number, optionGroups: Array<{ id: string, name: string, description: string | null, options: Array<{ id: string, name: string, description: string | null, durationDelta: number, priceDelta: number }> }>, listPriceRange: { min: number, max: number, variable: boolean } }>, item: { id: string, name: string, description: string | null, disabled: boolean, disabledDescription: string | null } }
+        | { id: string, price: number, addons: Array<{ id: string, name: string, description: string | null, disabled: boolean, disabledDescription: string | null, listPrice: number, optionGroups: Array<{ id: string, name: string, description: string | null, options: Array<{ id: string, name: string, description: string | null, durationDelta: number, priceDelta: number }> }>, listPriceRange: { min: number, max: number, variable: boolean } }>, item: { id: string, name: string, description: string | null, disabled: boolean, disabledDescription: string | null } }
+      >, summary: { deposit: string | null, depositAmount: number, discountAmount: number, gratuityAmount: number, paymentMethodRequired: boolean, roundingAmount: number, subtotal: number, taxAmount: number, total: number }, bookingQuestions: Array<{ id: string, key: string, label: string, required: boolean }>, clientInformation: { email: string | null, firstName: string | null, lastName: string | null, phoneNumber: string | null, externalId: string | null } | null, location: { id: string, name: string, businessName: string | null } | null, guests: Array<{ id: string, label: string | null, number: number, firstName: string | null, lastName: string | null }> } } };
+
+export type CreateCartMutationVariables = Exact<{
+  input: CreateCartInput;
+}>;
+
+
+export type CreateCartMutation = { createCart: { cart: { id: string, clientMessage: string | null, expiresAt: string | null, features: { bookingQuestionsEnabled: boolean, giftCardPurchaseEnabled: boolean, paymentInfoRequired: boolean, serviceAddonsEnabled: boolean }, summary: { deposit: string | null, depositAmount: number, discountAmount: number, gratuityAmount: number, paymentMethodRequired: boolean, roundingAmount: number, subtotal: number, taxAmount: number, total: number }, bookingQuestions: Array<{ id: string, key: string, label: string, required: boolean }>, clientInformation: { email: string | null, firstName: string | null, lastName: string | null, phoneNumber: string | null, externalId: string | null } | null, location: { id: string, name: string, businessName: string | null, address: { city: string | null, country: string | null, line1: string | null, line2: string | null, state: string | null } | null } | null } } };
+
+export type SetClientOnCartMutationVariables = Exact<{
+  input: UpdateCartInput;
+}>;
+
+
+export type SetClientOnCartMutation = { updateCart: { cart: { id: string, clientMessage: string | null, expiresAt: string | null, summary: { deposit: string | null, depositAmount: number, discountAmount: number, gratuityAmount: number, paymentMethodRequired: boolean, roundingAmount: number, subtotal: number, taxAmount: number, total: number }, bookingQuestions: Array<{ id: string, key: string, label: string, required: boolean }>, clientInformation: { email: string | null, firstName: string | null, lastName: string | null, phoneNumber: string | null, externalId: string | null } | null, location: { id: string, name: string, businessName: string | null } | null } } };
+
+export type ApplyPromotionCodeMutationVariables = Exact<{
+  input: AddCartOfferInput;
+}>;
+
+
+export type ApplyPromotionCodeMutation = { addCartOffer: { offer: { applied: boolean, code: string, id: string, name: string | null }, cart: { id: string, completedAt: string | null, expiresAt: string | null, summary: { deposit: string | null, depositAmount: number, discountAmount: number, gratuityAmount: number, paymentMethodRequired: boolean, roundingAmount: number, subtotal: number, taxAmount: number, total: number }, bookingQuestions: Array<{ id: string, key: string, label: string, required: boolean }>, clientInformation: { email: string | null, firstName: string | null, lastName: string | null, phoneNumber: string | null, externalId: string | null } | null, location: { id: string, name: string, businessName: string | null } | null } } };
+
+export type AddCartCardPaymentMethodMutationVariables = Exact<{
+  input: AddCartCardPaymentMethodInput;
+}>;
+
+
+export type AddCartCardPaymentMethodMutation = { addCartCardPaymentMethod: { __typename: 'AddCartCardPaymentMethodPayload', cart: { __typename: 'Cart', id: string, expiresAt: string | null, availablePaymentMethods: Array<
+        | { __typename: 'CartItemCardPaymentMethod', cardBrand: string, cardExpMonth: number, cardExpYear: number, cardHolder: string, cardIsDefault: boolean, cardLast4: string, id: string, name: string }
+        | { __typename: 'CartItemVoucherPaymentMethod', availableCount: number, expiresOn: string | null, id: string, name: string }
+      >, summary: { __typename: 'CartSummary', deposit: string | null, depositAmount: number, discountAmount: number, gratuityAmount: number, paymentMethodRequired: boolean, roundingAmount: number, subtotal: number, taxAmount: number, total: number }, clientInformation: { __typename: 'CartClientInformation', email: string | null, firstName: string | null, lastName: string | null, phoneNumber: string | null, externalId: string | null } | null } } };
+
+export type CheckoutCartMutationVariables = Exact<{
+  id: string | number;
+}>;
+
+
+export type CheckoutCartMutation = { checkoutCart: { __typename: 'CheckoutCartPayload', appointments: Array<{ __typename: 'CheckoutAppointment', appointmentId: string, clientId: string, forCartOwner: boolean }>, cart: { __typename: 'Cart', id: string, expiresAt: string | null, clientMessage: string | null, startTime: string | null, startTimeId: string | null, guests: Array<{ __typename: 'CartGuest', id: string, firstName: string | null, lastName: string | null, email: string | null, label: string | null, number: number, phoneNumber: string | null }>, selectedItems: Array<
+        | { __typename: 'CartBookableItem', guestId: string | null, id: string, lineTotal: number | null, price: number, item: { __typename: 'CartAvailableBookableItem', id: string, name: string, optionGroups: Array<{ __typename: 'CartAvailableBookableItemOptionGroup', id: string, name: string }> }, selectedStaffVariant: { __typename: 'CartAvailableBookableItemStaffVariant', duration: number, id: string, price: number, staff: { __typename: 'Staff', id: string, displayName: string | null, firstName: string | null, lastName: string | null } } | null, guest: { __typename: 'CartGuest', id: string, firstName: string | null, lastName: string | null, email: string | null, label: string | null, number: number, phoneNumber: string | null } | null, selectedOptions: Array<{ __typename: 'CartAvailableBookableItemOption', id: string, name: string, priceDelta: number, groupId: string, durationDelta: number, description: string | null }>, selectedPaymentMethod:
+            | { __typename: 'CartItemCardPaymentMethod', cardBrand: string, cardExpMonth: number, cardExpYear: number, cardHolder: string, cardIsDefault: boolean, cardLast4: string, id: string, name: string }
+            | { __typename: 'CartItemVoucherPaymentMethod', id: string, name: string }
+           | null }
+        | { __typename: 'CartGiftCardItem', id: string, lineTotal: number | null, price: number, item: { id: string, name: string }, selectedPaymentMethod:
+            | { __typename: 'CartItemCardPaymentMethod', cardBrand: string, cardExpMonth: number, cardExpYear: number, cardHolder: string, cardIsDefault: boolean, cardLast4: string, id: string, name: string }
+            | { __typename: 'CartItemVoucherPaymentMethod', id: string, name: string }
+           | null }
+        | { __typename: 'CartPurchasableItem', id: string, lineTotal: number | null, price: number, item: { id: string, name: string }, selectedPaymentMethod:
+            | { __typename: 'CartItemCardPaymentMethod', cardBrand: string, cardExpMonth: number, cardExpYear: number, cardHolder: string, cardIsDefault: boolean, cardLast4: string, id: string, name: string }
+            | { __typename: 'CartItemVoucherPaymentMethod', id: string, name: string }
+           | null }
+      >, availablePaymentMethods: Array<
+        | { __typename: 'CartItemCardPaymentMethod', cardBrand: string, cardExpMonth: number, cardExpYear: number, cardHolder: string, cardIsDefault: boolean, cardLast4: string, id: string, name: string }
+        | { __typename: 'CartItemVoucherPaymentMethod', availableCount: number, expiresOn: string | null, id: string, name: string }
+      >, summary: { __typename: 'CartSummary', deposit: string | null, depositAmount: number, discountAmount: number, gratuityAmount: number, paymentMethodRequired: boolean, roundingAmount: number, subtotal: number, taxAmount: number, total: number }, clientInformation: { __typename: 'CartClientInformation', email: string | null, firstName: string | null, lastName: string | null, phoneNumber: string | null, externalId: string | null } | null, location: { __typename: 'Location', id: string, name: string, businessName: string | null, contactEmail: string | null, tz: string, address: { __typename: 'Address', city: string | null, state: string | null, country: string | null, line1: string | null, line2: string | null, province: string | null, zip: string | null } | null } | null } } };
+
+export type AvailableServicesQueryVariables = Exact<{
+  id: string | number;
+}>;
+
+
+export type AvailableServicesQuery = { cart: { availableCategories: Array<{ id: string, name: string, availableItems: Array<
+        | { id: string, name: string, description: string | null, listPrice: number, listPriceRange: { min: number, max: number, variable: boolean } }
+        | { pricePresets: Array<number>, id: string, name: string, description: string | null, listPrice: number, listPriceRange: { min: number, max: number, variable: boolean } }
+        | { id: string, name: string, description: string | null, listPrice: number, listPriceRange: { min: number, max: number, variable: boolean } }
+      > }> } | null };
+
+export type CartSummaryQueryVariables = Exact<{
+  id: string | number;
+}>;
+
+
+export type CartSummaryQuery = { cart: { expiresAt: string | null, id: string, selectedItems: Array<
+      | { guestId: string | null, id: string, price: number, item: { id: string, name: string }, selectedStaffVariant: { id: string, duration: number, price: number, staff: { displayName: string | null, id: string } } | null, selectedOptions: Array<{ id: string, name: string, priceDelta: number }>, addons: Array<{ id: string }> }
+      | { id: string, price: number, item: { id: string, name: string }, addons: Array<{ id: string }> }
+      | { id: string, price: number, item: { id: string, name: string }, addons: Array<{ id: string }> }
+    >, summary: { deposit: string | null, depositAmount: number, discountAmount: number, gratuityAmount: number, paymentMethodRequired: boolean, roundingAmount: number, subtotal: number, taxAmount: number, total: number }, location: { name: string, businessName: string | null } | null, clientInformation: { firstName: string | null, lastName: string | null, email: string | null, phoneNumber: string | null } | null, guests: Array<{ id: string, label: string | null, number: number, firstName: string | null, lastName: string | null }> } | null };
+
+export type RemoveCartSelectedItemMutationVariables = Exact<{
+  input: RemoveCartSelectedItemInput;
+}>;
+
+
+export type RemoveCartSelectedItemMutation = { removeCartSelectedItem: { cart: { id: string, summary: { subtotal: number, taxAmount: number, total: number }, guests: Array<{ id: string, label: string | null, number: number, firstName: string | null, lastName: string | null }>, selectedItems: Array<
+        | { guestId: string | null, id: string, price: number, selectedOptions: Array<{ id: string, name: string, priceDelta: number }>, selectedStaffVariant: { id: string, staff: { id: string, displayName: string | null } } | null, item: { id: string, name: string }, addons: Array<{ id: string }> }
+        | { id: string, price: number, item: { id: string, name: string }, addons: Array<{ id: string }> }
+        | { id: string, price: number, item: { id: string, name: string }, addons: Array<{ id: string }> }
+      > } } };
+
+export type AddGiftCardToCartMutationVariables = Exact<{
+  input: AddCartSelectedGiftCardItemInput;
+}>;
+
+
+export type AddGiftCardToCartMutation = { addCartSelectedGiftCardItem: { cart: { id: string, expiresAt: string | null, selectedItems: Array<
+        | { guestId: string | null, id: string, price: number, item: { id: string, name: string, description: string | null, disabled: boolean, disabledDescription: string | null, optionGroups: Array<{ id: string, name: string }> }, guest: { id: string, firstName: string | null, lastName: string | null, email: string | null, phoneNumber: string | null } | null, selectedOptions: Array<{ id: string, name: string, priceDelta: number, groupId: string, durationDelta: number, description: string | null }>, addons: Array<{ id: string, name: string, description: string | null, disabled: boolean, disabledDescription: string | null, listPrice: number, listPriceRange: { min: number, max: number, variable: boolean } }> }
+        | { id: string, price: number, addons: Array<{ id: string, name: string, description: string | null, disabled: boolean, disabledDescription: string | null, listPrice: number, listPriceRange: { min: number, max: number, variable: boolean } }>, item: { id: string, name: string, description: string | null, disabled: boolean, disabledDescription: string | null } }
+        | { id: string, price: number, addons: Array<{ id: string, name: string, description: string | null, disabled: boolean, disabledDescription: string | null, listPrice: number, listPriceRange: { min: number, max: number, variable: boolean } }>, item: { id: string, name: string, description: string | null, disabled: boolean, disabledDescription: string | null } }
+      >, summary: { deposit: string | null, depositAmount: number, discountAmount: number, gratuityAmount: number, paymentMethodRequired: boolean, roundingAmount: number, subtotal: number, taxAmount: number, total: number }, bookingQuestions: Array<{ id: string, key: string, label: string, required: boolean }>, clientInformation: { email: string | null, firstName: string | null, lastName: string | null, phoneNumber: string | null, externalId: string | null } | null, location: { id: string, name: string, businessName: string | null } | null } } };
+
+export type UpdateGiftCardEmailFulfillmentMutationVariables = Exact<{
+  input: UpdateCartGiftCardItemEmailFulfillmentInput;
+}>;
+
+
+export type UpdateGiftCardEmailFulfillmentMutation = { updateCartGiftCardItemEmailFulfillment: { cart: { selectedItems: Array<
+        | { discountAmount: number, discountCode: string | null, id: string, lineTotal: number | null, price: number, taxAmount: number }
+        | Record<PropertyKey, never>
+      > } } };
+
+export type LocationsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type LocationsQuery = { locations: { edges: Array<{ node: { id: string, businessName: string | null, contactEmail: string | null, externalId: string | null, allowOnlineBooking: boolean, name: string, tz: string, address: { city: string | null, country: string | null, line1: string | null, line2: string | null, province: string | null, state: string | null, zip: string | null } | null } }> } };
+
+export type AddMembershipToCartMutationVariables = Exact<{
+  input: AddCartSelectedPurchasableItemInput;
+}>;
+
+
+export type AddMembershipToCartMutation = { addCartSelectedPurchasableItem: { cart: { id: string, selectedItems: Array<
+        | { id: string }
+        | { id: string }
+        | { id: string }
+      > } } };
+
+export class TypedDocumentString<TResult, TVariables>
+  extends String
+  implements DocumentTypeDecoration<TResult, TVariables>
+{
+  __apiType?: NonNullable<DocumentTypeDecoration<TResult, TVariables>['__apiType']>;
+  private value: string;
+  public __meta__?: Record<string, any> | undefined;
+
+  constructor(value: string, __meta__?: Record<string, any> | undefined) {
+    super(value);
+    this.value = value;
+    this.__meta__ = __meta__;
+  }
+
+  override toString(): string & DocumentTypeDecoration<TResult, TVariables> {
+    return this.value;
+  }
+}
+export const AppointmentDetailsFragmentDoc = new TypedDocumentString(`
+    fragment AppointmentDetails on Appointment {
+  id
+  startAt
+  endAt
+  cancelled
+  client {
+    id
+    email
+    firstName
+    lastName
+  }
+  location {
+    id
+    name
+    tz
+    address {
+      city
+    }
+  }
+  appointmentServices {
+    startAt
+    endAt
+    price
+    serviceId
+    service {
+      name
+      id
+      description
+      category {
+        name
+      }
+    }
+    staff {
+      id
+      displayName
+      firstName
+      lastName
+      role {
+        name
+      }
+    }
+  }
+}
+    `, {"fragmentName":"AppointmentDetails"}) as unknown as TypedDocumentString<AppointmentDetailsFragment, unknown>;
+export const CartBookingsFragmentDoc = new TypedDocumentString(`
+    fragment CartBookings on Cart {
+  id
+  guests {
+    id
+    label
+    number
+    firstName
+    lastName
+  }
+  selectedItems {
+    id
+    price
+    item {
+      id
+      name
+    }
+    addons {
+      id
+    }
+    ... on CartBookableItem {
+      guestId
+      selectedOptions {
+        id
+        name
+        priceDelta
+      }
+      selectedStaffVariant {
+        id
+        staff {
+          id
+          displayName
+        }
+      }
+    }
+  }
+}
+    `, {"fragmentName":"CartBookings"}) as unknown as TypedDocumentString<CartBookingsFragment, unknown>;
+export const MyAppointmentsDocument = new TypedDocumentString(`
+    query MyAppointments {
+  myAppointments(first: 20) {
+    edges {
+      node {
+        ...AppointmentDetails
+      }
+    }
+  }
+}
+    fragment AppointmentDetails on Appointment {
+  id
+  startAt
+  endAt
+  cancelled
+  client {
+    id
+    email
+    firstName
+    lastName
+  }
+  location {
+    id
+    name
+    tz
+    address {
+      city
+    }
+  }
+  appointmentServices {
+    startAt
+    endAt
+    price
+    serviceId
+    service {
+      name
+      id
+      description
+      category {
+        name
+      }
+    }
+    staff {
+      id
+      displayName
+      firstName
+      lastName
+      role {
+        name
+      }
+    }
+  }
+}`) as unknown as TypedDocumentString<MyAppointmentsQuery, MyAppointmentsQueryVariables>;
+export const AppointmentRescheduleTimesDocument = new TypedDocumentString(`
+    query AppointmentRescheduleTimes($input: AppointmentRescheduleAvailableTimesInput!) {
+  appointmentRescheduleAvailableTimes(input: $input) {
+    availableTimes {
+      bookableTimeId
+      startTime
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<AppointmentRescheduleTimesQuery, AppointmentRescheduleTimesQueryVariables>;
+export const RescheduleAppointmentDocument = new TypedDocumentString(`
+    mutation RescheduleAppointment($input: AppointmentRescheduleInput!) {
+  appointmentReschedule(input: $input) {
+    appointment {
+      ...AppointmentDetails
+    }
+  }
+}
+    fragment AppointmentDetails on Appointment {
+  id
+  startAt
+  endAt
+  cancelled
+  client {
+    id
+    email
+    firstName
+    lastName
+  }
+  location {
+    id
+    name
+    tz
+    address {
+      city
+    }
+  }
+  appointmentServices {
+    startAt
+    endAt
+    price
+    serviceId
+    service {
+      name
+      id
+      description
+      category {
+        name
+      }
+    }
+    staff {
+      id
+      displayName
+      firstName
+      lastName
+      role {
+        name
+      }
+    }
+  }
+}`) as unknown as TypedDocumentString<RescheduleAppointmentMutation, RescheduleAppointmentMutationVariables>;
+export const CancelAppointmentDocument = new TypedDocumentString(`
+    mutation CancelAppointment($input: CancelAppointmentInput!) {
+  cancelAppointment(input: $input) {
+    appointment {
+      ...AppointmentDetails
+    }
+  }
+}
+    fragment AppointmentDetails on Appointment {
+  id
+  startAt
+  endAt
+  cancelled
+  client {
+    id
+    email
+    firstName
+    lastName
+  }
+  location {
+    id
+    name
+    tz
+    address {
+      city
+    }
+  }
+  appointmentServices {
+    startAt
+    endAt
+    price
+    serviceId
+    service {
+      name
+      id
+      description
+      category {
+        name
+      }
+    }
+    staff {
+      id
+      displayName
+      firstName
+      lastName
+      role {
+        name
+      }
+    }
+  }
+}`) as unknown as TypedDocumentString<CancelAppointmentMutation, CancelAppointmentMutationVariables>;
+export const AddServiceToCartDocument = new TypedDocumentString(`
+    mutation AddServiceToCart($input: AddCartSelectedBookableItemInput!) {
+  addCartSelectedBookableItem(input: $input) {
+    cart {
+      ...CartBookings
+      selectedItems {
+        id
+        addons {
+          id
+          name
+          listPrice
+          description
+        }
+        item {
+          name
+          ... on CartAvailableBookableItem {
+            optionGroups {
+              name
+            }
+          }
+        }
+      }
+    }
+  }
+}
+    fragment CartBookings on Cart {
+  id
+  guests {
+    id
+    label
+    number
+    firstName
+    lastName
+  }
+  selectedItems {
+    id
+    price
+    item {
+      id
+      name
+    }
+    addons {
+      id
+    }
+    ... on CartBookableItem {
+      guestId
+      selectedOptions {
+        id
+        name
+        priceDelta
+      }
+      selectedStaffVariant {
+        id
+        staff {
+          id
+          displayName
+        }
+      }
+    }
+  }
+}`) as unknown as TypedDocumentString<AddServiceToCartMutation, AddServiceToCartMutationVariables>;
+export const AddCartGuestDocument = new TypedDocumentString(`
+    mutation AddCartGuest($input: CreateCartGuestInput!) {
+  createCartGuest(input: $input) {
+    guest {
+      id
+      label
+      number
+      firstName
+      lastName
+    }
+    cart {
+      ...CartBookings
+    }
+  }
+}
+    fragment CartBookings on Cart {
+  id
+  guests {
+    id
+    label
+    number
+    firstName
+    lastName
+  }
+  selectedItems {
+    id
+    price
+    item {
+      id
+      name
+    }
+    addons {
+      id
+    }
+    ... on CartBookableItem {
+      guestId
+      selectedOptions {
+        id
+        name
+        priceDelta
+      }
+      selectedStaffVariant {
+        id
+        staff {
+          id
+          displayName
+        }
+      }
+    }
+  }
+}`) as unknown as TypedDocumentString<AddCartGuestMutation, AddCartGuestMutationVariables>;
+export const RemoveCartGuestDocument = new TypedDocumentString(`
+    mutation RemoveCartGuest($input: DeleteCartGuestInput!) {
+  deleteCartGuest(input: $input) {
+    cart {
+      ...CartBookings
+    }
+  }
+}
+    fragment CartBookings on Cart {
+  id
+  guests {
+    id
+    label
+    number
+    firstName
+    lastName
+  }
+  selectedItems {
+    id
+    price
+    item {
+      id
+      name
+    }
+    addons {
+      id
+    }
+    ... on CartBookableItem {
+      guestId
+      selectedOptions {
+        id
+        name
+        priceDelta
+      }
+      selectedStaffVariant {
+        id
+        staff {
+          id
+          displayName
+        }
+      }
+    }
+  }
+}`) as unknown as TypedDocumentString<RemoveCartGuestMutation, RemoveCartGuestMutationVariables>;
+export const CartBookableDatesDocument = new TypedDocumentString(`
+    query CartBookableDates($id: ID!, $searchRangeLower: Date, $searchRangeUpper: Date, $tz: String) {
+  cartBookableDates(
+    id: $id
+    searchRangeLower: $searchRangeLower
+    searchRangeUpper: $searchRangeUpper
+    tz: $tz
+  ) {
+    date
+  }
+}
+    `) as unknown as TypedDocumentString<CartBookableDatesQuery, CartBookableDatesQueryVariables>;
+export const CartLocationDocument = new TypedDocumentString(`
+    query CartLocation($id: ID!) {
+  cart(id: $id) {
+    id
+    location {
+      id
+      name
+      tz
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<CartLocationQuery, CartLocationQueryVariables>;
+export const CartBookableTimesDocument = new TypedDocumentString(`
+    query CartBookableTimes($id: ID!, $searchDate: Date!, $tz: String) {
+  cartBookableTimes(id: $id, searchDate: $searchDate, tz: $tz) {
+    id
+    score
+    startTime
+  }
+}
+    `) as unknown as TypedDocumentString<CartBookableTimesQuery, CartBookableTimesQueryVariables>;
+export const ReserveCartBookableItemsDocument = new TypedDocumentString(`
+    mutation ReserveCartBookableItems($input: AddCartSelectedBookableItemInput!) {
+  reserveCartBookableItems(input: $input) {
+    cart {
+      id
+      expiresAt
+      summary {
+        deposit
+        depositAmount
+        discountAmount
+        gratuityAmount
+        paymentMethodRequired
+        roundingAmount
+        subtotal
+        taxAmount
+        total
+      }
+      bookingQuestions {
+        id
+        key
+        label
+        required
+      }
+      clientInformation {
+        email
+        firstName
+        lastName
+        phoneNumber
+        externalId
+      }
+      location {
+        id
+        name
+        businessName
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<ReserveCartBookableItemsMutation, ReserveCartBookableItemsMutationVariables>;
+export const CartBookableStaffVariantsDocument = new TypedDocumentString(`
+    query CartBookableStaffVariants($id: ID!, $itemId: ID!, $bookableTimeId: ID!) {
+  cartBookableStaffVariants(
+    id: $id
+    itemId: $itemId
+    bookableTimeId: $bookableTimeId
+  ) {
+    id
+    staff {
+      id
+      displayName
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<CartBookableStaffVariantsQuery, CartBookableStaffVariantsQueryVariables>;
+export const CartItemAddonsDocument = new TypedDocumentString(`
+    query CartItemAddons($id: ID!) {
+  cart(id: $id) {
+    id
+    selectedItems {
+      id
+      ... on CartBookableItem {
+        guestId
+        selectedOptions {
+          id
+        }
+        addons {
+          id
+          name
+          description
+          listPrice
+        }
+        item {
+          id
+          name
+          optionGroups {
+            id
+            name
+            options {
+              id
+              name
+              description
+              durationDelta
+              priceDelta
+            }
+          }
+        }
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<CartItemAddonsQuery, CartItemAddonsQueryVariables>;
+export const CartItemStaffVariantsDocument = new TypedDocumentString(`
+    query CartItemStaffVariants($id: ID!) {
+  cart(id: $id) {
+    id
+    selectedItems {
+      id
+      ... on CartBookableItem {
+        item {
+          id
+          name
+          staffVariants {
+            id
+            duration
+            price
+            staff {
+              id
+              displayName
+              firstName
+              lastName
+            }
+          }
+        }
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<CartItemStaffVariantsQuery, CartItemStaffVariantsQueryVariables>;
+export const UpdateCartSelectedBookableItemDocument = new TypedDocumentString(`
+    mutation UpdateCartSelectedBookableItem($input: AddCartSelectedBookableItemInput!) {
+  updateCartSelectedBookableItem(input: $input) {
+    cart {
+      ...CartBookings
+      expiresAt
+      selectedItems {
+        id
+        price
+        ... on CartBookableItem {
+          selectedOptions {
+            id
+            name
+            priceDelta
+            groupId
+            durationDelta
+            description
+          }
+        }
+        addons {
+          id
+          name
+          description
+          disabled
+          disabledDescription
+          listPrice
+          listPriceRange {
+            min
+            max
+            variable
+          }
+          ... on CartAvailableBookableItem {
+            optionGroups {
+              id
+              name
+              description
+              options {
+                id
+                name
+                description
+                durationDelta
+                priceDelta
+              }
+            }
+          }
+        }
+        item {
+          id
+          name
+          description
+          disabled
+          disabledDescription
+        }
+      }
+      summary {
+        deposit
+        depositAmount
+        discountAmount
+        gratuityAmount
+        paymentMethodRequired
+        roundingAmount
+        subtotal
+        taxAmount
+        total
+      }
+      bookingQuestions {
+        id
+        key
+        label
+        required
+      }
+      clientInformation {
+        email
+        firstName
+        lastName
+        phoneNumber
+        externalId
+      }
+      location {
+        id
+        name
+        businessName
+      }
+    }
+  }
+}
+    fragment CartBookings on Cart {
+  id
+  guests {
+    id
+    label
+    number
+    firstName
+    lastName
+  }
+  selectedItems {
+    id
+    price
+    item {
+      id
+      name
+    }
+    addons {
+      id
+    }
+    ... on CartBookableItem {
+      guestId
+      selectedOptions {
+        id
+        name
+        priceDelta
+      }
+      selectedStaffVariant {
+        id
+        staff {
+          id
+          displayName
+        }
+      }
+    }
+  }
+}`) as unknown as TypedDocumentString<UpdateCartSelectedBookableItemMutation, UpdateCartSelectedBookableItemMutationVariables>;
+export const CreateCartDocument = new TypedDocumentString(`
+    mutation CreateCart($input: CreateCartInput!) {
+  createCart(input: $input) {
+    cart {
+      id
+      clientMessage
+      expiresAt
+      features {
+        bookingQuestionsEnabled
+        giftCardPurchaseEnabled
+        paymentInfoRequired
+        serviceAddonsEnabled
+      }
+      summary {
+        deposit
+        depositAmount
+        discountAmount
+        gratuityAmount
+        paymentMethodRequired
+        roundingAmount
+        subtotal
+        taxAmount
+        total
+      }
+      bookingQuestions {
+        id
+        key
+        label
+        required
+      }
+      clientInformation {
+        email
+        firstName
+        lastName
+        phoneNumber
+        externalId
+      }
+      location {
+        id
+        name
+        address {
+          city
+          country
+          line1
+          line2
+          state
+        }
+        businessName
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<CreateCartMutation, CreateCartMutationVariables>;
+export const SetClientOnCartDocument = new TypedDocumentString(`
+    mutation SetClientOnCart($input: UpdateCartInput!) {
+  updateCart(input: $input) {
+    cart {
+      id
+      clientMessage
+      expiresAt
+      summary {
+        deposit
+        depositAmount
+        discountAmount
+        gratuityAmount
+        paymentMethodRequired
+        roundingAmount
+        subtotal
+        taxAmount
+        total
+      }
+      bookingQuestions {
+        id
+        key
+        label
+        required
+      }
+      clientInformation {
+        email
+        firstName
+        lastName
+        phoneNumber
+        externalId
+      }
+      location {
+        id
+        name
+        businessName
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<SetClientOnCartMutation, SetClientOnCartMutationVariables>;
+export const ApplyPromotionCodeDocument = new TypedDocumentString(`
+    mutation ApplyPromotionCode($input: AddCartOfferInput!) {
+  addCartOffer(input: $input) {
+    offer {
+      applied
+      code
+      id
+      name
+    }
+    cart {
+      id
+      completedAt
+      expiresAt
+      summary {
+        deposit
+        depositAmount
+        discountAmount
+        gratuityAmount
+        paymentMethodRequired
+        roundingAmount
+        subtotal
+        taxAmount
+        total
+      }
+      bookingQuestions {
+        id
+        key
+        label
+        required
+      }
+      clientInformation {
+        email
+        firstName
+        lastName
+        phoneNumber
+        externalId
+      }
+      location {
+        id
+        name
+        businessName
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<ApplyPromotionCodeMutation, ApplyPromotionCodeMutationVariables>;
+export const AddCartCardPaymentMethodDocument = new TypedDocumentString(`
+    mutation AddCartCardPaymentMethod($input: AddCartCardPaymentMethodInput!) {
+  addCartCardPaymentMethod(input: $input) {
+    cart {
+      id
+      expiresAt
+      availablePaymentMethods {
+        id
+        name
+        ... on CartItemCardPaymentMethod {
+          cardBrand
+          cardExpMonth
+          cardExpYear
+          cardHolder
+          cardIsDefault
+          cardLast4
+          id
+          name
+          __typename
+        }
+        ... on CartItemVoucherPaymentMethod {
+          availableCount
+          expiresOn
+          id
+          name
+          __typename
+        }
+        __typename
+      }
+      summary {
+        deposit
+        depositAmount
+        discountAmount
+        gratuityAmount
+        paymentMethodRequired
+        roundingAmount
+        subtotal
+        taxAmount
+        total
+        __typename
+      }
+      clientInformation {
+        email
+        firstName
+        lastName
+        phoneNumber
+        externalId
+        __typename
+      }
+      __typename
+    }
+    __typename
+  }
+}
+    `) as unknown as TypedDocumentString<AddCartCardPaymentMethodMutation, AddCartCardPaymentMethodMutationVariables>;
+export const CheckoutCartDocument = new TypedDocumentString(`
+    mutation CheckoutCart($id: ID!) {
+  checkoutCart(input: {id: $id}) {
+    appointments {
+      appointmentId
+      clientId
+      forCartOwner
+      __typename
+    }
+    cart {
+      id
+      expiresAt
+      clientMessage
+      startTime
+      startTimeId
+      guests {
+        id
+        firstName
+        lastName
+        email
+        label
+        number
+        phoneNumber
+        __typename
+      }
+      selectedItems {
+        id
+        lineTotal
+        price
+        item {
+          id
+          name
+        }
+        selectedPaymentMethod {
+          id
+          name
+          ... on CartItemCardPaymentMethod {
+            cardBrand
+            cardExpMonth
+            cardExpYear
+            cardHolder
+            cardIsDefault
+            cardLast4
+            __typename
+          }
+          __typename
+        }
+        ... on CartBookableItem {
+          item {
+            id
+            name
+            optionGroups {
+              id
+              name
+              __typename
+            }
+            __typename
+          }
+          selectedStaffVariant {
+            duration
+            id
+            price
+            staff {
+              id
+              displayName
+              firstName
+              lastName
+              __typename
+            }
+            __typename
+          }
+          guest {
+            id
+            firstName
+            lastName
+            email
+            label
+            number
+            phoneNumber
+            __typename
+          }
+          guestId
+          selectedOptions {
+            id
+            name
+            priceDelta
+            groupId
+            durationDelta
+            description
+            __typename
+          }
+          __typename
+        }
+        __typename
+      }
+      availablePaymentMethods {
+        id
+        name
+        ... on CartItemCardPaymentMethod {
+          cardBrand
+          cardExpMonth
+          cardExpYear
+          cardHolder
+          cardIsDefault
+          cardLast4
+          __typename
+        }
+        ... on CartItemVoucherPaymentMethod {
+          availableCount
+          expiresOn
+          __typename
+        }
+        __typename
+      }
+      summary {
+        deposit
+        depositAmount
+        discountAmount
+        gratuityAmount
+        paymentMethodRequired
+        roundingAmount
+        subtotal
+        taxAmount
+        total
+        __typename
+      }
+      clientInformation {
+        email
+        firstName
+        lastName
+        phoneNumber
+        externalId
+        __typename
+      }
+      location {
+        id
+        name
+        businessName
+        contactEmail
+        tz
+        address {
+          city
+          state
+          country
+          line1
+          line2
+          province
+          zip
+          __typename
+        }
+        __typename
+      }
+      __typename
+    }
+    __typename
+  }
+}
+    `) as unknown as TypedDocumentString<CheckoutCartMutation, CheckoutCartMutationVariables>;
+export const AvailableServicesDocument = new TypedDocumentString(`
+    query AvailableServices($id: ID!) {
+  cart(id: $id) {
+    availableCategories {
+      id
+      name
+      availableItems {
+        id
+        name
+        description
+        listPrice
+        listPriceRange {
+          min
+          max
+          variable
+        }
+        ... on CartAvailableGiftCardItem {
+          pricePresets
+        }
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<AvailableServicesQuery, AvailableServicesQueryVariables>;
+export const CartSummaryDocument = new TypedDocumentString(`
+    query CartSummary($id: ID!) {
+  cart(id: $id) {
+    ...CartBookings
+    expiresAt
+    selectedItems {
+      id
+      ... on CartBookableItem {
+        item {
+          id
+          name
+        }
+        selectedStaffVariant {
+          id
+          duration
+          price
+          staff {
+            displayName
+          }
+        }
+      }
+    }
+    summary {
+      deposit
+      depositAmount
+      discountAmount
+      gratuityAmount
+      paymentMethodRequired
+      roundingAmount
+      subtotal
+      taxAmount
+      total
+    }
+    location {
+      name
+      businessName
+    }
+    clientInformation {
+      firstName
+      lastName
+      email
+      phoneNumber
+    }
+  }
+}
+    fragment CartBookings on Cart {
+  id
+  guests {
+    id
+    label
+    number
+    firstName
+    lastName
+  }
+  selectedItems {
+    id
+    price
+    item {
+      id
+      name
+    }
+    addons {
+      id
+    }
+    ... on CartBookableItem {
+      guestId
+      selectedOptions {
+        id
+        name
+        priceDelta
+      }
+      selectedStaffVariant {
+        id
+        staff {
+          id
+          displayName
+        }
+      }
+    }
+  }
+}`) as unknown as TypedDocumentString<CartSummaryQuery, CartSummaryQueryVariables>;
+export const RemoveCartSelectedItemDocument = new TypedDocumentString(`
+    mutation RemoveCartSelectedItem($input: RemoveCartSelectedItemInput!) {
+  removeCartSelectedItem(input: $input) {
+    cart {
+      ...CartBookings
+      summary {
+        subtotal
+        taxAmount
+        total
+      }
+    }
+  }
+}
+    fragment CartBookings on Cart {
+  id
+  guests {
+    id
+    label
+    number
+    firstName
+    lastName
+  }
+  selectedItems {
+    id
+    price
+    item {
+      id
+      name
+    }
+    addons {
+      id
+    }
+    ... on CartBookableItem {
+      guestId
+      selectedOptions {
+        id
+        name
+        priceDelta
+      }
+      selectedStaffVariant {
+        id
+        staff {
+          id
+          displayName
+        }
+      }
+    }
+  }
+}`) as unknown as TypedDocumentString<RemoveCartSelectedItemMutation, RemoveCartSelectedItemMutationVariables>;
+export const AddGiftCardToCartDocument = new TypedDocumentString(`
+    mutation AddGiftCardToCart($input: AddCartSelectedGiftCardItemInput!) {
+  addCartSelectedGiftCardItem(input: $input) {
+    cart {
+      id
+      expiresAt
+      selectedItems {
+        id
+        price
+        ... on CartBookableItem {
+          item {
+            id
+            name
+            optionGroups {
+              id
+              name
+            }
+          }
+          guest {
+            id
+            firstName
+            lastName
+            email
+            phoneNumber
+          }
+          guestId
+          selectedOptions {
+            id
+            name
+            priceDelta
+            groupId
+            durationDelta
+            description
+          }
+        }
+        addons {
+          id
+          name
+          description
+          disabled
+          disabledDescription
+          listPrice
+          listPriceRange {
+            min
+            max
+            variable
+          }
+        }
+        item {
+          id
+          name
+          description
+          disabled
+          disabledDescription
+        }
+      }
+      summary {
+        deposit
+        depositAmount
+        discountAmount
+        gratuityAmount
+        paymentMethodRequired
+        roundingAmount
+        subtotal
+        taxAmount
+        total
+      }
+      bookingQuestions {
+        id
+        key
+        label
+        required
+      }
+      clientInformation {
+        email
+        firstName
+        lastName
+        phoneNumber
+        externalId
+      }
+      location {
+        id
+        name
+        businessName
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<AddGiftCardToCartMutation, AddGiftCardToCartMutationVariables>;
+export const UpdateGiftCardEmailFulfillmentDocument = new TypedDocumentString(`
+    mutation UpdateGiftCardEmailFulfillment($input: UpdateCartGiftCardItemEmailFulfillmentInput!) {
+  updateCartGiftCardItemEmailFulfillment(input: $input) {
+    cart {
+      selectedItems {
+        ... on CartGiftCardItem {
+          discountAmount
+          discountCode
+          id
+          lineTotal
+          price
+          taxAmount
+        }
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<UpdateGiftCardEmailFulfillmentMutation, UpdateGiftCardEmailFulfillmentMutationVariables>;
+export const LocationsDocument = new TypedDocumentString(`
+    query Locations {
+  locations(first: 20) {
+    edges {
+      node {
+        id
+        businessName
+        contactEmail
+        externalId
+        allowOnlineBooking
+        name
+        tz
+        address {
+          city
+          country
+          line1
+          line2
+          province
+          state
+          zip
+        }
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<LocationsQuery, LocationsQueryVariables>;
+export const AddMembershipToCartDocument = new TypedDocumentString(`
+    mutation AddMembershipToCart($input: AddCartSelectedPurchasableItemInput!) {
+  addCartSelectedPurchasableItem(input: $input) {
+    cart {
+      id
+      selectedItems {
+        id
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<AddMembershipToCartMutation, AddMembershipToCartMutationVariables>;
\ No newline at end of file
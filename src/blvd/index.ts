@@ -0,0 +1,11 @@
+// src/blvd/index.ts
+export * from './boulevard-auth.js';
+export * from './boulevard-client.js';
+export * from './boulevard-config.js';
+export * from './boulevard-errors.js';
+export * from './date-phrase.js';
+export * from './email.js';
+export * from './generated/client.js';
+export * from './local-time.js';
+export * from './phone.js';
+export * from './tool-errors.js';
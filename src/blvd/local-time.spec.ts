@@ -0,0 +1,26 @@
+import { localSlotTime, todayIn } from './local-time.js';
+
+describe('local time', () => {
+  const tz = 'America/Los_Angeles';
+
+  it("takes today's date at the location, not on the server", () => {
+    // 06:30 UTC on the 20th is still the evening of the 19th in Los Angeles
+    const now = new Date('2026-10-20T06:30:00Z');
+    expect(todayIn(tz, now)).toBe('2026-10-19');
+    expect(todayIn('Europe/London', now)).toBe('2026-10-20');
+  });
+
+  it('labels start times in the location time zone', () => {
+    expect(localSlotTime('2026-10-26T17:00:00Z', tz)).toEqual({
+      date: '2026-10-26',
+      time: '10:00',
+      label: 'Mon, Oct 26, 10:00 AM PDT',
+      timeZone: tz,
+    });
+    expect(localSlotTime('2026-11-03T00:30:00Z', tz)).toMatchObject({
+      date: '2026-11-02',
+      time: '16:30',
+      label: 'Mon, Nov 2, 4:30 PM PST',
+    });
+  });
+});
@@ -0,0 +1,83 @@
+// src/blvd/local-time.ts
+
+// Dates are `YYYY-MM-DD` calendar days and times `HH:mm` wall-clock times
+// where the location is. Calendar arithmetic runs on UTC midnight so the
+// server's own time zone never moves a day.
+
+function zonedParts(instant: Date, tz: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: tz,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)!.value;
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`,
+  };
+}
+
+/** Today's date at the location. */
+export function todayIn(tz: string, now = new Date()): string {
+  return zonedParts(now, tz).date;
+}
+
+export function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
+
+/** 0 = Sunday, as `Date#getDay`. */
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/** e.g. "Mon, Oct 26" for a calendar date. */
+export function dayLabel(date: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  }).format(new Date(`${date}T00:00:00Z`));
+}
+
+/** The `YYYY-MM-DD` date, or null when there is no such day (Feb 30). */
+export function calendarDate(
+  year: number,
+  month: number,
+  day: number,
+): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date.toISOString().slice(0, 10)
+    : null;
+}
+
+/**
+ * When a bookable time starts at the location: its date, 24-hour time and a
+ * label to show as-is, e.g. "Mon, Oct 26, 10:00 AM PDT".
+ */
+export function localSlotTime(iso: string, tz: string) {
+  const instant = new Date(iso);
+  const { date, time } = zonedParts(instant, tz);
+  const label = new Intl.DateTimeFormat('en-US', {
+    timeZone: tz,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  })
+    .format(instant)
+    // ICU puts a narrow no-break space before AM/PM
+    .replace(/\s+/g, ' ');
+  return { date, time, label, timeZone: tz };
+}
@@ -0,0 +1,13 @@
+// src/blvd/phone.ts
+
+/**
+ * Puts a number typed into chat in E.164 form, the way Boulevard stores
+ * mobile phones. Ten digits are taken as a US number. Returns `null` for
+ * anything that cannot be a phone number.
+ */
+export function normalizePhone(raw: string): string | null {
+  const digits = raw?.replace(/\D/g, '') ?? '';
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length >= 11 && digits.length <= 15) return `+${digits}`;
+  return null;
+}
@@ -0,0 +1,53 @@
+// src/blvd/tool-errors.ts
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { BoulevardError, type BoulevardErrorCode } from './boulevard-errors.js';
+
+/** Text content of a failed tool call, once parsed. */
+export interface ToolErrorPayload {
+  error: {
+    code: BoulevardErrorCode | 'INTERNAL';
+    message: string;
+    retryable: boolean;
+  };
+}
+
+export function toolError(error: unknown): CallToolResult {
+  const payload: ToolErrorPayload = {
+    error:
+      error instanceof BoulevardError
+        ? {
+            code: error.code,
+            message: error.message,
+            retryable: error.retryable,
+          }
+        : {
+            code: 'INTERNAL',
+            message: error instanceof Error ? error.message : String(error),
+            retryable: false,
+          },
+  };
+
+  return {
+    isError: true,
+    content: [{ type: 'text', text: JSON.stringify(payload) }],
+  };
+}
+
+/**
+ * Wraps an MCP tool handler so that a failed Boulevard call comes back as an
+ * `isError` result the model can read and react to, instead of a bare
+ * exception message.
+ */
+export function withToolErrors<TArgs extends unknown[]>(
+  name: string,
+  handler: (...args: TArgs) => Promise<CallToolResult>,
+) {
+  return async (...args: TArgs): Promise<CallToolResult> => {
+    try {
+      return await handler(...args);
+    } catch (error) {
+      console.error(`❌ [MCP SERVER] ${name} failed:`, error);
+      return toolError(error);
+    }
+  };
+}
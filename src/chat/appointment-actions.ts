@@ -0,0 +1,66 @@
+// src/chat/appointment-actions.ts
+import type { PendingAppointmentAction } from './user-context.js';
+import { formatInZone } from './time-format.js';
+
+// Tools of the booking MCP server that act on the client's appointments
+export const APPOINTMENT_TOOLS = [
+  'listMyAppointments',
+  'rescheduleAppointment',
+  'cancelAppointment',
+];
+
+/** One appointment as the appointment tools return it. */
+export interface AppointmentView {
+  id: string;
+  startAt: string;
+  endAt: string;
+  cancelled: boolean;
+  location: { name: string; tz: string };
+  services: { name: string; staff: string | null }[];
+}
+
+export interface RescheduleTime {
+  bookableTimeId: string;
+  startTime: string;
+}
+
+/** Whether a call changes an appointment, and so needs the user's yes. */
+export function needsConfirmation(
+  tool: string,
+  args: Record<string, unknown>,
+): tool is PendingAppointmentAction['tool'] {
+  return (
+    tool === 'cancelAppointment' ||
+    (tool === 'rescheduleAppointment' && !!args.bookableTimeId)
+  );
+}
+
+/** e.g. "Swedish Massage at Downtown on Monday, … at 10:00 AM PST" */
+export function describeAppointment(appointment: AppointmentView): string {
+  const services = appointment.services.map((s) => s.name).join(' + ');
+  const when = formatInZone(appointment.startAt, appointment.location.tz);
+  return `${services} at ${appointment.location.name} on ${when}`;
+}
+
+export function confirmationQuestion(
+  pending: Pick<PendingAppointmentAction, 'tool' | 'description'>,
+  newTime?: string,
+): string {
+  return pending.tool === 'cancelAppointment'
+    ? `Just to confirm: cancel your ${pending.description}? (yes/no)`
+    : `Just to confirm: move your ${pending.description} to ${newTime}? (yes/no)`;
+}
+
+export function completionMessage(
+  tool: PendingAppointmentAction['tool'],
+  appointment: AppointmentView,
+): string {
+  return tool === 'cancelAppointment'
+    ? `Done — your ${describeAppointment(appointment)} is cancelled.`
+    : `Done — you're now booked for ${describeAppointment(appointment)}.`;
+}
+
+// Answers to the confirmation question ("cancel" is not a no here)
+export const CONFIRMS =
+  /^\s*(yes|yeah|yep|sure|ok(ay)?|confirm|go ahead|do it|please do)\b/i;
+export const DECLINES = /^\s*(no|nope|nah|keep|don'?t|never ?mind)\b/i;
@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { parseTimeOfDay, resolveDatePhrase, todayIn } from '../blvd/index.js';
 
 @Injectable()
 export class BookingFlowService {
@@ -9,7 +10,7 @@ export class BookingFlowService {
   constructor(private readonly mcpClient: Client) {}
 
   async handleBooking(userId: string, userInput: any) {
-    let state = this.sessionState[userId] || {};
+    const state = this.sessionState[userId] || {};
     let responseText = '';
 
     try {
@@ -17,10 +18,15 @@ export class BookingFlowService {
       if (!state.locationId) {
         const location = await this.validateLocation(userInput.location);
         if (!location.valid) {
-          return this.reply(userId, state, `📍 Please choose a location:\n${location.options.join('\n')}`);
+          return this.reply(
+            userId,
+            state,
+            `📍 Please choose a location:\n${location.options.join('\n')}`,
+          );
         }
         state.locationId = location.id;
         state.locationName = location.name;
+        state.timeZone = location.timeZone;
 
         // Create cart
         const cart = await this.createCart(location.id);
@@ -30,9 +36,16 @@ export class BookingFlowService {
 
       // STEP 2️⃣: SERVICE
       if (!state.serviceId) {
-        const service = await this.validateService(state.cartId, userInput.service);
+        const service = await this.validateService(
+          state.cartId,
+          userInput.service,
+        );
         if (!service.valid) {
-          return this.reply(userId, state, `💆 Available services:\n${service.options.join('\n')}`);
+          return this.reply(
+            userId,
+            state,
+            `💆 Available services:\n${service.options.join('\n')}`,
+          );
         }
         state.serviceId = service.id;
         state.serviceName = service.name;
@@ -40,18 +53,36 @@ export class BookingFlowService {
 
       // STEP 3️⃣: DATE
       if (!state.date) {
-        const date = await this.validateDate(state.cartId, state.serviceId, userInput.date);
+        const date = await this.validateDate(
+          state.cartId,
+          state.serviceId,
+          state.timeZone,
+          userInput.date,
+        );
         if (!date.valid) {
-          return this.reply(userId, state, `📅 Available dates:\n${date.options.join(', ')}`);
+          return this.reply(
+            userId,
+            state,
+            `📅 Available dates:\n${date.options.join(', ')}`,
+          );
         }
         state.date = date.value;
       }
 
       // STEP 4️⃣: TIME
       if (!state.time) {
-        const time = await this.validateTime(state.cartId, state.serviceId, state.date, userInput.time);
+        const time = await this.validateTime(
+          state.cartId,
+          state.serviceId,
+          state.date,
+          userInput.time,
+        );
         if (!time.valid) {
-          return this.reply(userId, state, `⏰ Available times for ${state.date}:\n${time.options.join(', ')}`);
+          return this.reply(
+            userId,
+            state,
+            `⏰ Available times for ${state.date}:\n${time.options.join(', ')}`,
+          );
         }
         state.time = time.value;
       }
@@ -68,7 +99,9 @@ Would you like to confirm? (yes/no)`;
       return this.reply(userId, state, responseText);
     } catch (err) {
       this.logger.error('Booking flow error', err);
-      return { text: '❌ Something went wrong during booking. Please try again later.' };
+      return {
+        text: '❌ Something went wrong during booking. Please try again later.',
+      };
     }
   }
 
@@ -82,7 +115,10 @@ Would you like to confirm? (yes/no)`;
   // --------------------------
 
   async validateLocation(locationName?: string) {
-    const result = await this.mcpClient.callTool({ name: 'getLocations', arguments: {} });
+    const result = await this.mcpClient.callTool({
+      name: 'getLocations',
+      arguments: {},
+    });
     const text = result?.content?.[0]?.text;
     const locations = typeof text === 'string' ? JSON.parse(text) : text;
 
@@ -91,14 +127,19 @@ Would you like to confirm? (yes/no)`;
     }
 
     const match = locations.find((l) =>
-      l.name.toLowerCase().includes(locationName.toLowerCase())
+      l.name.toLowerCase().includes(locationName.toLowerCase()),
     );
 
     if (!match) {
       return { valid: false, options: locations.map((l) => l.name) };
     }
 
-    return { valid: true, id: match.id, name: match.name };
+    return {
+      valid: true,
+      id: match.id,
+      name: match.name,
+      timeZone: match.timeZone,
+    };
   }
 
   async createCart(locationId: string) {
@@ -126,7 +167,7 @@ Would you like to confirm? (yes/no)`;
     }
 
     const match = services.find((s) =>
-      s.name.toLowerCase().includes(serviceName.toLowerCase())
+      s.name.toLowerCase().includes(serviceName.toLowerCase()),
     );
 
     if (!match) {
@@ -136,7 +177,12 @@ Would you like to confirm? (yes/no)`;
     return { valid: true, id: match.id, name: match.name };
   }
 
-  async validateDate(cartId: string, serviceId: string, date?: string) {
+  async validateDate(
+    cartId: string,
+    serviceId: string,
+    timeZone: string,
+    date?: string,
+  ) {
     const result = await this.mcpClient.callTool({
       name: 'cartBookableDates',
       arguments: { cartId, serviceId },
@@ -149,48 +195,46 @@ Would you like to confirm? (yes/no)`;
       return { valid: false, options: dates };
     }
 
-    const normalized = this.normalizeDate(date);
+    const normalized = this.normalizeDate(date, timeZone);
     const exists = dates.includes(normalized);
     return exists
       ? { valid: true, value: normalized }
       : { valid: false, options: dates };
   }
 
-  async validateTime(cartId: string, serviceId: string, date: string, time?: string) {
+  async validateTime(
+    cartId: string,
+    serviceId: string,
+    date: string,
+    time?: string,
+  ) {
     const result = await this.mcpClient.callTool({
       name: 'cartBookableTimes',
       arguments: { cartId, serviceId, date },
     });
 
     const text = result?.content?.[0]?.text;
-    const times = typeof text === 'string' ? JSON.parse(text) : text;
+    const { days } = typeof text === 'string' ? JSON.parse(text) : text;
+    const times = days.flatMap((day) => day.slots);
 
+    // Start times come with the location's local time and a label
+    const options = times.map((t) => t.label);
     if (!time) {
-      return { valid: false, options: times };
+      return { valid: false, options };
     }
 
-    const normalized = this.normalizeTime(time);
-    const exists = times.some((t) => t.startsWith(normalized));
+    const normalized = parseTimeOfDay(time);
+    const exists = times.some((t) => t.time === normalized);
     return exists
       ? { valid: true, value: normalized }
-      : { valid: false, options: times };
+      : { valid: false, options };
   }
 
   // --------------------------
   // 🕐 Utility Formatters
   // --------------------------
-  private normalizeDate(dateStr: string) {
-    // Converts “6 nov 2025” → “2025-11-06”
-    const d = new Date(dateStr);
-    return isNaN(d.getTime()) ? null : d.toISOString().split('T')[0];
-  }
-
-  private normalizeTime(timeStr: string) {
-    // Converts “6 am” → “06:00”
-    const [num, ampm] = timeStr.toLowerCase().split(' ');
-    let hour = parseInt(num);
-    if (ampm === 'pm' && hour < 12) hour += 12;
-    if (ampm === 'am' && hour === 12) hour = 0;
-    return hour.toString().padStart(2, '0') + ':00';
+  private normalizeDate(dateStr: string, timeZone: string) {
+    // Converts “6 nov 2025” or “tomorrow” → “2025-11-06”, counting from today at the location
+    return resolveDatePhrase(dateStr, todayIn(timeZone))?.resolvedDate ?? null;
   }
 }
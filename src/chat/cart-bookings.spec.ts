@@ -0,0 +1,122 @@
+import type { CartBookingsFragment } from '../blvd/index.js';
+import { cartBookings, describeCartBookings } from './cart-bookings.js';
+
+describe('cart bookings', () => {
+  const cart = {
+    id: 'urn:blvd:Cart:cart-1',
+    guests: [
+      {
+        id: 'guest-1',
+        label: 'Guest 1',
+        number: 1,
+        firstName: 'Mia',
+        lastName: null,
+      },
+      {
+        id: 'guest-2',
+        label: null,
+        number: 2,
+        firstName: null,
+        lastName: null,
+      },
+    ],
+    selectedItems: [
+      {
+        id: 'sel-1',
+        price: 19900,
+        item: { id: 'svc-facial', name: 'Classic HydraFacial' },
+        addons: [{ id: 'svc-led' }],
+        guestId: null,
+        selectedOptions: [
+          { id: 'opt-lip', name: 'Lip Treatment', priceDelta: 1000 },
+        ],
+        selectedStaffVariant: {
+          id: 'variant-ana',
+          staff: { id: 'staff-ana', displayName: 'Ana R.' },
+        },
+      },
+      {
+        id: 'sel-2',
+        price: 15000,
+        item: { id: 'svc-signature', name: 'Signature Facial' },
+        addons: [{ id: 'svc-led' }],
+        guestId: 'guest-1',
+        selectedOptions: [],
+        selectedStaffVariant: null,
+      },
+      {
+        id: 'sel-3',
+        price: 5000,
+        item: { id: 'gift-card', name: 'Gift Card' },
+        addons: [],
+      },
+      // Booked with Mia's facial
+      {
+        id: 'sel-4',
+        price: 2500,
+        item: { id: 'svc-led', name: 'LED Light Therapy' },
+        addons: [],
+        guestId: 'guest-1',
+        selectedOptions: [],
+        selectedStaffVariant: null,
+      },
+    ],
+  } as CartBookingsFragment;
+
+  it('tracks each bookable service and guest, but not add-on services', () => {
+    expect(cartBookings(cart)).toEqual({
+      selectedItems: [
+        {
+          id: 'sel-1',
+          serviceId: 'svc-facial',
+          name: 'Classic HydraFacial',
+          guestId: null,
+          staffVariantId: 'variant-ana',
+        },
+        {
+          id: 'sel-2',
+          serviceId: 'svc-signature',
+          name: 'Signature Facial',
+          guestId: 'guest-1',
+          staffVariantId: null,
+        },
+      ],
+      guests: [
+        { id: 'guest-1', name: 'Mia' },
+        { id: 'guest-2', name: 'Guest 2' },
+      ],
+    });
+  });
+
+  it('names the guest, add-ons and staff of every service for the model', () => {
+    expect(describeCartBookings(cart).services).toEqual([
+      {
+        itemId: 'sel-1',
+        serviceName: 'Classic HydraFacial',
+        price: 19900,
+        guestId: null,
+        forGuest: null,
+        addons: ['Lip Treatment'],
+        staffName: 'Ana R.',
+      },
+      {
+        itemId: 'sel-2',
+        serviceName: 'Signature Facial',
+        price: 15000,
+        guestId: 'guest-1',
+        forGuest: 'Mia',
+        addons: ['LED Light Therapy'],
+        staffName: null,
+      },
+      {
+        itemId: 'sel-3',
+        serviceName: 'Gift Card',
+        price: 5000,
+        guestId: null,
+        forGuest: null,
+        addons: [],
+        staffName: null,
+      },
+    ]);
+  });
+});
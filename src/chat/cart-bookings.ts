@@ -0,0 +1,91 @@
+// src/chat/cart-bookings.ts
+import type { CartBookingsFragment } from '../blvd/index.js';
+import type { BookingGuest, BookingItem } from './user-context.js';
+
+type CartGuest = CartBookingsFragment['guests'][number];
+type CartSelectedItem = CartBookingsFragment['selectedItems'][number];
+
+// Add-on services are selected items of their own, booked for the same
+// guest as the service offering them
+function addonsBookedWith(
+  cart: CartBookingsFragment,
+  service: CartSelectedItem,
+) {
+  if (!('guestId' in service)) return [];
+  return cart.selectedItems.filter(
+    (other) =>
+      'guestId' in other &&
+      other.guestId === service.guestId &&
+      service.addons.some((addon) => addon.id === other.item.id),
+  );
+}
+
+function isBookedAddon(cart: CartBookingsFragment, selected: CartSelectedItem) {
+  return cart.selectedItems.some((service) =>
+    addonsBookedWith(cart, service).includes(selected),
+  );
+}
+
+function guestName(guest: CartGuest): string {
+  const name = [guest.firstName, guest.lastName].filter(Boolean).join(' ');
+  return name || guest.label || `Guest ${guest.number}`;
+}
+
+/** The services a cart holds and the guests they may be for. */
+export function cartBookings(cart: CartBookingsFragment): {
+  selectedItems: BookingItem[];
+  guests: BookingGuest[];
+} {
+  return {
+    selectedItems: cart.selectedItems.flatMap((selected) =>
+      'guestId' in selected && !isBookedAddon(cart, selected)
+        ? [
+            {
+              id: selected.id,
+              serviceId: selected.item.id,
+              name: selected.item.name,
+              guestId: selected.guestId,
+              staffVariantId: selected.selectedStaffVariant?.id ?? null,
+            },
+          ]
+        : [],
+    ),
+    guests: cart.guests.map((guest) => ({
+      id: guest.id,
+      name: guestName(guest),
+    })),
+  };
+}
+
+/**
+ * The cart's services as the model sees them: one line per service with
+ * the item id to pass to staff, add-on and item tools, who it is for, the
+ * add-ons chosen on it and who performs it.
+ */
+export function describeCartBookings(cart: CartBookingsFragment) {
+  const { guests } = cartBookings(cart);
+  return {
+    services: cart.selectedItems
+      .filter((selected) => !isBookedAddon(cart, selected))
+      .map((selected) => {
+        const guestId = 'guestId' in selected ? selected.guestId : null;
+        const staff =
+          'selectedStaffVariant' in selected
+            ? selected.selectedStaffVariant?.staff
+            : null;
+        return {
+          itemId: selected.id,
+          serviceName: selected.item.name,
+          price: selected.price,
+          guestId,
+          forGuest: guests.find((g) => g.id === guestId)?.name ?? null,
+          addons: [
+            ...('selectedOptions' in selected ? selected.selectedOptions : []),
+            ...addonsBookedWith(cart, selected).map((addon) => addon.item),
+          ].map((addon) => addon.name),
+          staffName: staff?.displayName ?? null,
+        };
+      }),
+    guests,
+  };
+}
@@ -0,0 +1,53 @@
+// src/chat/chat-stream.ts
+import type { ChatReply } from './dto/chat-reply.dto.js';
+
+/**
+ * Events sent over `/chat/stream` (Server-Sent Events), in order:
+ * any number of `token` / `progress` events, then exactly one `done`
+ * (same `reply` shape as `POST /chat`) or `error`.
+ */
+export type ChatStreamEvent =
+  | { type: 'token'; data: { text: string } }
+  | { type: 'progress'; data: { tool: string; message: string } }
+  | { type: 'done'; data: { reply: ChatReply } }
+  | { type: 'error'; data: { message: string } };
+
+// What the user sees while a tool is running
+export const TOOL_PROGRESS_MESSAGES: Record<string, string> = {
+  getLocations: 'Looking up locations…',
+  availableServices: 'Fetching services…',
+  createAppointmentCart: 'Starting your booking…',
+  addServiceToCart: 'Adding the service to your cart…',
+  removeItemInCart: 'Updating your cart…',
+  listServiceAddons: 'Fetching add-ons…',
+  addAddonToItem: 'Adding the add-on…',
+  removeAddonFromItem: 'Updating your cart…',
+  addCartGuest: 'Adding your guest…',
+  removeCartGuest: 'Updating your cart…',
+  resolveDateRange: 'Working out the dates…',
+  cartBookableDates: 'Checking availability…',
+  cartBookableTimes: 'Checking availability…',
+  findNextAvailableSlots: 'Looking for the next openings…',
+  joinWaitlist: 'Adding you to the waitlist…',
+  checkAvailability: 'Checking availability…',
+  reserveCartBookableItems: 'Reserving your time slot…',
+  cartBookableStaffVariants: 'Finding available staff…',
+  listServiceStaff: 'Finding available staff…',
+  selectStaff: 'Saving your staff choice…',
+  updateCartSelectedBookableItem: 'Updating your booking…',
+  getCartSummary: 'Preparing your summary…',
+  setClientOnCart: 'Saving your details…',
+  applyPromotionCode: 'Applying your promo code…',
+  getMembershipPlans: 'Fetching membership plans…',
+  createMembershipCart: 'Starting your membership purchase…',
+  addMembershipToCart: 'Adding the membership to your cart…',
+  createGiftCardCart: 'Starting your gift card purchase…',
+  availableServicesGiftCard: 'Fetching gift card options…',
+  addGiftCardToCart: 'Adding the gift card to your cart…',
+  updateGiftCardEmail: 'Saving the gift card details…',
+  listMyAppointments: 'Looking up your appointments…',
+  rescheduleAppointment: 'Checking new times…',
+  cancelAppointment: 'Looking up your appointment…',
+};
+
+export const DEFAULT_TOOL_PROGRESS_MESSAGE = 'Working on it…';
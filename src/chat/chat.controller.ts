@@ -1,82 +1,174 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  Sse,
+  Query,
+  Res,
+  MessageEvent,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ApiBadGatewayResponse,
+  ApiBadRequestResponse,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiTags,
+  ApiUnauthorizedResponse,
+  ApiUnprocessableEntityResponse,
+} from '@nestjs/swagger';
+import type { Response } from 'express';
+import { Observable, map } from 'rxjs';
 import { ChatService } from './chat.service.js';
+import { CheckoutGrantService } from './checkout-grant.service.js';
+import { ChatMessageDto } from './dto/chat-message.dto.js';
+import { ReceiveTokenDto } from './dto/receive-token.dto.js';
+import { PromptSuggestionsDto } from './dto/prompt-suggestions.dto.js';
+import { ChatResponse } from './dto/chat-reply.dto.js';
+import { ErrorResponse } from './dto/error-response.dto.js';
+import {
+  CheckoutFailureResponse,
+  CheckoutResponse,
+} from './dto/checkout-receipt.dto.js';
+import { buildReceipt, renderReceipt } from './checkout-receipt.js';
 
+const STREAM_DESCRIPTION =
+  'Server-Sent Events: any number of `token` (`{ text }`) and `progress` ' +
+  '(`{ tool, message }`) events, then one `done` (`{ reply }`, the same ' +
+  'shape as `POST /chat`) or `error` (`{ message }`).';
+
+@ApiTags('chat')
+@ApiBadRequestResponse({
+  type: ErrorResponse,
+  description: 'The body or query failed validation',
+})
 @Controller('chat')
 export class ChatController {
-  constructor(private readonly chatService: ChatService) {}
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly checkoutGrants: CheckoutGrantService,
+  ) {}
 
+  @ApiOperation({ summary: 'Send a message and wait for the full reply' })
+  @ApiCreatedResponse({ type: ChatResponse })
   @Post()
-  async chat(@Body('chatInput') message: string, @Body('sessionId') sessionId: string, @Body('uuid') uuid: string) {
-    const response = await this.chatService.sendMessage(message, sessionId, uuid);
+  async chat(
+    @Body() { chatInput, sessionId, uuid }: ChatMessageDto,
+  ): Promise<ChatResponse> {
+    const response = await this.chatService.sendMessage(
+      chatInput,
+      sessionId,
+      uuid,
+    );
     return response; // ✅ don’t wrap it again
   }
 
-  @Post('receive-token')
-  async receiveToken(@Body('token') token: string, @Body('sessionId') sessionId: string,  @Body('uuid') uuid: string) {
-    if (!token) {
-      return {
-        reply: {
-          role: 'assistant',
-          content: 'No token received.'
-        }
-      };
-    }
-  
-    const checkoutResult = await this.chatService.setPaymentToken(token, sessionId, uuid);
-  
-    if (!checkoutResult) {
-      return {
-        reply: {
-          role: 'assistant',
-          content: 'Checkout failed. See backend logs.'
-        }
-      };
-    }
-  // 1. Extract the raw text
-const raw = checkoutResult?.content?.[0]?.text;
-
-// 2. Parse JSON
-const data = JSON.parse(raw);
-
-// 3. Extract summary
-const summary = data.checkoutCart.cart.summary;
+  // EventSource clients can only GET, so the same stream is offered both ways
+  @ApiOperation({
+    summary: 'Stream the reply to a message',
+    description: STREAM_DESCRIPTION,
+  })
+  @ApiProduces('text/event-stream')
+  @ApiOkResponse({ description: 'Event stream' })
+  @Sse('stream')
+  streamGet(
+    @Query() { chatInput, sessionId, uuid }: ChatMessageDto,
+  ): Observable<MessageEvent> {
+    return this.chatService
+      .streamMessage(chatInput, sessionId, uuid)
+      .pipe(map((event) => ({ type: event.type, data: event.data })));
+  }
 
-// 4. Convert cents → dollars
-const subtotal = (summary.subtotal / 100).toFixed(2);
-const discount = (summary.discountAmount / 100).toFixed(2);
-const tax = (summary.taxAmount / 100).toFixed(2);
-const total = (summary.total / 100).toFixed(2);
+  @ApiOperation({
+    summary: 'Stream the reply to a message (POST variant)',
+    description: STREAM_DESCRIPTION,
+  })
+  @ApiProduces('text/event-stream')
+  @ApiCreatedResponse({ description: 'Event stream' })
+  @Post('stream')
+  streamPost(
+    @Body() { chatInput, sessionId, uuid }: ChatMessageDto,
+    @Res() res: Response,
+  ) {
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
 
-// 5. Build final content string
-// const content =
-//   `🧾 **Checkout Summary**\n\n\n` +
-//   `Subtotal: $${subtotal}\n\n` +
-//   `Discount: $${discount}\n\n` +
-//   `Tax: $${tax}\n\n` +
-//   `Total: $${total}\n\n` +
-//   `🙏 Thank you for your purchase!`;
+    const subscription = this.chatService
+      .streamMessage(chatInput, sessionId, uuid)
+      .subscribe({
+        next: (event) =>
+          res.write(
+            `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`,
+          ),
+        complete: () => res.end(),
+      });
 
-const lines = [
-  subtotal !== "0.00" ? `Subtotal: $${subtotal}` : "",
-  discount !== "0.00" ? `Discount: $${discount}` : "",
-  tax !== "0.00" ? `Tax: $${tax}` : "",
-  total !== "0.00" ? `Total: $${total}` : "",
-];
+    res.on('close', () => subscription.unsubscribe());
+  }
 
-const content = `🧾 **Checkout Summary**\n\n` + lines.filter(line => line !== "").join("\n\n") + `\n\n🙏 Thank you for your purchase!`;
+  @ApiOperation({
+    summary: 'Pay for the cart with a card token',
+    description:
+      'Called by the payment page opened from a `SHOW_PAY_BUTTON` action. ' +
+      'Retrying the same link replays the receipt instead of paying twice; ' +
+      'after `CARD_DECLINED` it can be retried with another card.',
+  })
+  @ApiCreatedResponse({ type: CheckoutResponse })
+  @ApiUnauthorizedResponse({
+    type: ErrorResponse,
+    description: 'The checkout token is malformed, forged or expired',
+  })
+  @ApiForbiddenResponse({
+    type: ErrorResponse,
+    description:
+      'The checkout link belongs to another user, or the cart or amount has changed since it was issued',
+  })
+  @ApiConflictResponse({
+    type: ErrorResponse,
+    description: 'The same payment is already being processed',
+  })
+  @ApiUnprocessableEntityResponse({
+    type: CheckoutFailureResponse,
+    description:
+      'Boulevard refused the checkout: card declined, slot no longer available or cart expired',
+  })
+  @ApiBadGatewayResponse({
+    type: CheckoutFailureResponse,
+    description: 'Boulevard could not complete the checkout',
+  })
+  @Post('receive-token')
+  async receiveToken(
+    @Body() { token, checkoutToken, uuid }: ReceiveTokenDto,
+  ): Promise<CheckoutResponse> {
+    const grant = this.checkoutGrants.verify(checkoutToken);
+    if (grant.uuid !== uuid) {
+      throw new ForbiddenException('Checkout link belongs to another user');
+    }
 
-  this.chatService.cleanupAfterCheckout(sessionId);
+    const checkoutResult = await this.chatService.setPaymentToken(token, grant);
 
-// 6. Wrap in reply object
-return {
-  reply: {
-    role: "assistant",
-    content
+    const receipt = buildReceipt(checkoutResult);
+    return {
+      reply: { role: 'assistant', content: renderReceipt(receipt) },
+      receipt,
+    };
   }
-}}
 
+  @ApiOperation({ summary: 'Suggest follow-up prompts for a message' })
+  @ApiCreatedResponse({ type: [String] })
   @Post('prompt-suggestions')
-  async promptSuggestions(@Body('userContent') userContent: string) {
+  async promptSuggestions(
+    @Body() { userContent }: PromptSuggestionsDto,
+  ): Promise<string[]> {
     const suggestions = await this.chatService.promptSuggestions(userContent);
     return suggestions;
   }
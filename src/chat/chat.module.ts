@@ -1,9 +1,40 @@
 import { Module } from '@nestjs/common';
 import { ChatController } from './chat.controller.js';
 import { ChatService } from './chat.service.js';
+import { McpClientPoolService } from './mcp-client-pool.service.js';
+import { UserContextService } from './user-context.service.js';
+import { CheckoutLedgerService } from './checkout-ledger.service.js';
+import { CheckoutGrantService } from './checkout-grant.service.js';
+import { IntentClassifierService } from './intent-classifier.service.js';
+import { ResponsesOrchestratorService } from './responses-orchestrator.service.js';
+import { llmProvider } from './llm/llm.providers.js';
+import { ClientDirectoryService } from './identity/client-directory.service.js';
+import { IdentityService } from './identity/identity.service.js';
+import { VerificationLimitsService } from './identity/verification-limits.service.js';
+import { otpNotifier } from './identity/otp-notifier.providers.js';
+import { WaitlistController } from './waitlist/waitlist.controller.js';
+import { WaitlistService } from './waitlist/waitlist.service.js';
+import { WaitlistMonitorService } from './waitlist/waitlist-monitor.service.js';
+import { waitlistNotifier } from './waitlist/waitlist-notifier.providers.js';
 
 @Module({
-  controllers: [ChatController],
-  providers: [ChatService],
+  controllers: [ChatController, WaitlistController],
+  providers: [
+    ChatService,
+    McpClientPoolService,
+    UserContextService,
+    CheckoutLedgerService,
+    CheckoutGrantService,
+    IntentClassifierService,
+    ResponsesOrchestratorService,
+    llmProvider,
+    ClientDirectoryService,
+    IdentityService,
+    VerificationLimitsService,
+    otpNotifier,
+    WaitlistService,
+    WaitlistMonitorService,
+    waitlistNotifier,
+  ],
 })
 export class ChatModule {}
@@ -0,0 +1,885 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { firstValueFrom, toArray } from 'rxjs';
+import { ChatService } from './chat.service.js';
+import { McpClientPoolService } from './mcp-client-pool.service.js';
+import { UserContextService } from './user-context.service.js';
+import { IntentClassifierService } from './intent-classifier.service.js';
+import { ResponsesOrchestratorService } from './responses-orchestrator.service.js';
+import { LLM_PROVIDER } from './llm/llm-provider.js';
+import { ScriptedLlmProvider } from './llm/scripted-llm.provider.js';
+import { CheckoutLedgerService } from './checkout-ledger.service.js';
+import { CheckoutGrantService } from './checkout-grant.service.js';
+import { CheckoutFailedException } from './checkout-receipt.js';
+import { IdentityService } from './identity/identity.service.js';
+import { WaitlistService } from './waitlist/waitlist.service.js';
+import { ClientDirectoryService } from './identity/client-directory.service.js';
+import { OTP_NOTIFIER } from './identity/otp-notifier.js';
+import { VerificationLimitsService } from './identity/verification-limits.service.js';
+import {
+  InMemoryCheckoutLedgerService,
+  InMemoryUserContextService,
+} from '../../test/in-memory-stores.js';
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+type ScriptedToolCall = { name: string; args: Record<string, unknown> };
+
+/**
+ * Minimal stand-in for the Assistants API. Every thread gets one scripted
+ * tool call per run (if any) followed by a canned assistant reply, and each
+ * call yields to the event loop so concurrent conversations interleave.
+ */
+class FakeOpenAI {
+  private threadCount = 0;
+  private runCount = 0;
+  readonly runsByThread = new Map<string, { assistantId: string }[]>();
+  readonly scripts = new Map<string, ScriptedToolCall[]>();
+  private readonly runs = new Map<
+    string,
+    { threadId: string; pending: ScriptedToolCall[]; submitted: boolean }
+  >();
+  private readonly lastUserMessage = new Map<string, string>();
+
+  beta = {
+    threads: {
+      create: async () => {
+        await tick();
+        return { id: `thread-${++this.threadCount}` };
+      },
+      messages: {
+        create: async (threadId: string, body: { content: string }) => {
+          await tick();
+          this.lastUserMessage.set(threadId, body.content);
+        },
+        list: async (threadId: string) => {
+          await tick();
+          return {
+            data: [
+              {
+                role: 'assistant',
+                content: [
+                  {
+                    text: {
+                      value: `reply to "${this.lastUserMessage.get(threadId)}"`,
+                    },
+                  },
+                ],
+              },
+            ],
+          };
+        },
+      },
+      runs: {
+        list: async () => {
+          await tick();
+          return { data: [] };
+        },
+        create: async (threadId: string, body: { assistant_id: string }) => {
+          await tick();
+          const id = `run-${++this.runCount}`;
+          const runs = this.runsByThread.get(threadId) ?? [];
+          runs.push({ assistantId: body.assistant_id });
+          this.runsByThread.set(threadId, runs);
+
+          const message = this.lastUserMessage.get(threadId)!;
+          this.runs.set(id, {
+            threadId,
+            pending: this.scripts.get(message) ?? [],
+            submitted: false,
+          });
+          return { id, status: 'queued' };
+        },
+        retrieve: async (runId: string) => {
+          await tick();
+          const run = this.runs.get(runId)!;
+          if (run.pending.length && !run.submitted) {
+            return {
+              id: runId,
+              status: 'requires_action',
+              required_action: {
+                type: 'submit_tool_outputs',
+                submit_tool_outputs: {
+                  tool_calls: run.pending.map((call, i) => ({
+                    id: `${runId}-call-${i}`,
+                    function: {
+                      name: call.name,
+                      arguments: JSON.stringify(call.args),
+                    },
+                  })),
+                },
+              },
+            };
+          }
+          return { id: runId, status: 'completed' };
+        },
+        submitToolOutputs: async (runId: string) => {
+          await tick();
+          this.runs.get(runId)!.submitted = true;
+          return { id: runId };
+        },
+        stream: (threadId: string, body: { assistant_id: string }) => {
+          const created = this.beta.threads.runs.create(threadId, body);
+          return this.streamRun(created.then((run) => run.id));
+        },
+        submitToolOutputsStream: (runId: string) => {
+          this.runs.get(runId)!.submitted = true;
+          return this.streamRun(Promise.resolve(runId));
+        },
+      },
+    },
+  };
+
+  private async *streamRun(runIdPromise: Promise<string>) {
+    const runId = await runIdPromise;
+    const run = await this.beta.threads.runs.retrieve(runId);
+
+    if (run.status === 'requires_action') {
+      yield { event: 'thread.run.requires_action', data: run };
+      return;
+    }
+
+    const threadId = this.runs.get(runId)!.threadId;
+    const reply = `reply to "${this.lastUserMessage.get(threadId)}"`;
+    const half = Math.floor(reply.length / 2);
+
+    yield { event: 'thread.message.created', data: {} };
+    for (const value of [reply.slice(0, half), reply.slice(half)]) {
+      await tick();
+      yield {
+        event: 'thread.message.delta',
+        data: { delta: { content: [{ type: 'text', text: { value } }] } },
+      };
+    }
+    yield { event: 'thread.run.completed', data: { id: runId } };
+  }
+}
+
+describe('ChatService', () => {
+  let service: ChatService;
+  let contexts: InMemoryUserContextService;
+  let checkouts: InMemoryCheckoutLedgerService;
+  let openai: FakeOpenAI;
+  let toolCalls: { module: string; name: string; args: any }[];
+  let pool: McpClientPoolService;
+  let llm: ScriptedLlmProvider;
+
+  beforeAll(() => {
+    process.env.OPENAI_API_KEY = 'test-key';
+    process.env.DEFAULT_ASSISTANT_ID = 'asst-default';
+    process.env.BOOKING_ASSISTANT_ID = 'asst-booking';
+    process.env.GIFT_ASSISTANT_ID = 'asst-gift';
+    process.env.MEMBERSHIP_ASSISTANT_ID = 'asst-membership';
+    process.env.CHECKOUT_GRANT_SECRET = 'test-secret';
+  });
+
+  beforeEach(async () => {
+    contexts = new InMemoryUserContextService();
+    checkouts = new InMemoryCheckoutLedgerService();
+    openai = new FakeOpenAI();
+    toolCalls = [];
+    llm = new ScriptedLlmProvider();
+
+    pool = new McpClientPoolService();
+    jest
+      .spyOn(pool, 'callTool')
+      .mockImplementation(async (module, { name, arguments: args }) => {
+        await tick();
+        toolCalls.push({ module, name, args });
+
+        if (name === 'resolveDateRange') {
+          const day = String(args?.inputText);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  resolvedDate: `2025-12-${day}`,
+                  rangeLower: `2025-12-${day}`,
+                  rangeUpper: `2025-12-${Number(day) + 7}`,
+                }),
+              },
+            ],
+          };
+        }
+        if (name === 'addServiceToCart') {
+          const cart = {
+            id: 'cart',
+            guests: [],
+            selectedItems: [
+              { id: 'sel-facial', item: { id: 'svc-facial', name: 'Facial' } },
+              {
+                id: 'sel-massage',
+                item: { id: 'svc-massage', name: 'Massage' },
+              },
+            ].map((s) => ({
+              ...s,
+              price: 100,
+              addons: [],
+              guestId: null,
+              selectedStaffVariant: null,
+            })),
+          };
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ addCartSelectedBookableItem: { cart } }),
+              },
+            ],
+          };
+        }
+        return { content: [{ type: 'text', text: JSON.stringify([]) }] };
+      });
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChatService,
+        IntentClassifierService,
+        ResponsesOrchestratorService,
+        { provide: McpClientPoolService, useValue: pool },
+        { provide: UserContextService, useValue: contexts },
+        { provide: CheckoutLedgerService, useValue: checkouts },
+        CheckoutGrantService,
+        { provide: LLM_PROVIDER, useValue: llm },
+        IdentityService,
+        {
+          provide: ClientDirectoryService,
+          useValue: { findClient: () => Promise.resolve(null) },
+        },
+        { provide: OTP_NOTIFIER, useValue: { send: () => Promise.resolve() } },
+        { provide: VerificationLimitsService, useValue: {} },
+        { provide: WaitlistService, useValue: {} },
+      ],
+    }).compile();
+
+    service = app.get<ChatService>(ChatService);
+    (service as any).openai = openai;
+    (service as any).POLL_INTERVAL_MS = 0;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps assistant and MCP module separate for interleaved users', async () => {
+    openai.scripts.set('I want to book a facial', [
+      { name: 'resolveDateRange', args: { inputText: '10' } },
+    ]);
+    openai.scripts.set('I want to buy a gift card', [
+      { name: 'availableServicesGiftCard', args: { cartId: 'cart-gift' } },
+    ]);
+
+    const [booking, gift] = await Promise.all([
+      service.sendMessage('I want to book a facial', 'session-a', 'user-a'),
+      service.sendMessage('I want to buy a gift card', 'session-b', 'user-b'),
+    ]);
+
+    expect(booking.reply.content).toBe('reply to "I want to book a facial"');
+    expect(gift.reply.content).toBe('reply to "I want to buy a gift card"');
+
+    const ctxA = contexts.contexts.get('user-a')!;
+    const ctxB = contexts.contexts.get('user-b')!;
+
+    expect(ctxA.assistantType).toBe('booking');
+    expect(ctxB.assistantType).toBe('gift');
+    expect(openai.runsByThread.get(ctxA.threadId!)).toEqual([
+      { assistantId: 'asst-booking' },
+    ]);
+    expect(openai.runsByThread.get(ctxB.threadId!)).toEqual([
+      { assistantId: 'asst-gift' },
+    ]);
+
+    expect(
+      toolCalls
+        .filter((c) => c.name === 'resolveDateRange')
+        .map((c) => c.module),
+    ).toEqual(['booking', 'booking']);
+    expect(
+      toolCalls
+        .filter((c) => c.name === 'availableServicesGiftCard')
+        .map((c) => c.module),
+    ).toEqual(['gift']);
+
+    expect(ctxA.lastUserMessage).toBe('I want to book a facial');
+    expect(ctxB.lastUserMessage).toBe('I want to buy a gift card');
+    expect(ctxA.booking?.resolvedDate).toBe('2025-12-10');
+    expect(ctxB.booking).toBeUndefined();
+  });
+
+  it('injects each user their own resolved date range', async () => {
+    openai.scripts.set('book me on the 10th', [
+      { name: 'resolveDateRange', args: { inputText: '10' } },
+    ]);
+    openai.scripts.set('book me on the 20th', [
+      { name: 'resolveDateRange', args: { inputText: '20' } },
+    ]);
+    openai.scripts.set('what dates are open?', [
+      { name: 'cartBookableDates', args: { cartId: 'cart' } },
+    ]);
+
+    await Promise.all([
+      service.sendMessage('book me on the 10th', 'session-a', 'user-a'),
+      service.sendMessage('book me on the 20th', 'session-b', 'user-b'),
+    ]);
+
+    toolCalls = [];
+
+    await Promise.all([
+      service.sendMessage('what dates are open?', 'session-a', 'user-a'),
+      service.sendMessage('what dates are open?', 'session-b', 'user-b'),
+    ]);
+
+    const ranges = toolCalls
+      .filter((c) => c.name === 'cartBookableDates')
+      .map((c) => [c.args.searchRangeLower, c.args.searchRangeUpper])
+      .sort();
+
+    expect(ranges).toEqual([
+      ['2025-12-10', '2025-12-17'],
+      ['2025-12-20', '2025-12-27'],
+    ]);
+    expect(contexts.contexts.get('user-a')!.booking?.searchRangeLower).toBe(
+      '2025-12-10',
+    );
+    expect(contexts.contexts.get('user-b')!.booking?.searchRangeLower).toBe(
+      '2025-12-20',
+    );
+  });
+
+  it('lets the model search another range than the one resolved', async () => {
+    openai.scripts.set('book me on the 10th', [
+      { name: 'resolveDateRange', args: { inputText: '10' } },
+    ]);
+    openai.scripts.set('any dates later in the month?', [
+      {
+        name: 'cartBookableDates',
+        args: {
+          cartId: 'cart',
+          searchRangeLower: '2025-12-20',
+          searchRangeUpper: '2025-12-31',
+        },
+      },
+    ]);
+
+    await service.sendMessage('book me on the 10th', 'session-a', 'user-a');
+    toolCalls = [];
+    await service.sendMessage(
+      'any dates later in the month?',
+      'session-a',
+      'user-a',
+    );
+
+    expect(
+      toolCalls.find((c) => c.name === 'cartBookableDates')?.args,
+    ).toMatchObject({
+      searchRangeLower: '2025-12-20',
+      searchRangeUpper: '2025-12-31',
+    });
+    expect(contexts.contexts.get('user-a')!.booking?.searchRangeLower).toBe(
+      '2025-12-10',
+    );
+  });
+
+  it('looks up times on the day resolved unless the model picks another', async () => {
+    openai.scripts.set('book me on the 10th', [
+      { name: 'resolveDateRange', args: { inputText: '10' } },
+    ]);
+    openai.scripts.set('what times are free?', [
+      { name: 'cartBookableTimes', args: { cartId: 'cart' } },
+    ]);
+    openai.scripts.set('what about the 12th?', [
+      {
+        name: 'cartBookableTimes',
+        args: { cartId: 'cart', searchDate: '2025-12-12' },
+      },
+    ]);
+
+    await service.sendMessage('book me on the 10th', 'session-a', 'user-a');
+    toolCalls = [];
+    await service.sendMessage('what times are free?', 'session-a', 'user-a');
+    await service.sendMessage('what about the 12th?', 'session-a', 'user-a');
+
+    expect(
+      toolCalls
+        .filter((c) => c.name === 'cartBookableTimes')
+        .map((c) => c.args.searchDate),
+    ).toEqual(['2025-12-10', '2025-12-12']);
+  });
+
+  it('tracks every service in the cart and looks up staff for the one named', async () => {
+    openai.scripts.set('book a facial and a massage', [
+      {
+        name: 'addServiceToCart',
+        args: { cartId: 'cart', serviceId: 'svc-massage' },
+      },
+    ]);
+    // The model names the service, not the item in the cart
+    openai.scripts.set('who can do the massage?', [
+      {
+        name: 'cartBookableStaffVariants',
+        args: { cartId: 'cart', itemId: 'svc-massage', bookableTimeId: 't-1' },
+      },
+    ]);
+
+    await service.sendMessage(
+      'book a facial and a massage',
+      'session-a',
+      'user-a',
+    );
+    await service.sendMessage('who can do the massage?', 'session-a', 'user-a');
+
+    const ctx = contexts.contexts.get('user-a')!;
+    expect(ctx.booking?.selectedItems?.map((i) => i.id)).toEqual([
+      'sel-facial',
+      'sel-massage',
+    ]);
+    const staffCall = toolCalls.find(
+      (c) => c.name === 'cartBookableStaffVariants',
+    );
+    expect(staffCall?.args.itemId).toBe('sel-massage');
+  });
+
+  describe('sticky intent', () => {
+    it('keeps the active flow for replies that only mention another one', async () => {
+      await service.sendMessage('I want a membership', 'session-a', 'user-a');
+      const ctx = contexts.contexts.get('user-a')!;
+      ctx.cartId = 'cart-membership';
+      const token = ctx.sessionToken;
+
+      await service.sendMessage('yes', 'session-a', 'user-a');
+      await service.sendMessage('book it', 'session-a', 'user-a');
+      await service.sendMessage('can I gift a facial?', 'session-a', 'user-a');
+
+      expect(ctx.assistantType).toBe('membership');
+      expect(ctx.cartId).toBe('cart-membership');
+      expect(ctx.sessionToken).toBe(token);
+      expect(
+        openai.runsByThread.get(ctx.threadId!)!.map((r) => r.assistantId),
+      ).toEqual([
+        'asst-membership',
+        'asst-membership',
+        'asst-membership',
+        'asst-membership',
+      ]);
+    });
+
+    it('asks before abandoning an in-progress cart', async () => {
+      await service.sendMessage('book an appointment', 'session-a', 'user-a');
+      const ctx = contexts.contexts.get('user-a')!;
+      ctx.cartId = 'cart-booking';
+      const token = ctx.sessionToken;
+
+      const { reply } = await service.sendMessage(
+        'actually I want to buy a gift card',
+        'session-a',
+        'user-a',
+      );
+
+      expect(reply.content).toContain('Do you want to leave it');
+      expect(ctx.assistantType).toBe('booking');
+      expect(ctx.pendingIntentSwitch).toEqual({ to: 'gift', confidence: 0.9 });
+      expect(openai.runsByThread.get(ctx.threadId!)).toHaveLength(1);
+
+      await service.sendMessage('yes', 'session-a', 'user-a');
+
+      expect(ctx.assistantType).toBe('gift');
+      expect(ctx.cartId).toBeUndefined();
+      expect(ctx.sessionToken).not.toBe(token);
+      expect(ctx.pendingIntentSwitch).toBeUndefined();
+      expect(openai.runsByThread.get(ctx.threadId!)!.at(-1)).toEqual({
+        assistantId: 'asst-gift',
+      });
+    });
+
+    it('stays in the current flow when the switch is declined', async () => {
+      await service.sendMessage('book an appointment', 'session-a', 'user-a');
+      const ctx = contexts.contexts.get('user-a')!;
+      ctx.cartId = 'cart-booking';
+
+      await service.sendMessage('I want a membership', 'session-a', 'user-a');
+      await service.sendMessage('no, keep going', 'session-a', 'user-a');
+
+      expect(ctx.assistantType).toBe('booking');
+      expect(ctx.cartId).toBe('cart-booking');
+      expect(ctx.pendingIntentSwitch).toBeUndefined();
+    });
+  });
+
+  describe('streamMessage', () => {
+    it('streams tool progress, tokens and the final reply', async () => {
+      openai.scripts.set('I want to book a facial', [
+        { name: 'resolveDateRange', args: { inputText: '10' } },
+      ]);
+
+      const events = await firstValueFrom(
+        service
+          .streamMessage('I want to book a facial', 'session-a', 'user-a')
+          .pipe(toArray()),
+      );
+
+      expect(events.map((e) => e.type)).toEqual([
+        'progress',
+        'token',
+        'token',
+        'done',
+      ]);
+      expect(events[0].data).toEqual({
+        tool: 'resolveDateRange',
+        message: 'Working out the dates…',
+      });
+      expect(
+        events
+          .filter((e) => e.type === 'token')
+          .map((e) => (e.data as { text: string }).text)
+          .join(''),
+      ).toBe('reply to "I want to book a facial"');
+      expect(events[3].data).toEqual({
+        reply: {
+          role: 'assistant',
+          content: 'reply to "I want to book a facial"',
+        },
+      });
+      expect(contexts.contexts.get('user-a')!.booking?.resolvedDate).toBe(
+        '2025-12-10',
+      );
+    });
+
+    it('ends with the confirmation reply without starting a run', async () => {
+      await service.sendMessage('book an appointment', 'session-a', 'user-a');
+      contexts.contexts.get('user-a')!.cartId = 'cart-booking';
+
+      const events = await firstValueFrom(
+        service
+          .streamMessage('I want to buy a gift card', 'session-a', 'user-a')
+          .pipe(toArray()),
+      );
+
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('done');
+      expect((events[0].data as any).reply.content).toContain(
+        'Do you want to leave it',
+      );
+    });
+  });
+
+  describe('setPaymentToken', () => {
+    const checkout = {
+      checkoutCart: {
+        appointments: [{ appointmentId: 'appt-1' }],
+        cart: {
+          selectedItems: [],
+          location: null,
+          startTime: '2030-01-02T10:00:00Z',
+          summary: {
+            discountAmount: 0,
+            subtotal: 19900,
+            taxAmount: 0,
+            total: 19900,
+          },
+        },
+      },
+    };
+    const grant = {
+      uuid: 'user-a',
+      cartId: 'cart-a',
+      amount: 199,
+      sessionToken: 'token-a',
+      exp: Date.now() / 1000 + 60,
+    };
+    let checkoutFails: boolean;
+    let checkoutError: string;
+
+    beforeEach(() => {
+      checkoutFails = false;
+      checkoutError = 'Bad gateway';
+      contexts.contexts.set('user-a', {
+        assistantType: 'booking',
+        cartId: 'cart-a',
+        totalAmount: 199,
+        sessionToken: 'token-a',
+      });
+      (pool.callTool as jest.Mock).mockImplementation(
+        async (module, { name }) => {
+          await tick();
+          toolCalls.push({ module, name, args: {} });
+          if (name === 'checkoutCart' && checkoutFails) {
+            return {
+              isError: true,
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    error: {
+                      code: 'UPSTREAM',
+                      message: checkoutError,
+                      retryable: true,
+                    },
+                  }),
+                },
+              ],
+            };
+          }
+          const result = name === 'checkoutCart' ? checkout : { ok: true };
+          return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+        },
+      );
+    });
+
+    const calls = () => toolCalls.map((c) => c.name);
+
+    it('replays the stored result for a repeated submission', async () => {
+      const first = await service.setPaymentToken('tok', grant);
+      const ctx = contexts.contexts.get('user-a')!;
+      expect(ctx.cartId).toBeUndefined();
+      expect(ctx.sessionToken).not.toBe(grant.sessionToken);
+
+      // A conversation started since must survive the replay
+      Object.assign(ctx, {
+        cartId: 'cart-b',
+        turns: [{ role: 'user', content: 'and a massage' }],
+      });
+      const { sessionToken } = ctx;
+      const second = await service.setPaymentToken('tok', grant);
+
+      expect(second).toEqual(first);
+      expect(ctx).toMatchObject({ cartId: 'cart-b', sessionToken });
+      expect(ctx.turns).toHaveLength(1);
+      expect(calls()).toEqual(['addCartCardPaymentMethod', 'checkoutCart']);
+      expect(contexts.contexts.get('user-a')!.appointmentHistory).toHaveLength(
+        1,
+      );
+      expect([...checkouts.records.values()]).toEqual([
+        expect.objectContaining({ cartId: 'cart-a', state: 'recorded' }),
+      ]);
+    });
+
+    it('rejects a grant issued for another cart or amount', async () => {
+      for (const stale of [
+        { ...grant, cartId: 'cart-old' },
+        { ...grant, amount: 99 },
+        { ...grant, sessionToken: 'token-old' },
+      ]) {
+        await expect(service.setPaymentToken('tok', stale)).rejects.toThrow(
+          'no longer valid',
+        );
+      }
+      expect(calls()).toEqual([]);
+    });
+
+    it('rejects a submission while the same checkout is running', async () => {
+      const results = await Promise.allSettled([
+        service.setPaymentToken('tok', grant),
+        service.setPaymentToken('tok', grant),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected']);
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(
+        ConflictException,
+      );
+      expect(calls()).toEqual(['addCartCardPaymentMethod', 'checkoutCart']);
+    });
+
+    it('resumes after the last completed step when retried', async () => {
+      checkoutFails = true;
+      await expect(service.setPaymentToken('tok', grant)).rejects.toThrow(
+        'Bad gateway',
+      );
+      expect(
+        contexts.contexts.get('user-a')!.appointmentHistory,
+      ).toBeUndefined();
+
+      checkoutFails = false;
+      await service.setPaymentToken('tok', grant);
+
+      expect(calls()).toEqual([
+        'addCartCardPaymentMethod',
+        'checkoutCart',
+        'checkoutCart',
+      ]);
+      expect(contexts.contexts.get('user-a')!.appointmentHistory).toEqual([
+        expect.objectContaining({ checkoutAppointments: ['appt-1'] }),
+      ]);
+    });
+
+    it('attaches the next card after a decline', async () => {
+      checkoutFails = true;
+      checkoutError = 'Your card was declined';
+      const declined = await service
+        .setPaymentToken('tok', grant)
+        .catch((error) => error);
+
+      expect(declined).toBeInstanceOf(CheckoutFailedException);
+      expect(declined.getStatus()).toBe(422);
+      expect(declined.getResponse()).toMatchObject({
+        code: 'CARD_DECLINED',
+        retryable: true,
+      });
+
+      checkoutFails = false;
+      await service.setPaymentToken('tok-2', grant);
+
+      expect(calls()).toEqual([
+        'addCartCardPaymentMethod',
+        'checkoutCart',
+        'addCartCardPaymentMethod',
+        'checkoutCart',
+      ]);
+    });
+  });
+
+  describe('with CHAT_ORCHESTRATOR=responses', () => {
+    const echo = (text: string) => `reply to "${text}"`;
+
+    beforeEach(() => {
+      (service as any).orchestrator = 'responses';
+      llm.rules.push(
+        {
+          when: 'book a facial',
+          rounds: [
+            [{ name: 'resolveDateRange', arguments: { inputText: '10' } }],
+          ],
+          reply: echo('I want to book a facial'),
+        },
+        { when: 'thanks', reply: echo('thanks') },
+      );
+
+      jest.spyOn(pool, 'listTools').mockImplementation((module) =>
+        Promise.resolve([
+          {
+            name: 'resolveDateRange',
+            description: `resolve dates (${module})`,
+            inputSchema: {
+              type: 'object',
+              properties: { inputText: { type: 'string' } },
+              $schema: 'http://json-schema.org/draft-07/schema#',
+            },
+          },
+          { name: 'checkoutCart', inputSchema: { type: 'object' } },
+        ]),
+      );
+    });
+
+    it('runs the turn with repo prompts, MCP tools and stored history', async () => {
+      const first = await service.sendMessage(
+        'I want to book a facial',
+        'session-a',
+        'user-a',
+      );
+      const second = await service.sendMessage('thanks', 'session-a', 'user-a');
+
+      expect(first.reply.content).toBe('reply to "I want to book a facial"');
+      expect(second.reply.content).toBe('reply to "thanks"');
+
+      const ctx = contexts.contexts.get('user-a')!;
+      expect(ctx.threadId).toBeUndefined();
+      expect(ctx.booking?.resolvedDate).toBe('2025-12-10');
+      const toolMessages = [
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [
+            {
+              id: 'call_1',
+              name: 'resolveDateRange',
+              arguments: JSON.stringify({ inputText: '10' }),
+            },
+          ],
+        },
+        { role: 'tool', toolCallId: 'call_1', content: expect.any(String) },
+      ];
+      expect(ctx.turns).toEqual([
+        { role: 'user', content: 'I want to book a facial' },
+        {
+          role: 'assistant',
+          content: 'reply to "I want to book a facial"',
+          tools: toolMessages,
+        },
+        { role: 'user', content: 'thanks' },
+        { role: 'assistant', content: 'reply to "thanks"' },
+      ]);
+
+      const [callTools, afterTools, nextTurn] = llm.requests;
+      expect(callTools.instructions).toContain('booking assistant');
+      expect(callTools.tools).toEqual([
+        {
+          name: 'resolveDateRange',
+          description: 'resolve dates (booking)',
+          parameters: {
+            type: 'object',
+            properties: { inputText: { type: 'string' } },
+          },
+        },
+      ]);
+      expect(afterTools.messages.slice(1)).toEqual(toolMessages);
+      // The next turn sees what the tools returned, not just the reply
+      expect(nextTurn.messages).toEqual([
+        { role: 'user', content: 'I want to book a facial' },
+        ...toolMessages,
+        { role: 'assistant', content: 'reply to "I want to book a facial"' },
+        { role: 'user', content: 'thanks' },
+      ]);
+    });
+
+    it('refuses checkout tools the model calls without being offered them', async () => {
+      llm.rules.unshift({
+        when: 'just charge my card',
+        rounds: [[{ name: 'checkoutCart', arguments: { cartId: 'cart' } }]],
+        reply: (o) => o.checkoutCart.error.code,
+      });
+
+      const { reply } = await service.sendMessage(
+        'Book a facial and just charge my card',
+        'session-a',
+        'user-a',
+      );
+
+      expect(reply.content).toBe('VALIDATION');
+      expect(toolCalls.map((c) => c.name)).not.toContain('checkoutCart');
+    });
+
+    it('streams tool progress and tokens', async () => {
+      const events = await firstValueFrom(
+        service
+          .streamMessage('I want to book a facial', 'session-a', 'user-a')
+          .pipe(toArray()),
+      );
+
+      const tokens = events.filter((e) => e.type === 'token');
+      expect(events[0].type).toBe('progress');
+      expect(tokens.length).toBeGreaterThan(1);
+      expect(
+        tokens.map((e) => (e.data as { text: string }).text).join(''),
+      ).toBe('reply to "I want to book a facial"');
+      expect(events.at(-1)).toEqual({
+        type: 'done',
+        data: {
+          reply: {
+            role: 'assistant',
+            content: 'reply to "I want to book a facial"',
+          },
+        },
+      });
+    });
+
+    it('takes back the message of a streamed turn that ends without a reply', async () => {
+      await service.sendMessage('thanks', 'session-a', 'user-a');
+      jest
+        .spyOn(llm, 'generate')
+        .mockRejectedValueOnce(new Error('Request was aborted.'));
+
+      const events = await firstValueFrom(
+        service
+          .streamMessage('I want to book a facial', 'session-a', 'user-a')
+          .pipe(toArray()),
+      );
+
+      expect(events.at(-1)?.type).toBe('error');
+      expect(contexts.contexts.get('user-a')!.turns).toEqual([
+        { role: 'user', content: 'thanks' },
+        { role: 'assistant', content: 'reply to "thanks"' },
+      ]);
+    });
+  });
+});
@@ -1,284 +1,152 @@
 // src/chat/chat.service.ts
-import { Injectable, OnModuleInit } from '@nestjs/common';
-import OpenAI from 'openai';
-import { Client as MCPClient } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { log } from 'node:console';
-import Redis from 'ioredis';
-
-
-
-interface UserContext { 
-  threadId?: string; 
-  cartId?: string;
-
-  serviceItemId?: string;
-  bookableTimeId?: string; 
-  staffVariantId?: string;
-  promotionOfferId?: string; 
-
-  clientEmail?: string; 
-  totalAmount?: number; 
-  awaitingClientDetails?: boolean; 
-  messageCount?: number; 
-  sessionToken?: any; 
-
-  assistantType?: "booking" | "giftcard" | "membership"; 
-
-  clientInfo?: { 
-    email?: string; 
-    phone?: string; 
-    name?: string; 
-  }; 
-
-  // 🔥 Stores ALL completed bookings
-  appointmentHistory?: CompletedBooking[];
-
-  // 🔥 Stores ALL completed membership
-  membershipHistory?: CompletedMembership[];
-
-  // 🔥 Stores ONLY the current active booking being processed
-  booking?: {
-    cartId?: string;
-    serviceItemId?: string;
-    bookableTimeId?: string;
-    staffVariantId?: string;
-    promotionOfferId?: string;
-
-    addonServices?: { id: string; name: string }[];
-
-    clientInfo?: { email?: string; phone?: string; name?: string };
-
-    checkoutAppointments?: string[];
-    selectedItems?: SelectedItem[];
-    location?: Location;
-    startTime?:string;
-    summary?: Summary;
-  };
-
-
-  membership?: { 
-    // membershipPlanId?: string; 
-    // membershipCartId?: string; 
-    // clientInfo?: { email?: string; phone?: string; name?: string; }; 
-
-    cartId?: string;
-    serviceItemId?: string;
-    promotionOfferId?: string;
-    clientInfo?: { email?: string; phone?: string; name?: string };
-
-    checkoutAppointments?: string[];
-    selectedItems?: SelectedItem[];
-    location?: Location;
-    startTime?:string;
-    summary?: Summary;
-  }; 
-  giftcard?: { amount?: number; clientInfo?: { email?: string; phone?: string; name?: string; }; giftcardCartId?: string; recipientEmail?: string; senderMessage?: string; }; flags?: { awaitingClientDetails?: boolean; }; }
-
-
-  type Summary = {
-    discountAmount: number;
-    subtotal: number;
-    taxAmount: number;
-    total: number;
-  };
-
-  type Location = {
-    id: string;
-    name: string;
-    tz: string;
-  };
-  
-  interface CompletedBooking {
-    cartId: string;
-  
-    // 🔥 Multiple appointment IDs possible from one checkout
-    checkoutAppointments: string[];
-  
-    // 🔥 All services included in that checkout
-    selectedItems: SelectedItem[];
-  
-    // 🔥 The location where this booking happened
-    location: Location;
-  
-    // 🔥 The final summary (single)
-    summary: Summary;
-  
-    // Timestamp when booking was stored
-    createdAt: string;
-
-    startTime: string;
-  }
-
-  interface CompletedMembership {
-    cartId: string;
-  
-    // 🔥 All services included in that checkout
-    selectedItems: SelectedItem[];
-  
-    // 🔥 The location where this booking happened
-    location: Location;
-  
-    // 🔥 The final summary (single)
-    summary: Summary;
-  
-    // Timestamp when booking was stored
-    createdAt: string;
-
-    startTime: string;
-  }
-  
-
-  type SelectedItem = {
-    id: string;
-    price: number;
-    item: { id: string; name: string };
-  };
-
-
+import {
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import {
+  McpClientPoolService,
+  type McpModule,
+} from './mcp-client-pool.service.js';
+import {
+  CheckoutLedgerService,
+  type CheckoutRecord,
+  type CheckoutState,
+} from './checkout-ledger.service.js';
+import {
+  CheckoutGrantService,
+  type CheckoutGrant,
+} from './checkout-grant.service.js';
+import { UserContextService } from './user-context.service.js';
+import { IntentClassifierService } from './intent-classifier.service.js';
+import {
+  ChatOrchestrator,
+  configuredOrchestrator,
+  HIDDEN_TOOLS,
+  ResponsesOrchestratorService,
+  type ResponsesTurnResult,
+} from './responses-orchestrator.service.js';
+import { promptFor } from './prompts/index.js';
+import { LLM_PROVIDER, type LlmProvider } from './llm/llm-provider.js';
+import { OpenAiLlmProvider } from './llm/openai-llm.provider.js';
+import {
+  ChatStreamEvent,
+  DEFAULT_TOOL_PROGRESS_MESSAGE,
+  TOOL_PROGRESS_MESSAGES,
+} from './chat-stream.js';
+import type { ChatResponse, FrontendAction } from './dto/chat-reply.dto.js';
+import {
+  AssistantIntent,
+  CompletedBooking,
+  ConversationTurn,
+  Summary,
+  UserContext,
+} from './user-context.js';
+import type {
+  CartBookingsFragment,
+  CheckoutCartMutation,
+  ToolErrorPayload,
+} from '../blvd/index.js';
+import {
+  CheckoutFailedException,
+  checkoutFailure,
+} from './checkout-receipt.js';
+import { formatInZone } from './time-format.js';
+import { cartBookings, describeCartBookings } from './cart-bookings.js';
+import type { BoulevardToolOutput, StaffOption } from './tool-output.js';
+import {
+  APPOINTMENT_TOOLS,
+  CONFIRMS,
+  DECLINES,
+  completionMessage,
+  confirmationQuestion,
+  describeAppointment,
+  needsConfirmation,
+  type AppointmentView,
+  type RescheduleTime,
+} from './appointment-actions.js';
+import { IdentityService } from './identity/identity.service.js';
+import { WaitlistService } from './waitlist/waitlist.service.js';
+import type { WaitlistRequest } from './waitlist/waitlist.js';
+import { parseContact } from './identity/client-directory.service.js';
+import {
+  ASK_FOR_CONTACT,
+  CODE_CHECK_REPLIES,
+  CODE_HELD_BACK_REPLIES,
+  CODE_NOT_SENT,
+  ONE_TIME_CODE,
+  codeSentMessage,
+} from './identity/identity-messages.js';
+
+// Tools that act on one service in the cart, named by its `itemId`
+const CART_ITEM_TOOLS = [
+  'cartBookableStaffVariants',
+  'listServiceStaff',
+  'selectStaff',
+  'listServiceAddons',
+  'addAddonToItem',
+  'removeAddonFromItem',
+  'joinWaitlist',
+];
 
 @Injectable()
 export class ChatService implements OnModuleInit {
+  private readonly logger = new Logger(ChatService.name);
   private openai: any;
-  private mcpClient!: MCPClient;
-  private transport!: any;
-
-
-    // In-memory L1 cache for contexts to avoid too many redis calls (optional)
-    private contextCache: Map<string, UserContext> = new Map();
 
-    // Redis client (source of truth)
-    private redis: any;
-
-    
-  private assistantId: string | null = null;
   // private sessionState: Record<string, SessionState> = {};
   private creatingThread: Record<string, Promise<string>> = {};
-  private lastUserMessage: string = "";
 
   // ⚙️ Configuration
   private readonly MAX_MESSAGES_PER_THREAD = 15; // Reset thread after 20 messages
   private readonly POLL_INTERVAL_MS = 2000; // Slower polling = fewer API calls
   private readonly MAX_POLL_ATTEMPTS = 30;
-
-  private conversationHistory:any;
-
-  lastResolvedRangeLower:any;
-  lastResolvedRangeUpper:any; 
-  lastResolvedDate:any;
-
-
-
-  private sessionToken:any;
-
-  private moduleMap: Record<string, string> = {
-    gift: 'dist/giftcard-purchase.js',
-    membership: 'dist/membership-booking.js',
-    booking: 'dist/appointment-booking.js',
-  };
-
-  private moduleName:any;
-
-  constructor() {
-    //console.log("sessionToken in chat.service.ts",this.sessionToken);
-    this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  
-    const redisUrl = process.env.REDIS_URL || 'redis://127.0.0.1:6379';
-    this.redis = new (Redis as any)(redisUrl);
-
-
-  }
-
-  private ctxKey(uuid: string) {
-    return `chat:ctx:${uuid}`;
-  }
-
-  private async loadUserContext(uuid: string): Promise<UserContext> {
-    // Try cache first
-    if (this.contextCache.has(uuid)) {
-      return this.contextCache.get(uuid)!;
-    }else{
-    }
-
-    const raw = await this.redis.get(this.ctxKey(uuid));
-    const parsed: UserContext = raw ? JSON.parse(raw) : {};
-    
-    console.log("parsed", parsed);
-    console.log("raw", raw);
-    console.log("uuid", uuid);
-    console.log("ctxKey", this.ctxKey(uuid));
-    console.log("redis", this.redis);
-    // populate cache
-    this.contextCache.set(uuid, parsed);
-    return parsed;
-  }
-
-  private async saveUserContext(uuid: string, ctx: UserContext): Promise<void> {
-    // Update cache and redis
-    this.contextCache.set(uuid, ctx);
-    await this.redis.set(this.ctxKey(uuid), JSON.stringify(ctx));
-  }
-
-  private async clearUserContextFields(uuid: string, fields: (keyof UserContext)[]) {
-    const ctx = await this.loadUserContext(uuid);
-    for (const f of fields) {
-      delete (ctx as any)[f];
-    }
-    await this.saveUserContext(uuid, ctx);
+  private readonly MAX_STORED_TURNS = 30; // Responses API history kept in UserContext
+  private readonly CHECKOUT_LOCK_TTL_MS = 60000; // Covers both Boulevard calls with their timeouts
+
+  // Assistants threads/runs (legacy) or Responses API — see CHAT_ORCHESTRATOR
+  private readonly orchestrator: ChatOrchestrator = configuredOrchestrator();
+
+  constructor(
+    private readonly mcpPool: McpClientPoolService,
+    private readonly userContext: UserContextService,
+    private readonly intentClassifier: IntentClassifierService,
+    private readonly responses: ResponsesOrchestratorService,
+    @Inject(LLM_PROVIDER) private readonly llm: LlmProvider,
+    private readonly checkoutLedger: CheckoutLedgerService,
+    private readonly checkoutGrants: CheckoutGrantService,
+    private readonly identity: IdentityService,
+    private readonly waitlist: WaitlistService,
+  ) {
+    // Threads/runs only exist on OpenAI → the Assistants path needs its client
+    this.openai = llm instanceof OpenAiLlmProvider ? llm.client : null;
   }
 
-
-
-
-  tokenGenerate(uuid:string){
-    let token = Math.random().toString(36).substring(2, 10);
-    this.loadUserContext(uuid).then(ctx => {
-      ctx.sessionToken = token;
-      this.saveUserContext(uuid, ctx).catch(() => {});
-      return token;
-    }).catch(() => {});
-    console.log("token in chat.service.ts", token);
-    return token;
+  private loadUserContext(uuid: string): Promise<UserContext> {
+    return this.userContext.load(uuid);
   }
 
-  private async initMCP(module:any) {
-
-    this.moduleName = module;
-    const moduleFile = this.moduleMap[module] ?? 'dist/appointment-booking.js';
-
-    this.transport = new StdioClientTransport({
-      command: 'node',
-     // args: ['dist/appointment-booking.js','dist/giftcard-purchase.js'],
-     args: [moduleFile],
-      stderr: 'inherit',
-    });
-
-    this.transport.process?.stdout?.on('data', (d: Buffer) => 
-      console.log('🪶 [MCP STDOUT]:', d.toString().trim())
-    );
-    this.transport.process?.stderr?.on('data', (d: Buffer) => 
-      console.error('🔥 [MCP STDERR]:', d.toString().trim())
-    );
-
-    this.mcpClient = new MCPClient({ name: 'blvd-mcp-client', version: '1.1.0' });
-    await this.mcpClient.connect(this.transport);
-    console.log('✅ Connected to MCP Server');
+  private saveUserContext(uuid: string, ctx: UserContext): Promise<void> {
+    return this.userContext.save(uuid, ctx);
   }
 
-  private async initializeAssistantOnce() {
-    if (process.env.ASSISTANT_ID) {
-      try {
-        const existing = await this.openai.beta.assistants.retrieve(process.env.ASSISTANT_ID);
-        if (existing?.id) {
-          this.assistantId = existing.id;
-          console.log('✅ Loaded existing assistant:', this.assistantId);
-          return;
-        }
-      } catch (e) {
-        console.warn('⚠️ Existing assistant not found');
-      }
+  // Picks the OpenAI assistant for the module the user is currently in
+  private assistantIdFor(assistantType?: string): string {
+    if (!assistantType) {
+      // New session → always use Booking assistant for default greeting
+      return process.env.DEFAULT_ASSISTANT_ID!;
+    } else if (assistantType === 'gift' || assistantType === 'giftcard') {
+      console.log('🎁 Using Gift Card Assistant');
+      return process.env.GIFT_ASSISTANT_ID!;
+    } else if (assistantType === 'membership') {
+      return process.env.MEMBERSHIP_ASSISTANT_ID!;
     }
-    throw new Error('ASSISTANT_ID must be set in environment variables');
+    console.log('💇 Using Booking Assistant');
+    return process.env.BOOKING_ASSISTANT_ID!;
   }
 
   // 🔄 Reset thread if it gets too long
@@ -287,7 +155,9 @@ export class ChatService implements OnModuleInit {
     if (!ctx?.threadId || !ctx.messageCount) return;
 
     if (ctx.messageCount >= this.MAX_MESSAGES_PER_THREAD) {
-      console.log(`🔄 Thread exceeded ${this.MAX_MESSAGES_PER_THREAD} messages. Creating new thread...`);
+      console.log(
+        `🔄 Thread exceeded ${this.MAX_MESSAGES_PER_THREAD} messages. Creating new thread...`,
+      );
 
       const newThread = await this.openai.beta.threads.create();
       ctx.threadId = newThread.id;
@@ -301,16 +171,18 @@ export class ChatService implements OnModuleInit {
     const ctx = await this.loadUserContext(uuid);
 
     if (!ctx.threadId) {
-      if (!this.creatingThread[uuid]) {
-        this.creatingThread[uuid] = this.openai.beta.threads.create()
+      if (!(uuid in this.creatingThread)) {
+        this.creatingThread[uuid] = this.openai.beta.threads
+          .create()
           .then((thread: any) => {
             ctx.threadId = thread.id;
             ctx.messageCount = 0;
             // persist
             return this.saveUserContext(uuid, ctx).then(() => {
-              this.conversationHistory = null;
               delete this.creatingThread[uuid];
-              console.log(`✨ Created new thread: ${thread.id} for user ${uuid}`);
+              console.log(
+                `✨ Created new thread: ${thread.id} for user ${uuid}`,
+              );
               return thread.id;
             });
           })
@@ -321,162 +193,193 @@ export class ChatService implements OnModuleInit {
       }
       return this.creatingThread[uuid];
     }
-    return ctx.threadId!;
+    return ctx.threadId;
   }
 
-  private async detectAssistant(userMessage: string, uuid: string): Promise<string | null> {
-    const lower = userMessage.toLowerCase();
-    const ctx :any = await this.loadUserContext(uuid);
-  
-    // ---------- MEMBERSHIP ----------
-    if (lower.includes('membership') || lower.includes('member') || lower.includes('package') || lower.includes('plan')) {
-      this.conversationHistory = "membership";
-  
-      ctx.assistantType = 'membership';
-  
-      // generate token only if none exists
-      if (!ctx.sessionToken) {
-        ctx.sessionToken = await this.generateNewSessionToken(uuid);
+  // Minimum confidence to pick a flow when none is active yet
+  private readonly START_INTENT_CONFIDENCE = 0.5;
+  // Minimum confidence to leave the active flow for another one
+  private readonly SWITCH_INTENT_CONFIDENCE = 0.8;
+
+  private readonly intentLabels: Record<AssistantIntent, string> = {
+    booking: 'booking an appointment',
+    gift: 'buying a gift card',
+    membership: 'purchasing a membership',
+  };
+
+  /**
+   * Decides which flow this message belongs to. The intent on the context is
+   * sticky: it only changes when the user explicitly asks for another flow,
+   * and if that would abandon a cart we ask first (returned as `confirmation`).
+   */
+  private async detectAssistant(
+    userMessage: string,
+    uuid: string,
+  ): Promise<{ intent: AssistantIntent | null; confirmation?: string }> {
+    const ctx = await this.loadUserContext(uuid);
+    const current = this.mcpPool.resolveModule(ctx.assistantType);
+    const active = ctx.assistantType ? current : null;
+
+    // ---------- PENDING SWITCH CONFIRMATION ----------
+    if (ctx.pendingIntentSwitch) {
+      const pending = ctx.pendingIntentSwitch;
+      delete ctx.pendingIntentSwitch;
+
+      if (
+        /^\s*(yes|yeah|yep|sure|ok(ay)?|confirm|switch|go ahead|do it)\b/i.test(
+          userMessage,
+        )
+      ) {
+        await this.applyIntent(uuid, ctx, pending.to);
+        return { intent: pending.to };
       }
-  
+
       await this.saveUserContext(uuid, ctx);
-      return 'membership';
-    }
-  
-    // ---------- GIFT ----------
-    if (lower.includes('gift') || lower.includes('giftcard')) {
-      this.conversationHistory = "gift";
-  
-      ctx.assistantType = 'gift';
-  
-      if (!ctx.sessionToken) {
-        ctx.sessionToken = await this.generateNewSessionToken(uuid);
+
+      if (/^\s*(no|nope|nah|cancel|keep|stay|don'?t)\b/i.test(userMessage)) {
+        return { intent: active };
       }
-  
+    }
+
+    const { intent, confidence } = await this.intentClassifier.classify(
+      userMessage,
+      active,
+    );
+
+    if (!intent || intent === active) {
+      return { intent: active };
+    }
+
+    // ---------- FIRST FLOW OF THE CONVERSATION ----------
+    if (!active) {
+      if (confidence < this.START_INTENT_CONFIDENCE) return { intent: null };
+      await this.applyIntent(uuid, ctx, intent);
+      return { intent };
+    }
+
+    // ---------- SWITCHING FLOWS ----------
+    if (confidence < this.SWITCH_INTENT_CONFIDENCE) {
+      return { intent: active };
+    }
+
+    if (ctx.cartId) {
+      ctx.pendingIntentSwitch = { to: intent, confidence };
       await this.saveUserContext(uuid, ctx);
-      return 'gift';
+
+      return {
+        intent: active,
+        confirmation:
+          `You're in the middle of ${this.intentLabels[active]}. ` +
+          `Do you want to leave it and start ${this.intentLabels[intent]} instead? (yes/no)`,
+      };
     }
-  
-    // ---------- BOOKING (🔥 CRITICAL) ----------
-    if (
-      lower.includes('book') ||
-      lower.includes('appointment') ||
-      lower.includes('service') ||
-      lower.includes('schedule')
-    ) {
-      this.conversationHistory = "booking";
-  
-      ctx.assistantType = 'booking';
-  
-      // 🔥 ALWAYS reset booking state
+
+    await this.applyIntent(uuid, ctx, intent);
+    return { intent };
+  }
+
+  private async applyIntent(
+    uuid: string,
+    ctx: UserContext,
+    intent: AssistantIntent,
+  ) {
+    const previous = ctx.assistantType
+      ? this.mcpPool.resolveModule(ctx.assistantType)
+      : null;
+
+    ctx.assistantType = intent;
+
+    if (previous !== intent) {
+      // 🔥 A new flow gets a new cart and a new checkout token
       delete ctx.cartId;
       delete ctx.totalAmount;
-      //delete ctx.clientEmail;
-      //delete ctx.awaitingClientDetails;
-  
-      // 🔥 ALWAYS create a NEW token for a NEW booking
-      ctx.sessionToken = await this.generateNewSessionToken(uuid);
-  
-      await this.saveUserContext(uuid, ctx);
-      return 'booking';
+      ctx.sessionToken = crypto.randomUUID();
+    } else if (!ctx.sessionToken) {
+      ctx.sessionToken = crypto.randomUUID();
     }
-  
-    return null;
+
+    await this.saveUserContext(uuid, ctx);
   }
-  
-
-//  private detectAssistant(userMessage: string, uuid: string) {
-//     const lower = userMessage.toLowerCase();
-
-//     // load context only if we need to update it
-//     // but we also want to set assistantType into context
-//     const setAssistant = async (type: string) => {
-//       let ctx :any= await this.loadUserContext(uuid);
-//       ctx.assistantType = type;
-//       ctx.sessionToken = ctx?.sessionToken ?? this.tokenGenerate(uuid);
-//       await this.saveUserContext(uuid, ctx);
-//     };
-
-//     if (lower.includes('membership') || lower.includes('member') || lower.includes('package') || lower.includes('plan')) {
-//       this.conversationHistory = "membership";
-//       setAssistant('membership').catch(() => {});
-//       return 'membership';
-//     }
-
-//     if (lower.includes('gift') || lower.includes('giftcard')) {
-//       this.conversationHistory = "gift";
-//       setAssistant('gift').catch(() => {});
-//       return 'gift';
-//     }
-
-//     if (lower.includes('book') || lower.includes('appointment') || lower.includes('service') || lower.includes('schedule')) {
-//       this.conversationHistory = "booking";
-//       setAssistant('booking').catch(() => {});
-//       return 'booking';
-//     }
-
-//     return null;
-//   }
-  
 
-  public async sendMessage(
+  /**
+   * Shared start of every turn, whichever API runs it: the next step of an
+   * identity check, the answer to a pending cancel/reschedule, intent
+   * detection and the confirmation question when a switch would abandon the
+   * cart.
+   */
+  private async startTurn(
     userMessage: string,
-    sessionId: string, // keep ephemeral session id if your frontend sends it
-    uuid: string // persistent user id from frontend
-  ): Promise<{ reply: any }> {
+    uuid: string,
+  ): Promise<ChatResponse | { ctx: UserContext }> {
+    const verifying = await this.answerIdentityVerification(userMessage, uuid);
+    if (verifying) {
+      return verifying;
+    }
 
-    let intent: any = "";
+    const answered = await this.answerAppointmentConfirmation(
+      userMessage,
+      uuid,
+    );
+    if (answered) {
+      return answered;
+    }
 
-    
-    
-    
-  // 🔑 LOAD CONTEXT FIRST (single source of truth)
-  let ctx = await this.loadUserContext(uuid);
+    const detected = await this.detectAssistant(userMessage, uuid);
 
+    // ❓ Switching flows would abandon the cart → ask before doing it
+    if (detected.confirmation) {
+      return {
+        reply: {
+          role: 'assistant',
+          content: detected.confirmation,
+        },
+      };
+    }
 
-  console.log("history contextss:",ctx.appointmentHistory);
-  
-  // 🛑 CANCEL ACTIVE RUNS ON CURRENT THREAD (BEFORE RESET)
-  if (ctx?.threadId) {
-    await this.cancelActiveRuns(ctx.threadId);
+    return { ctx: await this.loadUserContext(uuid) };
   }
 
-  intent = await this.detectAssistant(userMessage, uuid);
-  console.log("intent", intent);
+  /**
+   * Everything a turn needs before the assistant runs: intent detection,
+   * thread bookkeeping and posting the user's message. Returns a final
+   * `reply` instead when the turn must stop early.
+   */
+  private async prepareTurn(
+    userMessage: string,
+    uuid: string,
+  ): Promise<
+    | ChatResponse
+    | {
+        threadId: string;
+        runParams: { assistant_id: string; additional_instructions: string };
+      }
+  > {
+    // 🔑 LOAD CONTEXT FIRST (single source of truth)
+    let ctx = await this.loadUserContext(uuid);
+
+    console.log('history contextss:', ctx.appointmentHistory);
+
+    // 🛑 CANCEL ACTIVE RUNS ON CURRENT THREAD (BEFORE RESET)
+    if (ctx?.threadId) {
+      await this.cancelActiveRuns(ctx.threadId);
+    }
 
+    const started = await this.startTurn(userMessage, uuid);
+    if ('reply' in started) {
+      return started;
+    }
 
-    
-    
     // intent = this.detectAssistant(userMessage, uuid);
 
     // console.log("intent", intent);
 
-    // init MCP if needed
-    if (!this.mcpClient || this.moduleName !== this.conversationHistory) {
-      await this.initMCP(this.conversationHistory);
-    }
-
-    if (intent) {
-      this.conversationHistory = intent;
-    }
+    ctx = await this.loadUserContext(uuid);
 
-    console.log("intentintent  >> ", intent);
-    console.log("conversationHistory >> ", this.conversationHistory)
+    console.log('assistantType >> ', ctx.assistantType);
 
-    if (!this.conversationHistory) {
-      // New session → always use Booking assistant for default greeting
-      this.assistantId = process.env.DEFAULT_ASSISTANT_ID!;
-    } else if (this.conversationHistory === 'gift') {
-      this.assistantId = process.env.GIFT_ASSISTANT_ID!;
-      console.log("🎁 Using Gift Card Assistant");
-    } else if (this.conversationHistory === 'membership') {
-      this.assistantId = process.env.MEMBERSHIP_ASSISTANT_ID!;
-    } else {
-      this.assistantId = process.env.BOOKING_ASSISTANT_ID!;
-      console.log("💇 Using Booking Assistant");
-    }
+    const assistantId = this.assistantIdFor(ctx.assistantType);
 
-    console.log("assistantId", this.assistantId);
+    console.log('assistantId', assistantId);
 
     await this.checkAndResetThread(uuid);
 
@@ -485,36 +388,46 @@ export class ChatService implements OnModuleInit {
     // ensure a thread for the user
     const threadId = await this.ensureThreadForUser(uuid);
 
-
     if (!threadId) {
       return {
         reply: {
-          role: "assistant",
-          content: "Sorry, I couldn't create a conversation thread."
-        }
+          role: 'assistant',
+          content: "Sorry, I couldn't create a conversation thread.",
+        },
       };
     }
 
-    console.log("📨 User message:", userMessage);
+    console.log('📨 User message:', userMessage);
 
     // await this.cancelActiveRuns(threadId);
 
-
     await this.openai.beta.threads.messages.create(threadId, {
-      role: "user",
+      role: 'user',
       content: userMessage,
     });
 
     // increment message count on context
     // const ctx = await this.loadUserContext(uuid);
     ctx.messageCount = (ctx.messageCount || 0) + 1;
+    ctx.lastUserMessage = userMessage;
     await this.saveUserContext(uuid, ctx);
 
-    let run = await this.openai.beta.threads.runs.create(threadId, {
-      assistant_id: this.assistantId,
-      additional_instructions: `
+    return {
+      threadId,
+      runParams: {
+        assistant_id: assistantId,
+        additional_instructions: this.buildAdditionalInstructions(ctx),
+      },
+    };
+  }
+
+  private buildAdditionalInstructions(ctx: UserContext): string {
+    // The transcript is sent as conversation input, not as context
+    const context = { ...ctx, turns: undefined };
+
+    return `
       Here is the user's persistent context:
-      ${JSON.stringify(ctx, null, 2)}
+      ${JSON.stringify(context, null, 2)}
       
       Rules:
       - If user asks about cart, service, addons, email, or booking info, answer using this context.
@@ -541,22 +454,39 @@ export class ChatService implements OnModuleInit {
       - firstName (from context or user input)
       - lastName (from context or user input)
       - phoneNumber (from context or user input)
-        `
-    });
+        `;
+  }
+
+  public async sendMessage(
+    userMessage: string,
+    sessionId: string | undefined, // keep ephemeral session id if your frontend sends it
+    uuid: string, // persistent user id from frontend
+  ): Promise<ChatResponse> {
+    if (this.orchestrator === 'responses') {
+      return this.runResponsesTurn(userMessage, uuid);
+    }
+
+    const turn = await this.prepareTurn(userMessage, uuid);
+
+    if ('reply' in turn) {
+      return turn;
+    }
+
+    const { threadId, runParams } = turn;
+
+    let run = await this.openai.beta.threads.runs.create(threadId, runParams);
 
     run = await this.pollRunUntilComplete(threadId, run.id);
 
-    if (run.status === "failed") {
+    if (run.status === 'failed') {
       return {
         reply: {
-          role: "assistant",
-          content: `I encountered an error: ${run.last_error?.message || "Unknown error"}`
-        }
+          role: 'assistant',
+          content: `I encountered an error: ${run.last_error?.message || 'Unknown error'}`,
+        },
       };
     }
 
-    this.lastUserMessage = userMessage;
-
     // ---------------------------------------------------------
     // 🔥 Tool calls handling (may return final formatted reply)
     // ---------------------------------------------------------
@@ -577,33 +507,130 @@ export class ChatService implements OnModuleInit {
     // ---------------------------------------------------------
     const messages = await this.openai.beta.threads.messages.list(threadId, {
       limit: 1,
-      order: "desc",
+      order: 'desc',
     });
 
     const latest = messages?.data?.[0];
-    let assistantText = "Sorry – could not generate a response.";
+    let assistantText = 'Sorry – could not generate a response.';
 
-    if (latest?.role === "assistant" && latest?.content) {
+    if (latest?.role === 'assistant' && latest?.content) {
       assistantText = latest.content
-        .map((b: any) => b?.text?.value || "")
-        .join("")
+        .map((b: any) => b?.text?.value || '')
+        .join('')
         .trim();
     }
 
-    console.log("🤖 Assistant response:", assistantText);
+    console.log('🤖 Assistant response:', assistantText);
+
+    return this.buildReply(assistantText, uuid);
+  }
+
+  /**
+   * One turn on the Responses API (CHAT_ORCHESTRATOR=responses). The prompt
+   * comes from src/chat/prompts, tools from the flow's MCP server and the
+   * history, tool calls and outputs included, from `ctx.turns`; there is no
+   * OpenAI thread.
+   */
+  private async runResponsesTurn(
+    userMessage: string,
+    uuid: string,
+    stream?: {
+      onToken: (text: string) => void;
+      onToolCall: (toolName: string) => void;
+      signal: AbortSignal;
+    },
+  ): Promise<ChatResponse> {
+    const started = await this.startTurn(userMessage, uuid);
+    if ('reply' in started) {
+      return started;
+    }
+
+    const ctx = started.ctx;
+    const prompt = promptFor(ctx.assistantType);
+    console.log(`🧾 Prompt: ${prompt.id} v${prompt.version}`);
+    console.log('📨 User message:', userMessage);
+
+    ctx.turns = this.appendTurn(ctx.turns, {
+      role: 'user',
+      content: userMessage,
+    });
+    ctx.messageCount = (ctx.messageCount || 0) + 1;
+    ctx.lastUserMessage = userMessage;
+    await this.saveUserContext(uuid, ctx);
+
+    let result: ResponsesTurnResult;
+    try {
+      result = await this.responses.run({
+        instructions: `${prompt.instructions}\n\n${this.buildAdditionalInstructions(ctx)}`,
+        history: ctx.turns,
+        module: ctx.assistantType
+          ? this.mcpPool.resolveModule(ctx.assistantType)
+          : null,
+        executeToolCalls: (toolCalls) =>
+          this.executeToolCalls(toolCalls, uuid, stream?.onToolCall),
+        onToken: stream?.onToken,
+        signal: stream?.signal,
+      });
+    } catch (err) {
+      // Aborted or failed without a reply: take the message back, so the
+      // history never has two user turns in a row
+      const latest = await this.loadUserContext(uuid);
+      const last = latest.turns?.at(-1);
+      if (last?.role === 'user' && last.content === userMessage) {
+        latest.turns = latest.turns!.slice(0, -1);
+        await this.saveUserContext(uuid, latest);
+      }
+      throw err;
+    }
+
+    let reply: ChatResponse;
+    if ('reply' in result) {
+      reply = result;
+    } else {
+      const assistantText =
+        result.text || 'Sorry – could not generate a response.';
+      console.log('🤖 Assistant response:', assistantText);
+      reply = await this.buildReply(assistantText, uuid);
+    }
+
+    // Tools saved state during the turn → append to the latest context
+    const latest = await this.loadUserContext(uuid);
+    latest.turns = this.appendTurn(latest.turns, {
+      role: 'assistant',
+      content: reply.reply.content,
+      ...(result.tools.length ? { tools: result.tools } : {}),
+    });
+    await this.saveUserContext(uuid, latest);
+
+    return reply;
+  }
+
+  private appendTurn(
+    turns: ConversationTurn[] | undefined,
+    turn: ConversationTurn,
+  ): ConversationTurn[] {
+    return [...(turns ?? []), turn].slice(-this.MAX_STORED_TURNS);
+  }
 
+  private async buildReply(
+    assistantText: string,
+    uuid: string,
+  ): Promise<ChatResponse> {
     // ---------------------------------------------------------
     // Optional frontend-action extraction
     // ---------------------------------------------------------
-    const frontendAction = this.extractFrontendAction(assistantText, uuid);
+    const frontendAction = await this.extractFrontendAction(
+      assistantText,
+      uuid,
+    );
 
     if (frontendAction) {
       return {
         reply: {
-          role: "assistant",
+          role: 'assistant',
           frontendAction,
-          content: assistantText
-        }
+          content: assistantText,
+        },
       };
     }
 
@@ -612,37 +639,189 @@ export class ChatService implements OnModuleInit {
     // ---------------------------------------------------------
     return {
       reply: {
-        role: "assistant",
-        content: assistantText
-      }
+        role: 'assistant',
+        content: assistantText,
+      },
     };
   }
 
+  /**
+   * Streaming variant of sendMessage for `/chat/stream`: uses the
+   * Assistants streaming API instead of polling and emits tokens and tool
+   * progress as they happen, ending with the same reply sendMessage returns.
+   */
+  public streamMessage(
+    userMessage: string,
+    sessionId: string | undefined,
+    uuid: string,
+  ): Observable<ChatStreamEvent> {
+    return new Observable<ChatStreamEvent>((subscriber) => {
+      let activeStream: any = null;
+      let closed = false;
+
+      const emit = (event: ChatStreamEvent) => {
+        if (!closed) subscriber.next(event);
+      };
+
+      this.runStreamingTurn(userMessage, uuid, emit, (stream) => {
+        activeStream = stream;
+        if (closed) stream.abort?.();
+      })
+        .then(() => subscriber.complete())
+        .catch((err: any) => {
+          console.error('❌ Streaming turn failed:', err?.message || err);
+          emit({
+            type: 'error',
+            data: { message: 'Sorry, something went wrong. Please try again.' },
+          });
+          subscriber.complete();
+        });
+
+      // Client went away → stop pulling from OpenAI
+      return () => {
+        closed = true;
+        activeStream?.abort?.();
+      };
+    });
+  }
+
+  private async runStreamingTurn(
+    userMessage: string,
+    uuid: string,
+    emit: (event: ChatStreamEvent) => void,
+    track: (stream: any) => void,
+  ): Promise<void> {
+    const progress = (tool: string) =>
+      emit({
+        type: 'progress',
+        data: {
+          tool,
+          message:
+            TOOL_PROGRESS_MESSAGES[tool] ?? DEFAULT_TOOL_PROGRESS_MESSAGE,
+        },
+      });
+
+    if (this.orchestrator === 'responses') {
+      const controller = new AbortController();
+      track({ abort: () => controller.abort() });
+
+      const reply = await this.runResponsesTurn(userMessage, uuid, {
+        onToken: (text) => emit({ type: 'token', data: { text } }),
+        onToolCall: progress,
+        signal: controller.signal,
+      });
+
+      emit({ type: 'done', data: reply });
+      return;
+    }
+
+    const turn = await this.prepareTurn(userMessage, uuid);
+
+    if ('reply' in turn) {
+      emit({ type: 'done', data: turn });
+      return;
+    }
+
+    const { threadId, runParams } = turn;
+    const maxIterations = 10;
+
+    let stream = this.openai.beta.threads.runs.stream(threadId, runParams);
+    let assistantText = '';
+
+    for (let iteration = 0; iteration <= maxIterations; iteration++) {
+      track(stream);
+
+      let requiresAction: any = null;
+      let failedRun: any = null;
+
+      for await (const event of stream) {
+        switch (event.event) {
+          case 'thread.message.created':
+            // Only the assistant's last message is the reply
+            assistantText = '';
+            break;
+
+          case 'thread.message.delta':
+            for (const part of event.data?.delta?.content ?? []) {
+              const text = part?.type === 'text' ? part.text?.value : undefined;
+              if (text) {
+                assistantText += text;
+                emit({ type: 'token', data: { text } });
+              }
+            }
+            break;
+
+          case 'thread.run.requires_action':
+            requiresAction = event.data;
+            break;
+
+          case 'thread.run.failed':
+          case 'thread.run.expired':
+          case 'thread.run.cancelled':
+            failedRun = event.data;
+            break;
+        }
+      }
+
+      if (failedRun) {
+        emit({
+          type: 'done',
+          data: {
+            reply: {
+              role: 'assistant',
+              content: `I encountered an error: ${failedRun.last_error?.message || 'Unknown error'}`,
+            },
+          },
+        });
+        return;
+      }
+
+      const toolCalls =
+        requiresAction?.required_action?.submit_tool_outputs?.tool_calls;
+      if (!toolCalls || iteration === maxIterations) break;
+
+      const executed = await this.executeToolCalls(toolCalls, uuid, progress);
+
+      if ('reply' in executed) {
+        emit({ type: 'done', data: executed });
+        return;
+      }
+
+      console.log(`📤 Streaming ${executed.toolOutputs.length} tool outputs`);
+
+      stream = this.openai.beta.threads.runs.submitToolOutputsStream(
+        requiresAction.id,
+        {
+          thread_id: threadId,
+          tool_outputs: executed.toolOutputs,
+        },
+      );
+    }
+
+    assistantText =
+      assistantText.trim() || 'Sorry – could not generate a response.';
+    console.log('🤖 Assistant response (stream):', assistantText);
+
+    emit({ type: 'done', data: await this.buildReply(assistantText, uuid) });
+  }
+
   async promptSuggestions(userContent: string): Promise<string[]> {
     if (!userContent?.trim()) {
       return [];
     }
 
-    const response = await this.openai.responses.create({
-      model: "gpt-4.1-mini",
-      input: [
-        {
-          role: "system",
-          content:
-            "Given the user's latest message, return ONLY a JSON array (3-5 items) of short follow-up prompts the user could tap next. Do not add prose or keys.",
-        },
+    const response = await this.llm.generate({
+      instructions:
+        "Given the user's latest message, return ONLY a JSON array (3-5 items) of short follow-up prompts the user could tap next. Do not add prose or keys.",
+      messages: [
         {
-          role: "user",
+          role: 'user',
           content: userContent,
         },
       ],
     });
 
-    // Extract the text output; responses API uses output_text for the combined string
-    const textOutput =
-      response.output_text ||
-      response.output?.[0]?.content?.[0]?.text ||
-      "";
+    const textOutput = response.text;
 
     let rawSuggestions: any[] = [];
     if (textOutput) {
@@ -650,33 +829,32 @@ export class ChatService implements OnModuleInit {
         const parsed = JSON.parse(textOutput);
         if (Array.isArray(parsed)) {
           rawSuggestions = parsed;
-        } else if (Array.isArray((parsed as any).suggestions)) {
-          rawSuggestions = (parsed as any).suggestions;
+        } else if (Array.isArray(parsed.suggestions)) {
+          rawSuggestions = parsed.suggestions;
         }
       } catch (err) {
-        console.error("promptSuggestions JSON parse failed", err);
+        console.error('promptSuggestions JSON parse failed', err);
       }
     }
 
     const unique = Array.from(
       new Set(
         (Array.isArray(rawSuggestions) ? rawSuggestions : [])
-          .filter((s: any) => typeof s === "string")
+          .filter((s: any) => typeof s === 'string')
           .map((s: string) => s.trim())
-          .filter(Boolean)
-      )
+          .filter(Boolean),
+      ),
     );
 
-    console.log("Response => ", response);
+    console.log('Response => ', response);
 
     // Limit to 5 to avoid flooding the UI
     return unique.slice(0, 5);
   }
 
-
   private async cancelActiveRuns(threadId?: string) {
     if (!threadId) {
-      console.warn("⚠️ cancelActiveRuns skipped — threadId undefined");
+      console.warn('⚠️ cancelActiveRuns skipped — threadId undefined');
       return;
     }
 
@@ -685,77 +863,106 @@ export class ChatService implements OnModuleInit {
     });
 
     for (const run of runs.data) {
-      if (run.status === "in_progress" || run.status === "requires_action") {
+      if (run.status === 'in_progress' || run.status === 'requires_action') {
         console.log(
-          "🛑 Cancelling active run:",
+          '🛑 Cancelling active run:',
           run.id,
-          "on thread:",
-          threadId
+          'on thread:',
+          threadId,
         );
 
         // ✅ THIS IS THE CRITICAL LINE
-        await this.openai.beta.threads.runs.cancel(run.id,{thread_id:threadId});
+        await this.openai.beta.threads.runs.cancel(run.id, {
+          thread_id: threadId,
+        });
       }
     }
   }
 
+  /** Payment page link; its token is the grant `receive-token` verifies. */
+  private checkoutUrl(uuid: string, ctx: UserContext) {
+    const amount = ctx.totalAmount || 0;
+    const token = this.checkoutGrants.issue({
+      uuid,
+      cartId: ctx.cartId ?? '',
+      amount,
+      sessionToken: ctx.sessionToken ?? '',
+    });
+    return `${process.env.CHECKOUT_LINK}/?email=${ctx.clientEmail || ''}&amount=${amount}&token=${token}`;
+  }
 
-  private extractFrontendAction(text: string, uuid: string): any {
+  private async extractFrontendAction(
+    text: string,
+    uuid: string,
+  ): Promise<FrontendAction | null> {
     // Example: assistant prints some tag like <PAY_BUTTON> or similar logic
-    if (text.includes("[[SHOW_PAY_BUTTON]]")) {
+    if (text.includes('[[SHOW_PAY_BUTTON]]')) {
       // we load context to build checkout link
-      const ctxPromise = this.loadUserContext(uuid);
-      // build the result asynchronously; but this function is sync in original code so:
-      // we'll return a minimal object and the sendMessage workflow already uses it synchronously.
-      // To keep things simple here, fetch synchronously via cached context (loadUserContext caches)
-      const ctx = this.contextCache.get(uuid) ?? {};
+      const ctx = await this.loadUserContext(uuid);
       return {
-        type: "SHOW_PAY_BUTTON",
-        checkoutUrl: `${process.env.CHECKOUT_LINK}/?email=${ctx.clientEmail || ''}&amount=${ctx.totalAmount || 0}&token=${ctx.sessionToken || ''}`
+        type: 'SHOW_PAY_BUTTON',
+        checkoutUrl: this.checkoutUrl(uuid, ctx),
       };
     }
 
     return null;
   }
 
-
   // ✅ Custom polling with configurable intervals
-  private async pollRunUntilComplete(threadId: string, runId: string): Promise<any> {
+  private async pollRunUntilComplete(
+    threadId: string,
+    runId: string,
+  ): Promise<any> {
     let attempts = 0;
-    let run = await this.openai.beta.threads.runs.retrieve(runId,{thread_id:threadId});
+    let run = await this.openai.beta.threads.runs.retrieve(runId, {
+      thread_id: threadId,
+    });
 
     while (
       attempts < this.MAX_POLL_ATTEMPTS &&
-      !['completed', 'failed', 'expired', 'cancelled', 'requires_action'].includes(run.status)
+      ![
+        'completed',
+        'failed',
+        'expired',
+        'cancelled',
+        'requires_action',
+      ].includes(run.status)
     ) {
-      await new Promise(r => setTimeout(r, this.POLL_INTERVAL_MS));
-      run =  await this.openai.beta.threads.runs.retrieve(runId,{thread_id:threadId});
+      await new Promise((r) => setTimeout(r, this.POLL_INTERVAL_MS));
+      run = await this.openai.beta.threads.runs.retrieve(runId, {
+        thread_id: threadId,
+      });
       attempts++;
       console.log(`  ⏳ Poll ${attempts}: ${run.status}`);
     }
 
     return run;
   }
-  
+
   // ✅ Minimized tool outputs to reduce token usage
-  private getMinimalToolOutput(toolName: string, rawResult: any, uuid: string): object | string {
+  private getMinimalToolOutput(
+    toolName: string,
+    rawResult: any,
+    ctx: UserContext,
+  ): object | string {
     if (!rawResult || typeof rawResult !== 'object') {
-      return rawResult; 
+      return rawResult;
     }
 
     switch (toolName) {
       case 'getLocations':
         return {
-          locations: rawResult.locations?.map((l: any) => ({
-            id: l.id,
-            name: l.name,
-          })) || [],
+          locations:
+            rawResult.locations?.map((l: any) => ({
+              id: l.id,
+              name: l.name,
+            })) || [],
         };
 
       // case 'availableServices':
       //   // Handle the nested structure from your MCP server
       //   const categories = rawResult.cart?.availableCategories || [];
-      //   const services = categories.flatMap((cat: any) => 
+      //   const services = categories.flatMap((cat: any) =>
       //     (cat.availableItems || []).map((item: any) => ({
       //       id: item.id,
       //       name: item.name,
@@ -764,75 +971,86 @@ export class ChatService implements OnModuleInit {
       //   );
       //   return { services };
 
-      case 'availableServices':
+      case 'availableServices': {
         // Handle the nested structure from your MCP server
         const categories = rawResult || [];
 
-        const services = categories.flatMap((cat: any) => 
-          (cat.availableItems || []).map((item: any) => ({
+        const services = categories.flatMap((cat: any) =>
+          (cat.availableItems || []).map(() => ({
             categoryName: cat.name,
-            items: (cat.availableItems || []).map(item => ({
+            items: (cat.availableItems || []).map((item: any) => ({
               id: item.id,
               name: item.name,
-              price: item.listPrice
-            }))
-          }))
+              price: item.listPrice,
+            })),
+          })),
         );
 
-        console.log("servicesservices  >> ",services);
+        console.log('servicesservices  >> ', services);
 
         return { services };
+      }
 
+      case 'resolveDateRange': {
+        // rawResult = string or object depending on your parser
+        let parsed;
 
-        case 'resolveDateRange': {
-          // rawResult = string or object depending on your parser
-          let parsed;
-        
-          // If rawResult is a JSON string, parse it
-          if (typeof rawResult === "string") {
-            try {
-              parsed = JSON.parse(rawResult);
-            } catch {
-              parsed = {};
-            }
-          } else {
-            parsed = rawResult || {};
+        // If rawResult is a JSON string, parse it
+        if (typeof rawResult === 'string') {
+          try {
+            parsed = JSON.parse(rawResult);
+          } catch {
+            parsed = {};
           }
-        
-          return {
-            dates: {
-              resolvedDate: parsed.resolvedDate,
-              rangeLower: parsed.rangeLower,
-              rangeUpper: parsed.rangeUpper,
-            },
-          };
-        }  
+        } else {
+          parsed = rawResult || {};
+        }
+
+        return {
+          dates: {
+            resolvedDate: parsed.resolvedDate,
+            rangeLower: parsed.rangeLower,
+            rangeUpper: parsed.rangeUpper,
+            time: parsed.time,
+            timeWindow: parsed.timeWindow,
+            timeZone: parsed.timeZone,
+          },
+        };
+      }
 
       case 'cartBookableDates':
         // Your MCP returns array directly, not wrapped
         return {
-          dates: Array.isArray(rawResult) ? rawResult : (rawResult.dates || []),
+          dates: Array.isArray(rawResult) ? rawResult : rawResult.dates || [],
         };
 
       case 'cartBookableTimes':
-        // Your MCP returns slots directly
+      case 'findNextAvailableSlots':
+        // Already filtered and limited by the tool, grouped by day in the location's time
         return {
-          times: (Array.isArray(rawResult) ? rawResult : []).slice(0, 15).map((t: any) => ({
-            id: t.id,
-            startTime: t.startTime,
+          timeZone: rawResult.timeZone,
+          days: (rawResult.days ?? []).map((day: any) => ({
+            date: day.date,
+            label: day.label,
+            slots: day.slots.map((t: any) => ({
+              id: t.id,
+              localTime: t.time,
+              label: t.label,
+            })),
           })),
+          // The staffId check ran out before the search did
+          ...(rawResult.incomplete ? { incomplete: true } : {}),
         };
-        
-        // case 'cartBookableStaffVariants':
-        //   return {
-        //     staff: rawResult?.map((s: any) => ({
-        //       id: s.id,
-        //       name: s.staff?.name,
-        //       preference: s.staffSelectionPreference || 'None',
-        //     })) || [],
-        //   };
-  
-      
+
+      // case 'cartBookableStaffVariants':
+      //   return {
+      //     staff: rawResult?.map((s: any) => ({
+      //       id: s.id,
+      //       name: s.staff?.name,
+      //       preference: s.staffSelectionPreference || 'None',
+      //     })) || [],
+      //   };
+
       case 'getCartSummary':
         // Handle your MCP structure (data is at root level after parsing)
         return {
@@ -842,106 +1060,128 @@ export class ChatService implements OnModuleInit {
           discountAmount: rawResult.summary?.discountAmount,
           taxAmount: rawResult.summary?.taxAmount,
           totalAmount: rawResult.summary?.total,
-          serviceItems: rawResult.selectedItems?.map((item: any) => ({
-            serviceName: item.item?.name,
-            staffName: item.selectedStaffVariant?.staff?.displayName,
-            bookableTime: item.selectedBookableItem?.startTime,
-          })) || [],
+          ...describeCartBookings(rawResult),
         };
-        
 
       case 'createAppointmentCart':
-        return { 
-          cartId: rawResult.createCart?.cart?.id, 
-          status: 'Cart Created' 
+        return {
+          cartId: rawResult.createCart?.cart?.id,
+          status: 'Cart Created',
+        };
+
+      case 'addServiceToCart': {
+        const cart = rawResult.addCartSelectedBookableItem?.cart;
+        return {
+          status: 'Success',
+          cartId: cart?.id,
+          message: 'Service added to cart.',
+          ...(cart ? describeCartBookings(cart) : {}),
+        };
+      }
+
+      case 'addCartGuest':
+        return {
+          status: 'Success',
+          guestId: rawResult.createCartGuest?.guest?.id,
+          ...describeCartBookings(rawResult.createCartGuest.cart),
+        };
+
+      case 'removeCartGuest':
+        return {
+          status: 'Success',
+          ...describeCartBookings(rawResult.deleteCartGuest.cart),
         };
-          
-        case "addServiceToCart": {
-          const cart = rawResult.addCartSelectedBookableItem?.cart;
-          const selectedItems = cart?.selectedItems || [];
-  
-          const addonServices: { id: string; name: string }[] = [];
-  
-          selectedItems.forEach((item: any) => {
-            const optionGroups = item.item?.optionGroups || [];
-            if (optionGroups.length > 0 && optionGroups[0].name?.toLowerCase() === "addon") {
-              addonServices.push({
-                id: item.id,
-                name: item?.item?.name || item?.name
-              });
-            }
-          });
-  
-          // persist addonServices into user context
-          this.loadUserContext('temp').catch(()=>{}); // no-op; we will set when available
-          // Note: the caller of this function passes uuid and will separately save addonServices in extractStateFromToolOutput
-  
-          const addons = selectedItems.flatMap((item: any) =>
-            item.addons?.map((addon: any) => ({
-              id: addon.id,
-              name: addon.name,
-              description: addon.description,
-              price: addon.listPrice,
-            })) || []
-          );
-  
-          return {
-            status: "Success",
-            cartId: cart?.id,
-            message: "Service added to cart.",
-            addons
-          };
-        }
 
-   
-        
-      case 'reserveCartBookableItems':
       case 'updateCartSelectedBookableItem':
+        return {
+          status: 'Success',
+          cartId: rawResult.cart?.id,
+          message: `${toolName} completed.`,
+          ...(rawResult.cart ? describeCartBookings(rawResult.cart) : {}),
+        };
+
+      case 'reserveCartBookableItems':
         // These return the cart structure
-        return { 
-          status: 'Success', 
-          cartId: rawResult.addCartSelectedBookableItem?.cart?.id || 
-                  rawResult.reserveCartBookableItems?.cart?.id ||
-                  rawResult.updateCartSelectedBookableItem?.cart?.id,
-          message: `${toolName} completed.` 
+        return {
+          status: 'Success',
+          cartId:
+            rawResult.addCartSelectedBookableItem?.cart?.id ||
+            rawResult.reserveCartBookableItems?.cart?.id ||
+            rawResult.updateCartSelectedBookableItem?.cart?.id,
+          message: `${toolName} completed.`,
         };
-        
-        case 'applyPromotionCode': {
 
-            console.log("🟡 DEBUG → rawResult for applyPromotionCode:", JSON.stringify(rawResult, null, 2));
-        
-            // HANDLE ARRAY ERROR OUTPUT
-            if (
-                Array.isArray(rawResult) &&
-                rawResult[0]?.__typename === "BlvdError"
-            ) {
-                return {
-                    status: "Error",
-                    code: rawResult[0]?.code,
-                    message: rawResult[0]?.message || "Invalid promotion code"
-                };
-            }
-        
-            // HANDLE NORMAL ERROR FORMAT
-            if (rawResult?.errors || rawResult?.error || rawResult?.code) {
-                console.log("i enter");
-                return {
-                    status: "Error",
-                    code: rawResult?.code,
-                    message: rawResult?.message || "Invalid promotion code"
-                };
-            }
-        
-            // SUCCESS CASE
-            return {
-                status: "Success",
-                cartId: rawResult.addCartOffer?.cart?.id,
-                promotionCode: rawResult.addCartOffer?.offer?.code,
-                message: "Promotion applied successfully"
-            };
+      case 'applyPromotionCode': {
+        console.log(
+          '🟡 DEBUG → rawResult for applyPromotionCode:',
+          JSON.stringify(rawResult, null, 2),
+        );
+
+        // HANDLE ARRAY ERROR OUTPUT
+        if (
+          Array.isArray(rawResult) &&
+          rawResult[0]?.__typename === 'BlvdError'
+        ) {
+          return {
+            status: 'Error',
+            code: rawResult[0]?.code,
+            message: rawResult[0]?.message || 'Invalid promotion code',
+          };
         }
-        
-        
+
+        // HANDLE NORMAL ERROR FORMAT
+        if (rawResult?.errors || rawResult?.error || rawResult?.code) {
+          console.log('i enter');
+          return {
+            status: 'Error',
+            code: rawResult?.code,
+            message: rawResult?.message || 'Invalid promotion code',
+          };
+        }
+
+        // SUCCESS CASE
+        return {
+          status: 'Success',
+          cartId: rawResult.addCartOffer?.cart?.id,
+          promotionCode: rawResult.addCartOffer?.offer?.code,
+          message: 'Promotion applied successfully',
+        };
+      }
+
+      case 'listServiceStaff':
+        // Point out the staff member the user chose last time
+        return {
+          ...rawResult,
+          staff: rawResult.staff?.map((option: StaffOption) => ({
+            ...option,
+            favorite:
+              !!option.staffId && option.staffId === ctx.favoriteStaff?.staffId,
+          })),
+        };
+
+      // Already trimmed by the MCP server
+      case 'listServiceAddons':
+        return rawResult;
+
+      case 'joinWaitlist':
+        // The entry to store; see joinWaitlist()
+        return rawResult;
+
+      case 'addAddonToItem':
+      case 'removeAddonFromItem':
+        return {
+          status: 'Success',
+          addon: rawResult.addon,
+          ...(rawResult.cart ? describeCartBookings(rawResult.cart) : {}),
+        };
+
+      case 'selectStaff':
+        return {
+          status: 'Success',
+          selectedStaff: rawResult.selectedStaff,
+          ...(rawResult.cart ? describeCartBookings(rawResult.cart) : {}),
+        };
+
       case 'cartBookableStaffVariants':
         // Return minimal staff info
         return {
@@ -952,40 +1192,44 @@ export class ChatService implements OnModuleInit {
           })),
         };
 
+      // Already trimmed by the MCP server
+      case 'listMyAppointments':
+      case 'rescheduleAppointment':
+      case 'cancelAppointment':
+        return rawResult;
 
-        case 'getMyAppointment':
-          console.log("getMyAppointment >> ",rawResult)
-
-        /* for membership start */
+      /* for membership start */
       case 'getMembershipPlans':
         return {
-          membership: (Array.isArray(rawResult) ? rawResult : []).map((item: any) => ({
-            id: item.node.id,
-            name: item.node.name,
-            price: item.node.unitPrice,
-          })),
+          membership: (Array.isArray(rawResult) ? rawResult : []).map(
+            (item: any) => ({
+              id: item.node.id,
+              name: item.node.name,
+              price: item.node.unitPrice,
+            }),
+          ),
         };
 
-        case 'addMembershipToCart':
-          
-          return {
-            membership: (Array.isArray(rawResult) ? rawResult : []).map((item: any) => ({
+      case 'addMembershipToCart':
+        return {
+          membership: (Array.isArray(rawResult) ? rawResult : []).map(
+            (item: any) => ({
               id: item.node.id,
               name: item.node.name,
               price: item.node.unitPrice,
-            })),
-          };
+            }),
+          ),
+        };
 
       /*membership end*/
 
-
       // /*********** giftcard start ***********/
 
       case 'availableServicesGiftCard':
-        console.log("availableServicesGiftCard  rrrrr >> ",rawResult);
-            return {
-            giftcard: rawResult
-          };
+        console.log('availableServicesGiftCard  rrrrr >> ', rawResult);
+        return {
+          giftcard: rawResult,
+        };
       // case 'createGiftCardCart':
       //   console.log("createGiftCardCart rrrrrr >> ",rawResult);
       //     return {
@@ -997,10 +1241,10 @@ export class ChatService implements OnModuleInit {
       // /*********** giftcard end ***********/
 
       default:
-        return { 
-          status: 'Completed', 
+        return {
+          status: 'Completed',
           id: rawResult.id || rawResult.cartId,
-          message: `${toolName} executed.`
+          message: `${toolName} executed.`,
         };
     }
   }
@@ -1011,18 +1255,33 @@ export class ChatService implements OnModuleInit {
     let args: any = {};
 
     try {
-      args = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+      args = toolCall.function.arguments
+        ? JSON.parse(toolCall.function.arguments)
+        : {};
     } catch {
       args = {};
     }
 
     try {
-      const rawResult = await this.mcpClient.callTool({ name: toolName, arguments: args });
+      const ctx = await this.loadUserContext(uuid);
+      const module = this.mcpPool.resolveModule(ctx.assistantType);
+      const rawResult = await this.mcpPool.callTool(module, {
+        name: toolName,
+        arguments: args,
+      });
+
+      // Boulevard failures come back as a structured `{ error }` payload;
+      // hand it to the model as-is so it can retry or explain
+      if (rawResult?.isError) {
+        return { tool_call_id, output: rawResult.content?.[0]?.text ?? '' };
+      }
 
       // Extract state from full result (for internal session tracking)
       try {
         await this.extractStateFromToolOutput(rawResult, uuid);
-      } catch { /* ignore */ }
+      } catch {
+        /* ignore */
+      }
 
       let parsedResult = rawResult;
       if (rawResult?.content?.[0]?.text) {
@@ -1033,10 +1292,16 @@ export class ChatService implements OnModuleInit {
         }
       }
 
-      const minimalResult = this.getMinimalToolOutput(toolName, parsedResult, uuid);
+      const minimalResult = this.getMinimalToolOutput(
+        toolName,
+        parsedResult,
+        ctx,
+      );
       const outputString = JSON.stringify(minimalResult);
 
-      console.log(`🛠️  ${toolName} output size: ${outputString.length} chars (minimized)`);
+      console.log(
+        `🛠️  ${toolName} output size: ${outputString.length} chars (minimized)`,
+      );
 
       return {
         tool_call_id,
@@ -1048,682 +1313,926 @@ export class ChatService implements OnModuleInit {
     }
   }
 
-  
   private async handleToolCalls(
     threadId: string,
     initialRun: any,
-    uuid: string
+    uuid: string,
   ): Promise<any> {
     let currentRun: any = initialRun;
     let iterationCount = 0;
     const maxIterations = 10;
-  
+
     console.log(`🔧 Tool handler - Thread: ${threadId}`);
-  
+
     while (
       currentRun.required_action?.type === 'submit_tool_outputs' &&
       iterationCount < maxIterations
     ) {
       iterationCount++;
       console.log(`🔧 Iteration ${iterationCount}`);
-  
-      const toolCalls = currentRun.required_action.submit_tool_outputs.tool_calls;
-      console.log("toolCalls >> ", toolCalls);
-  
-      const toolOutputs: any[] = [];
-  
-      for (const toolCall of toolCalls) {
-        const toolName = toolCall.function.name;
-        console.log(`  🛠️ Executing: ${toolName}`);
-  
-// ---------------------------------------------------------
-// ✅ UNIVERSAL CART-ID FIX
-// ---------------------------------------------------------
-if (toolCall.function?.arguments) {
-  try {
-    let args = JSON.parse(toolCall.function.arguments);
-    const ctx = await this.loadUserContext(uuid);
-    const correctCartId = ctx?.cartId;
 
-    console.log("correctCartId",correctCartId);
-    console.log("args",args);
-    
+      const toolCalls =
+        currentRun.required_action.submit_tool_outputs.tool_calls;
+      console.log('toolCalls >> ', toolCalls);
 
-    if (correctCartId) {
+      const executed = await this.executeToolCalls(toolCalls, uuid);
 
-      args.id=correctCartId;
-      args.cartId = correctCartId;
-      console.log("i called",args);
-
-      // Some tools (like addGiftCardToCart) use "id"
-      if (args.cartId && args.cartId !== correctCartId) {
-        console.log("🔧 Fixing id → session cartId:", correctCartId);
-        args.id = correctCartId;
+      // setClientOnCart (etc.) can end the turn with a final reply
+      if ('reply' in executed) {
+        return executed;
       }
-    }
 
+      const { toolOutputs } = executed;
 
-    if (toolName === 'removeItemInCart') {
-      console.log("🔍 removeItemInCart triggered");
-    
-      
-      const match = this.findMatchingAddon(this.lastUserMessage, uuid);
-    
-      if (match) {
-        console.log("✔ Matched addon:", match);
-    
-        args.itemId = match.id; // FORCE correct addon id from session
-        args.id = ctx.cartId;
-      } else {
-        console.log("❌ No addon matched in sessionState.addonServices");
-      }
-    }
-    
-
+      // --------------------------------------------------------
+      // If no early-return happened above, submit outputs normally
+      // --------------------------------------------------------
+      console.log(`📤 Submitting ${toolOutputs.length} tool outputs`);
 
-    if(toolName === 'resolveDateRange'){
-      const result: any = await this.executeMCPToolAndBuildPayload(toolCall, uuid);
-        
-      // ✅ Parse correct payload for state extraction
-      let parsedOutput :any= {};
       try {
-        parsedOutput = JSON.parse(result.output);
-        console.log("resolveDateRangeOutput",parsedOutput);
-        this.lastResolvedDate = parsedOutput?.dates.resolvedDate;
-        this.lastResolvedRangeLower = parsedOutput?.dates.rangeLower;
-        this.lastResolvedRangeUpper = parsedOutput?.dates.rangeUpper;
-      } catch {}
-    }
+        const updatedRun =
+          await this.openai.beta.threads.runs.submitToolOutputs(currentRun.id, {
+            thread_id: threadId,
+            tool_outputs: toolOutputs,
+          });
 
-    if(toolName === 'cartBookableDates'){
-    console.log("i enetred cartBookableDates");
-    console.log("lastResolvedRangeLower",this.lastResolvedRangeLower);
-    console.log("lastResolvedRangeUpper",this.lastResolvedRangeUpper);
-    args.searchRangeLower = this.lastResolvedRangeLower;
-    args.searchRangeUpper = this.lastResolvedRangeUpper;
-    }
+        // Poll again until the next stage
 
-    if(toolName === 'cartBookableTimes'){
-      console.log("i enetred cartBookableTimes");
-      args.searchDate = this.lastResolvedDate;
+        console.log(
+          `✅ availableServicesGiftCard  rrrrr outtt >> ${currentRun.status}`,
+        );
+        // if(currentRun.status =='in_progress'){
+        currentRun = await this.pollRunUntilComplete(threadId, updatedRun.id);
+        // }
+      } catch (error: any) {
+        console.error('❌ Error submitting tool outputs:', error.message);
+        throw error;
       }
-  
-
-        
 
+      if (
+        ['completed', 'failed', 'expired', 'cancelled'].includes(
+          currentRun.status,
+        )
+      ) {
+        break;
+      }
+    }
 
-    if (toolName === 'cartBookableStaffVariants') {
+    console.log(`🏁 Tool loop complete: ${currentRun.status}`);
+    return currentRun;
+  }
 
-      console.log("i in cartBookableStaffVariants");
-      
-        const serviceItemId =  ctx?.serviceItemId;
-      
-        console.log("🔍 serviceItemId from session =", serviceItemId);
-      
-        if (serviceItemId) {
-          // Force correct value
-          args.itemId = serviceItemId;
-          
-          console.log("🔥 Overriding addServiceToCart args with correct serviceItemId:", serviceItemId);
-        } else {
-          console.warn("⚠️ WARNING: addServiceToCart called but serviceItemId is missing!");
-        }
+  /**
+   * Runs one batch of tool calls requested by the assistant. Returns the
+   * outputs to submit back, or a final `reply` when a tool ends the turn.
+   * `onToolCall` is told about each tool before it runs (stream progress).
+   */
+  private async executeToolCalls(
+    toolCalls: any[],
+    uuid: string,
+    onToolCall?: (toolName: string) => void,
+  ): Promise<ChatResponse | { toolOutputs: any[] }> {
+    const toolOutputs: any[] = [];
+
+    for (const toolCall of toolCalls) {
+      const toolName = toolCall.function.name;
+      console.log(`  🛠️ Executing: ${toolName}`);
+      onToolCall?.(toolName);
+
+      // Offered or not, card and checkout tools only run from setPaymentToken
+      if (HIDDEN_TOOLS.has(toolName)) {
+        this.logger.warn(`Refused hidden tool ${toolName}`);
+        const error: ToolErrorPayload['error'] = {
+          code: 'VALIDATION',
+          message: `${toolName} is not available; the user pays on the checkout page`,
+          retryable: false,
+        };
+        toolOutputs.push({
+          tool_call_id: toolCall.id,
+          output: JSON.stringify({ error }),
+        });
+        continue;
       }
 
+      // ---------------------------------------------------------
+      // ✅ UNIVERSAL CART-ID FIX
+      // ---------------------------------------------------------
+      if (toolCall.function?.arguments) {
+        try {
+          const args = JSON.parse(toolCall.function.arguments);
+          const ctx = await this.loadUserContext(uuid);
+          const correctCartId = ctx?.cartId;
+
+          console.log('correctCartId', correctCartId);
+          console.log('args', args);
+
+          if (correctCartId) {
+            args.id = correctCartId;
+            args.cartId = correctCartId;
+            console.log('i called', args);
+
+            // Some tools (like addGiftCardToCart) use "id"
+            if (args.cartId && args.cartId !== correctCartId) {
+              console.log('🔧 Fixing id → session cartId:', correctCartId);
+              args.id = correctCartId;
+            }
+          }
 
+          if (toolName === 'resolveDateRange') {
+            // Dates resolve in the cart location's time zone, so send the cartId
+            toolCall.function.arguments = JSON.stringify(args);
+            const result: any = await this.executeMCPToolAndBuildPayload(
+              toolCall,
+              uuid,
+            );
 
+            // ✅ Parse correct payload for state extraction
+            let parsedOutput: any = {};
+            try {
+              parsedOutput = JSON.parse(result.output);
+              console.log('resolveDateRangeOutput', parsedOutput);
+              ctx.booking = ctx.booking ?? {};
+              ctx.booking.resolvedDate = parsedOutput?.dates.resolvedDate;
+              ctx.booking.searchRangeLower = parsedOutput?.dates.rangeLower;
+              ctx.booking.searchRangeUpper = parsedOutput?.dates.rangeUpper;
+              ctx.booking.timeWindow = parsedOutput?.dates.timeWindow;
+              await this.saveUserContext(uuid, ctx);
+            } catch {
+              /* ignore */
+            }
+          }
 
+          if (toolName === 'cartBookableDates') {
+            // Search the range the user last asked for, unless the model names its own
+            if (!args.searchRangeLower && !args.searchRangeUpper) {
+              args.searchRangeLower = ctx.booking?.searchRangeLower;
+              args.searchRangeUpper = ctx.booking?.searchRangeUpper;
+            }
+          }
 
-    toolCall.function.arguments = JSON.stringify(args);
-  } catch (err) {
-    console.error("❌ Failed parsing tool arguments:", err);
-  }
-}
+          if (toolName === 'cartBookableTimes') {
+            console.log('i enetred cartBookableTimes');
+            // The day the user asked for, unless the model picked another
+            if (!args.searchDate && ctx.booking?.resolvedDate) {
+              args.searchDate = ctx.booking.resolvedDate;
+            }
+            // Keep to the times of day the user asked for, unless the model chose its own
+            if (ctx.booking?.timeWindow && !args.earliest && !args.latest) {
+              args.earliest = ctx.booking.timeWindow.earliest;
+              args.latest = ctx.booking.timeWindow.latest;
+            }
+          }
 
-        // --------------------------------------------------------
-        // 🎁 SPECIAL CASE — setClientOnCart
-        // --------------------------------------------------------
-        if (toolName === "setClientOnCart") {
-          const result: any = await this.executeMCPToolAndBuildPayload(toolCall, uuid);
-        
-          // ✅ Parse correct payload for state extraction
-          let parsedOutput = {};
-          try {
-            parsedOutput = JSON.parse(result.output);
-          } catch {}
-        
-          // ✅ Extract cartId / email into session state
-          this.extractStateFromToolOutput(parsedOutput, uuid);
-        
-          const item =  await this.loadUserContext(uuid);
-          console.log("setClientOut >> ",item)
-        
-          return {
-            reply: {
-              role: "assistant",
-              frontendAction: {
-                type: "SHOW_PAY_BUTTON",
-                checkoutUrl: `${process.env.CHECKOUT_LINK}/?email=${item.clientEmail}&amount=${item.totalAmount}&token=${item.sessionToken}`
-              },
-              content: "You're all set! Tap the button below to complete your payment."
+          if (toolName === 'joinWaitlist') {
+            // Wait for what the user last asked about, unless the model says otherwise
+            if (!args.dateFrom && !args.dateTo) {
+              args.dateFrom = ctx.booking?.searchRangeLower;
+              args.dateTo = ctx.booking?.searchRangeUpper;
             }
-          };
+            if (!args.earliest && !args.latest) {
+              args.earliest = ctx.booking?.timeWindow?.earliest;
+              args.latest = ctx.booking?.timeWindow?.latest;
+            }
+            const clientInfo = ctx.booking?.clientInfo;
+            if (!args.email && !args.phone && clientInfo) {
+              args.email = clientInfo.email;
+              args.phone = clientInfo.phone;
+              args.name ??= clientInfo.name;
+            }
+          }
+
+          if (CART_ITEM_TOOLS.includes(toolName)) {
+            // Staff and add-ons are chosen per service: take the cart item the
+            // model named (by item or service id), or the only one there is.
+            // Otherwise the tool rejects the itemId and the model has to ask
+            // which service
+            const items = ctx.booking?.selectedItems ?? [];
+            const named = items.filter(
+              (i) => i.id === args.itemId || i.serviceId === args.itemId,
+            );
+            const item =
+              named.length === 1
+                ? named[0]
+                : items.length === 1
+                  ? items[0]
+                  : undefined;
+            if (item) {
+              args.itemId = item.id;
+            } else {
+              console.warn(
+                `⚠️ ${toolName}: no single cart item matches`,
+                args.itemId,
+              );
+            }
+          }
+
+          toolCall.function.arguments = JSON.stringify(args);
+        } catch (err) {
+          console.error('❌ Failed parsing tool arguments:', err);
         }
-        
-        
-  
-        // --------------------------------------------------------
-        // 🔧 NORMAL TOOLS
-        // --------------------------------------------------------
-        const output = await this.executeMCPToolAndBuildPayload(toolCall, uuid);
+      }
 
-        console.log("final outputs >> ",output);
-        
-        toolOutputs.push(output);
+      // --------------------------------------------------------
+      // 📅 APPOINTMENT TOOLS — verified client, confirm changes
+      // --------------------------------------------------------
+      if (APPOINTMENT_TOOLS.includes(toolName)) {
+        const guarded = await this.guardAppointmentTool(toolCall, uuid);
+        if (guarded && 'reply' in guarded) {
+          return guarded;
+        }
+        if (guarded) {
+          toolOutputs.push(guarded);
+          continue;
+        }
       }
-  
+
       // --------------------------------------------------------
-      // If no early-return happened above, submit outputs normally
+      // 🎁 SPECIAL CASE — setClientOnCart
       // --------------------------------------------------------
-      console.log(`📤 Submitting ${toolOutputs.length} tool outputs`);
-  
-      try {
-        const updatedRun = await this.openai.beta.threads.runs.submitToolOutputs(
-          currentRun.id,
-          {
-            thread_id: threadId,
-            tool_outputs: toolOutputs
-          }
+      if (toolName === 'setClientOnCart') {
+        const result: any = await this.executeMCPToolAndBuildPayload(
+          toolCall,
+          uuid,
         );
-  
-        // Poll again until the next stage
 
-        console.log(`✅ availableServicesGiftCard  rrrrr outtt >> ${currentRun.status}`);
-       // if(currentRun.status =='in_progress'){
-          currentRun = await this.pollRunUntilComplete(threadId, updatedRun.id);
-       // }
-        
-  
-  
-      } catch (error: any) {
-        console.error('❌ Error submitting tool outputs:', error.message);
-        throw error;
-      }
-  
-      if (['completed', 'failed', 'expired', 'cancelled'].includes(currentRun.status)) {
-        break;
-      }
-    }
-  
-    console.log(`🏁 Tool loop complete: ${currentRun.status}`);
-    return currentRun;
-  }
+        // ✅ Parse correct payload for state extraction
+        let parsedOutput = {};
+        try {
+          parsedOutput = JSON.parse(result.output);
+        } catch {
+          /* ignore */
+        }
 
+        // ✅ Extract cartId / email into session state
+        await this.extractStateFromToolOutput(parsedOutput, uuid);
 
-  private findMatchingAddon(userMessage: string, uuid: string) {
+        const item = await this.loadUserContext(uuid);
+        console.log('setClientOut >> ', item);
 
-    
-    const state :any= this.contextCache.get(uuid) || {};
-    console.log("state.addonServices >> ",state.booking.addonServices)
+        return {
+          reply: {
+            role: 'assistant',
+            frontendAction: {
+              type: 'SHOW_PAY_BUTTON',
+              checkoutUrl: this.checkoutUrl(uuid, item),
+            },
+            content:
+              "You're all set! Tap the button below to complete your payment.",
+          },
+        };
+      }
 
-    
+      // --------------------------------------------------------
+      // ⏳ WAITLIST — the tool checks the entry, we store it
+      // --------------------------------------------------------
+      if (toolName === 'joinWaitlist') {
+        toolOutputs.push(await this.joinWaitlist(toolCall, uuid));
+        continue;
+      }
 
-    if (!state || !state.booking.addonServices) return null;
-  
-    
-    const msg = userMessage.toLowerCase();
-  
-    // Best match based on partial text search
-    let bestMatch :any= null;
-    let highestScore = 0;
-  
-    for (const addon of state.addonServices) {
-      if (!addon?.name) continue;
-  
-      const name = addon.name.toLowerCase();
-  
+      // --------------------------------------------------------
+      // 🔧 NORMAL TOOLS
+      // --------------------------------------------------------
+      const output = await this.executeMCPToolAndBuildPayload(toolCall, uuid);
 
-    
+      console.log('final outputs >> ', output);
 
-      // Simple partial match
-      if (msg.includes(name)) {
-     
-        return addon; // strong match
-      }
-  
-      // Fuzzy scoring (optional)
-      let score = 0;
-      const words = name.split(" ");
-  
-      words.forEach(w => {
-        if (msg.includes(w)) score++;
-      });
-  
-      if (score > highestScore) {
-        highestScore = score;
-        bestMatch = addon;
-      }
+      toolOutputs.push(output);
     }
-  
-    
-    // Return fuzzy match only if it was at least 1 hit
-    return highestScore > 0 ? bestMatch : null;
-  }
 
+    return { toolOutputs };
+  }
 
-  
+  private async extractStateFromToolOutput(toolResult: unknown, uuid: string) {
+    let toolOutput = toolResult as BoulevardToolOutput;
 
+    // 🔥 STEP 1 — UNWRAP content[] text JSON
+    const content = (toolResult as any)?.content;
+    if (Array.isArray(content) && content[0]?.text) {
+      try {
+        toolOutput = JSON.parse(content[0].text);
+      } catch (err) {
+        console.log('❌ Failed to parse content[0].text:', err);
+      }
+    }
 
-  private async generateNewSessionToken(uuid: string): Promise<string> {
-    const token = crypto.randomUUID();
-  
-    const ctx = await this.loadUserContext(uuid);
-    ctx.sessionToken = token;
-  
-    await this.saveUserContext(uuid, ctx);
-    return token;
-  }
-  
-  
-  
-  private async extractStateFromToolOutput(toolOutput: any, uuid :string) {
-    // console.log("🟦 extractStateFromToolOutput() CALLED ------------------------");
-    // console.log("🔵 Raw toolOutput:", JSON.stringify(toolOutput, null, 2));
-  
-     // 🔥 STEP 1 — UNWRAP content[] text JSON
-  if (Array.isArray(toolOutput?.content) && toolOutput.content[0]?.text) {
-    try {
-      const parsed = JSON.parse(toolOutput.content[0].text);
-     toolOutput = parsed; // Replace wrapper with actual object
-    } catch (err) {
-      console.log("❌ Failed to parse content[0].text:", err);
+    if (!toolOutput || typeof toolOutput !== 'object') {
+      console.log('❌ toolOutput is empty or invalid');
+      return;
     }
-  }
 
-  if (!toolOutput || typeof toolOutput !== 'object') {
-    console.log("❌ toolOutput is empty or invalid");
-    return;
-  }
+    const ctx = await this.loadUserContext(uuid);
 
-  const ctx = await this.loadUserContext(uuid);
-  
-    // if (!this.sessionState[sessionId]) this.sessionState[sessionId] = {};
-    // const s = this.sessionState[sessionId];
-  
-    // console.log("🟡 Previous session state:", JSON.stringify(s, null, 2));
-  
-    // const preservedThreadId = s.threadId;
-    // const preservedMessageCount = s.messageCount;
-  
     const setIf = (k: keyof UserContext, v: any) => {
       if (k === 'threadId' || k === 'messageCount') return;
       if (v !== undefined && v !== null) {
         (ctx as any)[k] = v;
       }
     };
-  
+
     // ----------------------- CART ID -----------------------
-    // console.log("🔍 Checking for cartId sources...");
-  
-    if (typeof toolOutput.createCart?.cart?.id === 'string') {
-      setIf('cartId', toolOutput.createCart.cart.id);
-    }
+    setIf('cartId', toolOutput.createCart?.cart.id);
 
+    // availableServicesGiftCard
     if (typeof toolOutput.listPrice === 'number') {
-      setIf('totalAmount', toolOutput.listPrice/100);
+      setIf('totalAmount', toolOutput.listPrice / 100);
     }
-  
-    if (typeof toolOutput.updateCart?.cart?.id === 'string') {
+
+    if (toolOutput.updateCart) {
       setIf('cartId', toolOutput.updateCart.cart.id);
-    
-      if(toolOutput.updateCart.cart.summary){
-        setIf('totalAmount', toolOutput.updateCart.cart.summary.total/100);
-      }
-    }
-  
-    if (typeof toolOutput.cartId === 'string') {
-      setIf('cartId', toolOutput.cartId);
+      setIf('totalAmount', toolOutput.updateCart.cart.summary.total / 100);
     }
-  
+
     // ----------------------- PROMOTION -----------------------
-    if (Array.isArray(toolOutput.offers) && toolOutput.offers[0]?.id) {
-      setIf('promotionOfferId', toolOutput.offers[0].id);
-    }
-  
-    if (toolOutput.addCartOffer?.offer?.id) {
-      setIf('promotionOfferId', toolOutput.addCartOffer.offer.id);
+    setIf('promotionOfferId', toolOutput.addCartOffer?.offer.id);
+
+    // ----------------------- BOOKED SERVICES + GUESTS -----------------------
+    // addServiceToCart, add/removeCartGuest, removeItemInCart,
+    // updateCartSelectedBookableItem, getCartSummary, staff and add-on tools
+    const bookingCart =
+      toolOutput.addCartSelectedBookableItem?.cart ??
+      toolOutput.createCartGuest?.cart ??
+      toolOutput.deleteCartGuest?.cart ??
+      toolOutput.removeCartSelectedItem?.cart ??
+      toolOutput.cart ??
+      (toolOutput.guests && toolOutput.selectedItems
+        ? (toolOutput as CartBookingsFragment)
+        : undefined);
+
+    if (bookingCart && ctx.assistantType === 'booking') {
+      ctx.booking = { ...ctx.booking, ...cartBookings(bookingCart) };
     }
-  
-    // ----------------------- SELECTED ITEMS -----------------------
-    try {
-      const selectedItems =
-        toolOutput.selectedItems ||
-        toolOutput.cart?.selectedItems ||
-        toolOutput.data?.cart?.selectedItems;
-  
-      if (Array.isArray(selectedItems) && selectedItems.length > 0) {
-        const top = selectedItems[0];
-  
-        if (typeof top.id === 'string') setIf('serviceItemId', top.id);
-        if (typeof top.staffVariantId === 'string') setIf('staffVariantId', top.staffVariantId);
-      } else {
-        console.log("⚪ No selectedItems found");
-      }
-    } catch (err) {
-      console.log("❌ Error processing selectedItems", err);
-    }
-
-
-    // ----------------------- HANDLE addCartSelectedBookableItem -----------------------
-if (toolOutput.addCartSelectedBookableItem?.cart?.selectedItems) {
-  
-  
-  const sel = toolOutput.addCartSelectedBookableItem.cart.selectedItems;
-  
-
-  
-  if (Array.isArray(sel) && sel.length > 0) {
-    const top = sel[0];
 
-    if (typeof top.id === 'string') setIf('serviceItemId', top.id);
-    if (typeof top.staffVariantId === 'string') setIf('staffVariantId', top.staffVariantId);
-  }
-}
-
-  
-  
-    // ----------------------- BOOKABLE TIME -----------------------
-    try {
-      const bookable =
-        toolOutput.selectedBookableItem ||
-        toolOutput.cart?.selectedBookableItem ||
-        toolOutput.selected_bookable_item;
-  
-      if (bookable?.id) {
-        setIf('bookableTimeId', bookable.id);
-      } else {
-        console.log("⚪ No selectedBookableItem found");
-      }
-    } catch (err) {
-      console.log("❌ Error processing bookableTimeId", err);
+    // ----------------------- FAVORITE STAFF -----------------------
+    // selectStaff; "any available" keeps the favorite for next time
+    const chosenStaff = toolOutput.selectedStaff;
+    if (chosenStaff?.staffId) {
+      ctx.favoriteStaff = {
+        staffId: chosenStaff.staffId,
+        name: chosenStaff.name,
+      };
     }
 
-    console.log("clientinfo",toolOutput?.updateCart?.cart?.clientInformation);
-    console.log("clientinfo2",toolOutput?.cart?.clientInformation);
-    console.log("clientinfo3",toolOutput?.client?.email);
-    
-
-    if (toolOutput?.updateCart) {
-      await this.saveClientInfo(uuid, toolOutput.updateCart?.cart?.clientInformation);
+    const client = toolOutput.updateCart?.cart.clientInformation;
+    if (client) {
+      await this.saveClientInfo(uuid, {
+        email: client.email ?? undefined,
+        phone: client.phoneNumber ?? undefined,
+        name:
+          [client.firstName, client.lastName].filter(Boolean).join(' ') ||
+          undefined,
+      });
     }
-  
+
     // ----------------------- EMAIL + TOTAL AMOUNT -----------------------
-    try {
-      const email =
-        toolOutput.updateCart?.cart?.clientInformation?.email ||
-        toolOutput.cart?.clientInformation?.email ||
-        toolOutput.client?.email;
-  
-      if (email) {
-       setIf('clientEmail', email);
-      }
-  
-      const total =
-        toolOutput.getCartSummary?.cart?.summary?.total ??
-        toolOutput.cart?.summary?.total ??
-        toolOutput.cart?.total;
-  
-      if (typeof total === 'number') {
-        setIf('totalAmount', total / 100);
-      }
-    } catch (err) {
-      console.log("❌ Error processing email/total", err);
-    }
+    setIf(
+      'clientEmail',
+      toolOutput.updateCart?.cart.clientInformation?.email ||
+        toolOutput.cart?.clientInformation?.email,
+    );
 
+    const total = toolOutput.cart?.summary.total;
+    if (typeof total === 'number') {
+      setIf('totalAmount', total / 100);
+    }
 
-      // handle addonServices gather
-      try {
-        const selectedItems =
-          toolOutput.selectedItems ||
-          toolOutput.cart?.selectedItems ||
-          toolOutput.addCartSelectedBookableItem?.cart?.selectedItems ||
-          [];
-  
-        if (Array.isArray(selectedItems) && selectedItems.length > 0) {
-          const addonServices: { id: string; name: string }[] = [];
-          selectedItems.forEach((item: any) => {
-            const optionGroups = item.item?.optionGroups || [];
-            if (optionGroups.length > 0 && optionGroups[0].name?.toLowerCase() === "addon") {
-              addonServices.push({
-                id: item.id,
-                name: item?.item?.name || item?.name
-              });
-            }
-            if (Array.isArray(item.addons)) {
-              item.addons.forEach((a: any) => {
-                addonServices.push({ id: a.id, name: a.name });
-              });
-            }
-          });
-          // Fix: setIf("addonServices", ...) expects a keyof UserContext as the first argument,
-          // so ensure 'addonServices' is a key of ctx/UserContext, or use correct key.
-          // Let's use bracket notation and type assertion to avoid TypeScript error.
-          if (addonServices.length > 0) {
-            (setIf as any)('addonServices', addonServices);
-          }
-        }
-      } catch (err) {
-        console.log("❌ Error extracting addonServices", err);
-      }
-  
     await this.saveUserContext(uuid, ctx);
-
   }
 
   private async saveClientInfo(
     uuid: string,
-    info: { email?: string; phone?: string; name?: string }
+    info: { email?: string; phone?: string; name?: string },
   ) {
     const ctx = await this.loadUserContext(uuid);
-  
-    
+
     if (!ctx.assistantType) {
-      console.log("❌ No assistantType found. Cannot save client info.");
+      console.log('❌ No assistantType found. Cannot save client info.');
       return;
     }
-  
+
     switch (ctx.assistantType) {
-      case "booking":
+      case 'booking':
         ctx.booking = ctx.booking || {};
         ctx.booking.clientInfo = {
           ...(ctx.booking.clientInfo || {}),
           ...info,
         };
         break;
-  
-      case "membership":
+
+      case 'membership':
         ctx.membership = ctx.membership || {};
         ctx.membership.clientInfo = {
           ...(ctx.membership.clientInfo || {}),
           ...info,
         };
         break;
-  
-      case "giftcard":
+
+      case 'gift':
+      case 'giftcard':
         ctx.giftcard = ctx.giftcard || {};
         ctx.giftcard.clientInfo = {
           ...(ctx.giftcard.clientInfo || {}),
           ...info,
         };
         break;
-  
+
       default:
-        console.log("❌ Unknown assistantType:", ctx.assistantType);
+        console.log('❌ Unknown assistantType:', ctx.assistantType);
     }
 
-    console.log("new cartinfo",ctx);
-    
-  
+    console.log('new cartinfo', ctx);
+
     // 🔥 REMOVE OLD root-level fields (clientEmail etc.)
     delete ctx.clientEmail;
     delete ctx.awaitingClientDetails;
-  
+
     await this.saveUserContext(uuid, ctx);
   }
-  
 
+  /**
+   * Appointment tools run as the Boulevard client this user verified as, so
+   * `clientId` always comes from the context, never from the model. Without
+   * a verified identity the turn ends by asking who they are (answered in
+   * `startTurn`). Cancelling or moving an appointment is held back and the
+   * user asked to confirm it. Returns the tool output to submit instead of
+   * running the tool, a reply that ends the turn, or `null` to run it as
+   * usual.
+   */
+  private async guardAppointmentTool(
+    toolCall: any,
+    uuid: string,
+  ): Promise<ChatResponse | { tool_call_id: string; output: string } | null> {
+    const toolName: string = toolCall.function.name;
+    const fail = (code: string, message: string) => ({
+      tool_call_id: toolCall.id,
+      output: JSON.stringify({ error: { code, message, retryable: false } }),
+    });
 
+    const ctx = await this.loadUserContext(uuid);
+    const clientId = this.identity.verifiedClientId(ctx);
+    if (!clientId) {
+      ctx.identityVerification = { awaiting: 'contact' };
+      await this.saveUserContext(uuid, ctx);
+      return { reply: { role: 'assistant', content: ASK_FOR_CONTACT } };
+    }
 
-  public async setPaymentToken(token: string, sessionId:string, uuid :string) {
-      
-    const c = await this.loadUserContext(uuid);
-    
-    if (!c?.cartId) throw new Error('Cart not available');
-  
-    const res=await this.mcpClient.callTool({ 
-      name: 'addCartCardPaymentMethod', 
-      arguments: { cartId: c.cartId, token, select: true } 
-    });
+    let args: Record<string, unknown> = {};
+    try {
+      args = JSON.parse(toolCall.function.arguments || '{}');
+    } catch {
+      /* ignore */
+    }
+    args.clientId = clientId;
+    toolCall.function.arguments = JSON.stringify(args);
 
-    
-    
-    const checkoutResult: any = await this.mcpClient.callTool({ 
-      name: 'checkoutCart', 
-      arguments: { cartId: c.cartId } 
-    });
+    if (!needsConfirmation(toolName, args)) return null;
 
+    try {
+      const { appointments } = await this.callAppointmentTool<{
+        appointments: AppointmentView[];
+      }>('listMyAppointments', { clientId });
+      const appointment = appointments.find((a) => a.id === args.appointmentId);
+      if (!appointment) {
+        return fail(
+          'NOT_FOUND',
+          `No upcoming appointment with id ${String(args.appointmentId)}`,
+        );
+      }
 
-    console.log("checkoutCart result1",checkoutResult);
+      let newTime: string | undefined;
+      if (toolName === 'rescheduleAppointment') {
+        const { times } = await this.callAppointmentTool<{
+          times: RescheduleTime[];
+        }>('rescheduleAppointment', {
+          clientId,
+          appointmentId: args.appointmentId,
+          date: args.date,
+        });
+        const time = times.find(
+          (t) => t.bookableTimeId === args.bookableTimeId,
+        );
+        if (!time) {
+          return fail(
+            'VALIDATION',
+            `That time is not available on ${String(args.date)}; pick one rescheduleAppointment returned`,
+          );
+        }
+        newTime = formatInZone(time.startTime, appointment.location.tz);
+      }
 
-    const raw = checkoutResult.content?.[0]?.text;
+      ctx.pendingAppointmentAction = {
+        tool: toolName,
+        args,
+        description: describeAppointment(appointment),
+      };
+      await this.saveUserContext(uuid, ctx);
 
-    if (!raw) {
-      console.error("checkoutCart text is undefined");
-    } else {
-      const parsed = JSON.parse(raw);
-      const checkout = parsed.checkoutCart;
-      
-      console.log("checkoutCart result:", checkout);
-      
-      // ---- Extract values ----
-      
-      // multiple appointments possible
-      const checkoutAppointments = checkout.appointments.map(a => a.appointmentId);
-      
-      // multiple services/items
-      const selectedItems = checkout.cart.selectedItems;
-      
-      // single location
-      const location = checkout.cart.location;
-      const startTime=checkout.cart.startTime;
-      // single summary (NOT an array anymore)
-      const summary: Summary = {
-        discountAmount: checkout.cart.summary.discountAmount,
-        subtotal: checkout.cart.summary.subtotal,
-        taxAmount: checkout.cart.summary.taxAmount,
-        total: checkout.cart.summary.total,
+      return {
+        reply: {
+          role: 'assistant',
+          content: confirmationQuestion(ctx.pendingAppointmentAction, newTime),
+        },
       };
-      
-      // ---- Load context ----
-      const ctx = await this.loadUserContext(uuid);
+    } catch (err: any) {
+      return { tool_call_id: toolCall.id, output: err.message };
+    }
+  }
 
-      
-      
-      if(this.conversationHistory == "booking"){
-
-          // ensure booking exists
-          ctx.booking = ctx.booking ?? {};
-          
-          // ---- Assign into booking ----
-          ctx.booking.checkoutAppointments = checkoutAppointments;
-          ctx.booking.selectedItems = selectedItems;
-          ctx.booking.location = location;
-          ctx.booking.summary = summary;
-          ctx.booking.startTime = startTime;
-
-
-          console.log("setpayment ctxxxx >>> ",ctx);
-          console.log("setPayment ctxxxx selectedItems  >> ",selectedItems)
-
-          const completed: CompletedBooking = {
-            cartId: ctx.cartId!,
-            checkoutAppointments,
-            selectedItems,
-            location,
-            summary,
-            createdAt: new Date().toISOString(),
-            startTime
-          };
+  /**
+   * Puts the user on the waitlist with the entry joinWaitlist checked, and
+   * keeps it on their context. Tool errors go back to the model as they are.
+   */
+  private async joinWaitlist(
+    toolCall: any,
+    uuid: string,
+  ): Promise<{ tool_call_id: string; output: string }> {
+    const result = await this.executeMCPToolAndBuildPayload(toolCall, uuid);
+    let request: WaitlistRequest | undefined;
+    try {
+      request = JSON.parse(result.output)?.waitlist;
+    } catch {
+      /* not an entry */
+    }
+    if (!request) return result;
 
-        // ---- Save into appointmentHistory ----
-        ctx.appointmentHistory = ctx.appointmentHistory ?? [];
-        ctx.appointmentHistory.push(completed);
-      }else
-      if(this.conversationHistory == "membership"){
+    const entry = await this.waitlist.add(uuid, request);
+    const ctx = await this.loadUserContext(uuid);
+    ctx.waitlist = [...(ctx.waitlist ?? []), { entryId: entry.id, ...request }];
+    await this.saveUserContext(uuid, ctx);
 
+    return {
+      tool_call_id: toolCall.id,
+      output: JSON.stringify({
+        status: 'waitlisted',
+        entryId: entry.id,
+        ...request,
+      }),
+    };
+  }
 
-        // ensure booking exists
-        ctx.membership = ctx.booking ?? {};
-        
-        // ---- Assign into booking ----
-        ctx.membership.checkoutAppointments = checkoutAppointments;
-        ctx.membership.selectedItems = selectedItems;
-        ctx.membership.location = location;
-        ctx.membership.summary = summary;
-        ctx.membership.startTime = startTime;
-
-
-        console.log("setpayment ctxxxx >>> ",ctx);
-        console.log("setPayment ctxxxx selectedItems  >> ",selectedItems)
-
-        const completed: CompletedBooking = {
-          cartId: ctx.cartId!,
-          checkoutAppointments,
-          selectedItems,
-          location,
-          summary,
-          createdAt: new Date().toISOString(),
-          startTime
-        };
-        // ---- Save into membershipHistory ----
-        ctx.membershipHistory = ctx.membershipHistory ?? [];
-        ctx.membershipHistory.push(completed);
+  /**
+   * Takes the user's email/phone or one-time code while they are verifying
+   * who they are. Anything else drops the verification and the turn goes on
+   * as usual.
+   */
+  private async answerIdentityVerification(
+    userMessage: string,
+    uuid: string,
+  ): Promise<ChatResponse | null> {
+    const ctx = await this.loadUserContext(uuid);
+    const pending = ctx.identityVerification;
+    if (!pending) return null;
+
+    let content: string | null = null;
+    // The code never goes into the transcript
+    let said = userMessage;
+
+    if (pending.awaiting === 'contact') {
+      const contact = parseContact(userMessage);
+      if (contact) {
+        try {
+          const sent = await this.identity.sendCode(uuid, ctx, contact);
+          content =
+            sent === 'SENT'
+              ? codeSentMessage(contact)
+              : CODE_HELD_BACK_REPLIES[sent];
+        } catch (err: any) {
+          console.error('❌ Sending one-time code failed:', err);
+          content = CODE_NOT_SENT;
+        }
+      } else {
+        delete ctx.identityVerification;
+      }
+    } else {
+      const code = ONE_TIME_CODE.exec(userMessage)?.[1];
+      if (code) {
+        content =
+          CODE_CHECK_REPLIES[await this.identity.checkCode(uuid, ctx, code)];
+        said = userMessage.replace(code, '••••••');
+      } else {
+        delete ctx.identityVerification;
       }
+    }
 
-      console.log("setpayment ctxxxx membershipHistory  >> ",ctx.membershipHistory);
-      
-      
-      // ---- Save updated context ----
-      await this.saveUserContext(uuid, ctx);
-      
-      // continue flow
-      await this.extractStateFromToolOutput(checkoutResult, uuid);
-      
-      return checkoutResult;
-      
+    if (content) {
+      ctx.turns = this.appendTurn(ctx.turns, { role: 'user', content: said });
+      ctx.turns = this.appendTurn(ctx.turns, { role: 'assistant', content });
+    }
+    await this.saveUserContext(uuid, ctx);
+
+    return content ? { reply: { role: 'assistant', content } } : null;
+  }
+
+  /**
+   * Runs or drops the cancel/reschedule the user was asked to confirm.
+   * Anything but a yes or no drops it and the turn goes on as usual.
+   */
+  private async answerAppointmentConfirmation(
+    userMessage: string,
+    uuid: string,
+  ): Promise<ChatResponse | null> {
+    const ctx = await this.loadUserContext(uuid);
+    const pending = ctx.pendingAppointmentAction;
+    if (!pending) return null;
+
+    delete ctx.pendingAppointmentAction;
+
+    let content: string | null = null;
+    if (CONFIRMS.test(userMessage)) {
+      try {
+        const { appointment } = await this.callAppointmentTool<{
+          appointment: AppointmentView;
+        }>(pending.tool, pending.args);
+        content = completionMessage(pending.tool, appointment);
+      } catch (err: any) {
+        const failed: ToolErrorPayload | null = (() => {
+          try {
+            return JSON.parse(err.message);
+          } catch {
+            return null;
+          }
+        })();
+        content =
+          `Sorry, I couldn't change your ${pending.description}: ` +
+          `${failed?.error.message ?? err.message}`;
       }
+    } else if (DECLINES.test(userMessage)) {
+      content = `Okay, I've left your ${pending.description} as it is.`;
+    }
 
+    // Keep the exchange in the transcript so the model knows what happened
+    if (content) {
+      ctx.turns = this.appendTurn(ctx.turns, {
+        role: 'user',
+        content: userMessage,
+      });
+      ctx.turns = this.appendTurn(ctx.turns, { role: 'assistant', content });
+    }
+    await this.saveUserContext(uuid, ctx);
 
-}
+    return content ? { reply: { role: 'assistant', content } } : null;
+  }
+
+  // Throws the tool's error payload (JSON) as the message when it fails
+  private async callAppointmentTool<T>(
+    name: string,
+    args: Record<string, unknown>,
+  ): Promise<T> {
+    const result = await this.mcpPool.callTool('booking', {
+      name,
+      arguments: args,
+    });
+    const raw = result.content?.[0]?.text ?? '';
+    if (result.isError) throw new Error(raw);
+    return JSON.parse(raw);
+  }
+
+  /**
+   * Pays for the cart a verified checkout grant was issued for: attaches the
+   * card, checks out and records the result in the user's history.
+   *
+   * Safe to submit twice (double click, browser retry). Each grant maps to
+   * one idempotency key; a lock keeps concurrent submissions out, every
+   * completed step is persisted so a retry resumes after it, and once
+   * recorded the stored result is replayed. Recording rotates the session
+   * token, so a used grant can never start another checkout.
+   *
+   * Boulevard refusing the payment surfaces as a `CheckoutFailedException`.
+   */
+  public async setPaymentToken(
+    token: string,
+    grant: CheckoutGrant,
+  ): Promise<CheckoutCartMutation> {
+    const { uuid, sessionToken } = grant;
+    const c = await this.loadUserContext(uuid);
+
+    // This grant's checkout is done; hand back its result
+    if (c.lastCheckout?.sessionToken === sessionToken) {
+      const done = await this.checkoutLedger.load(
+        c.lastCheckout.idempotencyKey,
+      );
+      if (done?.state === 'recorded' && done.result) return done.result;
+    }
+
+    if (!c.cartId) {
+      throw new CheckoutFailedException('CART_EXPIRED', 'Cart not available');
+    }
+
+    // The cart or its total changed since the link was issued
+    if (
+      sessionToken !== c.sessionToken ||
+      grant.cartId !== c.cartId ||
+      grant.amount !== (c.totalAmount || 0)
+    ) {
+      throw new ForbiddenException('This checkout link is no longer valid.');
+    }
+
+    const cartId = c.cartId;
+    const key = CheckoutLedgerService.idempotencyKey(sessionToken, cartId);
+
+    const lock = await this.checkoutLedger.acquireLock(
+      key,
+      this.CHECKOUT_LOCK_TTL_MS,
+    );
+    if (!lock) {
+      throw new ConflictException('This payment is already being processed.');
+    }
+
+    try {
+      const record: CheckoutRecord = (await this.checkoutLedger.load(key)) ?? {
+        cartId,
+        state: 'pending',
+        updatedAt: new Date().toISOString(),
+      };
+      const advance = async (state: CheckoutState) => {
+        record.state = state;
+        record.updatedAt = new Date().toISOString();
+        await this.checkoutLedger.save(key, record);
+      };
+
+      const module = this.mcpPool.resolveModule(c.assistantType);
+
+      if (record.state === 'pending') {
+        await this.callCheckoutTool(module, 'addCartCardPaymentMethod', {
+          cartId,
+          token,
+          select: true,
+        });
+        await advance('card-attached');
+      }
+
+      if (record.state === 'card-attached') {
+        try {
+          record.result = await this.callCheckoutTool<CheckoutCartMutation>(
+            module,
+            'checkoutCart',
+            { cartId },
+          );
+        } catch (error) {
+          // The next submission brings another card, so attach it again
+          if (
+            error instanceof CheckoutFailedException &&
+            error.code === 'CARD_DECLINED'
+          ) {
+            await advance('pending');
+          }
+          throw error;
+        }
+        console.log('checkoutCart result:', record.result.checkoutCart);
+        await advance('checked-out');
+      }
+
+      if (record.state === 'checked-out') {
+        await this.recordCheckout(uuid, record.result!, key, sessionToken);
+        await advance('recorded');
+      }
+
+      return record.result!;
+    } finally {
+      await this.checkoutLedger.releaseLock(key, lock);
+    }
+  }
+
+  private async callCheckoutTool<T = unknown>(
+    module: McpModule,
+    name: string,
+    args: Record<string, unknown>,
+  ): Promise<T> {
+    const result = await this.mcpPool.callTool(module, {
+      name,
+      arguments: args,
+    });
+    const raw = result.content?.[0]?.text;
+    if (!raw) throw new Error(`${name} returned no content`);
+
+    if (result.isError) {
+      const failed: ToolErrorPayload = JSON.parse(raw);
+      throw checkoutFailure(failed.error);
+    }
+    return JSON.parse(raw);
+  }
+
+  /** Copies a completed checkout into the user's booking/membership history. */
+  private async recordCheckout(
+    uuid: string,
+    { checkoutCart: checkout }: CheckoutCartMutation,
+    idempotencyKey: string,
+    sessionToken: string,
+  ) {
+    const ctx = await this.loadUserContext(uuid);
+
+    // Recorded already, the process stopped before the ledger caught up
+    if (ctx.lastCheckout?.idempotencyKey === idempotencyKey) return;
+
+    // ---- Extract values ----
+
+    // multiple appointments possible
+    const checkoutAppointments = checkout.appointments.map(
+      (a) => a.appointmentId,
+    );
+
+    // multiple services/items
+    const selectedItems = checkout.cart.selectedItems;
+
+    // single location
+    const location = checkout.cart.location;
+    const startTime = checkout.cart.startTime;
+    // single summary (NOT an array anymore)
+    const summary: Summary = {
+      discountAmount: checkout.cart.summary.discountAmount,
+      subtotal: checkout.cart.summary.subtotal,
+      taxAmount: checkout.cart.summary.taxAmount,
+      total: checkout.cart.summary.total,
+    };
+
+    if (ctx.assistantType == 'booking') {
+      // ensure booking exists
+      ctx.booking = ctx.booking ?? {};
+
+      // ---- Assign into booking ----
+      ctx.booking.checkoutAppointments = checkoutAppointments;
+      // The cart is done; what it held is in appointmentHistory
+      delete ctx.booking.selectedItems;
+      delete ctx.booking.guests;
+      ctx.booking.location = location;
+      ctx.booking.summary = summary;
+      ctx.booking.startTime = startTime;
+
+      const completed: CompletedBooking = {
+        cartId: ctx.cartId!,
+        checkoutAppointments,
+        selectedItems,
+        location,
+        summary,
+        createdAt: new Date().toISOString(),
+        startTime,
+      };
+
+      // ---- Save into appointmentHistory ----
+      ctx.appointmentHistory = ctx.appointmentHistory ?? [];
+      ctx.appointmentHistory.push(completed);
+    } else if (ctx.assistantType == 'membership') {
+      // ensure booking exists
+      ctx.membership = ctx.membership ?? {};
+
+      // ---- Assign into booking ----
+      ctx.membership.checkoutAppointments = checkoutAppointments;
+      ctx.membership.selectedItems = selectedItems;
+      ctx.membership.location = location;
+      ctx.membership.summary = summary;
+      ctx.membership.startTime = startTime;
+
+      const completed: CompletedBooking = {
+        cartId: ctx.cartId!,
+        checkoutAppointments,
+        selectedItems,
+        location,
+        summary,
+        createdAt: new Date().toISOString(),
+        startTime,
+      };
+      // ---- Save into membershipHistory ----
+      ctx.membershipHistory = ctx.membershipHistory ?? [];
+      ctx.membershipHistory.push(completed);
+    }
+
+    ctx.lastCheckout = { idempotencyKey, sessionToken };
+    this.resetAfterCheckout(ctx);
+
+    // ---- Save updated context ----
+    await this.saveUserContext(uuid, ctx);
+
+    // continue flow
+    await this.extractStateFromToolOutput({ checkoutCart: checkout }, uuid);
+  }
 
   // public clearSession(sessionId = 'default') {
   //   delete this.sessionState[sessionId];
   //   delete this.creatingThread[sessionId];
   // }
 
-  async onModuleInit() {
-   // await this.initMCP();
+  onModuleInit() {
+    // await this.initMCP();
     // await this.initializeAssistantOnce();
 
+    console.log(`🧭 Chat orchestrator: ${this.orchestrator}`);
+
+    // Prompts and tools are in the repo → no assistant IDs needed
+    if (this.orchestrator === 'responses') return;
+
+    if (!this.openai)
+      throw new Error(
+        `CHAT_ORCHESTRATOR=assistants needs LLM_PROVIDER=openai (got "${this.llm.name}")`,
+      );
+
     if (!process.env.BOOKING_ASSISTANT_ID)
-      throw new Error("BOOKING_ASSISTANT_ID missing");
-  
+      throw new Error('BOOKING_ASSISTANT_ID missing');
+
     if (!process.env.GIFT_ASSISTANT_ID)
-      throw new Error("GIFT_ASSISTANT_ID missing");
-  
+      throw new Error('GIFT_ASSISTANT_ID missing');
+
     if (!process.env.MEMBERSHIP_ASSISTANT_ID)
-      throw new Error("MEMBERSHIP_ASSISTANT_ID missing");
-  
+      throw new Error('MEMBERSHIP_ASSISTANT_ID missing');
 
     console.log('🔍 OpenAI SDK initialized:', {
       hasBeta: !!this.openai?.beta,
@@ -1742,24 +2251,15 @@ if (toolOutput.addCartSelectedBookableItem?.cart?.selectedItems) {
   //   console.log("🧹 Thread cleaned for session:", this.sessionState);
   // }
 
-  async cleanupAfterCheckout(uuid: string) {
-    const ctx = await this.loadUserContext(uuid);
-    if (this.contextCache[uuid]) {
-       delete this.contextCache[uuid].threadId;
-      this.conversationHistory = null;
-      delete this.contextCache[uuid];
-      this.sessionToken = this.tokenGenerate(uuid);
-    }
-
-    if (ctx) {
-      // Clear ephemeral things but keep the rest (preferences etc.)
-      ctx.threadId = undefined;
-      ctx.cartId = undefined;
-      ctx.messageCount = 0;
-      ctx.sessionToken = this.tokenGenerate(uuid);
-      // Keep assistantType, preferences, last booked appointment etc.
-      await this.saveUserContext(uuid, ctx);
-    }
-    console.log("🧹 Context cleaned for user:", uuid);
+  // Saved with the checkout it follows, so a replayed submission never
+  // clears a conversation started since
+  private resetAfterCheckout(ctx: UserContext) {
+    // Clear ephemeral things but keep the rest (preferences etc.)
+    ctx.threadId = undefined;
+    ctx.turns = undefined;
+    ctx.cartId = undefined;
+    ctx.messageCount = 0;
+    ctx.sessionToken = crypto.randomUUID();
+    // Keep assistantType, preferences, last booked appointment etc.
   }
 }
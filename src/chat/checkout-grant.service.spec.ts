@@ -0,0 +1,52 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { CheckoutGrantService } from './checkout-grant.service.js';
+
+describe('CheckoutGrantService', () => {
+  const grant = {
+    uuid: 'user-a',
+    cartId: 'cart-a',
+    amount: 199,
+    sessionToken: 'token-a',
+  };
+  let grants: CheckoutGrantService;
+
+  beforeEach(() => {
+    process.env.CHECKOUT_GRANT_SECRET = 'test-secret';
+    grants = new CheckoutGrantService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('round-trips the grant it issued', () => {
+    expect(grants.verify(grants.issue(grant))).toEqual({
+      ...grant,
+      exp: expect.any(Number),
+    });
+  });
+
+  it('rejects tampered, foreign and malformed tokens', () => {
+    const token = grants.issue(grant);
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ ...grant, amount: 1, exp: 9999999999 }),
+    ).toString('base64url');
+
+    process.env.CHECKOUT_GRANT_SECRET = 'other-secret';
+    const foreign = new CheckoutGrantService().issue(grant);
+
+    for (const bad of [`${forged}.${signature}`, foreign, 'nope', undefined]) {
+      expect(() => grants.verify(bad)).toThrow(UnauthorizedException);
+    }
+  });
+
+  it('rejects expired tokens', () => {
+    jest.useFakeTimers({ now: new Date('2030-01-01T00:00:00Z') });
+    const token = grants.issue(grant);
+
+    jest.setSystemTime(new Date('2030-01-01T00:31:00Z'));
+
+    expect(() => grants.verify(token)).toThrow('expired');
+  });
+});
@@ -0,0 +1,78 @@
+// src/chat/checkout-grant.service.ts
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+
+/** What a checkout link lets its holder pay for. */
+export interface CheckoutGrant {
+  uuid: string;
+  cartId: string;
+  amount: number;
+  // The user's session token when the link was issued; rotated after a
+  // checkout is recorded, which is what makes the grant single-use
+  sessionToken: string;
+  // Unix seconds
+  exp: number;
+}
+
+const DEFAULT_TTL_SECONDS = 30 * 60;
+
+/**
+ * Issues and verifies the `token` in checkout links: the grant as base64url
+ * JSON plus an HMAC-SHA256 signature, so `/chat/receive-token` can trust the
+ * uuid, cart and amount it carries.
+ */
+@Injectable()
+export class CheckoutGrantService {
+  private readonly logger = new Logger(CheckoutGrantService.name);
+  private readonly secret: string;
+  private readonly ttlSeconds: number;
+
+  constructor() {
+    const secret = process.env.CHECKOUT_GRANT_SECRET;
+    if (!secret) {
+      // Links then stop working when the process restarts
+      this.logger.warn('CHECKOUT_GRANT_SECRET is not set; using a random one');
+    }
+    this.secret = secret || randomBytes(32).toString('hex');
+    this.ttlSeconds =
+      Number(process.env.CHECKOUT_GRANT_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+  }
+
+  issue(grant: Omit<CheckoutGrant, 'exp'>): string {
+    const exp = Math.floor(Date.now() / 1000) + this.ttlSeconds;
+    const payload = Buffer.from(JSON.stringify({ ...grant, exp })).toString(
+      'base64url',
+    );
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  verify(token: string | undefined): CheckoutGrant {
+    const [payload, signature] = token?.split('.') ?? [];
+    if (!payload || !signature) {
+      throw new UnauthorizedException('Missing or malformed checkout token');
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new UnauthorizedException('Invalid checkout token');
+    }
+
+    const grant: CheckoutGrant = JSON.parse(
+      Buffer.from(payload, 'base64url').toString('utf8'),
+    );
+    if (grant.exp * 1000 < Date.now()) {
+      throw new UnauthorizedException('Checkout link has expired');
+    }
+    return grant;
+  }
+
+  private sign(payload: string) {
+    return createHmac('sha256', this.secret)
+      .update(payload)
+      .digest('base64url');
+  }
+}
@@ -0,0 +1,101 @@
+// src/chat/checkout-ledger.service.ts
+import { createHash, randomUUID } from 'node:crypto';
+import { Injectable, OnApplicationShutdown } from '@nestjs/common';
+import Redis from 'ioredis';
+import type { CheckoutCartMutation } from '../blvd/index.js';
+
+/**
+ * Where a checkout got to. Each step is persisted before the next starts,
+ * so a retried submission resumes after the last one that succeeded.
+ */
+export type CheckoutState =
+  | 'pending'
+  | 'card-attached'
+  | 'checked-out'
+  | 'recorded';
+
+export interface CheckoutRecord {
+  cartId: string;
+  state: CheckoutState;
+  // Set once Boulevard has checked the cart out
+  result?: CheckoutCartMutation;
+  updatedAt: string;
+}
+
+// Long enough to outlive any retry of the payment page
+const RECORD_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Releases the lock only if we still hold it
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+/**
+ * Redis-backed record of checkouts, keyed by idempotency key, plus the lock
+ * that keeps two submissions of the same payment from running at once.
+ */
+@Injectable()
+export class CheckoutLedgerService implements OnApplicationShutdown {
+  private redis: any;
+
+  constructor() {
+    const redisUrl = process.env.REDIS_URL || 'redis://127.0.0.1:6379';
+    this.redis = new (Redis as any)(redisUrl);
+  }
+
+  /** One key per checkout link: the same session paying for the same cart. */
+  static idempotencyKey(sessionToken: string, cartId: string) {
+    return createHash('sha256')
+      .update(`${sessionToken}:${cartId}`)
+      .digest('hex');
+  }
+
+  private recordKey(key: string) {
+    return `chat:checkout:${key}`;
+  }
+
+  private lockKey(key: string) {
+    return `chat:checkout:${key}:lock`;
+  }
+
+  async load(key: string): Promise<CheckoutRecord | null> {
+    const raw = await this.redis.get(this.recordKey(key));
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async save(key: string, record: CheckoutRecord): Promise<void> {
+    await this.redis.set(
+      this.recordKey(key),
+      JSON.stringify(record),
+      'EX',
+      RECORD_TTL_SECONDS,
+    );
+  }
+
+  /**
+   * Takes the lock for `key`, returning the token to release it with, or
+   * `null` when another submission holds it. The TTL frees the lock if this
+   * process dies mid-checkout.
+   */
+  async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    const token = randomUUID();
+    const ok = await this.redis.set(
+      this.lockKey(key),
+      token,
+      'PX',
+      ttlMs,
+      'NX',
+    );
+    return ok === 'OK' ? token : null;
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    await this.redis.eval(RELEASE_SCRIPT, 1, this.lockKey(key), token);
+  }
+
+  async onApplicationShutdown() {
+    await this.redis.quit().catch(() => undefined);
+  }
+}
@@ -0,0 +1,111 @@
+import type { CheckoutCartMutation } from '../blvd/index.js';
+import {
+  buildReceipt,
+  checkoutFailure,
+  renderReceipt,
+} from './checkout-receipt.js';
+
+describe('checkout receipt', () => {
+  const checkout = {
+    checkoutCart: {
+      appointments: [{ appointmentId: 'urn:blvd:Appointment:appt-1' }],
+      cart: {
+        id: 'urn:blvd:Cart:3f2a9c1b-0000-4000-8000-000000000000',
+        startTime: '2030-01-07T18:00:00Z',
+        location: {
+          id: 'urn:blvd:Location:loc-downtown',
+          name: 'Downtown',
+          tz: 'America/Los_Angeles',
+        },
+        selectedItems: [
+          {
+            id: 'sel-1',
+            price: 19900,
+            lineTotal: 17900,
+            item: { name: 'Classic HydraFacial' },
+            selectedStaffVariant: {
+              staff: { displayName: null, firstName: 'Ava', lastName: 'Lee' },
+            },
+          },
+          {
+            id: 'sel-2',
+            price: 2500,
+            lineTotal: null,
+            item: { name: 'Gift Card' },
+          },
+        ],
+        summary: {
+          subtotal: 22400,
+          discountAmount: 2000,
+          taxAmount: 0,
+          total: 20400,
+        },
+      },
+    },
+  } as unknown as CheckoutCartMutation;
+
+  it('builds the receipt from the checkout result', () => {
+    expect(buildReceipt(checkout)).toEqual({
+      reference: '3F2A9C1B',
+      cartId: 'urn:blvd:Cart:3f2a9c1b-0000-4000-8000-000000000000',
+      appointmentIds: ['urn:blvd:Appointment:appt-1'],
+      location: {
+        id: 'urn:blvd:Location:loc-downtown',
+        name: 'Downtown',
+        tz: 'America/Los_Angeles',
+      },
+      startTime: '2030-01-07T18:00:00Z',
+      startTimeLocal: expect.stringMatching(
+        /^Monday, January 7, 2030.* 10:00\sAM PST$/,
+      ),
+      lineItems: [
+        {
+          id: 'sel-1',
+          name: 'Classic HydraFacial',
+          staff: 'Ava Lee',
+          price: 17900,
+        },
+        { id: 'sel-2', name: 'Gift Card', staff: null, price: 2500 },
+      ],
+      subtotal: 22400,
+      discount: 2000,
+      tax: 0,
+      total: 20400,
+    });
+  });
+
+  it('renders the receipt without zero amounts', () => {
+    const content = renderReceipt(buildReceipt(checkout));
+
+    expect(content).toContain('Reference 3F2A9C1B');
+    expect(content).toContain('Classic HydraFacial with Ava Lee — $179.00');
+    expect(content).toContain('📍 Downtown');
+    expect(content).toContain('Discount: $20.00');
+    expect(content).toContain('Total: $204.00');
+    expect(content).not.toContain('Tax');
+  });
+
+  it.each([
+    ['Your card was declined', 'VALIDATION', 'CARD_DECLINED', 422],
+    ['Insufficient funds', 'VALIDATION', 'CARD_DECLINED', 422],
+    [
+      'Bookable time is no longer available',
+      'VALIDATION',
+      'SLOT_UNAVAILABLE',
+      422,
+    ],
+    ['Cart has expired', 'VALIDATION', 'CART_EXPIRED', 422],
+    ['Cart not found: urn:blvd:Cart:x', 'NOT_FOUND', 'CART_EXPIRED', 422],
+    ['Bad gateway', 'UPSTREAM', 'CHECKOUT_FAILED', 502],
+  ] as const)('classifies "%s" as %s', (message, code, expected, status) => {
+    const failure = checkoutFailure({ code, message, retryable: false });
+
+    expect(failure.getStatus()).toBe(status);
+    expect(failure.getResponse()).toMatchObject({
+      statusCode: status,
+      code: expected,
+      message,
+      reply: { role: 'assistant', content: expect.any(String) },
+    });
+  });
+});
@@ -0,0 +1,169 @@
+// src/chat/checkout-receipt.ts
+import { HttpException, HttpStatus } from '@nestjs/common';
+import type { CheckoutCartMutation, ToolErrorPayload } from '../blvd/index.js';
+import type {
+  CheckoutFailureCode,
+  CheckoutFailureResponse,
+  CheckoutReceipt,
+} from './dto/checkout-receipt.dto.js';
+import { formatInZone } from './time-format.js';
+
+/** Builds the receipt for a completed checkout. */
+export function buildReceipt({
+  checkoutCart: { appointments, cart },
+}: CheckoutCartMutation): CheckoutReceipt {
+  const location = cart.location
+    ? { id: cart.location.id, name: cart.location.name, tz: cart.location.tz }
+    : null;
+
+  return {
+    reference: receiptReference(cart.id),
+    cartId: cart.id,
+    appointmentIds: appointments.map((a) => a.appointmentId),
+    location,
+    startTime: cart.startTime,
+    startTimeLocal:
+      cart.startTime && location
+        ? formatInZone(cart.startTime, location.tz)
+        : null,
+    lineItems: cart.selectedItems.map((selected) => {
+      const staff =
+        'selectedStaffVariant' in selected
+          ? selected.selectedStaffVariant?.staff
+          : undefined;
+      return {
+        id: selected.id,
+        name: selected.item.name,
+        staff: staff ? staffName(staff) : null,
+        price: selected.lineTotal ?? selected.price,
+      };
+    }),
+    subtotal: cart.summary.subtotal,
+    discount: cart.summary.discountAmount,
+    tax: cart.summary.taxAmount,
+    total: cart.summary.total,
+  };
+}
+
+/** The receipt as the markdown message shown in the chat. */
+export function renderReceipt(receipt: CheckoutReceipt): string {
+  const items = receipt.lineItems.map(
+    (item) =>
+      `${item.name}${item.staff ? ` with ${item.staff}` : ''} — ${dollars(item.price)}`,
+  );
+  const when = [
+    receipt.location ? `📍 ${receipt.location.name}` : '',
+    receipt.startTimeLocal ? `🗓️ ${receipt.startTimeLocal}` : '',
+  ];
+  // Zero amounts are left out, as before
+  const totals = [
+    ['Subtotal', receipt.subtotal],
+    ['Discount', receipt.discount],
+    ['Tax', receipt.tax],
+    ['Total', receipt.total],
+  ]
+    .filter(([, amount]) => amount)
+    .map(([label, amount]) => `${label}: ${dollars(amount as number)}`);
+
+  return [
+    '🧾 **Checkout Summary**',
+    `Reference ${receipt.reference}`,
+    ...items,
+    ...when,
+    ...totals,
+    '🙏 Thank you for your purchase!',
+  ]
+    .filter((line) => line !== '')
+    .join('\n\n');
+}
+
+const FAILURE_REPLIES: Record<CheckoutFailureCode, string> = {
+  CARD_DECLINED:
+    'Your card was declined. Please try again with a different card.',
+  SLOT_UNAVAILABLE:
+    "Sorry, that time is no longer available. Tell me another time that works and I'll find you a new slot.",
+  CART_EXPIRED:
+    "Your cart has expired, so nothing was charged. Let's start your booking again.",
+  CHECKOUT_FAILED:
+    "We couldn't complete your payment. Nothing was charged; please try again in a moment.",
+};
+
+/**
+ * A checkout Boulevard refused or could not complete. The body carries a
+ * `code` the payment page can branch on and a `reply` to show in the chat.
+ */
+export class CheckoutFailedException extends HttpException {
+  constructor(
+    readonly code: CheckoutFailureCode,
+    message: string,
+    retryable = code === 'CARD_DECLINED',
+  ) {
+    const statusCode =
+      code === 'CHECKOUT_FAILED'
+        ? HttpStatus.BAD_GATEWAY
+        : HttpStatus.UNPROCESSABLE_ENTITY;
+    const body: CheckoutFailureResponse = {
+      statusCode,
+      code,
+      message,
+      retryable,
+      reply: { role: 'assistant', content: FAILURE_REPLIES[code] },
+    };
+    super(body, statusCode);
+  }
+}
+
+/**
+ * Classifies the error a checkout tool returned. Boulevard only tells these
+ * cases apart in the message, so they are matched on it.
+ */
+export function checkoutFailure({
+  code,
+  message,
+  retryable,
+}: ToolErrorPayload['error']): CheckoutFailedException {
+  if (
+    /declin|insufficient funds|do not honou?r|card .*(invalid|expired)/i.test(
+      message,
+    )
+  ) {
+    return new CheckoutFailedException('CARD_DECLINED', message);
+  }
+  if (
+    /\bcart\b.*\b(expired|not found|already been checked out)/i.test(message)
+  ) {
+    return new CheckoutFailedException('CART_EXPIRED', message);
+  }
+  if (
+    /no longer available|not available|unavailable|already booked|bookable time/i.test(
+      message,
+    )
+  ) {
+    return new CheckoutFailedException('SLOT_UNAVAILABLE', message);
+  }
+  if (code === 'NOT_FOUND') {
+    return new CheckoutFailedException('CART_EXPIRED', message);
+  }
+  return new CheckoutFailedException('CHECKOUT_FAILED', message, retryable);
+}
+
+// Last segment of the cart URN: stable across replays of the same checkout.
+// Boulevard knows the booking by its appointment ids, not by this.
+function receiptReference(cartId: string) {
+  const id = cartId.split(':').pop() ?? cartId;
+  return id.replace(/-/g, '').slice(0, 8).toUpperCase();
+}
+
+function staffName(staff: {
+  displayName: string | null;
+  firstName: string | null;
+  lastName: string | null;
+}) {
+  return (
+    staff.displayName ||
+    [staff.firstName, staff.lastName].filter(Boolean).join(' ') ||
+    null
+  );
+}
+
+const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
@@ -0,0 +1,32 @@
+// src/chat/dto/chat-message.dto.ts
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/** Body of `POST /chat` and `POST /chat/stream`, query of `GET /chat/stream`. */
+export class ChatMessageDto {
+  @ApiProperty({
+    description: 'What the user typed',
+    example: 'I want to book a facial next Monday',
+    maxLength: 4000,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4000)
+  chatInput: string;
+
+  // Browser session; conversation state is keyed by `uuid`
+  @ApiPropertyOptional({ description: 'Browser session id' })
+  @IsOptional()
+  @IsString()
+  sessionId?: string;
+
+  @ApiProperty({
+    description: 'Stable user id; all conversation state is stored under it',
+    example: '6f1c2a0e-8a54-4a8e-9d6b-2f0d3b1c9e77',
+    maxLength: 128,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  uuid: string;
+}
@@ -0,0 +1,41 @@
+// src/chat/dto/chat-reply.dto.ts
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const FRONTEND_ACTION_TYPES = ['SHOW_PAY_BUTTON'] as const;
+
+/** Tells the frontend to render something besides the text, e.g. a pay button. */
+export class FrontendAction {
+  @ApiProperty({
+    enum: FRONTEND_ACTION_TYPES,
+    description:
+      '`SHOW_PAY_BUTTON`: show a pay button that opens `checkoutUrl`. ' +
+      'The payment page then posts the card to `/chat/receive-token`.',
+  })
+  type: (typeof FRONTEND_ACTION_TYPES)[number];
+
+  @ApiProperty({
+    description:
+      'Payment page link. Its `token` parameter is a signed, expiring ' +
+      'checkout grant for this user, cart and amount.',
+    example:
+      'https://pay.example.com/?email=jane@example.com&amount=199&token=eyJ1dWlkIjoi...',
+  })
+  checkoutUrl: string;
+}
+
+/** One assistant message, as returned by every chat route. */
+export class ChatReply {
+  @ApiProperty({ enum: ['assistant'] })
+  role: 'assistant';
+
+  @ApiProperty({ description: 'Markdown text to show the user' })
+  content: string;
+
+  @ApiPropertyOptional({ type: FrontendAction })
+  frontendAction?: FrontendAction;
+}
+
+export class ChatResponse {
+  @ApiProperty({ type: ChatReply })
+  reply: ChatReply;
+}
@@ -0,0 +1,127 @@
+// src/chat/dto/checkout-receipt.dto.ts
+import { ApiProperty } from '@nestjs/swagger';
+import { ChatReply } from './chat-reply.dto.js';
+
+// Amounts are in cents, as Boulevard returns them
+
+export class ReceiptLineItem {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: 'Classic HydraFacial' })
+  name: string;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'Who performs the service, when one was chosen',
+  })
+  staff: string | null;
+
+  @ApiProperty({ description: 'Line total in cents', example: 19900 })
+  price: number;
+}
+
+export class ReceiptLocation {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: 'Downtown' })
+  name: string;
+
+  @ApiProperty({ example: 'America/Los_Angeles' })
+  tz: string;
+}
+
+export class CheckoutReceipt {
+  @ApiProperty({
+    description:
+      'Short reference to this checkout, taken from the cart id. Boulevard does not know it; look bookings up by `appointmentIds`',
+    example: '3F2A9C1B',
+  })
+  reference: string;
+
+  @ApiProperty()
+  cartId: string;
+
+  @ApiProperty({ type: [String] })
+  appointmentIds: string[];
+
+  @ApiProperty({ type: ReceiptLocation, nullable: true })
+  location: ReceiptLocation | null;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'Start of the first appointment (ISO 8601)',
+  })
+  startTime: string | null;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: "`startTime` formatted in the location's time zone",
+    example: 'Monday, October 26, 2026 at 10:00 AM PDT',
+  })
+  startTimeLocal: string | null;
+
+  @ApiProperty({ type: [ReceiptLineItem] })
+  lineItems: ReceiptLineItem[];
+
+  @ApiProperty({ description: 'In cents' })
+  subtotal: number;
+
+  @ApiProperty({ description: 'In cents' })
+  discount: number;
+
+  @ApiProperty({ description: 'In cents' })
+  tax: number;
+
+  @ApiProperty({ description: 'In cents' })
+  total: number;
+}
+
+/** Response of a successful `POST /chat/receive-token`. */
+export class CheckoutResponse {
+  @ApiProperty({ type: ChatReply, description: 'The receipt, rendered' })
+  reply: ChatReply;
+
+  @ApiProperty({ type: CheckoutReceipt })
+  receipt: CheckoutReceipt;
+}
+
+export const CHECKOUT_FAILURE_CODES = [
+  'CARD_DECLINED',
+  'SLOT_UNAVAILABLE',
+  'CART_EXPIRED',
+  'CHECKOUT_FAILED',
+] as const;
+
+export type CheckoutFailureCode = (typeof CHECKOUT_FAILURE_CODES)[number];
+
+/** Body of a checkout Boulevard refused (422) or could not complete (502). */
+export class CheckoutFailureResponse {
+  @ApiProperty({ example: 422 })
+  statusCode: number;
+
+  @ApiProperty({
+    enum: CHECKOUT_FAILURE_CODES,
+    description:
+      '`CARD_DECLINED`: retry the same link with another card. ' +
+      '`SLOT_UNAVAILABLE`: the time was taken; pick another in the chat. ' +
+      '`CART_EXPIRED`: the cart is gone; start the booking again. ' +
+      '`CHECKOUT_FAILED`: anything else.',
+  })
+  code: CheckoutFailureCode;
+
+  @ApiProperty({ example: 'Your card was declined.' })
+  message: string;
+
+  @ApiProperty({
+    description: 'Whether resubmitting the same payment may work',
+  })
+  retryable: boolean;
+
+  @ApiProperty({ type: ChatReply, description: 'What to tell the user' })
+  reply: ChatReply;
+}
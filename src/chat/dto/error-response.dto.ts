@@ -0,0 +1,18 @@
+// src/chat/dto/error-response.dto.ts
+import { ApiProperty } from '@nestjs/swagger';
+
+/** Nest's error body, as sent for every 4xx/5xx. */
+export class ErrorResponse {
+  @ApiProperty({ example: 400 })
+  statusCode: number;
+
+  @ApiProperty({
+    oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+    description: 'Validation errors come as one message per failed rule',
+    example: ['uuid should not be empty'],
+  })
+  message: string | string[];
+
+  @ApiProperty({ example: 'Bad Request' })
+  error: string;
+}
@@ -0,0 +1,15 @@
+// src/chat/dto/prompt-suggestions.dto.ts
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, MaxLength } from 'class-validator';
+
+/** Body of `POST /chat/prompt-suggestions`. */
+export class PromptSuggestionsDto {
+  @ApiProperty({
+    description: 'Latest user message to suggest follow-ups for',
+    example: 'What facials do you offer?',
+    maxLength: 4000,
+  })
+  @IsString()
+  @MaxLength(4000)
+  userContent: string;
+}
@@ -0,0 +1,25 @@
+// src/chat/dto/receive-token.dto.ts
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/** Body the payment page posts to `POST /chat/receive-token`. */
+export class ReceiveTokenDto {
+  @ApiProperty({ description: "Card token from Boulevard's vault" })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({
+    description:
+      'The `token` query parameter of the `SHOW_PAY_BUTTON` checkout link',
+  })
+  @IsString()
+  @IsNotEmpty()
+  checkoutToken: string;
+
+  @ApiProperty({ description: 'Same user id as on `/chat`', maxLength: 128 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  uuid: string;
+}
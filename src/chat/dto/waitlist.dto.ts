@@ -0,0 +1,101 @@
+// src/chat/dto/waitlist.dto.ts
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import type { WaitlistStatus } from '../waitlist/waitlist.js';
+
+const STATUSES: WaitlistStatus[] = ['waiting', 'notified', 'expired'];
+
+/** Query of `GET /admin/waitlist`. */
+export class WaitlistQueryDto {
+  @ApiPropertyOptional({
+    enum: STATUSES,
+    description: 'Only entries in this state',
+  })
+  @IsOptional()
+  @IsIn(STATUSES)
+  status?: WaitlistStatus;
+}
+
+export class WaitlistContactView {
+  @ApiPropertyOptional({ example: 'Mia' })
+  name?: string;
+
+  @ApiPropertyOptional({ example: 'mia@example.com' })
+  email?: string;
+
+  @ApiPropertyOptional({ description: 'E.164', example: '+14155550123' })
+  phone?: string;
+}
+
+export class WaitlistTimeWindow {
+  @ApiPropertyOptional({ description: 'Local time, HH:mm', example: '17:00' })
+  earliest?: string;
+
+  @ApiPropertyOptional({ description: 'Local time, HH:mm', example: '20:00' })
+  latest?: string;
+}
+
+export class WaitlistSlotView {
+  @ApiProperty({ example: '2026-10-26' })
+  date: string;
+
+  @ApiProperty({ example: '10:00' })
+  time: string;
+
+  @ApiProperty({ example: 'Mon, Oct 26, 10:00 AM PDT' })
+  label: string;
+
+  @ApiProperty({ example: '2026-10-26T10:00:00-07:00' })
+  startTime: string;
+}
+
+// Dates are YYYY-MM-DD at the location
+export class WaitlistEntryView {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ description: 'Conversation (user uuid) that joined' })
+  uuid: string;
+
+  @ApiProperty({ enum: STATUSES })
+  status: WaitlistStatus;
+
+  @ApiProperty()
+  locationId: string;
+
+  @ApiProperty({ example: 'Downtown' })
+  locationName: string;
+
+  @ApiProperty({ example: 'America/Los_Angeles' })
+  timeZone: string;
+
+  @ApiProperty()
+  serviceId: string;
+
+  @ApiProperty({ example: 'Classic HydraFacial' })
+  serviceName: string;
+
+  @ApiProperty({ example: '2026-10-20' })
+  dateFrom: string;
+
+  @ApiProperty({ example: '2026-10-27' })
+  dateTo: string;
+
+  @ApiPropertyOptional({ type: WaitlistTimeWindow })
+  timeWindow?: WaitlistTimeWindow;
+
+  @ApiProperty({ type: WaitlistContactView })
+  contact: WaitlistContactView;
+
+  @ApiProperty()
+  createdAt: string;
+
+  @ApiPropertyOptional()
+  notifiedAt?: string;
+
+  @ApiPropertyOptional({
+    type: WaitlistSlotView,
+    description: 'The time the client was told about',
+  })
+  opening?: WaitlistSlotView;
+}
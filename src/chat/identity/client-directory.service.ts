@@ -0,0 +1,67 @@
+// src/chat/identity/client-directory.service.ts
+import { Injectable } from '@nestjs/common';
+import {
+  BoulevardClient,
+  isValidEmail,
+  loadBoulevardConfig,
+  normalizeEmail,
+  normalizePhone,
+} from '../../blvd/index.js';
+import {
+  FindClientsDocument,
+  type FindClientsQuery,
+} from '../../blvd/generated/admin.js';
+
+/** How a user says who they are: the email or mobile number they booked with. */
+export interface ClientContact {
+  kind: 'email' | 'phone';
+  // Normalized: lower-case email, or E.164 phone number
+  value: string;
+}
+
+export type DirectoryClient =
+  FindClientsQuery['clients']['edges'][number]['node'];
+
+const EMAIL_IN_TEXT = /[^\s<>(),;:]+@[^\s<>(),;:]+\.[A-Za-z]{2,}/;
+const PHONE_IN_TEXT = /\+?\d[\d\s().-]{8,}\d/;
+
+/** Finds an email address or phone number in a chat message. */
+export function parseContact(text: string): ClientContact | null {
+  const email = EMAIL_IN_TEXT.exec(text)?.[0];
+  if (email && isValidEmail(email)) {
+    return { kind: 'email', value: normalizeEmail(email) };
+  }
+
+  const phone = PHONE_IN_TEXT.exec(text)?.[0];
+  const value = phone && normalizePhone(phone);
+  return value ? { kind: 'phone', value } : null;
+}
+
+/**
+ * Looks clients up on the Boulevard Admin API. Only the chat backend talks
+ * to it directly: client records are never exposed to the model as a tool.
+ */
+@Injectable()
+export class ClientDirectoryService {
+  private readonly blvd = loadBoulevardConfig().then(
+    (config) => new BoulevardClient(config),
+  );
+
+  /**
+   * The one client with this email or mobile number, or `null` when there is
+   * none or the contact is shared by several (we can't tell who is asking).
+   */
+  async findClient(contact: ClientContact): Promise<DirectoryClient | null> {
+    // `parseContact` only yields values that cannot contain a quote
+    const query =
+      contact.kind === 'email'
+        ? `email = '${contact.value}'`
+        : `mobilePhone = '${contact.value}'`;
+
+    const blvd = await this.blvd;
+    const { clients } = await blvd.request(FindClientsDocument, 'ADMIN', {
+      query,
+    });
+    return clients.edges.length === 1 ? clients.edges[0].node : null;
+  }
+}
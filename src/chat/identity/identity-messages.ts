@@ -0,0 +1,40 @@
+// src/chat/identity/identity-messages.ts
+import type { ClientContact } from './client-directory.service.js';
+import type { CodeCheck, CodeSend } from './identity.service.js';
+
+export const ASK_FOR_CONTACT =
+  "Before I can look up your appointments I need to check it's you. " +
+  "What's the email address or mobile number you booked with?";
+
+const TRY_AGAIN_LATER =
+  "so I can't check it's you for now. Please try again in an hour.";
+
+export const CODE_NOT_SENT =
+  "Sorry, I couldn't send a code just now. Please try your email or mobile number again in a moment.";
+
+// Why no code went out, also the same for every contact
+export const CODE_HELD_BACK_REPLIES: Record<
+  Exclude<CodeSend, 'SENT'>,
+  string
+> = {
+  TOO_SOON:
+    'A code was sent moments ago. Please wait a minute, then send your email or mobile number again.',
+  LOCKED: `Too many codes have been asked for or entered wrong, ${TRY_AGAIN_LATER}`,
+};
+
+// Same wording whether or not the contact belongs to a client
+export function codeSentMessage(contact: ClientContact): string {
+  const where = contact.kind === 'email' ? 'email' : 'text';
+  return `If ${contact.value} is on file with us, we've sent a 6-digit code there by ${where}. What's the code?`;
+}
+
+export const CODE_CHECK_REPLIES: Record<CodeCheck, string> = {
+  VERIFIED:
+    "Thanks, you're verified. What would you like to do with your appointments?",
+  INCORRECT: "That code doesn't match. Please check it and try again.",
+  EXPIRED:
+    'That code has expired. Ask me about your appointments again to get a new one.',
+  LOCKED: `That code didn't match too many times, ${TRY_AGAIN_LATER}`,
+};
+
+export const ONE_TIME_CODE = /\b(\d{6})\b/;
@@ -0,0 +1,185 @@
+import type { UserContext } from '../user-context.js';
+import {
+  parseContact,
+  type ClientDirectoryService,
+} from './client-directory.service.js';
+import { IdentityService } from './identity.service.js';
+import type { OtpMessage } from './otp-notifier.js';
+import type { VerificationLimitsService } from './verification-limits.service.js';
+import { InMemoryVerificationLimitsService } from '../../../test/in-memory-stores.js';
+
+describe('IdentityService', () => {
+  const jane = {
+    id: 'urn:blvd:Client:jane',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: 'jane@example.com',
+    mobilePhone: '+15555550100',
+  };
+  let sent: OtpMessage[];
+  let identity: IdentityService;
+  let ctx: UserContext;
+  const uuid = 'user-1';
+
+  beforeEach(() => {
+    sent = [];
+    const directory = {
+      findClient: ({ value }) =>
+        Promise.resolve(
+          value === jane.email || value === jane.mobilePhone ? jane : null,
+        ),
+    } as ClientDirectoryService;
+    identity = new IdentityService(
+      directory,
+      {
+        send: (message) => {
+          sent.push(message);
+          return Promise.resolve();
+        },
+      },
+      new InMemoryVerificationLimitsService() as unknown as VerificationLimitsService,
+    );
+    ctx = {};
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('finds an email or phone number in a message', () => {
+    expect(parseContact('it is Jane@Example.com thanks')).toEqual({
+      kind: 'email',
+      value: 'jane@example.com',
+    });
+    expect(parseContact('(555) 555-0100')).toEqual({
+      kind: 'phone',
+      value: '+15555550100',
+    });
+    expect(parseContact('tomorrow at 10')).toBeNull();
+  });
+
+  it('stores the client once the code sent to them is entered', async () => {
+    await identity.sendCode(uuid, ctx, {
+      kind: 'phone',
+      value: jane.mobilePhone,
+    });
+
+    expect(sent).toEqual([
+      expect.objectContaining({ channel: 'sms', to: jane.mobilePhone }),
+    ]);
+    expect(JSON.stringify(ctx)).not.toContain(sent[0].code);
+
+    expect(await identity.checkCode(uuid, ctx, sent[0].code)).toBe('VERIFIED');
+    expect(identity.verifiedClientId(ctx)).toBe(jane.id);
+    expect(ctx.identityVerification).toBeUndefined();
+  });
+
+  it('sends nothing for an unknown contact and accepts no code', async () => {
+    await identity.sendCode(uuid, ctx, {
+      kind: 'email',
+      value: 'who@example.com',
+    });
+
+    expect(sent).toEqual([]);
+    expect(ctx.identityVerification).toMatchObject({ awaiting: 'code' });
+    expect(await identity.checkCode(uuid, ctx, '000000')).toBe('INCORRECT');
+    expect(identity.verifiedClientId(ctx)).toBeNull();
+  });
+
+  it('drops the verification after five wrong codes', async () => {
+    await identity.sendCode(uuid, ctx, { kind: 'email', value: jane.email });
+    const wrong = sent[0].code === '000000' ? '111111' : '000000';
+
+    for (let i = 0; i < 4; i++) {
+      expect(await identity.checkCode(uuid, ctx, wrong)).toBe('INCORRECT');
+    }
+    expect(await identity.checkCode(uuid, ctx, wrong)).toBe('LOCKED');
+    expect(await identity.checkCode(uuid, ctx, sent[0].code)).toBe('EXPIRED');
+    expect(identity.verifiedClientId(ctx)).toBeNull();
+  });
+
+  it('expires codes after ten minutes and identities after a day', async () => {
+    jest.useFakeTimers({
+      now: new Date('2030-01-01T00:00:00Z'),
+      doNotFake: ['setImmediate'],
+    });
+    await identity.sendCode(uuid, ctx, { kind: 'email', value: jane.email });
+
+    jest.setSystemTime(new Date('2030-01-01T00:11:00Z'));
+    expect(await identity.checkCode(uuid, ctx, sent[0].code)).toBe('EXPIRED');
+
+    await identity.sendCode(uuid, ctx, { kind: 'email', value: jane.email });
+    expect(await identity.checkCode(uuid, ctx, sent[1].code)).toBe('VERIFIED');
+
+    jest.setSystemTime(new Date('2030-01-02T00:12:00Z'));
+    expect(identity.verifiedClientId(ctx)).toBeNull();
+    expect(ctx.identity).toBeUndefined();
+  });
+
+  it('keeps counting wrong codes across new codes, for the contact too', async () => {
+    jest.useFakeTimers({
+      now: new Date('2030-01-01T00:00:00Z'),
+      doNotFake: ['setImmediate'],
+    });
+    const email = { kind: 'email', value: jane.email } as const;
+    await identity.sendCode(uuid, ctx, email);
+    const wrong = (code: string) => (code === '000000' ? '111111' : '000000');
+
+    for (let i = 0; i < 3; i++) {
+      expect(await identity.checkCode(uuid, ctx, wrong(sent[0].code))).toBe(
+        'INCORRECT',
+      );
+    }
+    jest.setSystemTime(new Date('2030-01-01T00:02:00Z'));
+    expect(await identity.sendCode(uuid, ctx, email)).toBe('SENT');
+    expect(await identity.checkCode(uuid, ctx, wrong(sent[1].code))).toBe(
+      'INCORRECT',
+    );
+    expect(await identity.checkCode(uuid, ctx, wrong(sent[1].code))).toBe(
+      'LOCKED',
+    );
+
+    // Nothing more is sent there, whichever conversation asks
+    jest.setSystemTime(new Date('2030-01-01T00:04:00Z'));
+    expect(await identity.sendCode(uuid, ctx, email)).toBe('LOCKED');
+    expect(await identity.sendCode('user-2', {}, email)).toBe('LOCKED');
+    expect(sent).toHaveLength(2);
+
+    jest.setSystemTime(new Date('2030-01-01T01:04:00Z'));
+    expect(await identity.sendCode('user-2', {}, email)).toBe('SENT');
+  });
+
+  it('waits a minute between codes and sends five an hour at most', async () => {
+    jest.useFakeTimers({
+      now: new Date('2030-01-01T00:00:00Z'),
+      doNotFake: ['setImmediate'],
+    });
+    const phone = { kind: 'phone', value: jane.mobilePhone } as const;
+
+    expect(await identity.sendCode(uuid, ctx, phone)).toBe('SENT');
+    expect(await identity.sendCode(uuid, ctx, phone)).toBe('TOO_SOON');
+    // The cooldown is the conversation's as well as the contact's
+    expect(
+      await identity.sendCode(uuid, ctx, { kind: 'email', value: jane.email }),
+    ).toBe('TOO_SOON');
+
+    for (let minute = 2; minute <= 5; minute++) {
+      jest.setSystemTime(new Date(`2030-01-01T00:0${minute}:00Z`));
+      expect(await identity.sendCode(uuid, ctx, phone)).toBe('SENT');
+    }
+    jest.setSystemTime(new Date('2030-01-01T00:07:00Z'));
+    expect(await identity.sendCode(uuid, ctx, phone)).toBe('LOCKED');
+    expect(sent).toHaveLength(5);
+  });
+
+  it('starts the counts over once the user is verified', async () => {
+    const email = { kind: 'email', value: jane.email } as const;
+    await identity.sendCode(uuid, ctx, email);
+    const wrong = sent[0].code === '000000' ? '111111' : '000000';
+    for (let i = 0; i < 4; i++) await identity.checkCode(uuid, ctx, wrong);
+    expect(await identity.checkCode(uuid, ctx, sent[0].code)).toBe('VERIFIED');
+
+    expect(await identity.sendCode(uuid, ctx, email)).toBe('SENT');
+    expect(await identity.checkCode(uuid, ctx, wrong)).toBe('INCORRECT');
+  });
+});
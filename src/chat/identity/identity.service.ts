@@ -0,0 +1,171 @@
+// src/chat/identity/identity.service.ts
+import {
+  createHash,
+  randomBytes,
+  randomInt,
+  timingSafeEqual,
+} from 'node:crypto';
+import { Inject, Injectable } from '@nestjs/common';
+import type { UserContext } from '../user-context.js';
+import {
+  ClientDirectoryService,
+  type ClientContact,
+} from './client-directory.service.js';
+import { OTP_NOTIFIER, type OtpNotifier } from './otp-notifier.js';
+import { VerificationLimitsService } from './verification-limits.service.js';
+
+export type CodeSend = 'SENT' | 'TOO_SOON' | 'LOCKED';
+export type CodeCheck = 'VERIFIED' | 'INCORRECT' | 'EXPIRED' | 'LOCKED';
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+// Both count every code, not each one, until an hour passes without another
+const MAX_CODE_SENDS = 5;
+const MAX_CODE_ATTEMPTS = 5;
+const LIMIT_WINDOW_MS = 60 * 60 * 1000;
+const DEFAULT_IDENTITY_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Establishes which Boulevard client a conversation belongs to. The user
+ * names the email or mobile number they booked with; if it matches exactly
+ * one client, a one-time code is sent there and entering it in chat stores
+ * the client on `UserContext.identity` until it expires.
+ *
+ * State lives on the context passed in (saved by the caller). Only a salted
+ * hash of the code is kept, and an unknown contact goes through the same
+ * steps with a code that never matches, so the replies don't reveal who is
+ * a client.
+ *
+ * Codes sent and wrong codes entered are also counted in Redis, per
+ * conversation and per contact, so asking for a new code neither resets the
+ * guesses nor lets anyone flood a client with messages: a new code waits a
+ * minute after the last, and too many of either locks verification for an
+ * hour. Verifying clears the counts.
+ */
+@Injectable()
+export class IdentityService {
+  private readonly identityTtlSeconds =
+    Number(process.env.IDENTITY_TTL_SECONDS) || DEFAULT_IDENTITY_TTL_SECONDS;
+
+  constructor(
+    private readonly directory: ClientDirectoryService,
+    @Inject(OTP_NOTIFIER) private readonly notifier: OtpNotifier,
+    private readonly limits: VerificationLimitsService,
+  ) {}
+
+  /** The verified client, or `null` (dropping the identity once expired). */
+  verifiedClientId(ctx: UserContext): string | null {
+    if (!ctx.identity) return null;
+    if (Date.parse(ctx.identity.expiresAt) <= Date.now()) {
+      delete ctx.identity;
+      return null;
+    }
+    return ctx.identity.clientId;
+  }
+
+  /**
+   * Sends a code to `contact` unless it is too soon after the last one or
+   * verification is locked (which also drops it).
+   */
+  async sendCode(
+    uuid: string,
+    ctx: UserContext,
+    contact: ClientContact,
+  ): Promise<CodeSend> {
+    const contactKey = limitKeyFor(contact);
+    const limitKeys = [`uuid:${uuid}`, contactKey];
+    const { sends, failures } = await this.limits.counts(limitKeys);
+    if (sends >= MAX_CODE_SENDS || failures >= MAX_CODE_ATTEMPTS) {
+      delete ctx.identityVerification;
+      return 'LOCKED';
+    }
+    if (!(await this.limits.startCooldown(limitKeys, RESEND_COOLDOWN_MS))) {
+      return 'TOO_SOON';
+    }
+    await this.limits.increment(limitKeys, 'sends', LIMIT_WINDOW_MS);
+
+    const client = await this.directory.findClient(contact);
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+    const salt = randomBytes(16).toString('hex');
+    const expiresAt = new Date(Date.now() + CODE_TTL_MS).toISOString();
+
+    ctx.identityVerification = {
+      awaiting: 'code',
+      clientId: client?.id ?? null,
+      codeHash: client ? hashCode(salt, code) : null,
+      salt,
+      expiresAt,
+      contactKey,
+    };
+
+    if (client) {
+      await this.notifier.send({
+        channel: contact.kind === 'email' ? 'email' : 'sms',
+        to: contact.value,
+        code,
+        expiresAt,
+      });
+    }
+    return 'SENT';
+  }
+
+  /**
+   * Checks the code the user entered. A match stores the identity; the
+   * verification is dropped on a match, once the code expires or after too
+   * many wrong guesses at this or earlier codes.
+   */
+  async checkCode(
+    uuid: string,
+    ctx: UserContext,
+    code: string,
+  ): Promise<CodeCheck> {
+    const pending = ctx.identityVerification;
+    if (pending?.awaiting !== 'code') return 'EXPIRED';
+
+    if (Date.parse(pending.expiresAt) <= Date.now()) {
+      delete ctx.identityVerification;
+      return 'EXPIRED';
+    }
+
+    // Locked by guesses from another conversation at the same contact too
+    const limitKeys = [`uuid:${uuid}`, pending.contactKey];
+    if ((await this.limits.counts(limitKeys)).failures >= MAX_CODE_ATTEMPTS) {
+      delete ctx.identityVerification;
+      return 'LOCKED';
+    }
+
+    const expected = pending.codeHash && Buffer.from(pending.codeHash, 'hex');
+    const actual = Buffer.from(hashCode(pending.salt, code), 'hex');
+    if (expected && pending.clientId && timingSafeEqual(expected, actual)) {
+      const now = Date.now();
+      ctx.identity = {
+        clientId: pending.clientId,
+        verifiedAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + this.identityTtlSeconds * 1000).toISOString(),
+      };
+      delete ctx.identityVerification;
+      await this.limits.clear(limitKeys);
+      return 'VERIFIED';
+    }
+
+    const failures = await this.limits.increment(
+      limitKeys,
+      'failures',
+      LIMIT_WINDOW_MS,
+    );
+    if (failures >= MAX_CODE_ATTEMPTS) {
+      delete ctx.identityVerification;
+      return 'LOCKED';
+    }
+    return 'INCORRECT';
+  }
+}
+
+function hashCode(salt: string, code: string) {
+  return createHash('sha256').update(`${salt}:${code}`).digest('hex');
+}
+
+// Counts are kept against the contact without storing it
+function limitKeyFor(contact: ClientContact) {
+  return `contact:${createHash('sha256').update(contact.value).digest('hex')}`;
+}
@@ -0,0 +1,18 @@
+// src/chat/identity/log-otp-notifier.ts
+import { Logger } from '@nestjs/common';
+import type { OtpMessage, OtpNotifier } from './otp-notifier.js';
+
+/**
+ * Writes the code to the server log instead of sending it, so verification
+ * can be walked through locally without an email or SMS provider.
+ */
+export class LogOtpNotifier implements OtpNotifier {
+  private readonly logger = new Logger(LogOtpNotifier.name);
+
+  send({ channel, to, code, expiresAt }: OtpMessage): Promise<void> {
+    this.logger.log(
+      `📨 One-time code for ${to} (${channel}): ${code}, valid until ${expiresAt}`,
+    );
+    return Promise.resolve();
+  }
+}
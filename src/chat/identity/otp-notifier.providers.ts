@@ -0,0 +1,28 @@
+// src/chat/identity/otp-notifier.providers.ts
+import { Logger, Provider } from '@nestjs/common';
+import { LogOtpNotifier } from './log-otp-notifier.js';
+import { OTP_NOTIFIER, OtpNotifier } from './otp-notifier.js';
+
+/**
+ * Picks the notifier from `OTP_NOTIFIER` (default `log`). `log` only writes
+ * codes to the server log and must not be used where real clients verify.
+ */
+export function createOtpNotifier(): OtpNotifier {
+  const name = process.env.OTP_NOTIFIER || 'log';
+
+  switch (name) {
+    case 'log':
+      new Logger('OtpNotifier').warn(
+        '⚠️ One-time codes are logged, not sent (OTP_NOTIFIER=log)',
+      );
+      return new LogOtpNotifier();
+
+    default:
+      throw new Error(`Unknown OTP_NOTIFIER "${name}"`);
+  }
+}
+
+export const otpNotifier: Provider = {
+  provide: OTP_NOTIFIER,
+  useFactory: createOtpNotifier,
+};
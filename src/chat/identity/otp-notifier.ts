@@ -0,0 +1,22 @@
+// src/chat/identity/otp-notifier.ts
+
+/** Nest injection token for the configured `OtpNotifier`. */
+export const OTP_NOTIFIER = Symbol('OTP_NOTIFIER');
+
+/** A one-time code on its way to the contact a client has on file. */
+export interface OtpMessage {
+  channel: 'email' | 'sms';
+  // Email address, or mobile number in E.164 form
+  to: string;
+  code: string;
+  // ISO time after which the code is no longer accepted
+  expiresAt: string;
+}
+
+/**
+ * Delivers one-time codes. Implementations only send; generating, storing
+ * and checking the code is `IdentityService`'s job.
+ */
+export interface OtpNotifier {
+  send(message: OtpMessage): Promise<void>;
+}
@@ -0,0 +1,91 @@
+// src/chat/identity/verification-limits.service.ts
+import { Injectable, OnApplicationShutdown } from '@nestjs/common';
+import Redis from 'ioredis';
+
+export type VerificationCount = 'sends' | 'failures';
+
+/**
+ * Redis-backed counts of one-time codes sent and wrong codes entered, kept
+ * per key (a conversation or a contact) for a window that restarts with
+ * every count, plus the cooldown between codes. The limits themselves are
+ * `IdentityService`'s.
+ */
+@Injectable()
+export class VerificationLimitsService implements OnApplicationShutdown {
+  private redis: any;
+
+  constructor() {
+    const redisUrl = process.env.REDIS_URL || 'redis://127.0.0.1:6379';
+    this.redis = new (Redis as any)(redisUrl);
+  }
+
+  private countsKey(key: string) {
+    return `chat:otp:${key}`;
+  }
+
+  private cooldownKey(key: string) {
+    return `chat:otp:${key}:cooldown`;
+  }
+
+  /** The highest of each count across `keys`. */
+  async counts(keys: string[]): Promise<Record<VerificationCount, number>> {
+    const counts = { sends: 0, failures: 0 };
+    for (const key of keys) {
+      const [sends, failures]: (string | null)[] = await this.redis.hmget(
+        this.countsKey(key),
+        'sends',
+        'failures',
+      );
+      counts.sends = Math.max(counts.sends, Number(sends ?? 0));
+      counts.failures = Math.max(counts.failures, Number(failures ?? 0));
+    }
+    return counts;
+  }
+
+  /** Adds one to `count` on every key, returning the highest it reached. */
+  async increment(
+    keys: string[],
+    count: VerificationCount,
+    windowMs: number,
+  ): Promise<number> {
+    let highest = 0;
+    for (const key of keys) {
+      const [[, value]] = await this.redis
+        .multi()
+        .hincrby(this.countsKey(key), count, 1)
+        .pexpire(this.countsKey(key), windowMs)
+        .exec();
+      highest = Math.max(highest, Number(value));
+    }
+    return highest;
+  }
+
+  /**
+   * Starts the cooldown on every key; `false` when one was already cooling
+   * down. `SET NX` makes it atomic, so two requests at once can't both pass.
+   */
+  async startCooldown(keys: string[], ms: number): Promise<boolean> {
+    let started = true;
+    for (const key of keys) {
+      const ok = await this.redis.set(
+        this.cooldownKey(key),
+        '1',
+        'PX',
+        ms,
+        'NX',
+      );
+      started &&= ok === 'OK';
+    }
+    return started;
+  }
+
+  async clear(keys: string[]): Promise<void> {
+    await this.redis.del(
+      ...keys.flatMap((key) => [this.countsKey(key), this.cooldownKey(key)]),
+    );
+  }
+
+  async onApplicationShutdown() {
+    await this.redis.quit().catch(() => undefined);
+  }
+}
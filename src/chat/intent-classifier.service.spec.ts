@@ -0,0 +1,87 @@
+import { IntentClassifierService } from './intent-classifier.service.js';
+
+describe('IntentClassifierService', () => {
+  let classifier: IntentClassifierService;
+  let generate: jest.Mock;
+
+  beforeEach(() => {
+    generate = jest.fn();
+    classifier = new IntentClassifierService({ name: 'test', generate });
+  });
+
+  it.each([
+    ['I want to book an appointment', 'booking'],
+    ['Can you book me a facial tomorrow?', 'booking'],
+    ['I would like to buy a gift card', 'gift'],
+    ['Tell me about your memberships', 'membership'],
+  ])('is confident about explicit requests: %s', async (message, intent) => {
+    await expect(classifier.classify(message)).resolves.toEqual({
+      intent,
+      confidence: 0.9,
+      source: 'keyword',
+    });
+  });
+
+  it.each([
+    ['book it', 'booking'],
+    ['can I gift a facial?', 'gift'],
+    ['which plan is cheaper?', 'membership'],
+  ])('is unsure about passing mentions: %s', async (message, intent) => {
+    await expect(classifier.classify(message)).resolves.toEqual({
+      intent,
+      confidence: 0.6,
+      source: 'keyword',
+    });
+  });
+
+  it.each(['yes', 'tomorrow at 3', 'what services are in the plan?'])(
+    'returns no intent for neutral or ambiguous messages: %s',
+    async (message) => {
+      await expect(classifier.classify(message)).resolves.toEqual({
+        intent: null,
+        confidence: 0,
+        source: 'keyword',
+      });
+    },
+  );
+
+  describe('with the LLM classifier enabled', () => {
+    beforeEach(() => {
+      (classifier as any).llmEnabled = true;
+    });
+
+    it('skips the LLM when the keyword match is explicit', async () => {
+      await classifier.classify('I want to buy a gift card');
+      expect(generate).not.toHaveBeenCalled();
+    });
+
+    it('lets the LLM decide unclear messages', async () => {
+      generate.mockResolvedValue({
+        text: '{"intent": "booking", "confidence": 0.85}',
+        toolCalls: [],
+      });
+
+      await expect(
+        classifier.classify('can I gift a facial?', 'membership'),
+      ).resolves.toEqual({
+        intent: 'booking',
+        confidence: 0.85,
+        source: 'llm',
+      });
+      expect(generate.mock.calls[0][0].messages[0].content).toContain(
+        'Current flow: membership',
+      );
+    });
+
+    it('falls back to keywords when the LLM call fails', async () => {
+      generate.mockRejectedValue(new Error('network down'));
+      jest.spyOn((classifier as any).logger, 'warn').mockReturnValue(undefined);
+
+      await expect(classifier.classify('book it')).resolves.toEqual({
+        intent: 'booking',
+        confidence: 0.6,
+        source: 'keyword',
+      });
+    });
+  });
+});
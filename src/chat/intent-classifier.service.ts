@@ -0,0 +1,128 @@
+// src/chat/intent-classifier.service.ts
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { AssistantIntent } from './user-context.js';
+import { LLM_PROVIDER, type LlmProvider } from './llm/llm-provider.js';
+
+export interface IntentClassification {
+  intent: AssistantIntent | null;
+  // 0..1 — how sure we are the user explicitly asked for this flow
+  confidence: number;
+  source: 'keyword' | 'llm';
+}
+
+// Strong phrases name the flow outright; weak ones show up in normal
+// conversation too ("book it", "what plan is this?", "gift a facial").
+const KEYWORDS: Record<AssistantIntent, { strong: RegExp[]; weak: RegExp[] }> =
+  {
+    membership: {
+      strong: [/\bmemberships?\b/, /\bbecome a member\b/],
+      weak: [/\bmembers?\b/, /\bpackages?\b/, /\bplans?\b/],
+    },
+    gift: {
+      strong: [/\bgift\s?cards?\b/, /\bgift certificates?\b/],
+      weak: [/\bgift(s|ing)?\b/, /\bvouchers?\b/],
+    },
+    booking: {
+      strong: [
+        /\bappointments?\b/,
+        /\b(book|schedule|reserve)\s+(a|an|me|my)\b/,
+      ],
+      weak: [/\bbook(ing)?\b/, /\bservices?\b/, /\bschedule\b/],
+    },
+  };
+
+const STRONG_CONFIDENCE = 0.9;
+const WEAK_CONFIDENCE = 0.6;
+
+/**
+ * Works out which flow (booking, gift card, membership) a message asks for.
+ *
+ * A keyword pass answers most messages for free. When it is not sure and
+ * `INTENT_CLASSIFIER_LLM=true`, a small LLM classification call decides.
+ */
+@Injectable()
+export class IntentClassifierService {
+  private readonly logger = new Logger(IntentClassifierService.name);
+
+  private readonly llmEnabled = process.env.INTENT_CLASSIFIER_LLM === 'true';
+  private readonly model = process.env.INTENT_CLASSIFIER_MODEL || undefined;
+
+  constructor(@Inject(LLM_PROVIDER) private readonly llm: LlmProvider) {}
+
+  async classify(
+    message: string,
+    current?: AssistantIntent | null,
+  ): Promise<IntentClassification> {
+    const keyword = this.classifyByKeyword(message);
+
+    if (!this.llmEnabled || keyword.confidence >= STRONG_CONFIDENCE) {
+      return keyword;
+    }
+
+    try {
+      return await this.classifyWithLlm(message, current);
+    } catch (err: any) {
+      this.logger.warn(
+        `⚠️ LLM intent classification failed: ${err?.message ?? err}`,
+      );
+      return keyword;
+    }
+  }
+
+  classifyByKeyword(message: string): IntentClassification {
+    const lower = (message || '').toLowerCase();
+
+    const scores = (Object.keys(KEYWORDS) as AssistantIntent[])
+      .map((intent) => {
+        const { strong, weak } = KEYWORDS[intent];
+        if (strong.some((r) => r.test(lower))) {
+          return { intent, confidence: STRONG_CONFIDENCE };
+        }
+        if (weak.some((r) => r.test(lower))) {
+          return { intent, confidence: WEAK_CONFIDENCE };
+        }
+        return { intent, confidence: 0 };
+      })
+      .filter((s) => s.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    if (scores.length === 0) {
+      return { intent: null, confidence: 0, source: 'keyword' };
+    }
+
+    // Two flows matched equally well → we can't tell which one was meant
+    if (scores[1]?.confidence === scores[0].confidence) {
+      return { intent: null, confidence: 0, source: 'keyword' };
+    }
+
+    return { ...scores[0], source: 'keyword' };
+  }
+
+  private async classifyWithLlm(
+    message: string,
+    current?: AssistantIntent | null,
+  ): Promise<IntentClassification> {
+    const response = await this.llm.generate({
+      model: this.model,
+      instructions:
+        'Classify which flow a spa customer is asking for: "booking" (book/reschedule an appointment for a service), ' +
+        '"gift" (buy a gift card), "membership" (buy a membership plan or package) or "none" (anything else, ' +
+        'including short replies like "yes", "book it" or answers to a question within the current flow). ' +
+        'Return ONLY JSON: {"intent": "booking" | "gift" | "membership" | "none", "confidence": number between 0 and 1}.',
+      messages: [
+        {
+          role: 'user',
+          content: `Current flow: ${current ?? 'none'}\nMessage: ${message}`,
+        },
+      ],
+    });
+
+    const parsed = JSON.parse(response.text || '{}');
+    const intent = ['booking', 'gift', 'membership'].includes(parsed.intent)
+      ? (parsed.intent as AssistantIntent)
+      : null;
+    const confidence = Math.max(0, Math.min(1, Number(parsed.confidence) || 0));
+
+    return { intent, confidence: intent ? confidence : 0, source: 'llm' };
+  }
+}
@@ -0,0 +1,52 @@
+// src/chat/llm/llm-provider.ts
+
+/** Nest injection token for the configured `LlmProvider`. */
+export const LLM_PROVIDER = Symbol('LLM_PROVIDER');
+
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema for the arguments object
+  parameters: Record<string, unknown>;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  // JSON-encoded arguments, as the model produced them
+  arguments: string;
+}
+
+export type LlmMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: LlmToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface LlmRequest {
+  // System prompt
+  instructions?: string;
+  messages: LlmMessage[];
+  tools?: LlmToolDefinition[];
+  // Vendor model name; the provider's default when omitted
+  model?: string;
+  // When set, the reply is streamed and text deltas are passed here
+  onToken?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface LlmResponse {
+  text: string;
+  // Empty when the model answered with text only
+  toolCalls: LlmToolCall[];
+  // Set when the vendor reported the generation as failed
+  error?: string;
+}
+
+/**
+ * Everything the chat needs from a language model, in vendor-neutral
+ * shapes. Implementations translate to and from their own API.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+}
@@ -0,0 +1,39 @@
+// src/chat/llm/llm.providers.ts
+import { Logger, Provider } from '@nestjs/common';
+import { readFileSync } from 'node:fs';
+import { LLM_PROVIDER, LlmProvider } from './llm-provider.js';
+import { OpenAiLlmProvider } from './openai-llm.provider.js';
+import { ScriptedLlmProvider, ScriptedRule } from './scripted-llm.provider.js';
+
+/**
+ * Picks the provider from `LLM_PROVIDER` (default `openai`). `scripted`
+ * reads its rules from the JSON file at `LLM_SCRIPT_PATH`, which lets the
+ * whole app run without network access.
+ */
+export function createLlmProvider(): LlmProvider {
+  const name = process.env.LLM_PROVIDER || 'openai';
+
+  switch (name) {
+    case 'openai':
+      return new OpenAiLlmProvider();
+
+    case 'scripted': {
+      const path = process.env.LLM_SCRIPT_PATH;
+      const rules: ScriptedRule[] = path
+        ? JSON.parse(readFileSync(path, 'utf8'))
+        : [];
+      new Logger('LlmProvider').warn(
+        `⚠️ Using scripted LLM (${rules.length} rules from ${path ?? 'nowhere'})`,
+      );
+      return new ScriptedLlmProvider(rules);
+    }
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+  }
+}
+
+export const llmProvider: Provider = {
+  provide: LLM_PROVIDER,
+  useFactory: createLlmProvider,
+};
@@ -0,0 +1,125 @@
+import { OpenAiLlmProvider } from './openai-llm.provider.js';
+
+describe('OpenAiLlmProvider', () => {
+  let provider: OpenAiLlmProvider;
+  let create: jest.Mock;
+
+  beforeEach(() => {
+    provider = new OpenAiLlmProvider('test-key', 'test-model');
+    create = jest.fn();
+    (provider as any).client = { responses: { create } };
+  });
+
+  it('maps messages and tools onto a Responses API request', async () => {
+    create.mockResolvedValue({ status: 'completed', output_text: 'ok' });
+
+    await provider.generate({
+      instructions: 'be nice',
+      messages: [
+        { role: 'user', content: 'hi' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'call_1', name: 'getLocations', arguments: '{}' }],
+        },
+        { role: 'tool', toolCallId: 'call_1', content: '[]' },
+      ],
+      tools: [
+        {
+          name: 'getLocations',
+          description: 'list',
+          parameters: { type: 'object' },
+        },
+      ],
+    });
+
+    expect(create.mock.calls[0][0]).toEqual({
+      model: 'test-model',
+      instructions: 'be nice',
+      input: [
+        { role: 'user', content: 'hi' },
+        {
+          type: 'function_call',
+          call_id: 'call_1',
+          name: 'getLocations',
+          arguments: '{}',
+        },
+        { type: 'function_call_output', call_id: 'call_1', output: '[]' },
+      ],
+      tools: [
+        {
+          type: 'function',
+          name: 'getLocations',
+          description: 'list',
+          parameters: { type: 'object' },
+          strict: false,
+        },
+      ],
+      store: false,
+    });
+  });
+
+  it('returns tool calls and failures in vendor-neutral form', async () => {
+    create.mockResolvedValueOnce({
+      status: 'completed',
+      output: [
+        {
+          type: 'function_call',
+          call_id: 'call_9',
+          name: 'availableServices',
+          arguments: '{"cartId":"c"}',
+        },
+      ],
+    });
+    create.mockResolvedValueOnce({
+      status: 'failed',
+      output: [],
+      error: { message: 'rate limited' },
+    });
+
+    await expect(provider.generate({ messages: [] })).resolves.toEqual({
+      text: '',
+      toolCalls: [
+        {
+          id: 'call_9',
+          name: 'availableServices',
+          arguments: '{"cartId":"c"}',
+        },
+      ],
+      error: undefined,
+    });
+    await expect(provider.generate({ messages: [] })).resolves.toMatchObject({
+      error: 'rate limited',
+    });
+  });
+
+  it('streams text deltas and returns the completed response', async () => {
+    function* events() {
+      yield { type: 'response.output_text.delta', delta: 'Hel' };
+      yield { type: 'response.output_text.delta', delta: 'lo' };
+      yield {
+        type: 'response.completed',
+        response: {
+          status: 'completed',
+          output: [
+            {
+              type: 'message',
+              content: [{ type: 'output_text', text: 'Hello' }],
+            },
+          ],
+        },
+      };
+    }
+    create.mockResolvedValue(events());
+    const tokens: string[] = [];
+
+    const response = await provider.generate({
+      messages: [{ role: 'user', content: 'hi' }],
+      onToken: (text) => tokens.push(text),
+    });
+
+    expect(create.mock.calls[0][0].stream).toBe(true);
+    expect(tokens).toEqual(['Hel', 'lo']);
+    expect(response.text).toBe('Hello');
+  });
+});
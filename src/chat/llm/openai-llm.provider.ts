@@ -0,0 +1,135 @@
+// src/chat/llm/openai-llm.provider.ts
+import OpenAI from 'openai';
+import {
+  LlmMessage,
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+} from './llm-provider.js';
+
+/**
+ * `LlmProvider` on the OpenAI Responses API. Nothing is stored on OpenAI's
+ * side (`store: false`); the caller sends the whole conversation each time.
+ */
+export class OpenAiLlmProvider implements LlmProvider {
+  readonly name = 'openai';
+
+  // Exposed for the legacy Assistants orchestrator, which is OpenAI-only
+  readonly client: OpenAI;
+
+  constructor(
+    apiKey = process.env.OPENAI_API_KEY,
+    private readonly defaultModel = process.env.OPENAI_MODEL || 'gpt-4.1-mini',
+  ) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    const body = {
+      model: request.model ?? this.defaultModel,
+      instructions: request.instructions,
+      input: request.messages.flatMap((m) => this.toInputItems(m)),
+      tools: (request.tools ?? []).map((tool) => ({
+        type: 'function',
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+        strict: false,
+      })),
+      store: false,
+    };
+    const client: any = this.client;
+
+    if (!request.onToken) {
+      const response = await client.responses.create(body, {
+        signal: request.signal,
+      });
+      return this.toLlmResponse(response);
+    }
+
+    const stream = await client.responses.create(
+      { ...body, stream: true },
+      { signal: request.signal },
+    );
+
+    let final: any = null;
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'response.output_text.delta':
+          if (event.delta) request.onToken(event.delta);
+          break;
+
+        case 'response.completed':
+        case 'response.failed':
+        case 'response.incomplete':
+          final = event.response;
+          break;
+
+        case 'error':
+          throw new Error(event.message || 'Response stream failed');
+      }
+    }
+
+    if (!final) throw new Error('Response stream ended without a response');
+    return this.toLlmResponse(final);
+  }
+
+  private toInputItems(message: LlmMessage): any[] {
+    switch (message.role) {
+      case 'user':
+        return [{ role: 'user', content: message.content }];
+
+      case 'assistant':
+        return [
+          ...(message.content
+            ? [{ role: 'assistant', content: message.content }]
+            : []),
+          ...(message.toolCalls ?? []).map((call) => ({
+            type: 'function_call',
+            call_id: call.id,
+            name: call.name,
+            arguments: call.arguments,
+          })),
+        ];
+
+      case 'tool':
+        return [
+          {
+            type: 'function_call_output',
+            call_id: message.toolCallId,
+            output: message.content,
+          },
+        ];
+    }
+  }
+
+  private toLlmResponse(response: any): LlmResponse {
+    const output: any[] = response.output ?? [];
+
+    // `output_text` is only added by the SDK on non-streamed responses
+    const text =
+      typeof response.output_text === 'string'
+        ? response.output_text
+        : output
+            .filter((item) => item.type === 'message')
+            .flatMap((item) => item.content ?? [])
+            .filter((part: any) => part.type === 'output_text')
+            .map((part: any) => part.text)
+            .join('');
+
+    return {
+      text,
+      toolCalls: output
+        .filter((item) => item.type === 'function_call')
+        .map((item) => ({
+          id: item.call_id,
+          name: item.name,
+          arguments: item.arguments,
+        })),
+      error:
+        response.status === 'failed'
+          ? response.error?.message || 'Unknown error'
+          : undefined,
+    };
+  }
+}
@@ -0,0 +1,118 @@
+// src/chat/llm/scripted-llm.provider.ts
+import {
+  LlmMessage,
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+} from './llm-provider.js';
+
+// Parsed tool outputs of the current turn, by tool name (latest call wins)
+export type ScriptedToolOutputs = Record<string, any>;
+
+export interface ScriptedToolCall {
+  name: string;
+  // Static arguments, or built from the outputs of earlier rounds
+  arguments?:
+    | Record<string, unknown>
+    | ((outputs: ScriptedToolOutputs) => Record<string, unknown>);
+}
+
+export interface ScriptedRule {
+  // Matches the user's latest message (strings: case-insensitive substring)
+  when: string | RegExp;
+  // Tool calls to make, one round after another, before replying
+  rounds?: ScriptedToolCall[][];
+  reply: string | ((outputs: ScriptedToolOutputs) => string);
+}
+
+/**
+ * Deterministic `LlmProvider` for tests and offline runs: the first rule
+ * matching the user's latest message decides which tools are called and
+ * what is replied. Every request is kept in `requests` for assertions.
+ */
+export class ScriptedLlmProvider implements LlmProvider {
+  readonly name = 'scripted';
+  readonly requests: LlmRequest[] = [];
+  private callCount = 0;
+
+  constructor(
+    readonly rules: ScriptedRule[] = [],
+    private readonly fallbackReply = "Sorry, I didn't catch that.",
+  ) {}
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    this.requests.push({ ...request, messages: [...request.messages] });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const { messages } = request;
+    const lastUser = messages.findLastIndex((m) => m.role === 'user');
+    const userText =
+      lastUser >= 0 ? (messages[lastUser] as { content: string }).content : '';
+    const thisTurn = messages.slice(lastUser + 1);
+
+    const rule = this.rules.find((r) =>
+      typeof r.when === 'string'
+        ? userText.toLowerCase().includes(r.when.toLowerCase())
+        : r.when.test(userText),
+    );
+
+    const outputs = this.toolOutputs(thisTurn);
+    const roundsDone = thisTurn.filter(
+      (m) => m.role === 'assistant' && m.toolCalls?.length,
+    ).length;
+
+    const round = rule?.rounds?.[roundsDone];
+    if (round?.length) {
+      return {
+        text: '',
+        toolCalls: round.map((call) => ({
+          id: `call_${++this.callCount}`,
+          name: call.name,
+          arguments: JSON.stringify(
+            typeof call.arguments === 'function'
+              ? call.arguments(outputs)
+              : (call.arguments ?? {}),
+          ),
+        })),
+      };
+    }
+
+    const text = !rule
+      ? this.fallbackReply
+      : typeof rule.reply === 'function'
+        ? rule.reply(outputs)
+        : rule.reply;
+
+    // Stream word by word so callers see more than one delta
+    if (request.onToken) {
+      for (const word of text.split(/(?<=\s)/)) {
+        request.onToken(word);
+      }
+    }
+
+    return { text, toolCalls: [] };
+  }
+
+  private toolOutputs(messages: LlmMessage[]): ScriptedToolOutputs {
+    const names = new Map<string, string>();
+    const outputs: ScriptedToolOutputs = {};
+
+    for (const message of messages) {
+      if (message.role === 'assistant') {
+        for (const call of message.toolCalls ?? []) {
+          names.set(call.id, call.name);
+        }
+      } else if (message.role === 'tool') {
+        const name = names.get(message.toolCallId);
+        if (!name) continue;
+        try {
+          outputs[name] = JSON.parse(message.content);
+        } catch {
+          outputs[name] = message.content;
+        }
+      }
+    }
+
+    return outputs;
+  }
+}
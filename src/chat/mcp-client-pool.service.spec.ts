@@ -0,0 +1,143 @@
+import { Logger } from '@nestjs/common';
+import { McpClientPoolService } from './mcp-client-pool.service.js';
+
+// Stands in for an MCP client and its child process; `exit()` is the child
+// dying, `close()` a clean shutdown
+class FakeClient {
+  onclose?: () => void;
+  onerror?: (err: Error) => void;
+  readonly transport = { pid: 1234 };
+
+  constructor(readonly connect: () => Promise<void>) {}
+
+  close = jest.fn(async () => {
+    await Promise.resolve();
+    this.onclose?.();
+  });
+
+  exit() {
+    this.onclose?.();
+  }
+}
+
+describe('McpClientPoolService', () => {
+  let pool: McpClientPoolService;
+  let spawned: FakeClient[];
+  // What the next connects do, in order; they succeed once this runs out
+  let connects: (() => Promise<void>)[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+
+    spawned = [];
+    connects = [];
+    pool = new McpClientPoolService();
+    Object.assign(pool, {
+      createClient: () => {
+        const client = new FakeClient(
+          connects.shift() ?? (() => Promise.resolve()),
+        );
+        spawned.push(client);
+        return { client, transport: client.transport };
+      },
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('shares one client per module', async () => {
+    const [a, b] = await Promise.all([
+      pool.getClient('booking'),
+      pool.getClient('booking'),
+    ]);
+
+    expect(a).toBe(b);
+    expect(spawned).toHaveLength(1);
+  });
+
+  it('respawns a child that exits, backing off until one connects', async () => {
+    await pool.getClient('booking');
+    const fail = () => Promise.reject(new Error('spawn failed'));
+    connects.push(fail, fail);
+
+    spawned[0].exit();
+    await jest.advanceTimersByTimeAsync(499);
+    expect(spawned).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(spawned).toHaveLength(2);
+
+    // Each failure waits twice as long as the one before
+    await jest.advanceTimersByTimeAsync(999);
+    expect(spawned).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(spawned).toHaveLength(3);
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(spawned).toHaveLength(4);
+
+    expect(await pool.getClient('booking')).toBe(spawned[3]);
+
+    // Connecting starts the backoff over
+    spawned[3].exit();
+    await jest.advanceTimersByTimeAsync(500);
+    expect(spawned).toHaveLength(5);
+    expect(await pool.getClient('booking')).toBe(spawned[4]);
+  });
+
+  it('ignores a client that closes after it was replaced', async () => {
+    await pool.getClient('booking');
+    spawned[0].exit();
+    await jest.advanceTimersByTimeAsync(500);
+
+    spawned[0].exit();
+    await jest.advanceTimersByTimeAsync(30000);
+
+    expect(spawned).toHaveLength(2);
+    expect(await pool.getClient('booking')).toBe(spawned[1]);
+  });
+
+  it('closes every client on shutdown without restarting them', async () => {
+    await pool.getClient('booking');
+    await pool.getClient('gift');
+
+    await pool.onApplicationShutdown();
+    await jest.advanceTimersByTimeAsync(30000);
+
+    expect(spawned.map((c) => c.close.mock.calls.length)).toEqual([1, 1]);
+    expect(spawned).toHaveLength(2);
+    await expect(pool.getClient('booking')).rejects.toThrow(/shutting down/);
+  });
+
+  it('drops a pending restart on shutdown', async () => {
+    await pool.getClient('booking');
+    spawned[0].exit();
+
+    await pool.onApplicationShutdown();
+    await jest.advanceTimersByTimeAsync(30000);
+
+    expect(spawned).toHaveLength(1);
+  });
+
+  it('waits for a connect in progress and closes that client too', async () => {
+    let connected!: () => void;
+    connects.push(() => new Promise<void>((resolve) => (connected = resolve)));
+    const client = pool.getClient('membership');
+    await jest.advanceTimersByTimeAsync(0);
+
+    let shutDown = false;
+    const shutdown = pool.onApplicationShutdown().then(() => (shutDown = true));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(shutDown).toBe(false);
+
+    connected();
+    await shutdown;
+    await client;
+
+    expect(spawned[0].close).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,228 @@
+// src/chat/mcp-client-pool.service.ts
+import { Injectable, Logger, OnApplicationShutdown } from '@nestjs/common';
+import { Client as MCPClient } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+export type McpModule = 'booking' | 'membership' | 'gift';
+
+export type McpTool = Awaited<
+  ReturnType<MCPClient['listTools']>
+>['tools'][number];
+
+// Settings the MCP servers read. The SDK only passes a minimal environment
+// to child processes, so without this they would always fall back to their
+// .env file and ignore e.g. URL_CLIENT pointing at the fake Boulevard.
+const FORWARDED_ENV = [
+  'URL_CLIENT',
+  'URL_ADMIN',
+  'BLVD_API_KEY',
+  'BLVD_BUSINESS_ID',
+  'BLVD_API_SECRET',
+  'LOCATION_ID',
+];
+
+interface PooledClient {
+  client: MCPClient;
+  transport: StdioClientTransport;
+}
+
+/**
+ * Keeps one long-lived MCP client (and its stdio child process) per module.
+ *
+ * Clients are spawned lazily on first use and shared by every conversation
+ * that talks to the same module, so users on different flows no longer tear
+ * down each other's servers. A child that exits unexpectedly is dropped from
+ * the pool and respawned with a capped exponential backoff.
+ */
+@Injectable()
+export class McpClientPoolService implements OnApplicationShutdown {
+  private readonly logger = new Logger(McpClientPoolService.name);
+
+  private readonly moduleMap: Record<McpModule, string> = {
+    gift: 'dist/giftcard-purchase.js',
+    membership: 'dist/membership-booking.js',
+    booking: 'dist/appointment-booking.js',
+  };
+
+  private readonly clients = new Map<McpModule, PooledClient>();
+  private readonly connecting = new Map<McpModule, Promise<PooledClient>>();
+  private readonly restartAttempts = new Map<McpModule, number>();
+  private readonly restartTimers = new Map<McpModule, NodeJS.Timeout>();
+  private readonly toolCache = new Map<McpModule, McpTool[]>();
+  private shuttingDown = false;
+
+  // ⚙️ Configuration
+  private readonly RESTART_BASE_DELAY_MS = 500;
+  private readonly RESTART_MAX_DELAY_MS = 30000;
+
+  /** Maps a `UserContext.assistantType` onto the MCP module that serves it. */
+  resolveModule(assistantType?: string | null): McpModule {
+    switch (assistantType) {
+      case 'gift':
+      case 'giftcard':
+        return 'gift';
+      case 'membership':
+        return 'membership';
+      default:
+        return 'booking';
+    }
+  }
+
+  async getClient(module: McpModule): Promise<MCPClient> {
+    if (this.shuttingDown) {
+      throw new Error('MCP client pool is shutting down');
+    }
+
+    const existing = this.clients.get(module);
+    if (existing) return existing.client;
+
+    let pending = this.connecting.get(module);
+    if (!pending) {
+      pending = this.spawn(module).finally(() =>
+        this.connecting.delete(module),
+      );
+      this.connecting.set(module, pending);
+    }
+
+    return (await pending).client;
+  }
+
+  async callTool(
+    module: McpModule,
+    params: { name: string; arguments?: Record<string, unknown> },
+  ): Promise<any> {
+    const client = await this.getClient(module);
+    return client.callTool(params);
+  }
+
+  /**
+   * Tools the module's server exposes. Cached until the child exits, since
+   * a restarted server may come back with a newer build.
+   */
+  async listTools(module: McpModule): Promise<McpTool[]> {
+    const cached = this.toolCache.get(module);
+    if (cached) return cached;
+
+    const client = await this.getClient(module);
+    const { tools } = await client.listTools();
+    this.toolCache.set(module, tools);
+    return tools;
+  }
+
+  // The child process is started by `connect`
+  private createClient(module: McpModule): PooledClient {
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [this.moduleMap[module]],
+      env: this.serverEnv(),
+      stderr: 'inherit',
+    });
+
+    const client = new MCPClient({
+      name: 'blvd-mcp-client',
+      version: '1.1.0',
+    });
+
+    return { client, transport };
+  }
+
+  private async spawn(module: McpModule): Promise<PooledClient> {
+    const pooled = this.createClient(module);
+    const { client, transport } = pooled;
+
+    client.onclose = () => this.handleClose(module, pooled);
+    client.onerror = (err) =>
+      this.logger.error(`🔥 [MCP ${module}] ${err?.message ?? err}`);
+
+    await client.connect(transport);
+
+    this.clients.set(module, pooled);
+    this.restartAttempts.delete(module);
+    this.logger.log(
+      `✅ Connected to MCP Server "${module}" (pid ${transport.pid})`,
+    );
+
+    return pooled;
+  }
+
+  private serverEnv(): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const key of FORWARDED_ENV) {
+      const value = process.env[key];
+      if (value !== undefined) env[key] = value;
+    }
+    return env;
+  }
+
+  private handleClose(module: McpModule, pooled: PooledClient) {
+    // Only react to the client that is currently pooled for this module
+    if (this.clients.get(module) !== pooled) return;
+    this.clients.delete(module);
+    this.toolCache.delete(module);
+
+    if (this.shuttingDown) return;
+
+    this.logger.warn(`⚠️ MCP Server "${module}" exited`);
+    this.scheduleRestart(module);
+  }
+
+  private scheduleRestart(module: McpModule) {
+    if (this.shuttingDown || this.restartTimers.has(module)) return;
+
+    const attempt = (this.restartAttempts.get(module) ?? 0) + 1;
+    this.restartAttempts.set(module, attempt);
+
+    const delay = Math.min(
+      this.RESTART_BASE_DELAY_MS * 2 ** (attempt - 1),
+      this.RESTART_MAX_DELAY_MS,
+    );
+
+    this.logger.warn(
+      `🔄 Restarting MCP Server "${module}" in ${delay}ms (attempt ${attempt})`,
+    );
+
+    const timer = setTimeout(() => {
+      this.restartTimers.delete(module);
+      if (this.shuttingDown || this.clients.has(module)) return;
+
+      this.getClient(module).catch((err) => {
+        this.logger.error(
+          `❌ Failed to restart MCP Server "${module}": ${err?.message ?? err}`,
+        );
+        this.scheduleRestart(module);
+      });
+    }, delay);
+    timer.unref();
+    this.restartTimers.set(module, timer);
+  }
+
+  async onApplicationShutdown() {
+    this.shuttingDown = true;
+
+    for (const timer of this.restartTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.restartTimers.clear();
+
+    const pending = [...this.connecting.values()].map((p) =>
+      p.catch(() => undefined),
+    );
+    await Promise.all(pending);
+
+    const closing = [...this.clients.entries()].map(
+      async ([module, { client }]) => {
+        try {
+          await client.close();
+          this.logger.log(`🛑 Closed MCP Server "${module}"`);
+        } catch (err: any) {
+          this.logger.warn(
+            `⚠️ Failed to close MCP Server "${module}": ${err?.message ?? err}`,
+          );
+        }
+      },
+    );
+
+    await Promise.all(closing);
+    this.clients.clear();
+  }
+}
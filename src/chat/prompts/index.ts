@@ -0,0 +1,21 @@
+// src/chat/prompts/index.ts
+import { AssistantIntent } from '../user-context.js';
+import { BOOKING_PROMPT } from './booking.prompt.js';
+import { DEFAULT_PROMPT } from './default.prompt.js';
+import { GIFT_PROMPT } from './gift.prompt.js';
+import { MEMBERSHIP_PROMPT } from './membership.prompt.js';
+import { VersionedPrompt } from './prompt.js';
+
+export type { VersionedPrompt } from './prompt.js';
+
+const PROMPTS: Record<AssistantIntent, VersionedPrompt> = {
+  booking: BOOKING_PROMPT,
+  gift: GIFT_PROMPT,
+  membership: MEMBERSHIP_PROMPT,
+};
+
+/** Prompt for a `UserContext.assistantType`; the default one when no flow is picked yet. */
+export function promptFor(assistantType?: string | null): VersionedPrompt {
+  if (assistantType === 'giftcard') return GIFT_PROMPT;
+  return PROMPTS[assistantType as AssistantIntent] ?? DEFAULT_PROMPT;
+}
@@ -0,0 +1,12 @@
+// src/chat/prompts/prompt.ts
+
+/**
+ * System prompt for one flow, kept in the repo next to the tools it drives.
+ * Bump `version` whenever `instructions` change so logs show which prompt a
+ * conversation ran with.
+ */
+export interface VersionedPrompt {
+  id: string;
+  version: number;
+  instructions: string;
+}
@@ -0,0 +1,162 @@
+// src/chat/responses-orchestrator.service.ts
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  McpClientPoolService,
+  McpModule,
+  McpTool,
+} from './mcp-client-pool.service.js';
+import { ConversationTurn } from './user-context.js';
+import {
+  LLM_PROVIDER,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmToolDefinition,
+} from './llm/llm-provider.js';
+
+/**
+ * How turns run (`CHAT_ORCHESTRATOR`): legacy OpenAI Assistants threads, or
+ * our own tool loop on the configured `LlmProvider`.
+ */
+export type ChatOrchestrator = 'assistants' | 'responses';
+
+export function configuredOrchestrator(): ChatOrchestrator {
+  return process.env.CHAT_ORCHESTRATOR === 'responses'
+    ? 'responses'
+    : 'assistants';
+}
+
+// Payment happens on the hosted checkout page (see setPaymentToken), so the
+// model never gets the card/checkout tools, nor may it call them.
+export const HIDDEN_TOOLS: ReadonlySet<string> = new Set([
+  'tokenizeCard',
+  'addCartCardPaymentMethod',
+  'checkoutCart',
+]);
+
+export interface ResponsesTurnParams {
+  instructions: string;
+  // Conversation so far, ending with the user's new message
+  history: ConversationTurn[];
+  // MCP server whose tools are offered; null before a flow is picked
+  module: McpModule | null;
+  // Same contract as ChatService.executeToolCalls (Assistants-shaped calls)
+  executeToolCalls: (
+    toolCalls: any[],
+  ) => Promise<{ reply: any } | { toolOutputs: any[] }>;
+  // When set, the response is streamed and text deltas are passed here
+  onToken?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+// `tools`: the turn's tool calls with their outputs, to store with the reply
+export type ResponsesTurnResult = ({ text: string } | { reply: any }) & {
+  tools: LlmMessage[];
+};
+
+/**
+ * Runs a turn through the configured `LlmProvider` (the Responses API for
+ * OpenAI) instead of Assistants threads/runs.
+ *
+ * Nothing lives on the vendor's side: instructions come from the versioned
+ * prompts in `src/chat/prompts`, tool definitions are built from the MCP
+ * server's `listTools()`, and the caller passes the stored history in.
+ */
+@Injectable()
+export class ResponsesOrchestratorService {
+  private readonly logger = new Logger(ResponsesOrchestratorService.name);
+
+  // ⚙️ Configuration
+  private readonly MAX_TOOL_ROUNDS = 10;
+
+  constructor(
+    private readonly mcpPool: McpClientPoolService,
+    @Inject(LLM_PROVIDER) private readonly llm: LlmProvider,
+  ) {}
+
+  /** Tool definitions for everything the module's server exposes. */
+  async toolsFor(module: McpModule): Promise<LlmToolDefinition[]> {
+    const tools = await this.mcpPool.listTools(module);
+    return tools
+      .filter((tool) => !HIDDEN_TOOLS.has(tool.name))
+      .map((tool) => this.toToolDefinition(tool));
+  }
+
+  async run(params: ResponsesTurnParams): Promise<ResponsesTurnResult> {
+    const tools = params.module ? await this.toolsFor(params.module) : [];
+    const messages: LlmMessage[] = params.history.flatMap((turn) => [
+      ...(turn.tools ?? []),
+      { role: turn.role, content: turn.content },
+    ]);
+    const turnStart = messages.length;
+
+    let text = '';
+
+    for (let round = 0; round <= this.MAX_TOOL_ROUNDS; round++) {
+      const response = await this.llm.generate({
+        instructions: params.instructions,
+        messages,
+        tools,
+        onToken: params.onToken,
+        signal: params.signal,
+      });
+
+      if (response.error) {
+        return {
+          reply: {
+            role: 'assistant',
+            content: `I encountered an error: ${response.error}`,
+          },
+          tools: messages.slice(turnStart),
+        };
+      }
+
+      text = response.text;
+      const calls = response.toolCalls;
+      if (calls.length === 0) break;
+
+      if (round === this.MAX_TOOL_ROUNDS) {
+        this.logger.warn(`⚠️ Gave up after ${round} tool rounds`);
+        break;
+      }
+
+      // Echo the calls back so the outputs below have something to answer
+      messages.push({ role: 'assistant', content: text, toolCalls: calls });
+
+      const executed = await params.executeToolCalls(
+        calls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      );
+
+      // setClientOnCart (etc.) can end the turn with a final reply; the calls
+      // it answered have no outputs to keep
+      if ('reply' in executed) {
+        return { ...executed, tools: messages.slice(turnStart, -1) };
+      }
+
+      for (const output of executed.toolOutputs) {
+        messages.push({
+          role: 'tool',
+          toolCallId: output.tool_call_id,
+          content: output.output,
+        });
+      }
+    }
+
+    return { text: text.trim(), tools: messages.slice(turnStart) };
+  }
+
+  private toToolDefinition(tool: McpTool): LlmToolDefinition {
+    // MCP servers emit JSON Schema; models want an object schema without `$schema`
+    const schema: Record<string, unknown> = { ...tool.inputSchema };
+    delete schema.$schema;
+
+    return {
+      name: tool.name,
+      description: tool.description ?? '',
+      parameters: { type: 'object', properties: {}, ...schema },
+    };
+  }
+}
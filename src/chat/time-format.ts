@@ -0,0 +1,15 @@
+// src/chat/time-format.ts
+
+/** e.g. "Monday, October 26, 2026 at 10:00 AM PDT", in the location's zone. */
+export function formatInZone(iso: string, tz: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: tz,
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(iso));
+}
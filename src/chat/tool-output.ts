@@ -0,0 +1,46 @@
+// src/chat/tool-output.ts
+import type {
+  AddCartGuestMutation,
+  AddServiceToCartMutation,
+  ApplyPromotionCodeMutation,
+  AvailableServicesQuery,
+  CartSummaryQuery,
+  CheckoutCartMutation,
+  CreateCartMutation,
+  RemoveCartGuestMutation,
+  RemoveCartSelectedItemMutation,
+  SetClientOnCartMutation,
+  UpdateCartSelectedBookableItemMutation,
+} from '../blvd/index.js';
+
+type GiftCardItem = NonNullable<
+  AvailableServicesQuery['cart']
+>['availableCategories'][number]['availableItems'][number];
+
+/** A staff choice from `listServiceStaff` / `selectStaff`; ids are null for "Any available". */
+export interface StaffOption {
+  staffVariantId: string | null;
+  staffId: string | null;
+  name: string;
+}
+
+/**
+ * What the Boulevard MCP tools that carry conversation state return, once
+ * their text content is parsed. Most pass the GraphQL result through as-is;
+ * `getCartSummary` returns the cart, `updateCartSelectedBookableItem` its
+ * payload, `selectStaff` the staff member chosen with the cart and
+ * `availableServicesGiftCard` a single item.
+ */
+export type BoulevardToolOutput = Partial<
+  CreateCartMutation &
+    SetClientOnCartMutation &
+    ApplyPromotionCodeMutation &
+    AddServiceToCartMutation &
+    AddCartGuestMutation &
+    RemoveCartGuestMutation &
+    RemoveCartSelectedItemMutation &
+    CheckoutCartMutation &
+    NonNullable<CartSummaryQuery['cart']> &
+    UpdateCartSelectedBookableItemMutation['updateCartSelectedBookableItem'] &
+    GiftCardItem & { selectedStaff: StaffOption }
+>;
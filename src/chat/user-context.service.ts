@@ -0,0 +1,62 @@
+// src/chat/user-context.service.ts
+import { Injectable, OnApplicationShutdown } from '@nestjs/common';
+import Redis from 'ioredis';
+import { UserContext } from './user-context.js';
+
+/**
+ * Redis-backed store for everything we know about a conversation.
+ *
+ * This is the single place conversation state lives: the chat service is a
+ * singleton shared by every user, so it must not keep per-user fields of its
+ * own. Contexts are cached per uuid in memory to avoid a Redis round trip on
+ * every read; the cached object is the one handed out, so callers that load
+ * the same uuid within a request see each other's changes.
+ */
+@Injectable()
+export class UserContextService implements OnApplicationShutdown {
+  // In-memory L1 cache for contexts to avoid too many redis calls (optional)
+  private contextCache: Map<string, UserContext> = new Map();
+
+  // Redis client (source of truth)
+  private redis: any;
+
+  constructor() {
+    const redisUrl = process.env.REDIS_URL || 'redis://127.0.0.1:6379';
+    this.redis = new (Redis as any)(redisUrl);
+  }
+
+  private ctxKey(uuid: string) {
+    return `chat:ctx:${uuid}`;
+  }
+
+  async load(uuid: string): Promise<UserContext> {
+    // Try cache first
+    const cached = this.contextCache.get(uuid);
+    if (cached) return cached;
+
+    const raw = await this.redis.get(this.ctxKey(uuid));
+    const parsed: UserContext = raw ? JSON.parse(raw) : {};
+
+    // populate cache
+    this.contextCache.set(uuid, parsed);
+    return parsed;
+  }
+
+  async save(uuid: string, ctx: UserContext): Promise<void> {
+    // Update cache and redis
+    this.contextCache.set(uuid, ctx);
+    await this.redis.set(this.ctxKey(uuid), JSON.stringify(ctx));
+  }
+
+  async clearFields(uuid: string, fields: (keyof UserContext)[]) {
+    const ctx = await this.load(uuid);
+    for (const f of fields) {
+      delete (ctx as any)[f];
+    }
+    await this.save(uuid, ctx);
+  }
+
+  async onApplicationShutdown() {
+    await this.redis.quit().catch(() => undefined);
+  }
+}
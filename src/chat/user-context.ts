@@ -0,0 +1,220 @@
+// src/chat/user-context.ts
+import type { CheckoutCartMutation, TimeWindow } from '../blvd/index.js';
+import type { WaitlistRequest } from './waitlist/waitlist.js';
+import type { LlmMessage } from './llm/llm-provider.js';
+
+export type AssistantIntent = 'booking' | 'gift' | 'membership';
+
+// One message of the conversation as the user saw it (Responses orchestrator)
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  // Replies only: the tool calls and outputs behind it, as the model saw them
+  tools?: LlmMessage[];
+}
+
+export interface UserContext {
+  threadId?: string;
+  cartId?: string;
+
+  // Conversation so far when running on the Responses API (no OpenAI thread)
+  turns?: ConversationTurn[];
+
+  bookableTimeId?: string;
+  staffVariantId?: string;
+  promotionOfferId?: string;
+
+  clientEmail?: string;
+  totalAmount?: number;
+  awaitingClientDetails?: boolean;
+  messageCount?: number;
+  sessionToken?: any;
+
+  // Sticky intent: only changes on an explicit switch (see detectAssistant)
+  assistantType?: AssistantIntent | 'giftcard';
+
+  // Switch we asked the user to confirm because it would abandon their cart
+  pendingIntentSwitch?: { to: AssistantIntent; confidence: number };
+
+  // Last message the user sent (used to disambiguate tool arguments)
+  lastUserMessage?: string;
+
+  clientInfo?: {
+    email?: string;
+    phone?: string;
+    name?: string;
+  };
+
+  // Boulevard client this user proved to be with a one-time code;
+  // appointment tools run as this client until it expires
+  identity?: VerifiedIdentity;
+
+  // Verification the user is partway through (see IdentityService)
+  identityVerification?: IdentityVerification;
+
+  // Cancel/reschedule held back until the user confirms it
+  pendingAppointmentAction?: PendingAppointmentAction;
+
+  // Staff member the user last chose for a service; offered first on
+  // later bookings
+  favoriteStaff?: { staffId: string; name: string };
+
+  // 🔥 Stores ALL completed bookings
+  appointmentHistory?: CompletedBooking[];
+
+  // 🔥 Stores ALL completed membership
+  membershipHistory?: CompletedMembership[];
+
+  // Checkout recorded last, so a repeated payment submission can be replayed
+  lastCheckout?: { idempotencyKey: string; sessionToken: string };
+
+  // Waitlist entries this conversation joined, newest last
+  waitlist?: (WaitlistRequest & { entryId: string })[];
+
+  // 🔥 Stores ONLY the current active booking being processed
+  booking?: {
+    cartId?: string;
+    serviceItemId?: string;
+    bookableTimeId?: string;
+    staffVariantId?: string;
+    promotionOfferId?: string;
+
+    // Last date range resolved from the user's words (resolveDateRange)
+    resolvedDate?: string;
+    searchRangeLower?: string;
+    searchRangeUpper?: string;
+    // Times of day asked for with it ("after 5pm"), applied to cartBookableTimes
+    timeWindow?: TimeWindow;
+
+    clientInfo?: { email?: string; phone?: string; name?: string };
+
+    // Services in the cart being booked, and the guests they may be for
+    selectedItems?: BookingItem[];
+    guests?: BookingGuest[];
+
+    checkoutAppointments?: string[];
+    location?: Location | null;
+    startTime?: string | null;
+    summary?: Summary;
+  };
+
+  membership?: {
+    // membershipPlanId?: string;
+    // membershipCartId?: string;
+    // clientInfo?: { email?: string; phone?: string; name?: string; };
+
+    cartId?: string;
+    serviceItemId?: string;
+    promotionOfferId?: string;
+    clientInfo?: { email?: string; phone?: string; name?: string };
+
+    checkoutAppointments?: string[];
+    selectedItems?: SelectedItem[];
+    location?: Location | null;
+    startTime?: string | null;
+    summary?: Summary;
+  };
+  giftcard?: {
+    amount?: number;
+    clientInfo?: { email?: string; phone?: string; name?: string };
+    giftcardCartId?: string;
+    recipientEmail?: string;
+    senderMessage?: string;
+  };
+  flags?: { awaitingClientDetails?: boolean };
+}
+
+/** One service in the cart, as the booking tools last reported it. */
+export interface BookingItem {
+  // Selected item id in the cart (what staff and item updates take)
+  id: string;
+  serviceId: string;
+  name: string;
+  // null when the service is for the client themself
+  guestId: string | null;
+  staffVariantId: string | null;
+}
+
+export interface BookingGuest {
+  id: string;
+  name: string;
+}
+
+export interface VerifiedIdentity {
+  clientId: string;
+  verifiedAt: string;
+  expiresAt: string;
+}
+
+export type IdentityVerification =
+  | { awaiting: 'contact' }
+  | {
+      awaiting: 'code';
+      // null when the contact matched no client; no code was sent then
+      clientId: string | null;
+      codeHash: string | null;
+      salt: string;
+      expiresAt: string;
+      // Where wrong codes are counted against the contact (see
+      // VerificationLimitsService)
+      contactKey: string;
+    };
+
+export interface PendingAppointmentAction {
+  tool: 'cancelAppointment' | 'rescheduleAppointment';
+  args: Record<string, unknown>;
+  // What to call the appointment in the reply, e.g. "Swedish Massage on …"
+  description: string;
+}
+
+export type Summary = {
+  discountAmount: number;
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+};
+
+type CheckedOutCart = CheckoutCartMutation['checkoutCart']['cart'];
+
+export type Location = NonNullable<CheckedOutCart['location']>;
+
+export interface CompletedBooking {
+  cartId: string;
+
+  // 🔥 Multiple appointment IDs possible from one checkout
+  checkoutAppointments: string[];
+
+  // 🔥 All services included in that checkout
+  selectedItems: SelectedItem[];
+
+  // 🔥 The location where this booking happened
+  location: Location | null;
+
+  // 🔥 The final summary (single)
+  summary: Summary;
+
+  // Timestamp when booking was stored
+  createdAt: string;
+
+  startTime: string | null;
+}
+
+export interface CompletedMembership {
+  cartId: string;
+
+  // 🔥 All services included in that checkout
+  selectedItems: SelectedItem[];
+
+  // 🔥 The location where this booking happened
+  location: Location | null;
+
+  // 🔥 The final summary (single)
+  summary: Summary;
+
+  // Timestamp when booking was stored
+  createdAt: string;
+
+  startTime: string | null;
+}
+
+export type SelectedItem = CheckedOutCart['selectedItems'][number];
@@ -0,0 +1,37 @@
+// src/chat/waitlist/admin-key.guard.ts
+import { createHash, timingSafeEqual } from 'node:crypto';
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { Request } from 'express';
+
+export const ADMIN_KEY_HEADER = 'x-admin-key';
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Lets a request through only with `ADMIN_API_KEY` in the `x-admin-key`
+ * header. Without the variable set, admin routes are closed to everyone.
+ */
+@Injectable()
+export class AdminKeyGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const expected = process.env.ADMIN_API_KEY;
+    if (!expected) {
+      throw new ForbiddenException('Admin API is not configured');
+    }
+
+    const given = context
+      .switchToHttp()
+      .getRequest<Request>()
+      .header(ADMIN_KEY_HEADER);
+    if (!given || !timingSafeEqual(digest(given), digest(expected))) {
+      throw new UnauthorizedException('Missing or wrong admin key');
+    }
+    return true;
+  }
+}
@@ -0,0 +1,19 @@
+// src/chat/waitlist/log-waitlist-notifier.ts
+import { Logger } from '@nestjs/common';
+import type { WaitlistNotifier, WaitlistOpening } from './waitlist-notifier.js';
+
+/**
+ * Writes openings to the server log instead of sending them, so the
+ * waitlist can be walked through locally without an email or SMS provider.
+ */
+export class LogWaitlistNotifier implements WaitlistNotifier {
+  private readonly logger = new Logger(LogWaitlistNotifier.name);
+
+  notify({ entry, slot }: WaitlistOpening): Promise<void> {
+    const to = entry.contact.email ?? entry.contact.phone;
+    this.logger.log(
+      `📨 Waitlist opening for ${to}: ${entry.serviceName} at ${entry.locationName}, ${slot.label}`,
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,221 @@
+// src/chat/waitlist/waitlist-monitor.service.ts
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import {
+  AddServiceToCartDocument,
+  BoulevardClient,
+  CartBookableDatesDocument,
+  CartBookableTimesDocument,
+  loadBoulevardConfig,
+  localSlotTime,
+  todayIn,
+} from '../../blvd/index.js';
+import type { WaitlistEntry, WaitlistSlot } from './waitlist.js';
+import { WaitlistService } from './waitlist.service.js';
+import {
+  WAITLIST_NOTIFIER,
+  type WaitlistNotifier,
+} from './waitlist-notifier.js';
+
+const DEFAULT_CHECK_INTERVAL_SECONDS = 5 * 60;
+// A cart this close to expiring is replaced rather than checked
+const CART_EXPIRY_MARGIN_MS = 60 * 1000;
+// Longer than a pass takes; frees the lock if the instance holding it dies
+const CHECK_LOCK_TTL_MS = 10 * 60 * 1000;
+
+function inWindow(slot: WaitlistSlot, { timeWindow }: WaitlistEntry) {
+  return (
+    (!timeWindow?.earliest || slot.time >= timeWindow.earliest) &&
+    (!timeWindow?.latest || slot.time <= timeWindow.latest)
+  );
+}
+
+/**
+ * Looks for openings for everyone on the waitlist every
+ * `WAITLIST_CHECK_INTERVAL_SECONDS` (default five minutes, `0` turns it
+ * off). Availability is read the way a booking reads it: a cart at the
+ * location with the service in it, shared by everyone waiting for that
+ * service there and reused from pass to pass until it expires. The first
+ * time in an entry's dates and time window goes to the notifier once;
+ * entries whose dates have passed expire. Only one instance runs a pass at
+ * a time (`WaitlistService.acquireCheckLock`), so nobody is told twice.
+ */
+@Injectable()
+export class WaitlistMonitorService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(WaitlistMonitorService.name);
+  private readonly blvd = loadBoulevardConfig().then(
+    (config) => new BoulevardClient(config),
+  );
+  private timer?: NodeJS.Timeout;
+  private running: Promise<void> | null = null;
+  // By location and service, dropped once nobody waits for them
+  private readonly carts = new Map<
+    string,
+    { id: string; expiresAt: string | null }
+  >();
+
+  constructor(
+    private readonly waitlist: WaitlistService,
+    @Inject(WAITLIST_NOTIFIER) private readonly notifier: WaitlistNotifier,
+  ) {}
+
+  onApplicationBootstrap() {
+    const seconds = Number(
+      process.env.WAITLIST_CHECK_INTERVAL_SECONDS ??
+        DEFAULT_CHECK_INTERVAL_SECONDS,
+    );
+    if (!(seconds > 0)) return;
+
+    this.timer = setInterval(() => {
+      this.checkAll().catch((err) =>
+        this.logger.error('Waitlist check failed', err),
+      );
+    }, seconds * 1000);
+    this.timer.unref();
+  }
+
+  onApplicationShutdown() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * One pass over the waiting entries; a pass already running here is
+   * joined, one running on another instance skipped.
+   */
+  checkAll(): Promise<void> {
+    this.running ??= this.checkLocked().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async checkLocked() {
+    const token = await this.waitlist.acquireCheckLock(CHECK_LOCK_TTL_MS);
+    if (!token) return;
+    try {
+      await this.checkWaiting();
+    } finally {
+      await this.waitlist.releaseCheckLock(token);
+    }
+  }
+
+  private async checkWaiting() {
+    const groups = new Map<string, WaitlistEntry[]>();
+    for (const entry of await this.waitlist.list('waiting')) {
+      if (entry.dateTo < todayIn(entry.timeZone)) {
+        await this.waitlist.save({ ...entry, status: 'expired' });
+        continue;
+      }
+      const key = `${entry.locationId} ${entry.serviceId}`;
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    }
+    for (const key of this.carts.keys()) {
+      if (!groups.has(key)) this.carts.delete(key);
+    }
+
+    // One failing service or location must not hold up the others
+    for (const [key, entries] of groups) {
+      try {
+        await this.checkOpenings(await this.cartFor(key, entries[0]), entries);
+      } catch (err: any) {
+        // The cart may be what failed; the next pass starts a new one
+        this.carts.delete(key);
+        const [{ serviceName, locationName }] = entries;
+        this.logger.warn(
+          `Waitlist check for ${serviceName} at ${locationName} failed: ${err.message}`,
+        );
+      }
+    }
+  }
+
+  private async cartFor(
+    key: string,
+    { locationId, serviceId }: WaitlistEntry,
+  ): Promise<string> {
+    const kept = this.carts.get(key);
+    if (
+      kept &&
+      !(
+        kept.expiresAt &&
+        Date.parse(kept.expiresAt) <= Date.now() + CART_EXPIRY_MARGIN_MS
+      )
+    ) {
+      return kept.id;
+    }
+
+    const blvd = await this.blvd;
+    const { createCart } = await blvd.createCart(locationId);
+    const { id, expiresAt } = createCart.cart;
+    await blvd.request(AddServiceToCartDocument, 'CLIENT', {
+      input: { id, itemId: serviceId },
+    });
+    this.carts.set(key, { id, expiresAt });
+    return id;
+  }
+
+  // Entries all want the same service at the same location
+  private async checkOpenings(cartId: string, entries: WaitlistEntry[]) {
+    const blvd = await this.blvd;
+    const [{ timeZone }] = entries;
+
+    const today = todayIn(timeZone);
+    const from = entries
+      .map((e) => (e.dateFrom > today ? e.dateFrom : today))
+      .reduce((a, b) => (a < b ? a : b));
+    const to = entries.map((e) => e.dateTo).reduce((a, b) => (a > b ? a : b));
+    const { cartBookableDates } = await blvd.request(
+      CartBookableDatesDocument,
+      'CLIENT',
+      {
+        id: cartId,
+        searchRangeLower: from,
+        searchRangeUpper: to,
+        tz: timeZone,
+      },
+    );
+
+    let waiting = entries;
+    for (const { date } of cartBookableDates) {
+      const wanting = waiting.filter(
+        (e) => e.dateFrom <= date && date <= e.dateTo,
+      );
+      if (!wanting.length) continue;
+
+      const { cartBookableTimes } = await blvd.request(
+        CartBookableTimesDocument,
+        'CLIENT',
+        { id: cartId, searchDate: date, tz: timeZone },
+      );
+      const slots: WaitlistSlot[] = cartBookableTimes.map(({ startTime }) => {
+        const { time, label } = localSlotTime(startTime, timeZone);
+        return { date, time, label, startTime };
+      });
+
+      for (const entry of wanting) {
+        const slot = slots.find((s) => inWindow(s, entry));
+        if (!slot) continue;
+        await this.notify(entry, slot);
+        waiting = waiting.filter((e) => e !== entry);
+      }
+      if (!waiting.length) return;
+    }
+  }
+
+  // Marked notified only once sent, so a failed send is retried next pass
+  private async notify(entry: WaitlistEntry, slot: WaitlistSlot) {
+    await this.notifier.notify({ entry, slot });
+    await this.waitlist.save({
+      ...entry,
+      status: 'notified',
+      notifiedAt: new Date().toISOString(),
+      opening: slot,
+    });
+  }
+}
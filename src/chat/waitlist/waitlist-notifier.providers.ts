@@ -0,0 +1,28 @@
+// src/chat/waitlist/waitlist-notifier.providers.ts
+import { Logger, Provider } from '@nestjs/common';
+import { LogWaitlistNotifier } from './log-waitlist-notifier.js';
+import { WAITLIST_NOTIFIER, WaitlistNotifier } from './waitlist-notifier.js';
+
+/**
+ * Picks the notifier from `WAITLIST_NOTIFIER` (default `log`). `log` only
+ * writes openings to the server log; nobody on the waitlist hears of them.
+ */
+export function createWaitlistNotifier(): WaitlistNotifier {
+  const name = process.env.WAITLIST_NOTIFIER || 'log';
+
+  switch (name) {
+    case 'log':
+      new Logger('WaitlistNotifier').warn(
+        '⚠️ Waitlist openings are logged, not sent (WAITLIST_NOTIFIER=log)',
+      );
+      return new LogWaitlistNotifier();
+
+    default:
+      throw new Error(`Unknown WAITLIST_NOTIFIER "${name}"`);
+  }
+}
+
+export const waitlistNotifier: Provider = {
+  provide: WAITLIST_NOTIFIER,
+  useFactory: createWaitlistNotifier,
+};
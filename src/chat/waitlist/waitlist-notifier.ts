@@ -0,0 +1,20 @@
+// src/chat/waitlist/waitlist-notifier.ts
+import type { WaitlistEntry, WaitlistSlot } from './waitlist.js';
+
+/** Nest injection token for the configured `WaitlistNotifier`. */
+export const WAITLIST_NOTIFIER = Symbol('WAITLIST_NOTIFIER');
+
+/** A bookable time opened up for someone on the waitlist. */
+export interface WaitlistOpening {
+  entry: WaitlistEntry;
+  slot: WaitlistSlot;
+}
+
+/**
+ * Tells a client on the waitlist that a time is free, through
+ * `entry.contact`. Implementations only send; finding openings is
+ * `WaitlistMonitorService`'s job, and it calls `notify` once per entry.
+ */
+export interface WaitlistNotifier {
+  notify(opening: WaitlistOpening): Promise<void>;
+}
@@ -0,0 +1,38 @@
+// src/chat/waitlist/waitlist.controller.ts
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiForbiddenResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { ErrorResponse } from '../dto/error-response.dto.js';
+import { WaitlistEntryView, WaitlistQueryDto } from '../dto/waitlist.dto.js';
+import { AdminKeyGuard } from './admin-key.guard.js';
+import type { WaitlistEntry } from './waitlist.js';
+import { WaitlistService } from './waitlist.service.js';
+
+@ApiTags('admin')
+@ApiSecurity('admin-key')
+@ApiUnauthorizedResponse({
+  type: ErrorResponse,
+  description: 'Missing or wrong admin key',
+})
+@ApiForbiddenResponse({
+  type: ErrorResponse,
+  description: 'ADMIN_API_KEY is not set',
+})
+@UseGuards(AdminKeyGuard)
+@Controller('admin/waitlist')
+export class WaitlistController {
+  constructor(private readonly waitlist: WaitlistService) {}
+
+  @ApiOperation({ summary: 'List waitlist entries, oldest first' })
+  @ApiOkResponse({ type: [WaitlistEntryView] })
+  @Get()
+  async list(@Query() { status }: WaitlistQueryDto): Promise<WaitlistEntry[]> {
+    return this.waitlist.list(status);
+  }
+}
@@ -0,0 +1,103 @@
+// src/chat/waitlist/waitlist.service.ts
+import { randomUUID } from 'node:crypto';
+import { Injectable, OnApplicationShutdown } from '@nestjs/common';
+import Redis from 'ioredis';
+import type {
+  WaitlistEntry,
+  WaitlistRequest,
+  WaitlistStatus,
+} from './waitlist.js';
+
+// Entries stay listed for a week after their last date
+const KEEP_AFTER_DATE_TO_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Every entry id, scored by when it was added
+const INDEX_KEY = 'chat:waitlist';
+// Held by the instance checking for openings
+const CHECK_LOCK_KEY = 'chat:waitlist-check:lock';
+
+// Releases the lock only if we still hold it
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+/**
+ * Redis-backed waitlist. Each entry is its own key, expiring a week after
+ * the last date it waits for; the index orders them and is pruned of
+ * expired ids as it is read. The check lock keeps every instance but one
+ * from looking for openings at the same time.
+ */
+@Injectable()
+export class WaitlistService implements OnApplicationShutdown {
+  private redis: any;
+
+  constructor() {
+    const redisUrl = process.env.REDIS_URL || 'redis://127.0.0.1:6379';
+    this.redis = new (Redis as any)(redisUrl);
+  }
+
+  private entryKey(id: string) {
+    return `chat:waitlist:${id}`;
+  }
+
+  async add(uuid: string, request: WaitlistRequest): Promise<WaitlistEntry> {
+    const entry: WaitlistEntry = {
+      ...request,
+      id: randomUUID(),
+      uuid,
+      status: 'waiting',
+      createdAt: new Date().toISOString(),
+    };
+    await this.save(entry);
+    await this.redis.zadd(INDEX_KEY, Date.parse(entry.createdAt), entry.id);
+    return entry;
+  }
+
+  async save(entry: WaitlistEntry): Promise<void> {
+    const expiresAt =
+      Date.parse(`${entry.dateTo}T00:00:00Z`) + KEEP_AFTER_DATE_TO_MS;
+    await this.redis.set(
+      this.entryKey(entry.id),
+      JSON.stringify(entry),
+      'PX',
+      Math.max(expiresAt - Date.now(), 60_000),
+    );
+  }
+
+  /** Entries oldest first, only those with `status` if given. */
+  async list(status?: WaitlistStatus): Promise<WaitlistEntry[]> {
+    const ids: string[] = await this.redis.zrange(INDEX_KEY, 0, -1);
+    if (!ids.length) return [];
+
+    const raw: (string | null)[] = await this.redis.mget(
+      ids.map((id) => this.entryKey(id)),
+    );
+    const gone = ids.filter((_, i) => !raw[i]);
+    if (gone.length) await this.redis.zrem(INDEX_KEY, ...gone);
+
+    return raw
+      .filter((r): r is string => !!r)
+      .map((r) => JSON.parse(r) as WaitlistEntry)
+      .filter((entry) => !status || entry.status === status);
+  }
+
+  /**
+   * Takes the check lock, returning the token to release it with, or `null`
+   * when another instance holds it. The TTL frees it if that one dies.
+   */
+  async acquireCheckLock(ttlMs: number): Promise<string | null> {
+    const token = randomUUID();
+    const ok = await this.redis.set(CHECK_LOCK_KEY, token, 'PX', ttlMs, 'NX');
+    return ok === 'OK' ? token : null;
+  }
+
+  async releaseCheckLock(token: string): Promise<void> {
+    await this.redis.eval(RELEASE_SCRIPT, 1, CHECK_LOCK_KEY, token);
+  }
+
+  async onApplicationShutdown() {
+    await this.redis.quit().catch(() => undefined);
+  }
+}
@@ -0,0 +1,46 @@
+// src/chat/waitlist/waitlist.ts
+import type { TimeWindow } from '../../blvd/index.js';
+
+/** Where to reach a client once a slot opens: an email, a phone or both. */
+export interface WaitlistContact {
+  name?: string;
+  // Lower-case email
+  email?: string;
+  // Mobile number in E.164 form
+  phone?: string;
+}
+
+/** What a client waits for, as `joinWaitlist` describes it. */
+export interface WaitlistRequest {
+  locationId: string;
+  locationName: string;
+  timeZone: string;
+  serviceId: string;
+  serviceName: string;
+  // YYYY-MM-DD at the location, inclusive
+  dateFrom: string;
+  dateTo: string;
+  timeWindow?: TimeWindow;
+  contact: WaitlistContact;
+}
+
+export type WaitlistStatus = 'waiting' | 'notified' | 'expired';
+
+/** A bookable time that opened up, in the location's time. */
+export interface WaitlistSlot {
+  date: string;
+  time: string;
+  label: string;
+  startTime: string;
+}
+
+export interface WaitlistEntry extends WaitlistRequest {
+  id: string;
+  // The conversation that joined
+  uuid: string;
+  status: WaitlistStatus;
+  createdAt: string;
+  // Set once the client has been told about `opening`
+  notifiedAt?: string;
+  opening?: WaitlistSlot;
+}
@@ -1,8 +1,12 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module.js';
+import { setupOpenApi } from './openapi.js';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, { cors: true });
+  // Lets providers such as the MCP client pool stop their child processes
+  app.enableShutdownHooks();
+  setupOpenApi(app);
   await app.listen(process.env.PORT ?? 3010);
 }
 bootstrap().catch((err) => {
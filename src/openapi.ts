@@ -0,0 +1,23 @@
+import type { INestApplication } from '@nestjs/common';
+import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+
+/** Serves the OpenAPI document at `/docs` (UI) and `/docs-json`. */
+export function setupOpenApi(app: INestApplication) {
+  const config = new DocumentBuilder()
+    .setTitle('Chat API')
+    .setDescription(
+      'Booking assistant used by the web widget and mobile app. Replies may ' +
+        'carry a `frontendAction` telling the client what to render besides ' +
+        'the text.',
+    )
+    .setVersion('1.0')
+    .addApiKey(
+      { type: 'apiKey', in: 'header', name: 'x-admin-key' },
+      'admin-key',
+    )
+    .build();
+
+  const document = SwaggerModule.createDocument(app, config);
+  SwaggerModule.setup('docs', app, document);
+  return document;
+}
@@ -0,0 +1,711 @@
+import {
+  FakeBoulevard,
+  startFakeBoulevard,
+} from './fake-boulevard/fake-boulevard.js';
+import { connectMcpServer, McpTestClient } from './mcp-server.js';
+import { addDays, todayIn } from '../src/blvd/local-time.js';
+import { zonedIso } from './zoned-time.js';
+
+describe('appointment-booking MCP server (e2e)', () => {
+  let fake: FakeBoulevard;
+  let mcp: McpTestClient;
+
+  beforeAll(async () => {
+    fake = await startFakeBoulevard();
+    mcp = await connectMcpServer('appointment-booking', fake);
+  });
+
+  afterAll(async () => {
+    await mcp?.close();
+    await fake?.close();
+  });
+
+  // The times cartBookableTimes finds on one date
+  const slotsOn = async (cartId: string, date: string, filters = {}) => {
+    const { days } = await mcp.call('cartBookableTimes', {
+      cartId,
+      searchDate: date,
+      ...filters,
+    });
+    return days[0]?.slots ?? [];
+  };
+
+  it('books an appointment from location to checkout', async () => {
+    const { locations } = await mcp.call('getLocations');
+    expect(locations.map((l: any) => l.name)).toEqual(['Downtown', 'Beach']);
+
+    const created = await mcp.call('createAppointmentCart', {
+      locationId: locations[0].id,
+    });
+    const cartId = created.createCart.cart.id;
+
+    const categories = await mcp.call('availableServices', { cartId });
+    expect(categories.map((c: any) => c.name)).toEqual([
+      'Facials',
+      'Massage',
+      'Add-ons',
+    ]);
+    const facial = categories[0].availableItems[0];
+
+    const added = await mcp.call('addServiceToCart', {
+      cartId,
+      serviceId: facial.id,
+    });
+    const selectedItem =
+      added.addCartSelectedBookableItem.cart.selectedItems[0];
+    expect(selectedItem.item.name).toBe('Classic HydraFacial');
+
+    const dates = await mcp.call('cartBookableDates', { cartId });
+    expect(dates.length).toBeGreaterThan(0);
+
+    const { timeZone, days } = await mcp.call('cartBookableTimes', {
+      cartId,
+      searchDate: dates[0],
+    });
+    expect(timeZone).toBe('America/Los_Angeles');
+    expect(days).toEqual([
+      expect.objectContaining({ date: dates[0], label: expect.any(String) }),
+    ]);
+    const times = days[0].slots;
+    expect(times[0]).toEqual({
+      id: expect.stringMatching(/^urn:blvd:BookableTime:/),
+      score: expect.any(Number),
+      startTime: expect.stringContaining(dates[0]),
+      time: expect.stringMatching(/^\d{2}:\d{2}$/),
+      label: expect.stringMatching(/ (AM|PM) P[SD]T$/),
+    });
+
+    await mcp.call('reserveCartBookableItems', {
+      cartId,
+      bookableTimeId: times[0].id,
+    });
+
+    const staff = await mcp.call('cartBookableStaffVariants', {
+      cartId,
+      itemId: selectedItem.id,
+      bookableTimeId: times[0].id,
+    });
+    expect(staff.map((v: any) => v.staff.displayName)).toEqual([
+      'Ana R.',
+      'Ben K.',
+    ]);
+
+    await mcp.call('updateCartSelectedBookableItem', {
+      cartId,
+      itemId: selectedItem.id,
+      itemStaffVariantId: staff[1].id,
+    });
+
+    const promo = await mcp.call('applyPromotionCode', {
+      cartId,
+      offerCode: 'WELCOME10',
+    });
+    expect(promo.addCartOffer.offer.applied).toBe(true);
+
+    await mcp.call('setClientOnCart', {
+      cartId,
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: ' Jane@Example.com ',
+      phoneNumber: '+15555550100',
+    });
+
+    const summary = await mcp.call('getCartSummary', { cartId });
+    expect(summary.summary).toMatchObject({
+      subtotal: 19900,
+      discountAmount: 1990,
+      total: 17910,
+    });
+    expect(summary.clientInformation.email).toBe('jane@example.com');
+    expect(
+      summary.selectedItems[0].selectedStaffVariant.staff.displayName,
+    ).toBe('Ben K.');
+
+    await mcp.call('addCartCardPaymentMethod', { cartId, token: 'tok_test' });
+    const checkout = await mcp.call('checkoutCart', { cartId });
+
+    expect(checkout.checkoutCart.appointments).toHaveLength(1);
+    expect(fake.carts.get(cartId)?.completedAt).toBeDefined();
+  });
+
+  it('removes an add-on from the cart', async () => {
+    const created = await mcp.call('createAppointmentCart', {
+      locationId: 'urn:blvd:Location:loc-beach',
+    });
+    const cartId = created.createCart.cart.id;
+
+    await mcp.call('addServiceToCart', {
+      cartId,
+      serviceId: 'urn:blvd:Service:svc-swedish',
+    });
+    const added = await mcp.call('addServiceToCart', {
+      cartId,
+      serviceId: 'urn:blvd:Service:svc-led',
+    });
+    const names = () =>
+      fake.carts.get(cartId)!.selectedItems.map((s) => s.item.name);
+    expect(names()).toEqual(['Swedish Massage', 'LED Light Therapy']);
+
+    // Selected items are removed by their own id, not the service's
+    await expect(
+      mcp.call('removeItemInCart', {
+        cartId,
+        itemId: 'urn:blvd:Service:svc-led',
+      }),
+    ).rejects.toThrow('Item not in cart');
+    const led = added.addCartSelectedBookableItem.cart.selectedItems[1];
+    await mcp.call('removeItemInCart', { cartId, itemId: led.id });
+    expect(names()).toEqual(['Swedish Massage']);
+  });
+
+  it('books several services for the client and a guest in one cart', async () => {
+    const created = await mcp.call('createAppointmentCart', {
+      locationId: 'urn:blvd:Location:loc-downtown',
+    });
+    const cartId = created.createCart.cart.id;
+
+    await mcp.call('addServiceToCart', {
+      cartId,
+      serviceId: 'urn:blvd:Service:svc-hydrafacial',
+    });
+    await mcp.call('addServiceToCart', {
+      cartId,
+      serviceId: 'urn:blvd:Service:svc-swedish',
+    });
+    const { createCartGuest } = await mcp.call('addCartGuest', {
+      cartId,
+      firstName: 'Mia',
+    });
+    const guestId = createCartGuest.guest.id;
+    const added = await mcp.call('addServiceToCart', {
+      cartId,
+      serviceId: 'urn:blvd:Service:svc-signature',
+      guestId,
+    });
+    const [facial, massage, guestFacial] =
+      added.addCartSelectedBookableItem.cart.selectedItems;
+
+    const [date] = await mcp.call('cartBookableDates', { cartId });
+    const [slot] = await slotsOn(cartId, date);
+    await mcp.call('reserveCartBookableItems', {
+      cartId,
+      bookableTimeId: slot.id,
+    });
+
+    // Each service gets its own staff member
+    const [ana, ben] = await mcp.call('cartBookableStaffVariants', {
+      cartId,
+      itemId: massage.id,
+      bookableTimeId: slot.id,
+    });
+    await mcp.call('updateCartSelectedBookableItem', {
+      cartId,
+      itemId: facial.id,
+      itemStaffVariantId: ana.id,
+    });
+    await mcp.call('updateCartSelectedBookableItem', {
+      cartId,
+      itemId: guestFacial.id,
+      itemStaffVariantId: ben.id,
+    });
+
+    const summary = await mcp.call('getCartSummary', { cartId });
+    expect(summary.guests).toEqual([
+      expect.objectContaining({ id: guestId, firstName: 'Mia' }),
+    ]);
+    expect(
+      summary.selectedItems.map((s: any) => [
+        s.item.name,
+        s.guestId,
+        s.selectedStaffVariant?.staff.displayName ?? null,
+      ]),
+    ).toEqual([
+      ['Classic HydraFacial', null, 'Ana R.'],
+      ['Swedish Massage', null, null],
+      ['Signature Facial', guestId, 'Ben K.'],
+    ]);
+    expect(summary.summary.subtotal).toBe(19900 + 12000 + 15000);
+
+    // Dropping the guest drops their service too
+    const removed = await mcp.call('removeCartGuest', { cartId, guestId });
+    expect(removed.deleteCartGuest.cart.guests).toEqual([]);
+    expect(
+      removed.deleteCartGuest.cart.selectedItems.map((s: any) => s.id),
+    ).toEqual([facial.id, massage.id]);
+    await expect(
+      mcp.call('removeCartGuest', { cartId, guestId }),
+    ).rejects.toThrow('NOT_FOUND');
+  });
+
+  it('adds and removes add-ons on the service they are for', async () => {
+    const created = await mcp.call('createAppointmentCart', {
+      locationId: 'urn:blvd:Location:loc-downtown',
+    });
+    const cartId = created.createCart.cart.id;
+    await mcp.call('addServiceToCart', {
+      cartId,
+      serviceId: 'urn:blvd:Service:svc-hydrafacial',
+    });
+    const { createCartGuest } = await mcp.call('addCartGuest', {
+      cartId,
+      firstName: 'Mia',
+    });
+    const added = await mcp.call('addServiceToCart', {
+      cartId,
+      serviceId: 'urn:blvd:Service:svc-signature',
+      guestId: createCartGuest.guest.id,
+    });
+    const [facial, guestFacial] =
+      added.addCartSelectedBookableItem.cart.selectedItems;
+    const addonsOf = async (itemId: string) =>
+      (await mcp.call('listServiceAddons', { cartId, itemId })).addons.map(
+        (a: any) => [a.name, a.kind, a.price, a.selected],
+      );
+
+    const listed = await mcp.call('listServiceAddons', {
+      cartId,
+      itemId: guestFacial.id,
+    });
+    expect(listed.serviceName).toBe('Signature Facial');
+    expect(await addonsOf(guestFacial.id)).toEqual([
+      ['Extra Extractions', 'option', 2000, false],
+      ['Lip Treatment', 'option', 1000, false],
+      ['LED Light Therapy', 'service', 2500, false],
+      ['Hydrating Mask', 'service', 1500, false],
+    ]);
+
+    const lip = listed.addons[1].addonId;
+    const withLip = await mcp.call('addAddonToItem', {
+      cartId,
+      itemId: guestFacial.id,
+      addonId: lip,
+    });
+    expect(withLip.addon).toEqual({
+      addonId: lip,
+      kind: 'option',
+      name: 'Lip Treatment',
+      price: 1000,
+    });
+    expect(
+      withLip.cart.selectedItems.map((s: any) =>
+        s.selectedOptions.map((o: any) => o.name),
+      ),
+    ).toEqual([[], ['Lip Treatment']]);
+    expect(await addonsOf(facial.id)).toContainEqual([
+      'Lip Treatment',
+      'option',
+      1000,
+      false,
+    ]);
+
+    // Add-on services are booked with the guest's service, not the client's
+    await mcp.call('addAddonToItem', {
+      cartId,
+      itemId: guestFacial.id,
+      addonId: 'urn:blvd:Service:svc-led',
+    });
+    const cart = fake.carts.get(cartId)!;
+    expect(cart.selectedItems.map((s) => [s.item.name, s.guestId])).toEqual([
+      ['Classic HydraFacial', undefined],
+      ['Signature Facial', createCartGuest.guest.id],
+      ['LED Light Therapy', createCartGuest.guest.id],
+    ]);
+    expect(await addonsOf(guestFacial.id)).toContainEqual([
+      'LED Light Therapy',
+      'service',
+      2500,
+      true,
+    ]);
+    expect(await addonsOf(facial.id)).toContainEqual([
+      'LED Light Therapy',
+      'service',
+      2500,
+      false,
+    ]);
+    await expect(
+      mcp.call('removeAddonFromItem', {
+        cartId,
+        itemId: facial.id,
+        addonId: 'urn:blvd:Service:svc-led',
+      }),
+    ).rejects.toThrow('NOT_FOUND');
+    await expect(
+      mcp.call('addAddonToItem', {
+        cartId,
+        itemId: guestFacial.id,
+        addonId: 'urn:blvd:Service:svc-led',
+      }),
+    ).rejects.toThrow('VALIDATION');
+
+    let summary = await mcp.call('getCartSummary', { cartId });
+    expect(summary.summary.subtotal).toBe(19900 + 15000 + 1000 + 2500);
+
+    await mcp.call('removeAddonFromItem', {
+      cartId,
+      itemId: guestFacial.id,
+      addonId: lip,
+    });
+    await mcp.call('removeAddonFromItem', {
+      cartId,
+      itemId: guestFacial.id,
+      addonId: 'urn:blvd:Service:svc-led',
+    });
+    summary = await mcp.call('getCartSummary', { cartId });
+    expect(summary.summary.subtotal).toBe(19900 + 15000);
+
+    await expect(
+      mcp.call('removeAddonFromItem', {
+        cartId,
+        itemId: guestFacial.id,
+        addonId: lip,
+      }),
+    ).rejects.toThrow('NOT_FOUND');
+    await expect(
+      mcp.call('addAddonToItem', {
+        cartId,
+        itemId: guestFacial.id,
+        addonId: 'urn:blvd:Service:svc-swedish',
+      }),
+    ).rejects.toThrow('VALIDATION');
+  });
+
+  it('books a chosen staff member or anyone available, at times they work', async () => {
+    const created = await mcp.call('createAppointmentCart', {
+      locationId: 'urn:blvd:Location:loc-downtown',
+    });
+    const cartId = created.createCart.cart.id;
+    const added = await mcp.call('addServiceToCart', {
+      cartId,
+      serviceId: 'urn:blvd:Service:svc-hydrafacial',
+    });
+    const [facial] = added.addCartSelectedBookableItem.cart.selectedItems;
+    const [date] = await mcp.call('cartBookableDates', { cartId });
+    const startTimes = async () =>
+      (await slotsOn(cartId, date)).map((t: any) => t.time);
+
+    // No time needed to see who can do it
+    const listed = await mcp.call('listServiceStaff', {
+      cartId,
+      itemId: facial.id,
+    });
+    expect(listed.serviceName).toBe('Classic HydraFacial');
+    expect(listed.staff.map((s: any) => [s.name, s.staffVariantId])).toEqual([
+      ['Any available', null],
+      ['Ana R.', 'urn:blvd:Staff:staff-ana:variant'],
+      ['Ben K.', 'urn:blvd:Staff:staff-ben:variant'],
+    ]);
+
+    const chosen = await mcp.call('selectStaff', {
+      cartId,
+      itemId: facial.id,
+      staffVariantId: listed.staff[1].staffVariantId,
+    });
+    expect(chosen.selectedStaff).toMatchObject({
+      staffId: 'urn:blvd:Staff:staff-ana',
+      name: 'Ana R.',
+    });
+    expect(
+      chosen.cart.selectedItems[0].selectedStaffVariant.staff.displayName,
+    ).toBe('Ana R.');
+    expect(await startTimes()).toEqual(['10:00', '11:30', '14:00']);
+
+    await mcp.call('selectStaff', { cartId, itemId: facial.id });
+    expect(
+      fake.carts.get(cartId)!.selectedItems[0].staffVariantId,
+    ).toBeUndefined();
+    expect(await startTimes()).toEqual(['10:00', '11:30', '14:00', '16:30']);
+
+    // Wrong ids fail instead of falling back to some other service
+    await expect(
+      mcp.call('selectStaff', {
+        cartId,
+        itemId: facial.id,
+        staffVariantId: 'urn:blvd:Staff:nobody:variant',
+      }),
+    ).rejects.toThrow('VALIDATION');
+    await expect(
+      mcp.call('listServiceStaff', {
+        cartId,
+        itemId: 'urn:blvd:Service:svc-hydrafacial',
+      }),
+    ).rejects.toThrow('VALIDATION');
+    await expect(
+      mcp.call('cartBookableStaffVariants', { cartId, bookableTimeId: 'any' }),
+    ).rejects.toThrow();
+  });
+
+  it("resolves dates and shows times in the location's time zone", async () => {
+    const tz = 'America/Los_Angeles';
+    const created = await mcp.call('createAppointmentCart', {
+      locationId: 'urn:blvd:Location:loc-downtown',
+    });
+    const cartId = created.createCart.cart.id;
+    await mcp.call('addServiceToCart', {
+      cartId,
+      serviceId: 'urn:blvd:Service:svc-hydrafacial',
+    });
+
+    const tomorrow = addDays(todayIn(tz), 1);
+    expect(
+      await mcp.call('resolveDateRange', {
+        cartId,
+        inputText: 'tomorrow at 3',
+      }),
+    ).toEqual({
+      resolvedDate: tomorrow,
+      rangeLower: tomorrow,
+      rangeUpper: addDays(tomorrow, 7),
+      time: '15:00',
+      timeZone: tz,
+    });
+    expect(
+      await mcp.call('resolveDateRange', { cartId, inputText: 'someday' }),
+    ).toEqual({ error: 'Unable to understand date' });
+
+    // Dates come from the range asked for, the coming week by default
+    const week = await mcp.call('cartBookableDates', { cartId });
+    expect(week[0] >= todayIn(tz)).toBe(true);
+    expect(week.every((d: string) => d <= addDays(todayIn(tz), 7))).toBe(true);
+    const later = await mcp.call('cartBookableDates', {
+      cartId,
+      searchRangeLower: addDays(tomorrow, 14),
+      searchRangeUpper: addDays(tomorrow, 21),
+    });
+    expect(later.length).toBeGreaterThan(0);
+    expect(later.every((d: string) => d >= addDays(tomorrow, 14))).toBe(true);
+    await expect(
+      mcp.call('cartBookableDates', {
+        cartId,
+        searchRangeLower: tomorrow,
+        searchRangeUpper: addDays(tomorrow, 60),
+      }),
+    ).rejects.toThrow('VALIDATION');
+
+    const [date] = week;
+    const times = await slotsOn(cartId, date);
+    expect(times.map((t: any) => t.time)).toContain('10:00');
+    const ten = times.find((t: any) => t.time === '10:00');
+    expect(ten.startTime).toBe(zonedIso(date, '10:00', tz));
+    expect(ten.label).toMatch(/, 10:00 AM P[SD]T$/);
+
+    // "after 2pm" comes back as a window the times are kept to
+    const { timeWindow } = await mcp.call('resolveDateRange', {
+      cartId,
+      inputText: `after 2pm on ${date}`,
+    });
+    expect(timeWindow).toEqual({ earliest: '14:00' });
+    const afternoon = await slotsOn(cartId, date, timeWindow);
+    expect(afternoon.map((t: any) => t.time)).toEqual(['14:00', '16:30']);
+  });
+
+  it('filters bookable times across days and finds the next openings', async () => {
+    const created = await mcp.call('createAppointmentCart', {
+      locationId: 'urn:blvd:Location:loc-downtown',
+    });
+    const cartId = created.createCart.cart.id;
+    await mcp.call('addServiceToCart', {
+      cartId,
+      serviceId: 'urn:blvd:Service:svc-hydrafacial',
+    });
+    const dates = await mcp.call('cartBookableDates', { cartId });
+    const times = (result: any) =>
+      result.days.map((day: any) => [
+        day.date,
+        day.slots.map((t: any) => t.time),
+      ]);
+
+    // Mornings over the week, nearest first
+    const mornings = await mcp.call('cartBookableTimes', {
+      cartId,
+      searchDate: dates[0],
+      throughDate: addDays(dates[0], 6),
+      latest: '12:00',
+      limit: 4,
+    });
+    expect(times(mornings)).toEqual([
+      [dates[0], ['10:00', '11:30']],
+      [dates[1], ['10:00', '11:30']],
+    ]);
+    expect(mornings.days[0].label).toMatch(/^\w{3}, \w{3} \d{1,2}$/);
+
+    const weekday = new Date(`${dates[1]}T00:00:00Z`)
+      .toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' })
+      .toLowerCase();
+    const sameDay = await mcp.call('cartBookableTimes', {
+      cartId,
+      searchDate: dates[0],
+      throughDate: addDays(dates[0], 13),
+      daysOfWeek: [weekday],
+    });
+    expect(sameDay.days.map((day: any) => day.date)).toEqual([
+      dates[1],
+      addDays(dates[1], 7),
+    ]);
+
+    // Ana leaves early, without being the cart's chosen staff
+    const ana = 'urn:blvd:Staff:staff-ana';
+    const withAna = await mcp.call('cartBookableTimes', {
+      cartId,
+      searchDate: dates[0],
+      staffId: ana,
+    });
+    expect(times(withAna)).toEqual([[dates[0], ['10:00', '11:30', '14:00']]]);
+
+    const evenings = await mcp.call('findNextAvailableSlots', {
+      cartId,
+      earliest: '16:00',
+      limit: 3,
+    });
+    expect(times(evenings)).toEqual(
+      dates.slice(0, 3).map((date: string) => [date, ['16:30']]),
+    );
+    await expect(
+      mcp.call('findNextAvailableSlots', {
+        cartId,
+        earliest: '16:00',
+        staffId: ana,
+      }),
+    ).resolves.toEqual({ timeZone: 'America/Los_Angeles', days: [] });
+
+    // One lookup per time still wanted, for the service Ana would do
+    const massage = await mcp.call('addServiceToCart', {
+      cartId,
+      serviceId: 'urn:blvd:Service:svc-swedish',
+    });
+    const [facial] = massage.addCartSelectedBookableItem.cart.selectedItems;
+    await expect(
+      mcp.call('findNextAvailableSlots', { cartId, staffId: ana }),
+    ).rejects.toThrow('pass the itemId');
+    const lookups = () =>
+      fake.requests.filter((r) => r.field === 'cartBookableStaffVariants');
+    const before = lookups().length;
+    const firstWithAna = await mcp.call('findNextAvailableSlots', {
+      cartId,
+      staffId: ana,
+      itemId: facial.id,
+      limit: 2,
+    });
+    expect(times(firstWithAna)).toEqual([[dates[0], ['10:00', '11:30']]]);
+    expect(
+      lookups()
+        .slice(before)
+        .map((r) => r.variables.itemId),
+    ).toEqual([facial.id, facial.id]);
+
+    // Ana is never free late in the day: the search gives up, and says so
+    const lateWithAna = await mcp.call('findNextAvailableSlots', {
+      cartId,
+      staffId: ana,
+      itemId: facial.id,
+      earliest: '15:00',
+      withinDays: 90,
+    });
+    expect(lateWithAna).toEqual({
+      timeZone: 'America/Los_Angeles',
+      days: [],
+      incomplete: true,
+    });
+    expect(lookups().length - before).toBe(2 + 40);
+
+    await expect(
+      mcp.call('cartBookableTimes', {
+        cartId,
+        searchDate: dates[1],
+        throughDate: dates[0],
+      }),
+    ).rejects.toThrow('VALIDATION');
+  });
+
+  it("lists, reschedules and cancels the client's appointments", async () => {
+    const created = await mcp.call('createAppointmentCart', {
+      locationId: 'urn:blvd:Location:loc-downtown',
+    });
+    const cartId = created.createCart.cart.id;
+    await mcp.call('addServiceToCart', {
+      cartId,
+      serviceId: 'urn:blvd:Service:svc-swedish',
+    });
+    // Not today: the slot could already be over
+    const [, date, nextDate] = await mcp.call('cartBookableDates', { cartId });
+    const [slot] = await slotsOn(cartId, date);
+    await mcp.call('reserveCartBookableItems', {
+      cartId,
+      bookableTimeId: slot.id,
+    });
+    await mcp.call('setClientOnCart', {
+      cartId,
+      firstName: 'Sam',
+      lastName: 'Lee',
+      email: 'sam@example.com',
+      phoneNumber: '+15555550101',
+    });
+    await mcp.call('addCartCardPaymentMethod', { cartId, token: 'tok_test' });
+    const checkout = await mcp.call('checkoutCart', { cartId });
+    const [{ appointmentId, clientId }] = checkout.checkoutCart.appointments;
+
+    const { appointments } = await mcp.call('listMyAppointments', { clientId });
+    expect(appointments).toEqual([
+      expect.objectContaining({
+        id: appointmentId,
+        startAt: slot.startTime,
+        location: { name: 'Downtown', tz: 'America/Los_Angeles' },
+        services: [expect.objectContaining({ name: 'Swedish Massage' })],
+      }),
+    ]);
+
+    const offered = await mcp.call('rescheduleAppointment', {
+      clientId,
+      appointmentId,
+      date: nextDate,
+    });
+    expect(offered.status).toBe('CHOOSE_TIME');
+    const newTime = offered.times[2];
+
+    const moved = await mcp.call('rescheduleAppointment', {
+      clientId,
+      appointmentId,
+      date: nextDate,
+      bookableTimeId: newTime.bookableTimeId,
+    });
+    expect(moved).toMatchObject({
+      status: 'RESCHEDULED',
+      appointment: { id: appointmentId, startAt: newTime.startTime },
+    });
+
+    // Another client can neither see nor cancel it
+    const intruder = 'urn:blvd:Client:00000000-0000-4000-8000-000000000000';
+    await expect(
+      mcp.call('listMyAppointments', { clientId: intruder }),
+    ).resolves.toEqual({ appointments: [] });
+    await expect(
+      mcp.call('cancelAppointment', { clientId: intruder, appointmentId }),
+    ).rejects.toThrow('NOT_FOUND');
+
+    const cancelled = await mcp.call('cancelAppointment', {
+      clientId,
+      appointmentId,
+    });
+    expect(cancelled).toMatchObject({
+      status: 'CANCELLED',
+      appointment: { id: appointmentId, cancelled: true },
+    });
+    expect(fake.appointments.get(appointmentId)?.cancelled).toBe(true);
+    await expect(mcp.call('listMyAppointments', { clientId })).resolves.toEqual(
+      { appointments: [] },
+    );
+  });
+
+  it('surfaces Boulevard errors from the fake', async () => {
+    const result: any = await mcp.client.callTool({
+      name: 'cartBookableTimes',
+      arguments: { cartId: 'urn:blvd:Cart:missing', searchDate: '2030-01-02' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text).error).toEqual({
+      code: 'NOT_FOUND',
+      message: expect.stringContaining('Cart not found'),
+      retryable: false,
+    });
+  });
+});
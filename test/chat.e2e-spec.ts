@@ -0,0 +1,476 @@
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import {
+  FakeBoulevard,
+  startFakeBoulevard,
+} from './fake-boulevard/fake-boulevard.js';
+import { fakeBoulevardEnv } from './mcp-server.js';
+import { InMemoryUserContextService } from './in-memory-stores.js';
+import { createTestApp, RecordingOtpNotifier } from './test-app.js';
+import { ScriptedLlmProvider } from '../src/chat/llm/scripted-llm.provider.js';
+import { addDays, todayIn, weekdayOf } from '../src/blvd/local-time.js';
+import { zonedIso } from './zoned-time.js';
+import { OTP_NOTIFIER } from '../src/chat/identity/otp-notifier.js';
+
+const DOWNTOWN = 'urn:blvd:Location:loc-downtown';
+const HYDRAFACIAL = 'urn:blvd:Service:svc-hydrafacial';
+
+// The cart id is filled in by ChatService from the conversation context
+const CART = { cartId: 'from-context' };
+
+/** A booking conversation, one rule per user message. */
+const bookingScript = () =>
+  new ScriptedLlmProvider([
+    {
+      when: 'book an appointment',
+      rounds: [[{ name: 'getLocations' }]],
+      reply: (o) =>
+        `Which location? ${o.getLocations.locations.map((l: any) => l.name).join(' or ')}`,
+    },
+    {
+      when: 'downtown',
+      rounds: [
+        [
+          {
+            name: 'createAppointmentCart',
+            arguments: { locationId: DOWNTOWN },
+          },
+        ],
+        [{ name: 'availableServices', arguments: CART }],
+      ],
+      reply: (o) =>
+        `Pick a service: ${o.availableServices.services[0].items.map((i: any) => i.name).join(', ')}`,
+    },
+    {
+      when: 'hydrafacial',
+      rounds: [
+        [
+          {
+            name: 'addServiceToCart',
+            arguments: { ...CART, serviceId: HYDRAFACIAL },
+          },
+        ],
+        [{ name: 'resolveDateRange', arguments: { inputText: 'monday' } }],
+        [{ name: 'cartBookableDates', arguments: CART }],
+      ],
+      reply: 'What time on Monday?',
+    },
+    {
+      when: '10am',
+      rounds: [
+        [{ name: 'cartBookableTimes', arguments: CART }],
+        [
+          {
+            name: 'reserveCartBookableItems',
+            arguments: (o) => ({
+              ...CART,
+              bookableTimeId: o.cartBookableTimes.days[0].slots[0].id,
+            }),
+          },
+        ],
+      ],
+      reply: (o) =>
+        `Reserved ${o.reserveCartBookableItems.status}. Your details?`,
+    },
+    {
+      when: 'jane@example.com',
+      rounds: [
+        [
+          {
+            name: 'setClientOnCart',
+            arguments: {
+              ...CART,
+              firstName: 'Jane',
+              lastName: 'Doe',
+              email: 'jane@example.com',
+              phoneNumber: '+15555550100',
+            },
+          },
+        ],
+      ],
+      reply: 'unused — setClientOnCart ends the turn',
+    },
+    {
+      when: 'when is my appointment',
+      rounds: [[{ name: 'listMyAppointments' }]],
+      reply: (o) =>
+        `Your ${o.listMyAppointments.appointments[0].services[0].name} is booked.`,
+    },
+    {
+      when: 'move it',
+      rounds: [
+        [{ name: 'listMyAppointments' }],
+        [
+          {
+            name: 'rescheduleAppointment',
+            arguments: (o) => ({
+              appointmentId: o.listMyAppointments.appointments[0].id,
+              date: RESCHEDULE_DATE,
+            }),
+          },
+        ],
+        [
+          {
+            name: 'rescheduleAppointment',
+            arguments: (o) => ({
+              appointmentId: o.rescheduleAppointment.appointmentId,
+              date: RESCHEDULE_DATE,
+              bookableTimeId: o.rescheduleAppointment.times[1].bookableTimeId,
+            }),
+          },
+        ],
+      ],
+      reply: 'unused — the confirmation question ends the turn',
+    },
+    {
+      when: 'cancel it',
+      rounds: [
+        [{ name: 'listMyAppointments' }],
+        [
+          {
+            name: 'cancelAppointment',
+            arguments: (o) => ({
+              appointmentId: o.listMyAppointments.appointments[0].id,
+            }),
+          },
+        ],
+      ],
+      reply: 'unused — the confirmation question ends the turn',
+    },
+    {
+      when: 'with ana',
+      rounds: [
+        [
+          {
+            name: 'createAppointmentCart',
+            arguments: { locationId: DOWNTOWN },
+          },
+        ],
+        [
+          {
+            name: 'addServiceToCart',
+            arguments: { ...CART, serviceId: HYDRAFACIAL },
+          },
+        ],
+        [{ name: 'listServiceStaff', arguments: CART }],
+        [
+          {
+            name: 'selectStaff',
+            arguments: (o) => ({
+              ...CART,
+              staffVariantId: o.listServiceStaff.staff.find(
+                (s: any) => s.name === 'Ana R.',
+              ).staffVariantId,
+            }),
+          },
+        ],
+        [{ name: 'cartBookableTimes', arguments: CART }],
+      ],
+      reply: (o) =>
+        `${o.selectStaff.selectedStaff.name} is free at ${o.cartBookableTimes.days[0].slots.length} times`,
+    },
+    {
+      when: 'who else',
+      rounds: [[{ name: 'listServiceStaff', arguments: CART }]],
+      reply: (o) =>
+        `Would you like ${o.listServiceStaff.staff.find((s: any) => s.favorite).name} again?`,
+    },
+    {
+      when: 'anyone is fine',
+      rounds: [
+        [{ name: 'selectStaff', arguments: CART }],
+        [{ name: 'cartBookableTimes', arguments: CART }],
+      ],
+      reply: (o) =>
+        `${o.selectStaff.selectedStaff.name} is free at ${o.cartBookableTimes.days[0].slots.length} times`,
+    },
+  ]);
+
+// An open day (not Sunday) a week out
+const RESCHEDULE_DATE = (() => {
+  const date = addDays(todayIn('America/Los_Angeles'), 7);
+  return weekdayOf(date) === 0 ? addDays(date, 1) : date;
+})();
+
+describe('Chat booking conversation (e2e)', () => {
+  let fake: FakeBoulevard;
+  let app: INestApplication;
+  let contexts: InMemoryUserContextService;
+  const uuid = 'e2e-user';
+
+  const say = async (chatInput: string) => {
+    const res = await request(app.getHttpServer())
+      .post('/chat')
+      .send({ chatInput, sessionId: 'e2e-session', uuid })
+      .expect(201);
+    return res.body.reply;
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    fake = await startFakeBoulevard();
+    Object.assign(process.env, fakeBoulevardEnv(fake));
+
+    contexts = new InMemoryUserContextService();
+    app = await createTestApp(bookingScript(), contexts);
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    await fake?.close();
+    jest.restoreAllMocks();
+  });
+
+  it('books and pays for an appointment without leaving the machine', async () => {
+    expect((await say('I want to book an appointment')).content).toBe(
+      'Which location? Downtown or Beach',
+    );
+    expect((await say('Downtown please')).content).toBe(
+      'Pick a service: Classic HydraFacial, Signature Facial',
+    );
+    expect((await say('The HydraFacial, next Monday')).content).toBe(
+      'What time on Monday?',
+    );
+    expect((await say('10am works')).content).toBe(
+      'Reserved Success. Your details?',
+    );
+
+    const ctx = contexts.contexts.get(uuid)!;
+    expect(ctx.assistantType).toBe('booking');
+    expect(fake.carts.get(ctx.cartId!)?.bookableTimeId).toMatch(/T10:00$/);
+
+    const pay = await say('jane@example.com, Jane Doe, 555 555 0100');
+    expect(pay.frontendAction).toEqual({
+      type: 'SHOW_PAY_BUTTON',
+      checkoutUrl: expect.stringContaining('amount=199'),
+    });
+
+    const cartId = ctx.cartId!;
+    const checkoutToken = new URL(
+      pay.frontendAction.checkoutUrl,
+      'http://x',
+    ).searchParams.get('token');
+    const submit = (body: object) =>
+      request(app.getHttpServer()).post('/chat/receive-token').send(body);
+
+    const payment = { token: 'tok_test', checkoutToken, uuid };
+
+    await submit({ ...payment, checkoutToken: 'forged.grant' }).expect(401);
+    await submit({ ...payment, uuid: 'intruder' }).expect(403);
+    expect(fake.carts.get(cartId)?.completedAt).toBeUndefined();
+
+    // A declined card can be replaced on the same link
+    fake.failNext('checkoutCart', 'Your card was declined');
+    const declined = await submit({ ...payment, token: 'tok_declined' }).expect(
+      422,
+    );
+
+    expect(declined.body).toMatchObject({
+      code: 'CARD_DECLINED',
+      retryable: true,
+      reply: { content: expect.stringContaining('declined') },
+    });
+    expect(fake.carts.get(cartId)?.completedAt).toBeUndefined();
+
+    const receipt = await submit(payment).expect(201);
+
+    expect(fake.carts.get(cartId)?.paymentToken).toBe('tok_test');
+    expect(receipt.body.reply.content).toContain('Total: $199.00');
+    expect(receipt.body.receipt).toMatchObject({
+      cartId,
+      appointmentIds: [expect.stringMatching(/^urn:blvd:Appointment:/)],
+      location: { name: 'Downtown', tz: 'America/Los_Angeles' },
+      startTime: expect.stringMatching(/T10:00:00-0[78]:00$/),
+      startTimeLocal: expect.stringMatching(/AM P[SD]T$/),
+      lineItems: [{ name: 'Classic HydraFacial', staff: null, price: 19900 }],
+      total: 19900,
+    });
+    expect(fake.carts.get(cartId)?.completedAt).toBeDefined();
+    expect(ctx.appointmentHistory).toHaveLength(1);
+    expect(ctx.cartId).toBeUndefined();
+
+    // A browser retry of the same payment replays the receipt
+    const retry = await submit(payment).expect(201);
+
+    expect(retry.body).toEqual(receipt.body);
+    expect(ctx.appointmentHistory).toHaveLength(1);
+  });
+
+  it('checks who the user is with a one-time code before looking anything up', async () => {
+    const ctx = contexts.contexts.get(uuid)!;
+    const [appointmentId] = ctx.appointmentHistory![0].checkoutAppointments;
+    const notifier = app.get<RecordingOtpNotifier>(OTP_NOTIFIER);
+    const lookups = () =>
+      fake.requests.filter((r) => r.field === 'myAppointments').length;
+
+    // Paying for a booking is not enough: anyone can type someone's email
+    expect((await say('When is my appointment?')).content).toMatch(
+      /^Before I can look up your appointments I need to check it's you\./,
+    );
+    expect((await say('It is JANE@example.com')).content).toBe(
+      "If jane@example.com is on file with us, we've sent a 6-digit code there by email. What's the code?",
+    );
+    expect(notifier.sent).toEqual([
+      expect.objectContaining({ channel: 'email', to: 'jane@example.com' }),
+    ]);
+
+    const { code } = notifier.sent[0];
+    const wrong = code === '000000' ? '111111' : '000000';
+    expect((await say(wrong)).content).toMatch(/^That code doesn't match/);
+    expect((await say(`it's ${code}`)).content).toMatch(
+      /^Thanks, you're verified\./,
+    );
+
+    expect(ctx.identity).toMatchObject({
+      clientId: fake.appointments.get(appointmentId)!.clientId,
+      expiresAt: expect.any(String),
+    });
+    expect(ctx.identityVerification).toBeUndefined();
+    expect(JSON.stringify(ctx.turns)).not.toContain(code);
+    expect(lookups()).toBe(0);
+  });
+
+  it('moves and cancels the booked appointment once the user confirms', async () => {
+    const ctx = contexts.contexts.get(uuid)!;
+    const [appointmentId] = ctx.appointmentHistory![0].checkoutAppointments;
+    const appointment = () => fake.appointments.get(appointmentId)!;
+
+    expect((await say('When is my appointment?')).content).toBe(
+      'Your Classic HydraFacial is booked.',
+    );
+
+    const bookedAt = appointment().startAt;
+    expect((await say('Can you move it to next week?')).content).toMatch(
+      /^Just to confirm: move your Classic HydraFacial at Downtown on .+ to .+\? \(yes\/no\)$/,
+    );
+    expect(appointment().startAt).toBe(bookedAt);
+
+    expect((await say('Yes please')).content).toMatch(
+      /^Done — you're now booked for Classic HydraFacial at Downtown/,
+    );
+    expect(appointment().startAt).toBe(
+      zonedIso(RESCHEDULE_DATE, '11:30', 'America/Los_Angeles'),
+    );
+
+    expect((await say('Actually, cancel it')).content).toMatch(
+      /^Just to confirm: cancel your Classic HydraFacial/,
+    );
+    expect((await say('No, keep it')).content).toMatch(/^Okay, I've left your/);
+    expect(appointment().cancelled).toBe(false);
+
+    await say('Actually, cancel it');
+    expect((await say('yes')).content).toMatch(/is cancelled\.$/);
+    expect(appointment().cancelled).toBe(true);
+  });
+
+  it("does not let another user into the client's appointments", async () => {
+    const notifier = app.get<RecordingOtpNotifier>(OTP_NOTIFIER);
+    const lookups = () =>
+      fake.requests.filter((r) => r.field === 'myAppointments').length;
+    const before = lookups();
+    const sent = notifier.sent.length;
+    const strangerSays = async (chatInput: string, uuid = 'stranger') => {
+      const res = await request(app.getHttpServer())
+        .post('/chat')
+        .send({ chatInput, uuid })
+        .expect(201);
+      return res.body.reply.content;
+    };
+
+    await strangerSays('When is my appointment?');
+    // The code goes to Jane, not to whoever typed her email
+    await strangerSays('jane@example.com');
+    for (let i = 0; i < 4; i++) {
+      expect(await strangerSays('123456')).toMatch(/^That code doesn't match/);
+    }
+    expect(await strangerSays('123457')).toMatch(/too many times/);
+    expect(contexts.contexts.get('stranger')!.identity).toBeUndefined();
+
+    // Nor can they start over with a new code, to her or anyone else
+    await strangerSays('When is my appointment?');
+    expect(await strangerSays('jane@example.com')).toMatch(
+      /^Too many codes .* try again in an hour\.$/,
+    );
+    await strangerSays('When is my appointment?');
+    expect(await strangerSays('555 123 9999')).toMatch(/^Too many codes/);
+
+    // An unknown contact gets the same answer, but nothing is sent
+    await strangerSays('When is my appointment?', 'stranger-2');
+    expect(await strangerSays('555 123 9999', 'stranger-2')).toBe(
+      "If +15551239999 is on file with us, we've sent a 6-digit code there by text. What's the code?",
+    );
+
+    expect(notifier.sent).toHaveLength(sent + 1);
+    expect(lookups()).toBe(before);
+  });
+
+  it('only offers times the chosen staff member works and remembers them', async () => {
+    // Ana does not work the 4:30pm slot
+    expect((await say('Same again, with Ana this time')).content).toBe(
+      'Ana R. is free at 3 times',
+    );
+    const ctx = contexts.contexts.get(uuid)!;
+    expect(ctx.favoriteStaff).toEqual({
+      staffId: 'urn:blvd:Staff:staff-ana',
+      name: 'Ana R.',
+    });
+    expect(ctx.booking?.selectedItems).toEqual([
+      expect.objectContaining({
+        name: 'Classic HydraFacial',
+        staffVariantId: 'urn:blvd:Staff:staff-ana:variant',
+      }),
+    ]);
+
+    expect((await say('Who else is there?')).content).toBe(
+      'Would you like Ana R. again?',
+    );
+
+    // Any available clears the choice for this booking, not the favorite
+    expect((await say('Anyone is fine')).content).toBe(
+      'Any available is free at 4 times',
+    );
+    expect(ctx.booking?.selectedItems?.[0].staffVariantId).toBeNull();
+    expect(ctx.favoriteStaff?.name).toBe('Ana R.');
+  });
+});
+
+describe('Chat request validation (e2e)', () => {
+  let app: INestApplication;
+  let contexts: InMemoryUserContextService;
+
+  beforeAll(async () => {
+    contexts = new InMemoryUserContextService();
+    app = await createTestApp(new ScriptedLlmProvider(), contexts);
+  });
+
+  afterAll(async () => {
+    await app?.close();
+  });
+
+  it.each([
+    ['/chat', { chatInput: 'hi' }, 'uuid should not be empty'],
+    ['/chat', { chatInput: '', uuid: 'u1' }, 'chatInput should not be empty'],
+    ['/chat/stream', { chatInput: 'hi', uuid: 42 }, 'uuid must be a string'],
+    ['/chat/receive-token', { uuid: 'u1' }, 'token should not be empty'],
+    ['/chat/prompt-suggestions', {}, 'userContent must be a string'],
+  ])('rejects a malformed %s body with 400', async (path, body, message) => {
+    const res = await request(app.getHttpServer())
+      .post(path)
+      .send(body)
+      .expect(400);
+
+    expect(res.body).toMatchObject({
+      statusCode: 400,
+      error: 'Bad Request',
+      message: expect.arrayContaining([message]),
+    });
+    expect(contexts.contexts.size).toBe(0);
+  });
+
+  it('rejects a malformed stream query with 400', async () => {
+    await request(app.getHttpServer())
+      .get('/chat/stream')
+      .query({ chatInput: 'hi' })
+      .expect(400);
+  });
+});
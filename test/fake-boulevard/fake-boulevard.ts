@@ -0,0 +1,828 @@
+// test/fake-boulevard/fake-boulevard.ts
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from 'node:http';
+import { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import {
+  ADDONS,
+  CATEGORIES,
+  CLOSED_WEEKDAYS,
+  DAILY_START_TIMES,
+  findItem,
+  FixtureItem,
+  LOCAL_TZ,
+  LOCATIONS,
+  MEMBERSHIP_PLANS,
+  OFFERS,
+  OPTION_GROUPS,
+  STAFF,
+  STAFF_START_TIMES,
+} from './fixtures.js';
+import { todayIn } from '../../src/blvd/local-time.js';
+import { zonedIso } from '../zoned-time.js';
+
+/** One GraphQL request the fake received (for assertions). */
+export interface FakeBoulevardRequest {
+  api: 'client' | 'admin';
+  field: string;
+  variables: Record<string, any>;
+  authorization?: string;
+}
+
+interface SelectedItem {
+  id: string;
+  item: FixtureItem;
+  price: number;
+  optionIds: string[];
+  staffVariantId?: string;
+  guestId?: string;
+  giftCard?: Record<string, unknown>;
+}
+
+interface FakeGuest {
+  id: string;
+  label: string;
+  number: number;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  phoneNumber: string | null;
+}
+
+interface FakeCart {
+  id: string;
+  location: (typeof LOCATIONS)[number];
+  selectedItems: SelectedItem[];
+  guests: FakeGuest[];
+  bookableTimeId?: string;
+  clientInformation?: Record<string, string>;
+  offerCode?: string;
+  paymentToken?: string;
+  completedAt?: string;
+}
+
+interface FakeAppointment {
+  id: string;
+  clientId: string;
+  client: Record<string, string>;
+  location: (typeof LOCATIONS)[number];
+  item: FixtureItem;
+  price: number;
+  staffVariantId?: string;
+  startAt: string;
+  cancelled: boolean;
+}
+
+interface FakeClient {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string;
+  mobilePhone: string | null;
+}
+
+export interface FakeBoulevard {
+  // Set URL_CLIENT / URL_ADMIN to these
+  clientUrl: string;
+  adminUrl: string;
+  requests: FakeBoulevardRequest[];
+  carts: Map<string, FakeCart>;
+  appointments: Map<string, FakeAppointment>;
+  // Keyed by email
+  clients: Map<string, FakeClient>;
+  // Dates with every time taken: not bookable, no times
+  fullyBooked: Set<string>;
+  // Makes the next `field` request fail with `message`, as Boulevard would
+  failNext(field: string, message: string): void;
+  close(): Promise<void>;
+}
+
+class GraphQLError extends Error {}
+
+// `clientId` is who a CLIENT_AUTH request runs as
+type Resolver = (
+  variables: Record<string, any>,
+  auth: { clientId?: string },
+) => unknown;
+
+/**
+ * In-memory stand-in for Boulevard's Client and Admin GraphQL APIs.
+ *
+ * It does not parse GraphQL: requests are dispatched on the first root field
+ * of the document and resolvers return the whole object, which is a superset
+ * of every selection our MCP servers make. Carts live in memory for the
+ * lifetime of the server.
+ */
+export async function startFakeBoulevard(port = 0): Promise<FakeBoulevard> {
+  const requests: FakeBoulevardRequest[] = [];
+  const carts = new Map<string, FakeCart>();
+  const failures = new Map<string, string>();
+  const appointments = new Map<string, FakeAppointment>();
+  // One client per email, like Boulevard matches returning clients
+  const clients = new Map<string, FakeClient>();
+  const fullyBooked = new Set<string>();
+
+  const getCart = (id: string) => {
+    const cart = carts.get(id);
+    if (!cart) throw new GraphQLError(`Cart not found: ${id}`);
+    if (cart.completedAt)
+      throw new GraphQLError('Cart has already been checked out');
+    return cart;
+  };
+
+  const serviceOptions = OPTION_GROUPS.flatMap((g) => g.options);
+  const selectedOptions = (s: SelectedItem) =>
+    serviceOptions.filter((option) => s.optionIds.includes(option.id));
+
+  const bookableItems = (cart: FakeCart) =>
+    cart.selectedItems.filter((s) => s.item.kind === 'bookable');
+
+  const summary = (cart: FakeCart) => {
+    const subtotal = cart.selectedItems.reduce(
+      (sum, s) =>
+        sum +
+        s.price +
+        selectedOptions(s).reduce((a, option) => a + option.priceDelta, 0),
+      0,
+    );
+    const offer = cart.offerCode ? OFFERS[cart.offerCode] : undefined;
+    const discountAmount = offer
+      ? Math.round((subtotal * offer.percentOff) / 100)
+      : 0;
+    const total = subtotal - discountAmount;
+    return {
+      deposit: null,
+      depositAmount: 0,
+      discountAmount,
+      gratuityAmount: 0,
+      paymentMethodRequired: total > 0,
+      roundingAmount: 0,
+      subtotal,
+      taxAmount: 0,
+      total,
+    };
+  };
+
+  const staffVariant = (staff: (typeof STAFF)[number], price: number) => ({
+    id: `${staff.id}:variant`,
+    duration: 60,
+    price,
+    staff,
+  });
+
+  const findStaff = (staffVariantId: string | undefined) =>
+    STAFF.find((st) => `${st.id}:variant` === staffVariantId);
+
+  // A time is bookable when every staff member chosen in the cart works then
+  const staffWorks = (cart: FakeCart, time: string) =>
+    cart.selectedItems.every((s) => {
+      const staff = findStaff(s.staffVariantId);
+      return !staff || STAFF_START_TIMES[staff.id].includes(time);
+    });
+
+  const itemView = (item: FixtureItem) => ({
+    id: item.id,
+    name: item.name,
+    description: item.description,
+    disabled: false,
+    disabledDescription: null,
+    listPrice: item.listPrice,
+    listPriceRange: {
+      min: item.listPrice,
+      max: item.listPrice,
+      variable: item.kind === 'giftCard',
+    },
+    optionGroups: item.kind === 'bookable' ? OPTION_GROUPS : [],
+    staffVariants:
+      item.kind === 'bookable'
+        ? STAFF.map((staff) => staffVariant(staff, item.listPrice))
+        : [],
+    ...(item.pricePresets ? { pricePresets: item.pricePresets } : {}),
+  });
+
+  const cartView = (cart: FakeCart) => ({
+    id: cart.id,
+    clientMessage: null,
+    completedAt: cart.completedAt ?? null,
+    expiresAt: new Date(Date.now() + 30 * 60 * 1000).toISOString(),
+    startTime: startTime(cart.bookableTimeId),
+    startTimeId: cart.bookableTimeId ?? null,
+    features: {
+      bookingQuestionsEnabled: false,
+      giftCardPurchaseEnabled: true,
+      paymentInfoRequired: true,
+      serviceAddonsEnabled: true,
+    },
+    guests: cart.guests,
+    availableCategories: CATEGORIES.map((c) => ({
+      id: c.id,
+      name: c.name,
+      availableItems: c.items.map(itemView),
+    })),
+    selectedItems: cart.selectedItems.map((s) => {
+      const staff = findStaff(s.staffVariantId);
+      return {
+        id: s.id,
+        price: s.price,
+        lineTotal: s.price,
+        discountAmount: 0,
+        discountCode: null,
+        taxAmount: 0,
+        guestId: s.guestId ?? null,
+        guest: cart.guests.find((g) => g.id === s.guestId) ?? null,
+        selectedOptions: selectedOptions(s),
+        item: itemView(s.item),
+        addons: (s.item.kind === 'bookable' ? ADDONS : []).map(itemView),
+        selectedStaffVariant: staff ? staffVariant(staff, s.price) : null,
+        ...(s.giftCard ?? {}),
+      };
+    }),
+    summary: summary(cart),
+    bookingQuestions: [],
+    clientInformation: cart.clientInformation
+      ? { externalId: null, ...cart.clientInformation }
+      : null,
+    availablePaymentMethods: cart.paymentToken
+      ? [
+          {
+            __typename: 'CartItemCardPaymentMethod',
+            id: `urn:blvd:CartPaymentMethod:${cart.paymentToken}`,
+            name: 'Visa ending in 4242',
+            cardBrand: 'VISA',
+            cardExpMonth: 12,
+            cardExpYear: 2030,
+            cardHolder: 'Test Holder',
+            cardIsDefault: true,
+            cardLast4: '4242',
+          },
+        ]
+      : [],
+    location: cart.location,
+  });
+
+  const appointmentView = (a: FakeAppointment) => {
+    const staff = findStaff(a.staffVariantId);
+    const endAt = new Date(
+      Date.parse(a.startAt) + 60 * 60 * 1000,
+    ).toISOString();
+    return {
+      id: a.id,
+      startAt: a.startAt,
+      endAt,
+      cancelled: a.cancelled,
+      client: { id: a.clientId, ...a.client },
+      location: a.location,
+      appointmentServices: [
+        {
+          startAt: a.startAt,
+          endAt,
+          price: a.price,
+          serviceId: a.item.id,
+          service: {
+            id: a.item.id,
+            name: a.item.name,
+            description: a.item.description,
+            category: null,
+          },
+          staff: staff ? { ...staff, role: null } : null,
+        },
+      ],
+    };
+  };
+
+  const getAppointment = (id: string, clientId?: string) => {
+    const appointment = appointments.get(id);
+    if (!appointment || appointment.clientId !== clientId) {
+      throw new GraphQLError(`Appointment not found: ${id}`);
+    }
+    return appointment;
+  };
+
+  const getGuest = (cart: FakeCart, guestId: string) => {
+    const guest = cart.guests.find((g) => g.id === guestId);
+    if (!guest) throw new GraphQLError(`Guest not found: ${guestId}`);
+    return guest;
+  };
+
+  const addItem = (
+    cartId: string,
+    itemId: string,
+    price?: number,
+    guestId?: string,
+  ) => {
+    const cart = getCart(cartId);
+    if (guestId) getGuest(cart, guestId);
+    const item = findItem(itemId) ?? membershipItem(itemId);
+    if (!item) throw new GraphQLError(`Item not found: ${itemId}`);
+
+    // Add-on services are booked alongside a service of the same guest, as
+    // a selected item of their own
+    const forSameGuest = (s: SelectedItem) =>
+      (s.guestId ?? null) === (guestId ?? null);
+    if (item.kind === 'addon' && !bookableItems(cart).some(forSameGuest)) {
+      throw new GraphQLError(
+        `Add-on needs a service for the same guest: ${itemId}`,
+      );
+    }
+    cart.selectedItems.push({
+      id: `urn:blvd:CartSelectedItem:${randomUUID()}`,
+      item,
+      price: price ?? item.listPrice,
+      optionIds: [],
+      guestId,
+    });
+    return cart;
+  };
+
+  const resolvers: Record<string, Resolver> = {
+    locations: () => ({
+      edges: LOCATIONS.map((node) => ({ node })),
+    }),
+
+    // Only the `field = 'value'` filters our operations send
+    clients: ({ query }) => {
+      const [, field, value] =
+        /^(email|mobilePhone) = '([^']*)'$/.exec(query ?? '') ?? [];
+      if (!field) throw new GraphQLError(`Unsupported client query: ${query}`);
+      return {
+        edges: [...clients.values()]
+          .filter((c) => c[field] === value)
+          .map((node) => ({ node })),
+      };
+    },
+
+    membershipPlans: () => ({
+      edges: MEMBERSHIP_PLANS.map((node) => ({ node })),
+    }),
+
+    createCart: ({ input }) => {
+      const location = LOCATIONS.find((l) => l.id === input?.locationId);
+      if (!location)
+        throw new GraphQLError(`Location not found: ${input?.locationId}`);
+      const cart: FakeCart = {
+        id: `urn:blvd:Cart:${randomUUID()}`,
+        location,
+        selectedItems: [],
+        guests: [],
+      };
+      carts.set(cart.id, cart);
+      return { cart: cartView(cart) };
+    },
+
+    cart: ({ id }) => {
+      const cart = carts.get(id);
+      return cart ? cartView(cart) : null;
+    },
+
+    addCartSelectedBookableItem: ({ input }) => ({
+      cart: cartView(
+        addItem(input.id, input.itemId, undefined, input.itemGuestId),
+      ),
+    }),
+
+    createCartGuest: ({ input }) => {
+      const cart = getCart(input.id);
+      const number = cart.guests.length + 1;
+      const guest: FakeGuest = {
+        id: `urn:blvd:CartGuest:${randomUUID()}`,
+        label: `Guest ${number}`,
+        number,
+        firstName: input.firstName ?? null,
+        lastName: input.lastName ?? null,
+        email: input.email ?? null,
+        phoneNumber: input.phoneNumber ?? null,
+      };
+      cart.guests.push(guest);
+      return { guest, cart: cartView(cart) };
+    },
+
+    deleteCartGuest: ({ input }) => {
+      const cart = getCart(input.id);
+      getGuest(cart, input.guestId);
+      if (cart.selectedItems.some((s) => s.guestId === input.guestId)) {
+        throw new GraphQLError('Guest still has selected items');
+      }
+      cart.guests = cart.guests.filter((g) => g.id !== input.guestId);
+      return { cart: cartView(cart) };
+    },
+
+    addCartSelectedPurchasableItem: ({ input }) => ({
+      cart: cartView(addItem(input.id, input.itemId)),
+    }),
+
+    addCartSelectedGiftCardItem: ({ input }) => ({
+      cart: cartView(addItem(input.id, input.itemId, Number(input.itemPrice))),
+    }),
+
+    removeCartSelectedItem: ({ input }) => {
+      const cart = getCart(input.id);
+      // Only the selected item's own id, never the service it books
+      const removed = cart.selectedItems.find((s) => s.id === input.itemId);
+      if (!removed) throw new GraphQLError(`Item not in cart: ${input.itemId}`);
+      cart.selectedItems = cart.selectedItems.filter((s) => s !== removed);
+      return { cart: cartView(cart) };
+    },
+
+    cartBookableDates: ({ id, searchRangeLower, searchRangeUpper }) => {
+      const cart = getCart(id);
+      if (bookableItems(cart).length === 0) {
+        throw new GraphQLError('Cart has no bookable items');
+      }
+      return openDates(searchRangeLower, searchRangeUpper)
+        .filter((date) => !fullyBooked.has(date))
+        .map((date) => ({ date }));
+    },
+
+    cartBookableTimes: ({ id, searchDate }) => {
+      const cart = getCart(id);
+      if (bookableItems(cart).length === 0) {
+        throw new GraphQLError('Cart has no bookable items');
+      }
+      const date = String(searchDate ?? '').slice(0, 10);
+      if (!openDates(date, date).length || fullyBooked.has(date)) return [];
+      return DAILY_START_TIMES.flatMap((time, i) =>
+        staffWorks(cart, time)
+          ? [
+              {
+                id: bookableTimeId(date, time),
+                score: DAILY_START_TIMES.length - i,
+                startTime: zonedIso(date, time, LOCAL_TZ),
+              },
+            ]
+          : [],
+      );
+    },
+
+    reserveCartBookableItems: ({ input }) => {
+      const cart = getCart(input.id);
+      const time = parseBookableTimeId(input.bookableTimeId);
+      if (!time)
+        throw new GraphQLError(
+          `Bookable time not found: ${input.bookableTimeId}`,
+        );
+      if (!staffWorks(cart, time.time)) {
+        throw new GraphQLError(
+          `Bookable time not available: ${input.bookableTimeId}`,
+        );
+      }
+      cart.bookableTimeId = input.bookableTimeId;
+      return { cart: cartView(cart) };
+    },
+
+    cartBookableStaffVariants: ({ id, itemId, bookableTimeId }) => {
+      const cart = getCart(id);
+      const time = parseBookableTimeId(bookableTimeId);
+      if (!time)
+        throw new GraphQLError(`Bookable time not found: ${bookableTimeId}`);
+      const selected = cart.selectedItems.find(
+        (s) => s.id === itemId || s.item.id === itemId,
+      );
+      if (!selected) throw new GraphQLError(`Item not in cart: ${itemId}`);
+      return STAFF.filter((staff) =>
+        STAFF_START_TIMES[staff.id].includes(time.time),
+      ).map((staff) => staffVariant(staff, selected.price));
+    },
+
+    updateCartSelectedBookableItem: ({ input }) => {
+      const cart = getCart(input.id);
+      const selected = cart.selectedItems.find(
+        (s) => s.id === input.itemId || s.item.id === input.itemId,
+      );
+      if (!selected)
+        throw new GraphQLError(`Item not in cart: ${input.itemId}`);
+      // null clears the staff member: anyone available
+      if (input.itemStaffVariantId === null) {
+        selected.staffVariantId = undefined;
+      } else if (input.itemStaffVariantId) {
+        if (!findStaff(input.itemStaffVariantId)) {
+          throw new GraphQLError(
+            `Staff variant not found: ${input.itemStaffVariantId}`,
+          );
+        }
+        selected.staffVariantId = input.itemStaffVariantId;
+      }
+      if (input.itemOptionIds) {
+        const unknown = input.itemOptionIds.find(
+          (id: string) => !serviceOptions.some((option) => option.id === id),
+        );
+        if (unknown) throw new GraphQLError(`Option not found: ${unknown}`);
+        selected.optionIds = [...input.itemOptionIds];
+      }
+      if (input.itemGuestId) {
+        getGuest(cart, input.itemGuestId);
+        selected.guestId = input.itemGuestId;
+      }
+      return { cart: cartView(cart) };
+    },
+
+    updateCartGiftCardItemEmailFulfillment: ({ input }) => {
+      const cart = getCart(input.id);
+      const selected = cart.selectedItems.find(
+        (s) =>
+          s.item.kind === 'giftCard' &&
+          (s.id === input.itemId || s.item.id === input.itemId),
+      );
+      if (!selected)
+        throw new GraphQLError(`Gift card not in cart: ${input.itemId}`);
+      selected.giftCard = {
+        recipientEmail: input.recipientEmail,
+        recipientName: input.recipientName,
+        senderName: input.senderName,
+        deliveryDate: input.deliveryDate,
+      };
+      if (input.itemPrice) selected.price = Number(input.itemPrice);
+      return { cart: cartView(cart) };
+    },
+
+    updateCart: ({ input }) => {
+      const cart = getCart(input.id);
+      if (input.clientInformation) {
+        cart.clientInformation = { ...input.clientInformation };
+      }
+      return { cart: cartView(cart) };
+    },
+
+    addCartOffer: ({ input }) => {
+      const cart = getCart(input.id);
+      const code = String(input.offerCode ?? '').toUpperCase();
+      const offer = OFFERS[code];
+      if (!offer)
+        throw new GraphQLError(`Offer code not found: ${input.offerCode}`);
+      cart.offerCode = code;
+      return {
+        offer: { applied: true, code, id: offer.id, name: offer.name },
+        cart: cartView(cart),
+      };
+    },
+
+    addCartCardPaymentMethod: ({ input }) => {
+      const cart = getCart(input.id);
+      if (!input.token) throw new GraphQLError('Card token is required');
+      cart.paymentToken = input.token;
+      return { cart: cartView(cart) };
+    },
+
+    checkoutCart: ({ id, input }) => {
+      const cart = getCart(id ?? input?.id);
+      if (cart.selectedItems.length === 0)
+        throw new GraphQLError('Cart is empty');
+      if (!cart.clientInformation?.email) {
+        throw new GraphQLError('Client information is required');
+      }
+      if (bookableItems(cart).length && !cart.bookableTimeId) {
+        throw new GraphQLError('Cart has no reserved bookable time');
+      }
+      if (summary(cart).paymentMethodRequired && !cart.paymentToken) {
+        throw new GraphQLError('A payment method is required');
+      }
+
+      const { email, firstName, lastName, phoneNumber } =
+        cart.clientInformation;
+      const client: FakeClient = clients.get(email) ?? {
+        id: `urn:blvd:Client:${randomUUID()}`,
+        firstName: firstName ?? null,
+        lastName: lastName ?? null,
+        email,
+        mobilePhone: phoneNumber
+          ? `+1${phoneNumber.replace(/\D/g, '').slice(-10)}`
+          : null,
+      };
+      clients.set(email, client);
+      // Each guest becomes a client of their own
+      const guestClients = new Map(
+        cart.guests.map((g) => [g.id, `urn:blvd:Client:${randomUUID()}`]),
+      );
+
+      const booked = bookableItems(cart).map((s) => {
+        const guest = s.guestId ? getGuest(cart, s.guestId) : undefined;
+        const clientId = guest ? guestClients.get(guest.id)! : client.id;
+        const appointment: FakeAppointment = {
+          id: `urn:blvd:Appointment:${randomUUID()}`,
+          clientId,
+          client: guest
+            ? {
+                email: guest.email ?? '',
+                firstName: guest.firstName ?? '',
+                lastName: guest.lastName ?? '',
+              }
+            : cart.clientInformation!,
+          location: cart.location,
+          item: s.item,
+          price: s.price,
+          staffVariantId: s.staffVariantId,
+          startAt: startTime(cart.bookableTimeId)!,
+          cancelled: false,
+        };
+        appointments.set(appointment.id, appointment);
+        return {
+          appointmentId: appointment.id,
+          clientId,
+          forCartOwner: !guest,
+        };
+      });
+      const view = cartView(cart);
+      cart.completedAt = new Date().toISOString();
+
+      return {
+        appointments: booked,
+        cart: { ...view, completedAt: cart.completedAt },
+      };
+    },
+
+    myAppointments: (_, { clientId }) => ({
+      edges: [...appointments.values()]
+        .filter((a) => a.clientId === clientId)
+        .map((a) => ({ node: appointmentView(a) })),
+    }),
+
+    appointmentRescheduleAvailableTimes: ({ input }, { clientId }) => {
+      getAppointment(input.appointmentId, clientId);
+      const date = String(input.date ?? '').slice(0, 10);
+      if (!openDates(date, date).length) return { availableTimes: [] };
+      return {
+        availableTimes: DAILY_START_TIMES.map((time) => ({
+          bookableTimeId: bookableTimeId(date, time),
+          startTime: zonedIso(date, time, LOCAL_TZ),
+        })),
+      };
+    },
+
+    appointmentReschedule: ({ input }, { clientId }) => {
+      const appointment = getAppointment(input.appointmentId, clientId);
+      const startAt = startTime(input.bookableTimeId);
+      if (!startAt)
+        throw new GraphQLError(
+          `Bookable time not found: ${input.bookableTimeId}`,
+        );
+      appointment.startAt = startAt;
+      return { appointment: appointmentView(appointment) };
+    },
+
+    cancelAppointment: ({ input }, { clientId }) => {
+      const appointment = getAppointment(input.id, clientId);
+      if (appointment.cancelled)
+        throw new GraphQLError('Appointment is already cancelled');
+      appointment.cancelled = true;
+      return { appointment: appointmentView(appointment) };
+    },
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const api = req.url?.startsWith('/admin') ? 'admin' : 'client';
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== 'POST')
+      return send(405, { errors: [{ message: 'POST only' }] });
+    if (!req.headers.authorization?.startsWith('Basic ')) {
+      return send(401, {
+        errors: [{ message: 'Missing Basic authorization' }],
+      });
+    }
+
+    let body: { query?: string; variables?: Record<string, any> };
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      return send(400, { errors: [{ message: 'Invalid JSON body' }] });
+    }
+
+    const field = rootField(body.query ?? '');
+    const variables = body.variables ?? {};
+    requests.push({
+      api,
+      field,
+      variables,
+      authorization: req.headers.authorization,
+    });
+
+    const resolver = resolvers[field];
+    if (!resolver) {
+      return send(200, {
+        errors: [{ message: `Fake Boulevard does not support "${field}"` }],
+      });
+    }
+
+    try {
+      const failure = failures.get(field);
+      if (failure) {
+        failures.delete(field);
+        throw new GraphQLError(failure);
+      }
+      const auth = { clientId: clientAuthSubject(req.headers.authorization) };
+      send(200, { data: { [field]: resolver(variables, auth) } });
+    } catch (err: any) {
+      if (!(err instanceof GraphQLError)) throw err;
+      send(200, {
+        data: null,
+        errors: [{ message: err.message, path: [field] }],
+      });
+    }
+  };
+  const server: Server = createServer((req, res) => void handle(req, res));
+
+  await new Promise<void>((resolve) =>
+    server.listen(port, '127.0.0.1', resolve),
+  );
+  const { port: actualPort } = server.address() as AddressInfo;
+  const base = `http://127.0.0.1:${actualPort}`;
+
+  return {
+    clientUrl: `${base}/client`,
+    adminUrl: `${base}/admin`,
+    requests,
+    carts,
+    appointments,
+    clients,
+    fullyBooked,
+    failNext: (field, message) => failures.set(field, message),
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve())),
+      ),
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+// Client id signed into a CLIENT_AUTH header (see boulevard-auth.ts)
+function clientAuthSubject(authorization: string) {
+  const credentials = Buffer.from(
+    authorization.slice('Basic '.length),
+    'base64',
+  ).toString('utf8');
+  const uuid = '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}';
+  return new RegExp(`blvd-client-v1.*(urn:blvd:Client:${uuid})\\d+$`).exec(
+    credentials,
+  )?.[1];
+}
+
+// First field inside the operation's selection set, e.g. `createCart`
+function rootField(query: string): string {
+  const withoutComments = query.replace(/#[^\n]*/g, '');
+  return withoutComments.match(/\{\s*(\w+)/)?.[1] ?? '';
+}
+
+function membershipItem(itemId: string): FixtureItem | undefined {
+  const plan = MEMBERSHIP_PLANS.find((p) => p.id === itemId);
+  return (
+    plan && {
+      id: plan.id,
+      name: plan.name,
+      description: plan.description,
+      listPrice: plan.unitPrice,
+      kind: 'membership',
+    }
+  );
+}
+
+const toISODate = (d: Date) => d.toISOString().slice(0, 10);
+
+// Open days between the bounds (inclusive); the next two weeks by default
+function openDates(lower?: string, upper?: string): string[] {
+  const start = new Date(`${lower || todayIn(LOCAL_TZ)}T00:00:00Z`);
+  const end = upper
+    ? new Date(`${upper}T00:00:00Z`)
+    : new Date(start.getTime() + 13 * 86400000);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new GraphQLError('Invalid date range');
+  }
+
+  const dates: string[] = [];
+  for (let d = start; d <= end; d = new Date(d.getTime() + 86400000)) {
+    if (!CLOSED_WEEKDAYS.includes(d.getUTCDay())) dates.push(toISODate(d));
+  }
+  return dates;
+}
+
+function bookableTimeId(date: string, time: string) {
+  return `urn:blvd:BookableTime:${date}T${time}`;
+}
+
+function startTime(bookableTimeId?: string) {
+  const time = parseBookableTimeId(bookableTimeId);
+  return time ? zonedIso(time.date, time.time, LOCAL_TZ) : null;
+}
+
+function parseBookableTimeId(id?: string) {
+  const m = /^urn:blvd:BookableTime:(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})$/.exec(
+    id ?? '',
+  );
+  return m && openDates(m[1], m[1]).length && DAILY_START_TIMES.includes(m[2])
+    ? { date: m[1], time: m[2] }
+    : null;
+}
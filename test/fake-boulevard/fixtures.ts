@@ -0,0 +1,242 @@
+// test/fake-boulevard/fixtures.ts
+//
+// Catalogue served by the fake Boulevard API. IDs follow Boulevard's URN
+// format so code that pattern-matches on them behaves as in production.
+// Prices are in cents, like the real API.
+
+export const BUSINESS_NAME = 'Glow Test Spa';
+
+export const LOCATIONS = [
+  {
+    id: 'urn:blvd:Location:loc-downtown',
+    businessName: BUSINESS_NAME,
+    contactEmail: 'downtown@glow.test',
+    externalId: null,
+    allowOnlineBooking: true,
+    name: 'Downtown',
+    tz: 'America/Los_Angeles',
+    address: {
+      city: 'Los Angeles',
+      country: 'US',
+      line1: '100 Main St',
+      line2: null,
+      province: 'CA',
+      state: 'CA',
+      zip: '90012',
+    },
+  },
+  {
+    id: 'urn:blvd:Location:loc-beach',
+    businessName: BUSINESS_NAME,
+    contactEmail: 'beach@glow.test',
+    externalId: null,
+    allowOnlineBooking: true,
+    name: 'Beach',
+    tz: 'America/Los_Angeles',
+    address: {
+      city: 'Santa Monica',
+      country: 'US',
+      line1: '1 Ocean Ave',
+      line2: null,
+      province: 'CA',
+      state: 'CA',
+      zip: '90401',
+    },
+  },
+];
+
+export interface FixtureItem {
+  id: string;
+  name: string;
+  description: string;
+  listPrice: number;
+  kind: 'bookable' | 'addon' | 'giftCard' | 'membership' | 'product';
+  pricePresets?: number[];
+}
+
+export const ADDONS: FixtureItem[] = [
+  {
+    id: 'urn:blvd:Service:svc-led',
+    name: 'LED Light Therapy',
+    description: 'Add-on LED treatment',
+    listPrice: 2500,
+    kind: 'addon',
+  },
+  {
+    id: 'urn:blvd:Service:svc-mask',
+    name: 'Hydrating Mask',
+    description: 'Add-on mask',
+    listPrice: 1500,
+    kind: 'addon',
+  },
+];
+
+// Options every bookable service offers, chosen per service in the cart
+export const OPTION_GROUPS = [
+  {
+    id: 'urn:blvd:ServiceOptionGroup:grp-enhancements',
+    name: 'Enhancements',
+    description: null,
+    options: [
+      {
+        id: 'urn:blvd:ServiceOption:opt-extractions',
+        name: 'Extra Extractions',
+        description: null,
+        groupId: 'urn:blvd:ServiceOptionGroup:grp-enhancements',
+        durationDelta: 10,
+        priceDelta: 2000,
+      },
+      {
+        id: 'urn:blvd:ServiceOption:opt-lip',
+        name: 'Lip Treatment',
+        description: null,
+        groupId: 'urn:blvd:ServiceOptionGroup:grp-enhancements',
+        durationDelta: 5,
+        priceDelta: 1000,
+      },
+    ],
+  },
+];
+
+export const CATEGORIES: { id: string; name: string; items: FixtureItem[] }[] =
+  [
+    {
+      id: 'urn:blvd:ServiceCategory:cat-facials',
+      name: 'Facials',
+      items: [
+        {
+          id: 'urn:blvd:Service:svc-hydrafacial',
+          name: 'Classic HydraFacial',
+          description: '50 minute HydraFacial',
+          listPrice: 19900,
+          kind: 'bookable',
+        },
+        {
+          id: 'urn:blvd:Service:svc-signature',
+          name: 'Signature Facial',
+          description: '60 minute custom facial',
+          listPrice: 15000,
+          kind: 'bookable',
+        },
+      ],
+    },
+    {
+      id: 'urn:blvd:ServiceCategory:cat-massage',
+      name: 'Massage',
+      items: [
+        {
+          id: 'urn:blvd:Service:svc-swedish',
+          name: 'Swedish Massage',
+          description: '60 minute relaxation massage',
+          listPrice: 12000,
+          kind: 'bookable',
+        },
+      ],
+    },
+    {
+      id: 'urn:blvd:ServiceCategory:cat-addons',
+      name: 'Add-ons',
+      items: ADDONS,
+    },
+    {
+      id: 'urn:blvd:ServiceCategory:cat-giftcards',
+      name: 'Gift Cards',
+      items: [
+        {
+          id: 'urn:blvd:GiftCardDesign:gc-classic',
+          name: 'Gift Card',
+          description: 'Digital gift card',
+          listPrice: 5000,
+          kind: 'giftCard',
+          pricePresets: [5000, 10000, 20000],
+        },
+      ],
+    },
+    {
+      id: 'urn:blvd:ServiceCategory:cat-memberships',
+      name: 'Memberships',
+      items: [
+        {
+          id: 'urn:blvd:MembershipPlan:plan-monthly',
+          name: 'Monthly Glow',
+          description: 'One facial per month',
+          listPrice: 9900,
+          kind: 'membership',
+        },
+      ],
+    },
+  ];
+
+export const MEMBERSHIP_PLANS = [
+  {
+    id: 'urn:blvd:MembershipPlan:plan-monthly',
+    name: 'Monthly Glow',
+    active: true,
+    unitPrice: 9900,
+    description: 'One facial per month',
+    category: {
+      id: 'urn:blvd:ProductCategory:memberships',
+      name: 'Memberships',
+    },
+  },
+  {
+    id: 'urn:blvd:MembershipPlan:plan-vip',
+    name: 'VIP Glow',
+    active: true,
+    unitPrice: 19900,
+    description: 'Two treatments per month plus 10% off products',
+    category: {
+      id: 'urn:blvd:ProductCategory:memberships',
+      name: 'Memberships',
+    },
+  },
+];
+
+export const STAFF = [
+  {
+    id: 'urn:blvd:Staff:staff-ana',
+    displayName: 'Ana R.',
+    firstName: 'Ana',
+    lastName: 'Rivera',
+  },
+  {
+    id: 'urn:blvd:Staff:staff-ben',
+    displayName: 'Ben K.',
+    firstName: 'Ben',
+    lastName: 'Kim',
+  },
+];
+
+// Start times offered on every open day, in the location's local time
+export const DAILY_START_TIMES = ['10:00', '11:30', '14:00', '16:30'];
+
+// Daily start times each staff member works (Ana leaves early)
+export const STAFF_START_TIMES: Record<string, string[]> = {
+  'urn:blvd:Staff:staff-ana': ['10:00', '11:30', '14:00'],
+  'urn:blvd:Staff:staff-ben': DAILY_START_TIMES,
+};
+
+// Time zone of every fixture location, that start times are given in
+export const LOCAL_TZ = 'America/Los_Angeles';
+
+// Days of the week the spa is closed (0 = Sunday)
+export const CLOSED_WEEKDAYS = [0];
+
+export const OFFERS: Record<
+  string,
+  { id: string; name: string; percentOff: number }
+> = {
+  WELCOME10: {
+    id: 'urn:blvd:Offer:offer-welcome10',
+    name: '10% off your first visit',
+    percentOff: 10,
+  },
+};
+
+export function findItem(itemId: string): FixtureItem | undefined {
+  for (const category of CATEGORIES) {
+    const item = category.items.find((i) => i.id === itemId);
+    if (item) return item;
+  }
+  return undefined;
+}
@@ -0,0 +1,19 @@
+// test/fake-boulevard/main.ts
+//
+// Runs the fake Boulevard API on its own so the whole app can be used
+// offline: `npm run blvd:fake`, then start the app with the printed env.
+import { startFakeBoulevard } from './fake-boulevard.js';
+
+const port = Number(process.env.FAKE_BLVD_PORT) || 4100;
+const fake = await startFakeBoulevard(port);
+
+console.log(`🧪 Fake Boulevard listening — point the MCP servers at it with:
+URL_CLIENT=${fake.clientUrl}
+URL_ADMIN=${fake.adminUrl}
+BLVD_API_KEY=fake-key
+BLVD_BUSINESS_ID=fake-business
+BLVD_API_SECRET=ZmFrZS1zZWNyZXQ=`);
+
+const shutdown = () => void fake.close().finally(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,78 @@
+import {
+  FakeBoulevard,
+  startFakeBoulevard,
+} from './fake-boulevard/fake-boulevard.js';
+import { connectMcpServer, McpTestClient } from './mcp-server.js';
+
+describe('giftcard-purchase MCP server (e2e)', () => {
+  let fake: FakeBoulevard;
+  let mcp: McpTestClient;
+
+  beforeAll(async () => {
+    fake = await startFakeBoulevard();
+    mcp = await connectMcpServer('giftcard-purchase', fake);
+  });
+
+  afterAll(async () => {
+    await mcp?.close();
+    await fake?.close();
+  });
+
+  it('sells an emailed gift card from item lookup to checkout', async () => {
+    // The cart is created at LOCATION_ID
+    const created = await mcp.call('createGiftCardCart');
+    const cartId = created.createCart.cart.id;
+    expect(fake.carts.get(cartId)?.location.name).toBe('Downtown');
+
+    const item = await mcp.call('availableServicesGiftCard', { cartId });
+    expect(item.pricePresets).toEqual([5000, 10000, 20000]);
+
+    const added = await mcp.call('addGiftCardToCart', {
+      id: cartId,
+      itemId: item.id,
+      itemPrice: 10000,
+    });
+    const selected = added.addCartSelectedGiftCardItem.cart.selectedItems[0];
+    expect(selected.price).toBe(10000);
+
+    await mcp.call('updateGiftCardEmail', {
+      id: cartId,
+      itemId: selected.id,
+      itemPrice: '10000',
+      recipientEmail: 'friend@example.com',
+      recipientName: 'Friend',
+      senderName: 'Jane',
+      deliveryDate: '2030-01-02',
+    });
+    expect(fake.carts.get(cartId)!.selectedItems[0].giftCard).toMatchObject({
+      recipientEmail: 'friend@example.com',
+    });
+
+    await mcp.call('setClientOnCart', {
+      cartId,
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: 'jane@example.com',
+      phoneNumber: '+15555550100',
+    });
+
+    await mcp.call('addCartCardPaymentMethod', { cartId, token: 'tok_test' });
+    const checkout = await mcp.call('checkoutCart', { cartId });
+
+    expect(checkout.checkoutCart.cart.summary.total).toBe(10000);
+    expect(fake.carts.get(cartId)?.completedAt).toBeDefined();
+  });
+
+  it('rejects unknown promotion codes', async () => {
+    const created = await mcp.call('createGiftCardCart');
+    const cartId = created.createCart.cart.id;
+
+    const result: any = await mcp.client.callTool({
+      name: 'applyPromotionCode',
+      arguments: { cartId, offerCode: 'NOPE' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Offer code not found');
+  });
+});
@@ -0,0 +1,110 @@
+// test/in-memory-stores.ts
+import type { UserContext } from '../src/chat/user-context.js';
+import type { CheckoutRecord } from '../src/chat/checkout-ledger.service.js';
+import type { VerificationCount } from '../src/chat/identity/verification-limits.service.js';
+
+// Every call yields to the event loop, so concurrent conversations
+// interleave the way they do against Redis
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+// Same contract as the Redis store, kept in memory.
+export class InMemoryUserContextService {
+  readonly contexts = new Map<string, UserContext>();
+
+  async load(uuid: string): Promise<UserContext> {
+    await tick();
+    if (!this.contexts.has(uuid)) this.contexts.set(uuid, {});
+    return this.contexts.get(uuid)!;
+  }
+
+  async save(uuid: string, ctx: UserContext): Promise<void> {
+    await tick();
+    this.contexts.set(uuid, ctx);
+  }
+}
+
+// Same contract as the Redis checkout ledger, kept in memory.
+export class InMemoryCheckoutLedgerService {
+  readonly records = new Map<string, CheckoutRecord>();
+  readonly locks = new Map<string, string>();
+
+  async load(key: string): Promise<CheckoutRecord | null> {
+    await tick();
+    return this.records.get(key) ?? null;
+  }
+
+  async save(key: string, record: CheckoutRecord): Promise<void> {
+    await tick();
+    this.records.set(key, structuredClone(record));
+  }
+
+  acquireLock(key: string): Promise<string | null> {
+    if (this.locks.has(key)) return Promise.resolve(null);
+    const token = crypto.randomUUID();
+    this.locks.set(key, token);
+    return Promise.resolve(token);
+  }
+
+  releaseLock(key: string, token: string): Promise<void> {
+    if (this.locks.get(key) === token) this.locks.delete(key);
+    return Promise.resolve();
+  }
+}
+
+// Same contract as the Redis verification limits, kept in memory.
+export class InMemoryVerificationLimitsService {
+  readonly entries = new Map<
+    string,
+    Record<VerificationCount, number> & { expiresAt: number }
+  >();
+  readonly cooldowns = new Map<string, number>();
+
+  private live(key: string) {
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry : undefined;
+  }
+
+  async counts(keys: string[]): Promise<Record<VerificationCount, number>> {
+    await tick();
+    const live = keys.map((key) => this.live(key));
+    return {
+      sends: Math.max(0, ...live.map((e) => e?.sends ?? 0)),
+      failures: Math.max(0, ...live.map((e) => e?.failures ?? 0)),
+    };
+  }
+
+  async increment(
+    keys: string[],
+    count: VerificationCount,
+    windowMs: number,
+  ): Promise<number> {
+    await tick();
+    let highest = 0;
+    for (const key of keys) {
+      const entry = this.live(key) ?? { sends: 0, failures: 0, expiresAt: 0 };
+      entry[count] += 1;
+      entry.expiresAt = Date.now() + windowMs;
+      this.entries.set(key, entry);
+      highest = Math.max(highest, entry[count]);
+    }
+    return highest;
+  }
+
+  async startCooldown(keys: string[], ms: number): Promise<boolean> {
+    await tick();
+    let started = true;
+    for (const key of keys) {
+      if ((this.cooldowns.get(key) ?? 0) > Date.now()) started = false;
+      else this.cooldowns.set(key, Date.now() + ms);
+    }
+    return started;
+  }
+
+  async clear(keys: string[]): Promise<void> {
+    await tick();
+    for (const key of keys) {
+      this.entries.delete(key);
+      this.cooldowns.delete(key);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+// test/mcp-server.ts
+import { resolve } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { FakeBoulevard } from './fake-boulevard/fake-boulevard.js';
+
+export type McpServerName =
+  | 'appointment-booking'
+  | 'membership-booking'
+  | 'giftcard-purchase';
+
+/** Env that points an MCP server (or the app) at the fake Boulevard. */
+export function fakeBoulevardEnv(fake: FakeBoulevard): Record<string, string> {
+  return {
+    URL_CLIENT: fake.clientUrl,
+    URL_ADMIN: fake.adminUrl,
+    BLVD_API_KEY: 'fake-key',
+    BLVD_BUSINESS_ID: 'fake-business',
+    BLVD_API_SECRET: Buffer.from('fake-secret').toString('base64'),
+    LOCATION_ID: 'urn:blvd:Location:loc-downtown',
+  };
+}
+
+export interface McpTestClient {
+  // Calls a tool and JSON-parses its text output
+  call(name: string, args?: Record<string, unknown>): Promise<any>;
+  client: Client;
+  close(): Promise<void>;
+}
+
+/**
+ * Spawns a built MCP server (`npm run build` first; `test:e2e` does it) with
+ * its Boulevard env pointing at the fake.
+ */
+export async function connectMcpServer(
+  name: McpServerName,
+  fake: FakeBoulevard,
+): Promise<McpTestClient> {
+  const transport = new StdioClientTransport({
+    command: 'node',
+    args: [resolve('dist', `${name}.js`)],
+    env: fakeBoulevardEnv(fake),
+    // The servers log a lot to stderr; a full pipe would block them
+    stderr: 'ignore',
+  });
+
+  const client = new Client({ name: 'blvd-e2e', version: '1.0.0' });
+  await client.connect(transport);
+
+  return {
+    client,
+    async call(toolName, args = {}) {
+      const result: any = await client.callTool({
+        name: toolName,
+        arguments: args,
+      });
+      const text = result.content?.[0]?.text;
+      if (result.isError) throw new Error(text ?? `${toolName} failed`);
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    },
+    close: () => client.close(),
+  };
+}
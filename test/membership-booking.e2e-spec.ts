@@ -0,0 +1,92 @@
+import {
+  FakeBoulevard,
+  startFakeBoulevard,
+} from './fake-boulevard/fake-boulevard.js';
+import { connectMcpServer, McpTestClient } from './mcp-server.js';
+
+describe('membership-booking MCP server (e2e)', () => {
+  let fake: FakeBoulevard;
+  let mcp: McpTestClient;
+
+  beforeAll(async () => {
+    fake = await startFakeBoulevard();
+    mcp = await connectMcpServer('membership-booking', fake);
+  });
+
+  afterAll(async () => {
+    await mcp?.close();
+    await fake?.close();
+  });
+
+  it('sells a membership from plan list to checkout', async () => {
+    const { locations } = await mcp.call('getLocations');
+
+    const created = await mcp.call('createMembershipCart', {
+      locationId: locations[0].id,
+    });
+    const cartId = created.createCart.cart.id;
+
+    const plans = await mcp.call('getMembershipPlans');
+    expect(plans.map((p: any) => p.node.name)).toEqual([
+      'Monthly Glow',
+      'VIP Glow',
+    ]);
+    expect(fake.requests.find((r) => r.field === 'membershipPlans')?.api).toBe(
+      'admin',
+    );
+
+    await mcp.call('addMembershipToCart', {
+      id: cartId,
+      itemId: plans[1].node.id,
+    });
+
+    await mcp.call('setClientOnCart', {
+      cartId,
+      firstName: 'Sam',
+      lastName: 'Lee',
+      email: 'sam@example.com',
+      phoneNumber: '+15555550101',
+    });
+
+    const summary = await mcp.call('getCartSummary', { cartId });
+    expect(summary.summary.total).toBe(19900);
+
+    await mcp.call('addCartCardPaymentMethod', { cartId, token: 'tok_test' });
+    const checkout = await mcp.call('checkoutCart', { cartId });
+
+    // Memberships create no appointments
+    expect(checkout.checkoutCart.appointments).toEqual([]);
+    expect(fake.carts.get(cartId)?.completedAt).toBeDefined();
+  });
+
+  it('refuses to check out without a payment method', async () => {
+    const created = await mcp.call('createMembershipCart', {
+      locationId: 'urn:blvd:Location:loc-downtown',
+    });
+    const cartId = created.createCart.cart.id;
+
+    await mcp.call('addMembershipToCart', {
+      id: cartId,
+      itemId: 'urn:blvd:MembershipPlan:plan-monthly',
+    });
+    await mcp.call('setClientOnCart', {
+      cartId,
+      firstName: 'Sam',
+      lastName: 'Lee',
+      email: 'sam@example.com',
+      phoneNumber: '+15555550101',
+    });
+
+    const result: any = await mcp.client.callTool({
+      name: 'checkoutCart',
+      arguments: { cartId },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text).error).toEqual({
+      code: 'VALIDATION',
+      message: 'A payment method is required',
+      retryable: false,
+    });
+  });
+});
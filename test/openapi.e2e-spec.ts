@@ -0,0 +1,74 @@
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { createTestApp } from './test-app.js';
+import { setupOpenApi } from '../src/openapi.js';
+
+describe('OpenAPI document (e2e)', () => {
+  let app: INestApplication;
+  let doc: any;
+
+  beforeAll(async () => {
+    app = await createTestApp(undefined, undefined, undefined, setupOpenApi);
+    const res = await request(app.getHttpServer())
+      .get('/docs-json')
+      .expect(200);
+    doc = res.body;
+  });
+
+  afterAll(async () => {
+    await app?.close();
+  });
+
+  it('serves the UI at /docs', async () => {
+    const res = await request(app.getHttpServer()).get('/docs').expect(200);
+    expect(res.text).toContain('swagger-ui');
+  });
+
+  it('documents every chat route', () => {
+    expect(Object.keys(doc.paths)).toEqual(
+      expect.arrayContaining([
+        '/chat',
+        '/chat/stream',
+        '/chat/receive-token',
+        '/chat/prompt-suggestions',
+        '/admin/waitlist',
+      ]),
+    );
+    expect(
+      doc.paths['/chat'].post.requestBody.content['application/json'].schema,
+    ).toEqual({ $ref: '#/components/schemas/ChatMessageDto' });
+    expect(doc.components.schemas.ChatMessageDto.required).toEqual(
+      expect.arrayContaining(['chatInput', 'uuid']),
+    );
+  });
+
+  it('describes the frontendAction variants', () => {
+    const { ChatReply, FrontendAction } = doc.components.schemas;
+    expect(ChatReply.properties.frontendAction).toEqual({
+      $ref: '#/components/schemas/FrontendAction',
+    });
+    expect(FrontendAction.properties.type.enum).toEqual(['SHOW_PAY_BUTTON']);
+    expect(FrontendAction.required).toEqual(['type', 'checkoutUrl']);
+  });
+
+  it('lists the receipt and error responses of receive-token', () => {
+    const responses = doc.paths['/chat/receive-token'].post.responses;
+    expect(responses['201'].content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/CheckoutResponse',
+    });
+    expect(Object.keys(responses)).toEqual(
+      expect.arrayContaining(['201', '400', '401', '403', '409', '422', '502']),
+    );
+    expect(responses['409'].content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/ErrorResponse',
+    });
+    expect(
+      doc.components.schemas.CheckoutFailureResponse.properties.code.enum,
+    ).toEqual([
+      'CARD_DECLINED',
+      'SLOT_UNAVAILABLE',
+      'CART_EXPIRED',
+      'CHECKOUT_FAILED',
+    ]);
+  });
+});
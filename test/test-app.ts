@@ -0,0 +1,137 @@
+// test/test-app.ts
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { AppModule } from '../src/app.module.js';
+import { LLM_PROVIDER } from '../src/chat/llm/llm-provider.js';
+import { ScriptedLlmProvider } from '../src/chat/llm/scripted-llm.provider.js';
+import { UserContextService } from '../src/chat/user-context.service.js';
+import { CheckoutLedgerService } from '../src/chat/checkout-ledger.service.js';
+import {
+  OTP_NOTIFIER,
+  type OtpMessage,
+  type OtpNotifier,
+} from '../src/chat/identity/otp-notifier.js';
+import { VerificationLimitsService } from '../src/chat/identity/verification-limits.service.js';
+import { WaitlistService } from '../src/chat/waitlist/waitlist.service.js';
+import type {
+  WaitlistEntry,
+  WaitlistRequest,
+  WaitlistStatus,
+} from '../src/chat/waitlist/waitlist.js';
+import {
+  WAITLIST_NOTIFIER,
+  type WaitlistNotifier,
+  type WaitlistOpening,
+} from '../src/chat/waitlist/waitlist-notifier.js';
+import {
+  InMemoryCheckoutLedgerService,
+  InMemoryUserContextService,
+  InMemoryVerificationLimitsService,
+} from './in-memory-stores.js';
+
+// Same contract as the Redis waitlist, kept in memory.
+export class InMemoryWaitlistService {
+  readonly entries = new Map<string, WaitlistEntry>();
+  checkLock: string | null = null;
+
+  add(uuid: string, request: WaitlistRequest): Promise<WaitlistEntry> {
+    const entry: WaitlistEntry = {
+      ...request,
+      id: crypto.randomUUID(),
+      uuid,
+      status: 'waiting',
+      createdAt: new Date().toISOString(),
+    };
+    this.entries.set(entry.id, entry);
+    return Promise.resolve(structuredClone(entry));
+  }
+
+  save(entry: WaitlistEntry): Promise<void> {
+    this.entries.set(entry.id, structuredClone(entry));
+    return Promise.resolve();
+  }
+
+  list(status?: WaitlistStatus): Promise<WaitlistEntry[]> {
+    return Promise.resolve(
+      [...this.entries.values()]
+        .filter((entry) => !status || entry.status === status)
+        .map((entry) => structuredClone(entry)),
+    );
+  }
+
+  acquireCheckLock(): Promise<string | null> {
+    if (this.checkLock) return Promise.resolve(null);
+    this.checkLock = crypto.randomUUID();
+    return Promise.resolve(this.checkLock);
+  }
+
+  releaseCheckLock(token: string): Promise<void> {
+    if (this.checkLock === token) this.checkLock = null;
+    return Promise.resolve();
+  }
+}
+
+// Keeps waitlist openings for the test to read instead of sending them.
+export class RecordingWaitlistNotifier implements WaitlistNotifier {
+  readonly sent: WaitlistOpening[] = [];
+
+  notify(opening: WaitlistOpening): Promise<void> {
+    this.sent.push(opening);
+    return Promise.resolve();
+  }
+}
+
+// Keeps one-time codes for the test to read instead of sending them.
+export class RecordingOtpNotifier implements OtpNotifier {
+  readonly sent: OtpMessage[] = [];
+
+  send(message: OtpMessage): Promise<void> {
+    this.sent.push(message);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * The full app with no outside services: scripted LLM on the Responses
+ * orchestrator, in-memory conversation, checkout, verification limit and
+ * waitlist state (`app.get(WaitlistService)`), and one-time codes and
+ * waitlist openings recorded on `RecordingOtpNotifier` and
+ * `RecordingWaitlistNotifier` (`app.get(OTP_NOTIFIER)`,
+ * `app.get(WAITLIST_NOTIFIER)`). The waitlist is only re-checked when a test
+ * calls `WaitlistMonitorService.checkAll()`. MCP servers still run for real,
+ * so point them (and the client lookup) at the fake Boulevard through
+ * `process.env` first. `configure` runs before `init`, as `main.ts` would.
+ */
+export async function createTestApp(
+  llm = new ScriptedLlmProvider(),
+  contexts = new InMemoryUserContextService(),
+  checkouts = new InMemoryCheckoutLedgerService(),
+  configure?: (app: INestApplication) => void,
+): Promise<INestApplication> {
+  process.env.CHAT_ORCHESTRATOR = 'responses';
+  process.env.WAITLIST_CHECK_INTERVAL_SECONDS = '0';
+
+  const moduleFixture = await Test.createTestingModule({
+    imports: [AppModule],
+  })
+    .overrideProvider(LLM_PROVIDER)
+    .useValue(llm)
+    .overrideProvider(UserContextService)
+    .useValue(contexts)
+    .overrideProvider(CheckoutLedgerService)
+    .useValue(checkouts)
+    .overrideProvider(OTP_NOTIFIER)
+    .useValue(new RecordingOtpNotifier())
+    .overrideProvider(VerificationLimitsService)
+    .useValue(new InMemoryVerificationLimitsService())
+    .overrideProvider(WaitlistService)
+    .useValue(new InMemoryWaitlistService())
+    .overrideProvider(WAITLIST_NOTIFIER)
+    .useValue(new RecordingWaitlistNotifier())
+    .compile();
+
+  const app = moduleFixture.createNestApplication({ logger: false });
+  configure?.(app);
+  await app.init();
+  return app;
+}
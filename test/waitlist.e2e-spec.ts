@@ -0,0 +1,273 @@
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import {
+  FakeBoulevard,
+  startFakeBoulevard,
+} from './fake-boulevard/fake-boulevard.js';
+import { fakeBoulevardEnv } from './mcp-server.js';
+import { InMemoryUserContextService } from './in-memory-stores.js';
+import {
+  createTestApp,
+  InMemoryWaitlistService,
+  RecordingWaitlistNotifier,
+} from './test-app.js';
+import { ScriptedLlmProvider } from '../src/chat/llm/scripted-llm.provider.js';
+import { addDays, todayIn } from '../src/blvd/local-time.js';
+import { zonedIso } from './zoned-time.js';
+import { WaitlistService } from '../src/chat/waitlist/waitlist.service.js';
+import { WAITLIST_NOTIFIER } from '../src/chat/waitlist/waitlist-notifier.js';
+import { WaitlistMonitorService } from '../src/chat/waitlist/waitlist-monitor.service.js';
+
+const DOWNTOWN = 'urn:blvd:Location:loc-downtown';
+const HYDRAFACIAL = 'urn:blvd:Service:svc-hydrafacial';
+const TZ = 'America/Los_Angeles';
+const ADMIN_KEY = 'test-admin-key';
+
+// The cart id is filled in by ChatService from the conversation context
+const CART = { cartId: 'from-context' };
+
+const waitlistScript = () =>
+  new ScriptedLlmProvider([
+    {
+      when: 'hydrafacial downtown',
+      rounds: [
+        [
+          {
+            name: 'createAppointmentCart',
+            arguments: { locationId: DOWNTOWN },
+          },
+        ],
+        [
+          {
+            name: 'addServiceToCart',
+            arguments: { ...CART, serviceId: HYDRAFACIAL },
+          },
+        ],
+      ],
+      reply: 'Which day?',
+    },
+    {
+      when: 'sometime next week',
+      rounds: [
+        [{ name: 'resolveDateRange', arguments: { inputText: 'tomorrow' } }],
+        [{ name: 'cartBookableTimes', arguments: CART }],
+      ],
+      reply: (o) =>
+        o.cartBookableTimes.days.length
+          ? 'Here are the times'
+          : 'Nothing is free then. Shall I put you on the waitlist?',
+    },
+    {
+      when: 'waitlist me',
+      rounds: [
+        [
+          {
+            name: 'joinWaitlist',
+            arguments: { ...CART, name: 'Mia', email: 'Mia@Example.com' },
+          },
+        ],
+      ],
+      reply: (o) =>
+        o.joinWaitlist.status === 'waitlisted'
+          ? `You're on the waitlist from ${o.joinWaitlist.dateFrom} to ${o.joinWaitlist.dateTo}`
+          : 'Could not add you',
+    },
+  ]);
+
+describe('Waitlist (e2e)', () => {
+  let fake: FakeBoulevard;
+  let app: INestApplication;
+  let contexts: InMemoryUserContextService;
+  let waitlist: InMemoryWaitlistService;
+  let notifier: RecordingWaitlistNotifier;
+  const uuid = 'waitlist-user';
+  const tomorrow = addDays(todayIn(TZ), 1);
+
+  const say = async (chatInput: string) => {
+    const res = await request(app.getHttpServer())
+      .post('/chat')
+      .send({ chatInput, sessionId: 'waitlist-session', uuid })
+      .expect(201);
+    return res.body.reply.content;
+  };
+  const admin = (query = '') =>
+    request(app.getHttpServer()).get(`/admin/waitlist${query}`);
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    fake = await startFakeBoulevard();
+    Object.assign(process.env, fakeBoulevardEnv(fake), {
+      ADMIN_API_KEY: ADMIN_KEY,
+    });
+
+    contexts = new InMemoryUserContextService();
+    app = await createTestApp(waitlistScript(), contexts);
+    waitlist = app.get(WaitlistService);
+    notifier = app.get(WAITLIST_NOTIFIER);
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    await fake?.close();
+    delete process.env.ADMIN_API_KEY;
+    jest.restoreAllMocks();
+  });
+
+  it('puts the user on the waitlist when nothing is free and tells them once a time opens', async () => {
+    // Booked up all week
+    for (let i = 0; i <= 7; i++) fake.fullyBooked.add(addDays(tomorrow, i));
+
+    expect(await say('Book a HydraFacial downtown please')).toBe('Which day?');
+    expect(await say('Sometime next week')).toBe(
+      'Nothing is free then. Shall I put you on the waitlist?',
+    );
+    expect(await say('Yes, waitlist me')).toBe(
+      `You're on the waitlist from ${tomorrow} to ${addDays(tomorrow, 7)}`,
+    );
+
+    // Kept on the conversation and in the store alike
+    const joined = {
+      locationId: DOWNTOWN,
+      locationName: 'Downtown',
+      timeZone: TZ,
+      serviceId: HYDRAFACIAL,
+      serviceName: 'Classic HydraFacial',
+      dateFrom: tomorrow,
+      dateTo: addDays(tomorrow, 7),
+      contact: { name: 'Mia', email: 'mia@example.com' },
+    };
+    expect(contexts.contexts.get(uuid)!.waitlist).toEqual([
+      { entryId: expect.any(String), ...joined },
+    ]);
+    const [entry] = await waitlist.list();
+    expect(entry).toEqual({
+      ...joined,
+      id: contexts.contexts.get(uuid)!.waitlist![0].entryId,
+      uuid,
+      status: 'waiting',
+      createdAt: expect.any(String),
+    });
+
+    const monitor = app.get(WaitlistMonitorService);
+    await monitor.checkAll();
+    expect(notifier.sent).toEqual([]);
+
+    // Someone cancels
+    const opened = addDays(tomorrow, 3);
+    fake.fullyBooked.delete(opened);
+    await monitor.checkAll();
+    await monitor.checkAll();
+
+    const slot = {
+      date: opened,
+      time: '10:00',
+      label: expect.stringMatching(/, 10:00 AM P[SD]T$/),
+      startTime: zonedIso(opened, '10:00', TZ),
+    };
+    expect(notifier.sent).toEqual([
+      { entry: expect.objectContaining({ id: entry.id }), slot },
+    ]);
+    expect((await waitlist.list())[0]).toMatchObject({
+      status: 'notified',
+      notifiedAt: expect.any(String),
+      opening: slot,
+    });
+  });
+
+  it('only tells about times in the window and expires past entries', async () => {
+    fake.fullyBooked.clear();
+    const request = {
+      locationId: DOWNTOWN,
+      locationName: 'Downtown',
+      timeZone: TZ,
+      serviceId: HYDRAFACIAL,
+      serviceName: 'Classic HydraFacial',
+      contact: { phone: '+14155550123' },
+    };
+    const evening = await waitlist.add('evening-user', {
+      ...request,
+      dateFrom: tomorrow,
+      dateTo: addDays(tomorrow, 7),
+      timeWindow: { earliest: '17:00' },
+    });
+    const past = await waitlist.add('past-user', {
+      ...request,
+      dateFrom: addDays(tomorrow, -9),
+      dateTo: addDays(tomorrow, -2),
+    });
+    notifier.sent.length = 0;
+
+    await app.get(WaitlistMonitorService).checkAll();
+
+    expect(notifier.sent).toEqual([]);
+    const byId = new Map((await waitlist.list()).map((e) => [e.id, e]));
+    expect(byId.get(evening.id)?.status).toBe('waiting');
+    expect(byId.get(past.id)?.status).toBe('expired');
+  });
+
+  it('keeps one cart per service and location until it expires', async () => {
+    const carts = () =>
+      fake.requests.filter((r) => r.field === 'createCart').length;
+    const monitor = app.get(WaitlistMonitorService);
+    await monitor.checkAll();
+    const before = carts();
+
+    await monitor.checkAll();
+    await monitor.checkAll();
+    expect(carts()).toBe(before);
+
+    // Half an hour on, the cart has expired
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 30 * 60 * 1000);
+    try {
+      await monitor.checkAll();
+    } finally {
+      jest.mocked(Date.now).mockRestore();
+    }
+    expect(carts()).toBe(before + 1);
+    expect(notifier.sent).toEqual([]);
+  });
+
+  it('leaves the check to the instance holding the lock', async () => {
+    const checks = () =>
+      fake.requests.filter((r) => r.field === 'cartBookableDates').length;
+    const before = checks();
+
+    // As if another instance were mid-pass
+    const token = (await waitlist.acquireCheckLock())!;
+    await app.get(WaitlistMonitorService).checkAll();
+    expect(checks()).toBe(before);
+
+    await waitlist.releaseCheckLock(token);
+    await app.get(WaitlistMonitorService).checkAll();
+    expect(checks()).toBe(before + 1);
+  });
+
+  it('lists entries for admins only', async () => {
+    delete process.env.ADMIN_API_KEY;
+    await admin().set('x-admin-key', ADMIN_KEY).expect(403);
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+
+    await admin().expect(401);
+    await admin().set('x-admin-key', 'wrong').expect(401);
+
+    const all = await admin().set('x-admin-key', ADMIN_KEY).expect(200);
+    expect(all.body.map((e: any) => e.uuid)).toEqual([
+      uuid,
+      'evening-user',
+      'past-user',
+    ]);
+
+    const waiting = await admin('?status=waiting')
+      .set('x-admin-key', ADMIN_KEY)
+      .expect(200);
+    expect(waiting.body).toEqual([
+      expect.objectContaining({
+        uuid: 'evening-user',
+        timeWindow: { earliest: '17:00' },
+      }),
+    ]);
+
+    await admin('?status=lost').set('x-admin-key', ADMIN_KEY).expect(400);
+  });
+});
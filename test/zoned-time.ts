@@ -0,0 +1,32 @@
+// test/zoned-time.ts
+
+// Minutes `tz` is ahead of UTC at `instant`
+function utcOffsetMinutes(instant: Date, tz: string): number {
+  const name = new Intl.DateTimeFormat('en-US', {
+    timeZone: tz,
+    timeZoneName: 'longOffset',
+  })
+    .formatToParts(instant)
+    .find((p) => p.type === 'timeZoneName')!.value;
+  // "GMT-07:00", or just "GMT" at UTC
+  const [, sign, hh, mm] = /GMT(?:([+-])(\d{2}):(\d{2}))?/.exec(name)!;
+  return sign ? (sign === '-' ? -1 : 1) * (Number(hh) * 60 + Number(mm)) : 0;
+}
+
+/**
+ * ISO 8601 instant for a wall-clock time at the location, with its offset,
+ * the way Boulevard writes bookable times.
+ */
+export function zonedIso(date: string, time: string, tz: string): string {
+  const asUtc = new Date(`${date}T${time}:00Z`);
+  // The offset at the guessed instant is right except across a DST change
+  const guess = utcOffsetMinutes(asUtc, tz);
+  const offset = utcOffsetMinutes(
+    new Date(asUtc.getTime() - guess * 60000),
+    tz,
+  );
+  const abs = Math.abs(offset);
+  const hh = String(Math.floor(abs / 60)).padStart(2, '0');
+  const mm = String(abs % 60).padStart(2, '0');
+  return `${date}T${time}:00${offset < 0 ? '-' : '+'}${hh}:${mm}`;
+}